@@ -1,4 +1,10 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, {
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  useRef,
+} from 'react';
 import { StatusBar } from 'expo-status-bar';
 import {
   StyleSheet,
@@ -7,6 +13,7 @@ import {
   Dimensions,
   TouchableOpacity,
   Platform,
+  AppState as RNAppState,
 } from 'react-native';
 import {
   PaperProvider,
@@ -21,6 +28,12 @@ import { AnimatedClockButton } from './src/components/AnimatedClockButton';
 import { ErrorBoundary } from './src/components/ErrorBoundary';
 import SessionsHistoryScreen from './src/components/SessionsHistoryScreen';
 import SettingsPage from './src/components/SettingsPage';
+import AnalyticsScreen from './src/components/AnalyticsScreen';
+import SessionConflictModal from './src/components/SessionConflictModal';
+import ClockOutDialog from './src/components/ClockOutDialog';
+import StaleClockInDialog from './src/components/StaleClockInDialog';
+import EditClockInDialog from './src/components/EditClockInDialog';
+import GoalProgressRings from './src/components/GoalProgressRings';
 import { SessionDialog } from './src/components';
 import {
   loadStoredData,
@@ -28,12 +41,56 @@ import {
   batchSaveClockOutData,
   saveSession,
 } from './src/utils/storage';
-import { AppState, SessionObject} from './src/types';
-import { calculateHours } from './src/utils/timeUtils';
+import {
+  AppState,
+  BreakInterval,
+  ConflictResolution,
+  SessionConflict,
+  SessionNotes,
+  SessionObject,
+} from './src/types';
+import { calculateHours, clipBreaks, formatTime } from './src/utils/timeUtils';
+import {
+  getClockInZone,
+  getSessionDate,
+  getTimeZoneStamp,
+} from './src/utils/timeZone';
+import { getTagTotals } from './src/utils/sessionFilters';
+import {
+  getSuggestedClockOutTime,
+  getTypicalSessionHours,
+  isClockInStale,
+} from './src/utils/staleClockIn';
+import { loadStaleClockInHours } from './src/utils/staleClockInStorage';
+import {
+  getClockInTimeError,
+  getPreviousSessionEnd,
+} from './src/utils/clockInEdit';
+import { planReminders } from './src/utils/reminders';
+import {
+  formatGoalProgress,
+  getGoalFraction,
+  getGoalProgress,
+  planGoalReminders,
+} from './src/utils/goals';
+import { syncScheduledReminders } from './src/utils/notifications';
 import {
   SessionsProvider,
   useSessionsContext,
 } from './src/contexts/SessionsContext';
+import {
+  ProjectsProvider,
+  useProjectsContext,
+} from './src/contexts/ProjectsContext';
+import {
+  CalendarProvider,
+  useCalendarContext,
+} from './src/contexts/CalendarContext';
+import { GoalsProvider, useGoalsContext } from './src/contexts/GoalsContext';
+import {
+  RemindersProvider,
+  useRemindersContext,
+} from './src/contexts/RemindersContext';
 import AnalogClock from './src/components/AnalogClock';
 import { Ionicons } from '@expo/vector-icons';
 import { BlurView } from 'expo-blur';
@@ -43,6 +100,12 @@ const { width } = Dimensions.get('window');
 const MAIN_TABS = [
   { id: 'home', icon: 'home-outline', activeIcon: 'home', label: 'Home' },
   { id: 'history', icon: 'time-outline', activeIcon: 'time', label: 'History' },
+  {
+    id: 'analytics',
+    icon: 'bar-chart-outline',
+    activeIcon: 'bar-chart',
+    label: 'Analytics',
+  },
   {
     id: 'settings',
     icon: 'settings-outline',
@@ -175,10 +238,22 @@ const BottomTab: React.FC<BottomTabProps> = ({
 function AppContent() {
   // Local state for clocked in/out and navigation only
   const [state, setState] = useState<
-    Pick<AppState, 'isClocked' | 'clockInTime' | 'loading' | 'navigation'>
+    Pick<
+      AppState,
+      | 'isClocked'
+      | 'clockInTime'
+      | 'projectId'
+      | 'breaks'
+      | 'clockInZone'
+      | 'loading'
+      | 'navigation'
+    >
   >({
     isClocked: false,
     clockInTime: null,
+    projectId: null,
+    breaks: [],
+    clockInZone: null,
     loading: true,
     navigation: {
       currentScreen: 'main',
@@ -191,8 +266,91 @@ function AppContent() {
   // Manual session dialog state
   const [showSessionDialog, setShowSessionDialog] = useState(false);
 
+  // Note and tag prompt shown before clocking out
+  const [showClockOutDialog, setShowClockOutDialog] = useState(false);
+
+  // Correction of the running session's clock-in time
+  const [showEditClockInDialog, setShowEditClockInDialog] = useState(false);
+
+  // Clock-in that has run past the forgotten clock-out threshold
+  const [staleClockIn, setStaleClockIn] = useState<{
+    clockInTime: Date;
+    suggestedClockOutTime: Date;
+  } | null>(null);
+
+  // Clock-in the user chose to keep running, so they aren't asked again
+  const keptClockInRef = useRef<string | null>(null);
+
   // Use sessions context for session management
-  const { sessions, addSession, refreshSessions } = useSessionsContext();
+  const { sessions, addSession, removeSessions, refreshSessions } =
+    useSessionsContext();
+
+  // Tags already in use, most used first, offered when tagging sessions
+  const tagSuggestions = useMemo(
+    () => getTagTotals(sessions).map(({ tag }) => tag),
+    [sessions]
+  );
+
+  // Reminder settings from Settings; changes reschedule notifications
+  const { settings: reminderSettings, loading: remindersLoading } =
+    useRemindersContext();
+
+  // Daily and weekly hour goals shown on the home screen
+  const { goals, loading: goalsLoading } = useGoalsContext();
+  const { preferences } = useCalendarContext();
+
+  // Ticks every minute while clocked in so the running session's share of
+  // the goal progress stays current
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    setNow(new Date());
+    if (!state.isClocked) {
+      return;
+    }
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, [state.isClocked, state.clockInTime, state.breaks, sessions]);
+
+  const goalProgress = useMemo(
+    () =>
+      getGoalProgress(
+        sessions,
+        state.isClocked ? state.clockInTime : null,
+        state.breaks,
+        now,
+        preferences.weekStartsOn
+      ),
+    [
+      sessions,
+      state.isClocked,
+      state.clockInTime,
+      state.breaks,
+      now,
+      preferences.weekStartsOn,
+    ]
+  );
+
+  // The running session can't be moved back past the one before it
+  const previousSessionEnd = useMemo(
+    () =>
+      state.clockInTime
+        ? getPreviousSessionEnd(sessions, state.clockInTime)
+        : null,
+    [sessions, state.clockInTime]
+  );
+
+  // Session waiting for the user to resolve its overlaps
+  const [pendingConflict, setPendingConflict] = useState<{
+    session: SessionObject;
+    conflicts: SessionConflict[];
+    source: 'manual' | 'clockOut';
+  } | null>(null);
+
+  // Projects offered at clock-in; the selection is kept between sessions
+  const { projects, getProjectById } = useProjectsContext();
+  const [selectedProjectId, setSelectedProjectId] = useState<string | null>(
+    null
+  );
 
   // Notification state for user feedback
   // Used to show success/error messages via Snackbar component
@@ -223,6 +381,39 @@ function AppContent() {
     []
   );
 
+  /**
+   * Ask about the running session when it has gone on for longer than
+   * the forgotten clock-out threshold
+   * @param clockInTime - Start of the running session, null when clocked out
+   * @param history - Stored sessions, used to suggest when work stopped
+   */
+  const checkStaleClockIn = useCallback(
+    async (clockInTime: Date | null, history: SessionObject[]) => {
+      if (
+        !clockInTime ||
+        keptClockInRef.current === clockInTime.toISOString()
+      ) {
+        return;
+      }
+
+      const thresholdHours = await loadStaleClockInHours();
+      if (isClockInStale(clockInTime, thresholdHours)) {
+        // Keep the dialog's picked time if it is already open
+        setStaleClockIn(
+          (current) =>
+            current ?? {
+              clockInTime,
+              suggestedClockOutTime: getSuggestedClockOutTime(
+                clockInTime,
+                getTypicalSessionHours(history)
+              ),
+            }
+        );
+      }
+    },
+    []
+  );
+
   const initializeApp = async () => {
     try {
       const [dataResult] = await Promise.all([
@@ -237,6 +428,9 @@ function AppContent() {
         clockInTime: clockState.clockInTime
           ? new Date(clockState.clockInTime)
           : null,
+        projectId: clockState.projectId ?? null,
+        breaks: clockState.breaks ?? [],
+        clockInZone: getClockInZone(clockState),
         loading: false,
         navigation: {
           currentScreen: 'main',
@@ -244,6 +438,13 @@ function AppContent() {
       });
       // Refresh context sessions from storage
       refreshSessions();
+
+      await checkStaleClockIn(
+        clockState.isClocked && clockState.clockInTime
+          ? new Date(clockState.clockInTime)
+          : null,
+        sessions
+      );
     } catch (error) {
       console.error('Failed to initialize app:', error);
 
@@ -256,6 +457,9 @@ function AppContent() {
       setState({
         isClocked: false,
         clockInTime: null,
+        projectId: null,
+        breaks: [],
+        clockInZone: null,
         loading: false,
         navigation: {
           currentScreen: 'main',
@@ -264,9 +468,29 @@ function AppContent() {
     }
   };
 
+  /**
+   * Reload the clock state after Settings clears or restores app data,
+   * so the home screen matches storage without a restart
+   */
+  const handleDataReset = useCallback(async () => {
+    const { clockState } = await loadStoredData();
+    setSelectedProjectId(null);
+    setState((prevState) => ({
+      ...prevState,
+      isClocked: clockState.isClocked,
+      clockInTime: clockState.clockInTime
+        ? new Date(clockState.clockInTime)
+        : null,
+      projectId: clockState.projectId ?? null,
+      breaks: clockState.breaks ?? [],
+      clockInZone: getClockInZone(clockState),
+    }));
+  }, []);
+
   const handleClockIn = useCallback(async () => {
     try {
       const clockInTime = new Date();
+      const clockInZone = getTimeZoneStamp(clockInTime);
 
       // Set loading state immediately for user feedback
       // This shows the loading spinner and disables buttons
@@ -284,6 +508,8 @@ function AppContent() {
       await saveCurrentState({
         isClocked: true,
         clockInTime: clockInTime.toISOString(),
+        ...(selectedProjectId ? { projectId: selectedProjectId } : {}),
+        ...clockInZone,
       });
 
       // Update component state when user clocks in successfully
@@ -291,6 +517,9 @@ function AppContent() {
         ...prevState,
         isClocked: true,
         clockInTime,
+        projectId: selectedProjectId,
+        breaks: [],
+        clockInZone,
         loading: false,
       }));
 
@@ -304,6 +533,9 @@ function AppContent() {
         ...prevState,
         isClocked: false,
         clockInTime: null,
+        projectId: null,
+        breaks: [],
+        clockInZone: null,
         loading: false,
       }));
 
@@ -314,88 +546,358 @@ function AppContent() {
         'error'
       );
     }
-  }, [showNotification]);
+  }, [selectedProjectId, showNotification]);
+
+  /**
+   * Save the finished session and clock out. When the session overlaps
+   * stored sessions the user is asked how to resolve it first.
+   */
+  const completeClockOut = useCallback(
+    async (session: SessionObject, resolution?: ConflictResolution) => {
+      try {
+        // Set loading state to show user feedback
+        setState((prevState) => ({
+          ...prevState,
+          loading: true,
+        }));
+
+        await new Promise((resolve) => setTimeout(resolve, 500));
+
+        // Use batch operation for better performance - saves both session and clock state atomically
+        const result = await batchSaveClockOutData(
+          { isClocked: false, clockInTime: null },
+          session,
+          resolution
+        );
+
+        if (!resolution && result.conflicts.length > 0) {
+          // Stay clocked in until the user picks a resolution
+          setState((prevState) => ({
+            ...prevState,
+            loading: false,
+          }));
+          setPendingConflict({
+            session,
+            conflicts: result.conflicts,
+            source: 'clockOut',
+          });
+          return;
+        }
+
+        // Update UI - reset clock state and add session to history
+        setState((prevState) => ({
+          ...prevState,
+          isClocked: false,
+          clockInTime: null,
+          projectId: null,
+          breaks: [],
+          clockInZone: null,
+          loading: false,
+        }));
+        // Add session to context
+        removeSessions(result.removedIds);
+        if (result.saved) {
+          addSession(result.saved);
+        }
+
+        // Show success feedback with session details
+        showNotification(
+          result.saved
+            ? `Successfully clocked out! Worked ${result.saved.hours.toFixed(2)} hours.`
+            : 'Clocked out. The session was already covered by existing sessions.',
+          'success'
+        );
+      } catch (error) {
+        console.error('Failed to clock out:', error);
+
+        // Remove loading state on error, but keep clocked-in state
+        // This allows user to try clocking out again
+        setState((prevState) => ({
+          ...prevState,
+          loading: false,
+        }));
+
+        // Show user-friendly error message
+        showNotification(
+          'Failed to save work session. You can try clocking out again.',
+          'error'
+        );
+      }
+    },
+    [addSession, removeSessions, showNotification]
+  );
 
   /**
    * Handle clock-out functionality
+   * @param notes - Note and tags entered at clock-out
+   * @param clockOutTime - When work stopped; earlier than now when a
+   *   forgotten clock-out is fixed
    */
-  const handleClockOut = useCallback(async () => {
-    // Validate that user is currently clocked in
-    if (!state.isClocked || !state.clockInTime) {
-      console.error('Cannot clock out: not currently clocked in');
-      return;
-    }
+  const handleClockOut = useCallback(
+    async (notes: SessionNotes = {}, clockOutTime: Date = new Date()) => {
+      // Validate that user is currently clocked in
+      if (!state.isClocked || !state.clockInTime) {
+        console.error('Cannot clock out: not currently clocked in');
+        return;
+      }
 
-    try {
-      const clockOutTime = new Date();
+      // Clocking out while paused ends the running break, and breaks
+      // after an earlier clock-out time are dropped
+      const breaks = clipBreaks(
+        state.breaks.map((interval) =>
+          interval.end
+            ? interval
+            : { ...interval, end: clockOutTime.toISOString() }
+        ),
+        state.clockInTime,
+        clockOutTime
+      );
 
-      // Calculate hours worked for the session using utility function
+      // Calculate hours worked for the session, excluding breaks
       const hours = calculateHours(
         state.clockInTime.toISOString(),
-        clockOutTime.toISOString()
+        clockOutTime.toISOString(),
+        breaks
       );
 
+      // Clock-ins saved before time zones were tracked use the device's
+      const clockInZone =
+        state.clockInZone ?? getTimeZoneStamp(state.clockInTime);
+
       // Create session object with all required data
       const session: SessionObject = {
         id: `session-${Date.now()}`,
-        // Save date in local time (YYYY-MM-DD)
-        date:
-          clockOutTime.getFullYear() +
-          '-' +
-          String(clockOutTime.getMonth() + 1).padStart(2, '0') +
-          '-' +
-          String(clockOutTime.getDate()).padStart(2, '0'),
+        // Attribute the session to the day it started where it started
+        date: getSessionDate(state.clockInTime, clockInZone.utcOffset),
         clockIn: state.clockInTime.toISOString(),
         clockOut: clockOutTime.toISOString(),
         hours,
+        ...(state.projectId ? { projectId: state.projectId } : {}),
+        ...(breaks.length > 0 ? { breaks } : {}),
+        ...clockInZone,
+        ...notes,
       };
 
-      // Set loading state to show user feedback
-      setState((prevState) => ({
-        ...prevState,
-        loading: true,
-      }));
+      await completeClockOut(session);
+    },
+    [
+      state.isClocked,
+      state.clockInTime,
+      state.projectId,
+      state.breaks,
+      state.clockInZone,
+      completeClockOut,
+    ]
+  );
 
-      await new Promise((resolve) => setTimeout(resolve, 500));
+  const handleClockOutConfirm = useCallback(
+    (notes: SessionNotes) => {
+      setShowClockOutDialog(false);
+      handleClockOut(notes);
+    },
+    [handleClockOut]
+  );
 
-      // Use batch operation for better performance - saves both session and clock state atomically
-      await batchSaveClockOutData(
-        { isClocked: false, clockInTime: null },
-        session
-      );
+  // Keep scheduled reminders in step with the clock state: clocking in or
+  // out, logging time and changing settings all change which apply
+  useEffect(() => {
+    if (state.loading || remindersLoading || goalsLoading) {
+      return;
+    }
+    const clockInTime = state.isClocked ? state.clockInTime : null;
+    // Plan against the same week as the progress rings; not the ticking
+    // goalProgress, which would reschedule every minute
+    const planAt = new Date();
+    syncScheduledReminders([
+      ...planReminders(reminderSettings, clockInTime, sessions),
+      ...planGoalReminders(
+        goals,
+        getGoalProgress(
+          sessions,
+          clockInTime,
+          state.breaks,
+          planAt,
+          preferences.weekStartsOn
+        ),
+        clockInTime,
+        state.breaks,
+        planAt,
+        preferences.weekStartsOn
+      ),
+    ]).catch((error) => console.error('Failed to schedule reminders:', error));
+  }, [
+    state.loading,
+    state.isClocked,
+    state.clockInTime,
+    state.breaks,
+    sessions,
+    reminderSettings,
+    remindersLoading,
+    goals,
+    goalsLoading,
+    preferences.weekStartsOn,
+  ]);
+
+  // Re-check for a forgotten clock-out whenever the app comes back to the
+  // foreground
+  useEffect(() => {
+    const subscription = RNAppState.addEventListener('change', (status) => {
+      if (status === 'active') {
+        checkStaleClockIn(state.isClocked ? state.clockInTime : null, sessions);
+      }
+    });
+    return () => subscription.remove();
+  }, [state.isClocked, state.clockInTime, sessions, checkStaleClockIn]);
+
+  const handleStaleClockOut = useCallback(
+    (clockOutTime: Date) => {
+      setStaleClockIn(null);
+      handleClockOut({}, clockOutTime);
+    },
+    [handleClockOut]
+  );
+
+  const handleStaleKeepRunning = useCallback(() => {
+    keptClockInRef.current = staleClockIn?.clockInTime.toISOString() ?? null;
+    setStaleClockIn(null);
+  }, [staleClockIn]);
 
-      // Update UI - reset clock state and add session to history
+  /**
+   * Drop the running session without saving it
+   */
+  const handleStaleDiscard = useCallback(async () => {
+    setStaleClockIn(null);
+    try {
+      await saveCurrentState({ isClocked: false, clockInTime: null });
       setState((prevState) => ({
         ...prevState,
         isClocked: false,
         clockInTime: null,
-        loading: false,
+        projectId: null,
+        breaks: [],
+        clockInZone: null,
       }));
-      // Add session to context
-      addSession(session);
-
-      // Show success feedback with session details
+      showNotification('Running session discarded.', 'success');
+    } catch (error) {
+      console.error('Failed to discard session:', error);
       showNotification(
-        `Successfully clocked out! Worked ${hours.toFixed(2)} hours.`,
-        'success'
+        'Failed to discard the session. Please try again.',
+        'error'
       );
-    } catch (error) {
-      console.error('Failed to clock out:', error);
+    }
+  }, [showNotification]);
+
+  /**
+   * Move the start of the running session, e.g. after clocking in late
+   * @param clockInTime - Corrected clock-in time
+   */
+  const handleClockInTimeSave = useCallback(
+    async (clockInTime: Date) => {
+      if (!state.isClocked || !state.clockInTime) {
+        return;
+      }
+
+      const error = getClockInTimeError(
+        clockInTime,
+        previousSessionEnd,
+        state.breaks
+      );
+      if (error) {
+        showNotification(error, 'error');
+        return;
+      }
+
+      setShowEditClockInDialog(false);
+      // Stamp the zone again, as clocking in does; the offset may differ
+      // when the new time is on the other side of a DST change
+      const clockInZone = getTimeZoneStamp(clockInTime);
+      try {
+        await saveCurrentState({
+          isClocked: true,
+          clockInTime: clockInTime.toISOString(),
+          ...(state.projectId ? { projectId: state.projectId } : {}),
+          ...(state.breaks.length > 0 ? { breaks: state.breaks } : {}),
+          ...clockInZone,
+        });
+
+        setState((prevState) => ({
+          ...prevState,
+          clockInTime,
+          clockInZone,
+        }));
+        showNotification(
+          `Clock-in changed to ${formatTime(clockInTime.toISOString())}.`,
+          'success'
+        );
+      } catch (error) {
+        console.error('Failed to save clock-in time:', error);
+        showNotification(
+          'Failed to change the clock-in time. Please try again.',
+          'error'
+        );
+      }
+    },
+    [
+      state.isClocked,
+      state.clockInTime,
+      state.projectId,
+      state.breaks,
+      previousSessionEnd,
+      showNotification,
+    ]
+  );
+
+  const isOnBreak =
+    state.breaks.length > 0 &&
+    state.breaks[state.breaks.length - 1].end === null;
+
+  /**
+   * Pause or resume the running session. A pause opens a break interval
+   * that stays open until resume or clock-out.
+   */
+  const handleBreakToggle = useCallback(async () => {
+    if (!state.isClocked || !state.clockInTime) {
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const breaks: BreakInterval[] = isOnBreak
+      ? state.breaks.map((interval) =>
+          interval.end ? interval : { ...interval, end: now }
+        )
+      : [...state.breaks, { start: now, end: null }];
+
+    try {
+      await saveCurrentState({
+        isClocked: true,
+        clockInTime: state.clockInTime.toISOString(),
+        ...(state.projectId ? { projectId: state.projectId } : {}),
+        breaks,
+        ...(state.clockInZone ?? {}),
+      });
 
-      // Remove loading state on error, but keep clocked-in state
-      // This allows user to try clocking out again
       setState((prevState) => ({
         ...prevState,
-        loading: false,
+        breaks,
       }));
-
-      // Show user-friendly error message
+    } catch (error) {
+      console.error('Failed to save break:', error);
       showNotification(
-        'Failed to save work session. You can try clocking out again.',
+        isOnBreak
+          ? 'Failed to resume the session. Please try again.'
+          : 'Failed to start the break. Please try again.',
         'error'
       );
     }
-  }, [state.isClocked, state.clockInTime, showNotification]);
+  }, [
+    state.isClocked,
+    state.clockInTime,
+    state.projectId,
+    state.breaks,
+    state.clockInZone,
+    isOnBreak,
+    showNotification,
+  ]);
 
   const animateScreenTransition = useCallback(
     (callback: () => void) => {
@@ -460,6 +962,16 @@ function AppContent() {
             }));
           });
           break;
+        case 'analytics':
+          animateScreenTransition(() => {
+            setState((prevState) => ({
+              ...prevState,
+              navigation: {
+                currentScreen: 'analytics',
+              },
+            }));
+          });
+          break;
         case 'add':
           // Show manual session dialog
           setShowSessionDialog(true);
@@ -482,17 +994,34 @@ function AppContent() {
   );
 
   const handleManualSessionAdd = useCallback(
-    async (session: SessionObject) => {
+    async (session: SessionObject, resolution?: ConflictResolution) => {
       try {
         // Save session to persistent storage first
-        await saveSession(session);
-        
-        // Add session to context (for immediate UI update)
-        addSession(session);
+        const result = await saveSession(session, resolution);
+
+        if (!resolution && result.conflicts.length > 0) {
+          setPendingConflict({
+            session,
+            conflicts: result.conflicts,
+            source: 'manual',
+          });
+          return;
+        }
+
+        // Update context (for immediate UI update)
+        removeSessions(result.removedIds);
+        if (!result.saved) {
+          showNotification(
+            'Nothing added. The session is already covered by existing sessions.',
+            'success'
+          );
+          return;
+        }
+        addSession(result.saved);
 
         // Show success notification
         showNotification(
-          `Manual session added! Worked ${session.hours.toFixed(2)} hours.`,
+          `Manual session added! Worked ${result.saved.hours.toFixed(2)} hours.`,
           'success'
         );
       } catch (error) {
@@ -503,7 +1032,22 @@ function AppContent() {
         );
       }
     },
-    [addSession, showNotification]
+    [addSession, removeSessions, showNotification]
+  );
+
+  const handleConflictResolve = useCallback(
+    (resolution: ConflictResolution) => {
+      if (!pendingConflict) {
+        return;
+      }
+      setPendingConflict(null);
+      if (pendingConflict.source === 'clockOut') {
+        completeClockOut(pendingConflict.session, resolution);
+      } else {
+        handleManualSessionAdd(pendingConflict.session, resolution);
+      }
+    },
+    [pendingConflict, completeClockOut, handleManualSessionAdd]
   );
 
   const handleSessionDialogDismiss = useCallback(() => {
@@ -533,8 +1077,10 @@ function AppContent() {
     switch (state.navigation.currentScreen) {
       case 'sessionsHistory':
         return <SessionsHistoryScreen />;
+      case 'analytics':
+        return <AnalyticsScreen />;
       case 'settings':
-        return <SettingsPage />;
+        return <SettingsPage onDataReset={handleDataReset} />;
       case 'main':
       default:
         return (
@@ -551,29 +1097,73 @@ function AppContent() {
             {/* Show AnalogClock and working-since text when clocked in */}
             {state.isClocked && state.clockInTime ? (
               <View style={styles.clockedInContainer}>
-                <AnalogClock clockInTime={state.clockInTime} />
-                <Text style={styles.workingSinceText}>
-                  You have been working since{' '}
-                  {state.clockInTime
-                    ? new Date(state.clockInTime).toLocaleTimeString('en-US', {
-                        hour: '2-digit',
-                        minute: '2-digit',
-                      })
-                    : ''}
+                <AnalogClock
+                  clockInTime={state.clockInTime}
+                  goalProgress={getGoalFraction(
+                    goalProgress.todayHours,
+                    goals.dailyHours
+                  )}
+                />
+                <TouchableOpacity
+                  style={styles.workingSinceRow}
+                  onPress={() => setShowEditClockInDialog(true)}
+                  disabled={state.loading}>
+                  <Text style={styles.workingSinceText}>
+                    You have been working since{' '}
+                    {state.clockInTime
+                      ? formatTime(state.clockInTime.toISOString())
+                      : ''}
+                  </Text>
+                  <Ionicons
+                    name="create-outline"
+                    size={20}
+                    color={AppColors.primary}
+                    style={styles.editClockInIcon}
+                  />
+                </TouchableOpacity>
+                {isOnBreak && (
+                  <Text style={styles.breakText}>
+                    On break since{' '}
+                    {formatTime(state.breaks[state.breaks.length - 1].start)}
+                  </Text>
+                )}
+                {getProjectById(state.projectId) && (
+                  <Text style={styles.projectText}>
+                    {getProjectById(state.projectId)?.name}
+                  </Text>
+                )}
+                <Text style={styles.goalText}>
+                  {`Today ${formatGoalProgress(goalProgress.todayHours, goals.dailyHours)} · This week ${formatGoalProgress(goalProgress.weekHours, goals.weeklyHours)}`}
                 </Text>
                 <View style={styles.swipeDownWrapper}>
-                  <Button style={styles.swipeDownIcon} onPress={handleClockOut}>
+                  <Button
+                    style={styles.breakButton}
+                    onPress={handleBreakToggle}
+                    disabled={state.loading}>
+                    <Text style={styles.breakButtonText}>
+                      {isOnBreak ? 'Resume' : 'Pause'}
+                    </Text>
+                  </Button>
+                  <Button
+                    style={styles.swipeDownIcon}
+                    onPress={() => setShowClockOutDialog(true)}>
                     <Text style={styles.swipeDownText}>Clock Out</Text>
                   </Button>
                 </View>
               </View>
             ) : (
-              <AnimatedClockButton
-                isClocked={state.isClocked}
-                onClockIn={handleClockIn}
-                onClockOut={handleClockOut}
-                disabled={state.loading}
-              />
+              <>
+                <AnimatedClockButton
+                  isClocked={state.isClocked}
+                  onClockIn={handleClockIn}
+                  onClockOut={handleClockOut}
+                  disabled={state.loading}
+                  projects={projects}
+                  selectedProjectId={selectedProjectId}
+                  onSelectProject={setSelectedProjectId}
+                />
+                <GoalProgressRings goals={goals} progress={goalProgress} />
+              </>
             )}
           </View>
         );
@@ -624,6 +1214,49 @@ function AppContent() {
           visible={showSessionDialog}
           onDismiss={handleSessionDialogDismiss}
           onAddSession={handleManualSessionAdd}
+          projects={projects}
+          tagSuggestions={tagSuggestions}
+        />
+
+        {/* Note and tags at clock-out */}
+        <ClockOutDialog
+          visible={showClockOutDialog}
+          onDismiss={() => setShowClockOutDialog(false)}
+          onConfirm={handleClockOutConfirm}
+          tagSuggestions={tagSuggestions}
+        />
+
+        {/* Clock-in time correction */}
+        {state.isClocked && state.clockInTime && (
+          <EditClockInDialog
+            visible={showEditClockInDialog}
+            clockInTime={state.clockInTime}
+            previousSessionEnd={previousSessionEnd}
+            breaks={state.breaks}
+            onDismiss={() => setShowEditClockInDialog(false)}
+            onSave={handleClockInTimeSave}
+          />
+        )}
+
+        {/* Running session past the forgotten clock-out threshold */}
+        {staleClockIn && (
+          <StaleClockInDialog
+            visible={true}
+            clockInTime={staleClockIn.clockInTime}
+            suggestedClockOutTime={staleClockIn.suggestedClockOutTime}
+            onClockOut={handleStaleClockOut}
+            onDiscard={handleStaleDiscard}
+            onKeepRunning={handleStaleKeepRunning}
+          />
+        )}
+
+        {/* Overlap resolution for manual sessions and clock-out */}
+        <SessionConflictModal
+          visible={pendingConflict !== null}
+          session={pendingConflict?.session ?? null}
+          conflicts={pendingConflict?.conflicts ?? []}
+          onResolve={handleConflictResolve}
+          onDismiss={() => setPendingConflict(null)}
         />
 
         {/* Bottom Tab Navigation */}
@@ -639,9 +1272,17 @@ function AppContent() {
 export default function App() {
   return (
     <ErrorBoundary>
-      <SessionsProvider>
-        <AppContent />
-      </SessionsProvider>
+      <CalendarProvider>
+        <SessionsProvider>
+          <ProjectsProvider>
+            <RemindersProvider>
+              <GoalsProvider>
+                <AppContent />
+              </GoalsProvider>
+            </RemindersProvider>
+          </ProjectsProvider>
+        </SessionsProvider>
+      </CalendarProvider>
     </ErrorBoundary>
   );
 }
@@ -718,18 +1359,60 @@ const styles = StyleSheet.create({
     paddingTop: 40,
     marginBottom: 80,
   },
-  workingSinceText: {
+  workingSinceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
     marginTop: 24,
+  },
+  editClockInIcon: {
+    marginLeft: 8,
+  },
+  workingSinceText: {
     fontSize: 18,
     color: AppColors.primary,
     fontWeight: 'bold',
     textAlign: 'center',
   },
+  projectText: {
+    marginTop: 8,
+    fontSize: 16,
+    color: 'rgba(255,255,255,0.7)',
+    textAlign: 'center',
+  },
+  goalText: {
+    marginTop: 8,
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.6)',
+    textAlign: 'center',
+  },
   swipeDownWrapper: {
     marginTop: 32,
     alignItems: 'center',
     justifyContent: 'center',
     flexDirection: 'row',
+    gap: 12,
+  },
+  breakText: {
+    marginTop: 8,
+    fontSize: 16,
+    color: '#fbbf24',
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  breakButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderRadius: 30,
+    backgroundColor: 'rgba(255,255,255,0.15)',
+    overflow: 'hidden',
+    minWidth: 120,
+  },
+  breakButtonText: {
+    fontSize: 20,
+    color: AppColors.surface,
+    marginBottom: 8,
+    fontWeight: 'bold',
   },
   swipeDownText: {
     fontSize: 20,
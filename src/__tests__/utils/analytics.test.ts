@@ -0,0 +1,102 @@
+import {
+  getDailyTotals,
+  getWeeklyTotals,
+  getMonthlyTotals,
+  getSessionsForDate,
+} from '../../utils/analytics';
+import { SessionObject } from '../../types';
+import { createSession } from '../../testUtils/sessions';
+
+describe('Analytics', () => {
+  // Wednesday, March 13 2024
+  const now = new Date(2024, 2, 13, 12, 0);
+
+  const sessions = [
+    createSession({ id: 'sun', date: '2024-03-10', hours: 2 }),
+    createSession({ id: 'wed-1', date: '2024-03-13', hours: 3.5 }),
+    createSession({
+      id: 'wed-2',
+      hours: 1.25,
+      clockIn: '2024-03-13T07:00:00.000Z',
+    }),
+    createSession({ id: 'last-week', date: '2024-03-05', hours: 8 }),
+    createSession({ id: 'february', date: '2024-02-20', hours: 6 }),
+    createSession({ id: 'old', date: '2023-01-02', hours: 4 }),
+  ];
+
+  describe('getDailyTotals', () => {
+    test('totals each day of the current week from Sunday', () => {
+      const totals = getDailyTotals(sessions, now);
+
+      expect(totals).toHaveLength(7);
+      expect(totals[0]).toEqual({ key: '2024-03-10', label: 'Sun', hours: 2 });
+      expect(totals[3]).toEqual({
+        key: '2024-03-13',
+        label: 'Wed',
+        hours: 4.75,
+      });
+      expect(totals[6]).toEqual({ key: '2024-03-16', label: 'Sat', hours: 0 });
+    });
+  });
+
+  describe('getWeeklyTotals', () => {
+    test('totals the last 12 weeks, oldest first', () => {
+      const totals = getWeeklyTotals(sessions, 12, now);
+
+      expect(totals).toHaveLength(12);
+      expect(totals[11]).toEqual({
+        key: '2024-03-10',
+        label: '3/10',
+        hours: 6.75,
+      });
+      expect(totals[10]).toMatchObject({ key: '2024-03-03', hours: 8 });
+      expect(totals[8]).toMatchObject({ key: '2024-02-18', hours: 6 });
+      expect(totals[0]).toMatchObject({ key: '2023-12-24', hours: 0 });
+    });
+  });
+
+  describe('getMonthlyTotals', () => {
+    test('totals the last 12 months, oldest first', () => {
+      const totals = getMonthlyTotals(sessions, 12, now);
+
+      expect(totals).toHaveLength(12);
+      expect(totals[11]).toEqual({
+        key: '2024-03',
+        label: 'Mar',
+        hours: 14.75,
+      });
+      expect(totals[10]).toEqual({ key: '2024-02', label: 'Feb', hours: 6 });
+      expect(totals[0]).toEqual({ key: '2023-04', label: 'Apr', hours: 0 });
+    });
+  });
+
+  describe('leave', () => {
+    const withLeave: SessionObject[] = [
+      ...sessions,
+      createSession({
+        id: 'vacation',
+        date: '2024-03-12',
+        entryType: 'vacation',
+      }),
+      createSession({
+        id: 'holiday',
+        date: '2024-02-19',
+        entryType: 'holiday',
+      }),
+    ];
+
+    test('is left out of the daily, weekly and monthly totals', () => {
+      expect(getDailyTotals(withLeave, now)[2].hours).toBe(0);
+      expect(getWeeklyTotals(withLeave, 12, now)[11].hours).toBe(6.75);
+      expect(getMonthlyTotals(withLeave, 12, now)[10].hours).toBe(6);
+    });
+  });
+
+  describe('getSessionsForDate', () => {
+    test('returns the day sessions earliest first', () => {
+      expect(
+        getSessionsForDate(sessions, '2024-03-13').map((session) => session.id)
+      ).toEqual(['wed-2', 'wed-1']);
+    });
+  });
+});
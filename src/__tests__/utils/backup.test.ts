@@ -0,0 +1,79 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  clearAllAppData,
+  restoreDataBackup,
+  loadDataBackup,
+} from '../../utils/backup';
+import { saveCurrentState, saveSession } from '../../utils/storage';
+import { saveProject } from '../../utils/projectStorage';
+import { saveCalendarPreferences } from '../../utils/calendarStorage';
+
+const seedAppData = async () => {
+  await saveCurrentState({
+    isClocked: true,
+    clockInTime: '2024-01-10T09:00:00.000Z',
+  });
+  await saveSession({
+    id: 'session-1',
+    date: '2024-01-09',
+    clockIn: '2024-01-09T09:00:00.000Z',
+    clockOut: '2024-01-09T17:00:00.000Z',
+    hours: 8,
+  });
+  await saveProject({
+    id: 'project-1',
+    name: 'Website',
+    color: '#6750A4',
+    createdAt: '2024-01-01T00:00:00.000Z',
+  });
+  await AsyncStorage.setItem('HOURLY_RATE', '40');
+  await saveCalendarPreferences({
+    weekStartsOn: 1,
+    locale: null,
+    use24HourClock: true,
+  });
+};
+
+describe('Backup', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await AsyncStorage.clear();
+  });
+
+  test('clears every app key but keeps a backup', async () => {
+    await seedAppData();
+
+    const backup = await clearAllAppData();
+
+    expect(await AsyncStorage.getAllKeys()).toEqual(['DATA_BACKUP']);
+    expect(backup.entries.map(([key]) => key)).toEqual(
+      expect.arrayContaining([
+        'CLOCK_STATE',
+        'WORK_SESSIONS_INDEX',
+        'WORK_SESSIONS_2024_01',
+        'HOURLY_RATE',
+        'PROJECTS',
+        'CALENDAR_PREFERENCES',
+      ])
+    );
+    expect(await loadDataBackup()).toEqual(backup);
+  });
+
+  test('restores the snapshot and keeps the backup', async () => {
+    await seedAppData();
+    const before = await AsyncStorage.multiGet(await AsyncStorage.getAllKeys());
+
+    await clearAllAppData();
+    await AsyncStorage.setItem('HOURLY_RATE', '55');
+
+    expect(await restoreDataBackup()).toBe(true);
+    expect(await AsyncStorage.multiGet(before.map(([key]) => key))).toEqual(
+      before
+    );
+    expect(await AsyncStorage.getItem('DATA_BACKUP')).not.toBeNull();
+  });
+
+  test('returns false when there is no backup', async () => {
+    expect(await restoreDataBackup()).toBe(false);
+  });
+});
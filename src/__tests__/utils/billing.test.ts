@@ -0,0 +1,101 @@
+import {
+  getBillingStatus,
+  sumIncomeByBillingStatus,
+} from '../../utils/billing';
+import { filterSessionsByBillingStatus } from '../../utils/sessionFilters';
+import { selectInvoiceSessions } from '../../utils/invoices';
+import { validateSessionData } from '../../utils/validation';
+import { Project } from '../../types';
+import { createSession } from '../../testUtils/sessions';
+
+const projects: Project[] = [
+  {
+    id: 'p-euro',
+    name: 'Berlin Client',
+    color: '#22d3ee',
+    hourlyRate: 50,
+    currency: 'EUR',
+    createdAt: '2026-01-01T00:00:00.000Z',
+  },
+];
+
+const sessions = [
+  createSession({ id: 'unbilled', hours: 2 }),
+  createSession({ id: 'billed', hours: 3, billingStatus: 'billed' }),
+  createSession({ id: 'invoiced', hours: 1, invoiceId: 'invoice-1' }),
+  createSession({
+    id: 'paid',
+    hours: 4,
+    billingStatus: 'paid',
+    invoiceId: 'invoice-1',
+  }),
+  createSession({
+    id: 'paid-eur',
+    hours: 2,
+    billingStatus: 'paid',
+    projectId: 'p-euro',
+  }),
+];
+
+describe('Billing', () => {
+  describe('getBillingStatus', () => {
+    test('treats sessions without a status as unbilled', () => {
+      expect(getBillingStatus(sessions[0])).toBe('unbilled');
+    });
+
+    test('treats invoiced sessions without a status as billed', () => {
+      expect(getBillingStatus(sessions[2])).toBe('billed');
+    });
+
+    test('prefers the stored status', () => {
+      expect(getBillingStatus(sessions[3])).toBe('paid');
+      expect(
+        getBillingStatus(
+          createSession({
+            id: 'reopened',
+            hours: 1,
+            invoiceId: 'invoice-1',
+            billingStatus: 'unbilled',
+          })
+        )
+      ).toBe('unbilled');
+    });
+  });
+
+  describe('filterSessionsByBillingStatus', () => {
+    test('keeps only sessions with the status', () => {
+      expect(
+        filterSessionsByBillingStatus(sessions, 'billed').map((s) => s.id)
+      ).toEqual(['billed', 'invoiced']);
+      expect(
+        filterSessionsByBillingStatus(sessions, 'unbilled').map((s) => s.id)
+      ).toEqual(['unbilled']);
+      expect(filterSessionsByBillingStatus(sessions, 'all')).toHaveLength(5);
+    });
+  });
+
+  describe('sumIncomeByBillingStatus', () => {
+    test('splits income into outstanding and paid per currency', () => {
+      const totals = sumIncomeByBillingStatus(sessions, {
+        hourlyRate: 20,
+        currency: 'USD',
+        projects,
+      });
+      expect(totals.outstanding).toEqual({ USD: 120 });
+      expect(totals.paid).toEqual({ USD: 80, EUR: 100 });
+    });
+  });
+
+  test('invoices only pick up unbilled sessions', () => {
+    expect(selectInvoiceSessions(sessions, {}).map((s) => s.id)).toEqual([
+      'unbilled',
+    ]);
+  });
+
+  test('validates the stored status', () => {
+    expect(validateSessionData(sessions[3])).toBe(true);
+    expect(
+      validateSessionData({ ...sessions[0], billingStatus: 'overdue' })
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,169 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  DEFAULT_CALENDAR_PREFERENCES,
+  getWeekDayLabels,
+  getWeekStart,
+  setCalendarPreferences,
+} from '../../utils/calendar';
+import {
+  getCalendarStorageKeys,
+  loadCalendarPreferences,
+  saveCalendarPreferences,
+} from '../../utils/calendarStorage';
+import {
+  formatDate,
+  formatTime,
+  getLastWeekDateRange,
+  getThisWeekDateRange,
+  toLocalDateString,
+} from '../../utils/timeUtils';
+import { getDailyTotals } from '../../utils/analytics';
+import { formatDateRangeLabel } from '../../utils/sessionFilters';
+
+const { CALENDAR_PREFERENCES_KEY } = getCalendarStorageKeys();
+
+describe('Calendar', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    setCalendarPreferences({
+      ...DEFAULT_CALENDAR_PREFERENCES,
+      locale: 'en-US',
+    });
+  });
+
+  afterAll(() => {
+    setCalendarPreferences(DEFAULT_CALENDAR_PREFERENCES);
+  });
+
+  describe('getWeekStart', () => {
+    test('goes back to the configured first day of the week', () => {
+      // Wednesday
+      const date = new Date(2024, 2, 13, 15, 30);
+      expect(toLocalDateString(getWeekStart(date, 0))).toBe('2024-03-10');
+      expect(toLocalDateString(getWeekStart(date, 1))).toBe('2024-03-11');
+      expect(toLocalDateString(getWeekStart(date, 3))).toBe('2024-03-13');
+      expect(toLocalDateString(getWeekStart(date, 4))).toBe('2024-03-07');
+    });
+
+    test('uses the active preference by default', () => {
+      setCalendarPreferences({
+        ...DEFAULT_CALENDAR_PREFERENCES,
+        weekStartsOn: 1,
+      });
+      const sunday = new Date(2024, 2, 17);
+      expect(toLocalDateString(getWeekStart(sunday))).toBe('2024-03-11');
+    });
+  });
+
+  describe('week ranges', () => {
+    test('this week and last week follow the week start', () => {
+      setCalendarPreferences({
+        ...DEFAULT_CALENDAR_PREFERENCES,
+        weekStartsOn: 1,
+      });
+      const thisWeek = getThisWeekDateRange();
+      const lastWeek = getLastWeekDateRange();
+
+      expect(thisWeek.startDate.getDay()).toBe(1);
+      expect(thisWeek.endDate.getDay()).toBe(0);
+      expect(lastWeek.startDate.getDay()).toBe(1);
+      expect(lastWeek.endDate.getDay()).toBe(0);
+
+      const dayBefore = new Date(thisWeek.startDate);
+      dayBefore.setDate(dayBefore.getDate() - 1);
+      expect(toLocalDateString(lastWeek.endDate)).toBe(
+        toLocalDateString(dayBefore)
+      );
+    });
+  });
+
+  describe('formatting', () => {
+    test('orders weekday labels from the week start', () => {
+      expect(getWeekDayLabels(1)).toEqual([
+        'Mon',
+        'Tue',
+        'Wed',
+        'Thu',
+        'Fri',
+        'Sat',
+        'Sun',
+      ]);
+    });
+
+    test('switches between 12 and 24-hour times', () => {
+      const timestamp = new Date(2024, 2, 13, 17, 5).toISOString();
+      expect(formatTime(timestamp)).toBe('05:05 PM');
+
+      setCalendarPreferences({
+        ...DEFAULT_CALENDAR_PREFERENCES,
+        locale: 'en-US',
+        use24HourClock: true,
+      });
+      expect(formatTime(timestamp)).toBe('17:05');
+    });
+
+    test('formats dates in the preferred locale without shifting the day', () => {
+      expect(formatDate('2024-03-13')).toBe('Wed, Mar 13');
+
+      setCalendarPreferences({
+        ...DEFAULT_CALENDAR_PREFERENCES,
+        locale: 'de-DE',
+      });
+      expect(formatDate('2024-03-13')).toBe('Mi., 13. März');
+      expect(
+        formatDateRangeLabel({
+          startDate: new Date(2024, 2, 1),
+          endDate: new Date(2024, 2, 15),
+        })
+      ).toBe('1. März – 15. März');
+    });
+
+    test('analytics day bars start on the configured day', () => {
+      setCalendarPreferences({
+        ...DEFAULT_CALENDAR_PREFERENCES,
+        locale: 'en-US',
+        weekStartsOn: 1,
+      });
+      const totals = getDailyTotals([], new Date(2024, 2, 13));
+      expect(totals[0]).toEqual({ key: '2024-03-11', label: 'Mon', hours: 0 });
+      expect(totals[6]).toEqual({ key: '2024-03-17', label: 'Sun', hours: 0 });
+    });
+  });
+
+  describe('storage', () => {
+    test('returns defaults when nothing is saved', async () => {
+      expect(await loadCalendarPreferences()).toEqual(
+        DEFAULT_CALENDAR_PREFERENCES
+      );
+    });
+
+    test('saves and loads preferences', async () => {
+      const preferences = {
+        weekStartsOn: 1 as const,
+        locale: 'en-GB',
+        use24HourClock: true,
+      };
+      await saveCalendarPreferences(preferences);
+      expect(await loadCalendarPreferences()).toEqual(preferences);
+    });
+
+    test('ignores invalid stored preferences', async () => {
+      await AsyncStorage.setItem(
+        CALENDAR_PREFERENCES_KEY,
+        JSON.stringify({ weekStartsOn: 9, locale: 'en-US', use24HourClock: 1 })
+      );
+      expect(await loadCalendarPreferences()).toEqual(
+        DEFAULT_CALENDAR_PREFERENCES
+      );
+    });
+
+    test('rejects invalid preferences on save', async () => {
+      await expect(
+        saveCalendarPreferences({
+          ...DEFAULT_CALENDAR_PREFERENCES,
+          locale: 'not a locale!',
+        })
+      ).rejects.toThrow('Invalid calendar preferences');
+    });
+  });
+});
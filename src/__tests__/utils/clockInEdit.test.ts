@@ -0,0 +1,87 @@
+import {
+  getClockInTimeError,
+  getPreviousSessionEnd,
+} from '../../utils/clockInEdit';
+import { createSession } from '../../testUtils/sessions';
+
+describe('Clock-in edits', () => {
+  const now = new Date('2024-03-11T15:00:00.000Z');
+
+  describe('getPreviousSessionEnd', () => {
+    test('returns null without earlier sessions', () => {
+      expect(getPreviousSessionEnd([], now)).toBeNull();
+    });
+
+    test('returns the latest clock-out of sessions started before', () => {
+      const sessions = [
+        createSession({
+          id: 'a',
+          clockIn: '2024-03-11T06:00:00.000Z',
+          clockOut: '2024-03-11T08:00:00.000Z',
+        }),
+        createSession({
+          id: 'b',
+          clockIn: '2024-03-10T22:00:00.000Z',
+          clockOut: '2024-03-11T02:00:00.000Z',
+        }),
+        createSession({
+          id: 'c',
+          clockIn: '2024-03-11T16:00:00.000Z',
+          clockOut: '2024-03-11T17:00:00.000Z',
+        }),
+      ];
+      expect(getPreviousSessionEnd(sessions, now)?.toISOString()).toBe(
+        '2024-03-11T08:00:00.000Z'
+      );
+    });
+  });
+
+  describe('getClockInTimeError', () => {
+    const previousEnd = new Date('2024-03-11T08:00:00.000Z');
+
+    test('accepts times between the previous session and now', () => {
+      expect(
+        getClockInTimeError(
+          new Date('2024-03-11T08:45:00.000Z'),
+          previousEnd,
+          [],
+          now
+        )
+      ).toBeNull();
+      expect(getClockInTimeError(previousEnd, previousEnd, [], now)).toBeNull();
+    });
+
+    test('rejects times in the future', () => {
+      expect(
+        getClockInTimeError(new Date('2024-03-11T15:30:00.000Z'), null, [], now)
+      ).toBe('Clock-in cannot be in the future');
+    });
+
+    test('rejects times before the previous session ended', () => {
+      expect(
+        getClockInTimeError(
+          new Date('2024-03-11T07:30:00.000Z'),
+          previousEnd,
+          [],
+          now
+        )
+      ).toBe('Clock-in cannot be before your previous session ended');
+    });
+
+    test('rejects times after the first break started', () => {
+      expect(
+        getClockInTimeError(
+          new Date('2024-03-11T12:30:00.000Z'),
+          previousEnd,
+          [
+            {
+              start: '2024-03-11T12:00:00.000Z',
+              end: '2024-03-11T12:15:00.000Z',
+            },
+          ],
+          now
+        )
+      ).toBe('Clock-in must be before your first break');
+    });
+  });
+});
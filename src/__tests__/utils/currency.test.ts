@@ -0,0 +1,81 @@
+import {
+  formatCurrency,
+  formatCurrencyTotals,
+  isValidCurrencyCode,
+  sumByCurrency,
+} from '../../utils/currency';
+import {
+  DEFAULT_CALENDAR_PREFERENCES,
+  setCalendarPreferences,
+} from '../../utils/calendar';
+import { validateProject } from '../../utils/validation';
+
+describe('Currency', () => {
+  beforeEach(() => {
+    setCalendarPreferences({
+      ...DEFAULT_CALENDAR_PREFERENCES,
+      locale: 'en-US',
+    });
+  });
+
+  afterAll(() => {
+    setCalendarPreferences(DEFAULT_CALENDAR_PREFERENCES);
+  });
+
+  describe('formatCurrency', () => {
+    test('formats amounts in the given currency', () => {
+      expect(formatCurrency(1234.5)).toBe('$1,234.50');
+      expect(formatCurrency(1234.5, 'EUR')).toBe('€1,234.50');
+    });
+
+    test('follows the active locale', () => {
+      setCalendarPreferences({
+        ...DEFAULT_CALENDAR_PREFERENCES,
+        locale: 'de-DE',
+      });
+      expect(formatCurrency(1234.5, 'EUR')).toBe('1.234,50\u00a0€');
+    });
+  });
+
+  describe('isValidCurrencyCode', () => {
+    test('accepts ISO 4217 codes only', () => {
+      expect(isValidCurrencyCode('USD')).toBe(true);
+      expect(isValidCurrencyCode('NPR')).toBe(true);
+      expect(isValidCurrencyCode('usd')).toBe(false);
+      expect(isValidCurrencyCode('DOLLARS')).toBe(false);
+      expect(isValidCurrencyCode(undefined)).toBe(false);
+    });
+
+    test('rejects projects with an invalid currency', () => {
+      const project = {
+        id: 'project-1',
+        name: 'Website',
+        color: '#6750A4',
+        hourlyRate: 50,
+        createdAt: '2024-01-01T00:00:00.000Z',
+      };
+      expect(validateProject({ ...project, currency: 'EUR' })).toBe(true);
+      expect(validateProject({ ...project, currency: '€' })).toBe(false);
+    });
+  });
+
+  describe('totals', () => {
+    test('sums amounts per currency without converting', () => {
+      expect(
+        sumByCurrency([
+          { amount: 100.1, currency: 'USD' },
+          { amount: 50, currency: 'EUR' },
+          { amount: 0.2, currency: 'USD' },
+        ])
+      ).toEqual({ USD: 100.3, EUR: 50 });
+    });
+
+    test('formats each currency separately, largest first', () => {
+      expect(formatCurrencyTotals({ EUR: 50, USD: 100 })).toEqual([
+        '$100.00',
+        '€50.00',
+      ]);
+      expect(formatCurrencyTotals({}, 'GBP')).toEqual(['£0.00']);
+    });
+  });
+});
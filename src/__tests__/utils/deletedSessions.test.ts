@@ -0,0 +1,62 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  addDeletedSessions,
+  loadDeletedSessions,
+  takeDeletedSessions,
+  pruneDeletedSessions,
+  getDaysUntilPurge,
+} from '../../utils/deletedSessions';
+import { createSession } from '../../testUtils/sessions';
+
+describe('Deleted Sessions', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await AsyncStorage.clear();
+  });
+
+  test('keeps deleted sessions most recent first', async () => {
+    await addDeletedSessions(
+      [createSession({ id: 'a' })],
+      new Date(Date.now() - 1000)
+    );
+    await addDeletedSessions([createSession({ id: 'b' })]);
+
+    const entries = await loadDeletedSessions();
+    expect(entries.map((entry) => entry.session.id)).toEqual(['b', 'a']);
+  });
+
+  test('purges entries older than 30 days', async () => {
+    const old = new Date(Date.now() - 31 * 24 * 60 * 60 * 1000);
+    await addDeletedSessions([createSession({ id: 'old' })], old);
+
+    expect(await loadDeletedSessions()).toEqual([]);
+    expect(
+      JSON.parse((await AsyncStorage.getItem('RECENTLY_DELETED_SESSIONS'))!)
+    ).toEqual([]);
+  });
+
+  test('takes sessions out of the bin', async () => {
+    await addDeletedSessions([
+      createSession({ id: 'a' }),
+      createSession({ id: 'b' }),
+    ]);
+
+    const taken = await takeDeletedSessions(['a']);
+
+    expect(taken.map((session) => session.id)).toEqual(['a']);
+    expect(
+      (await loadDeletedSessions()).map((entry) => entry.session.id)
+    ).toEqual(['b']);
+  });
+
+  test('counts the days left before purge', () => {
+    const now = new Date('2024-02-01T00:00:00.000Z');
+    const entry = {
+      session: createSession({ id: 'a' }),
+      deletedAt: '2024-01-30T00:00:00.000Z',
+    };
+
+    expect(getDaysUntilPurge(entry, now)).toBe(28);
+    expect(pruneDeletedSessions([entry], new Date('2024-03-01'))).toEqual([]);
+  });
+});
@@ -0,0 +1,229 @@
+import {
+  escapeCsvField,
+  sessionsToCsv,
+  buildExportDocument,
+  serializeSessions,
+  EXPORT_FORMAT_VERSION,
+} from '../../utils/exportData';
+import {
+  DEFAULT_OVERTIME_RULES,
+  splitOvertimeHours,
+} from '../../utils/overtime';
+import { SessionObject } from '../../types';
+
+const sessions: SessionObject[] = [
+  {
+    id: 'session-2',
+    date: '2024-01-02',
+    clockIn: '2024-01-02T09:00:00.000Z',
+    clockOut: '2024-01-02T13:30:00.000Z',
+    hours: 4.5,
+  },
+  {
+    id: 'session-1',
+    date: '2024-01-01',
+    clockIn: '2024-01-01T09:00:00.000Z',
+    clockOut: '2024-01-01T17:00:00.000Z',
+    hours: 8,
+  },
+];
+
+describe('Export Data', () => {
+  describe('escapeCsvField', () => {
+    test('leaves plain values untouched', () => {
+      expect(escapeCsvField('2024-01-01')).toBe('2024-01-01');
+      expect(escapeCsvField(8)).toBe('8');
+    });
+
+    test('quotes fields with commas, quotes and line breaks', () => {
+      expect(escapeCsvField('a,b')).toBe('"a,b"');
+      expect(escapeCsvField('say "hi"')).toBe('"say ""hi"""');
+      expect(escapeCsvField('line\nbreak')).toBe('"line\nbreak"');
+    });
+  });
+
+  describe('sessionsToCsv', () => {
+    test('writes a header row and one CRLF-terminated row per session', () => {
+      const csv = sessionsToCsv(sessions, { hourlyRate: 40 });
+      const lines = csv.split('\r\n');
+
+      expect(lines[0]).toBe(
+        'Date,Type,Clock In,Clock Out,Hours,Hourly Rate,Earnings,Currency,Project,Client'
+      );
+      expect(lines[1]).toBe(
+        '2024-01-02,Work,2024-01-02T09:00:00.000Z,2024-01-02T13:30:00.000Z,4.50,40.00,180.00,USD,,'
+      );
+      expect(lines).toHaveLength(4);
+      expect(lines[3]).toBe('');
+    });
+
+    test('uses the project rate and name for project sessions', () => {
+      const csv = sessionsToCsv([{ ...sessions[0], projectId: 'project-1' }], {
+        hourlyRate: 40,
+        projects: [
+          {
+            id: 'project-1',
+            name: 'Website',
+            color: '#6750A4',
+            client: 'Acme, Inc.',
+            hourlyRate: 60,
+            createdAt: '2024-01-01T00:00:00.000Z',
+          },
+        ],
+      });
+
+      expect(csv.split('\r\n')[1]).toBe(
+        '2024-01-02,Work,2024-01-02T09:00:00.000Z,2024-01-02T13:30:00.000Z,4.50,60.00,270.00,USD,Website,"Acme, Inc."'
+      );
+    });
+
+    test('adds hour tiers and overtime pay when overtime is enabled', () => {
+      const rules = {
+        ...DEFAULT_OVERTIME_RULES,
+        enabled: true,
+        dailyThreshold: 6,
+      };
+      const csv = sessionsToCsv(sessions, {
+        hourlyRate: 40,
+        overtime: { rules, split: splitOvertimeHours(sessions, rules, 1) },
+      });
+      const lines = csv.split('\r\n');
+
+      expect(lines[0]).toBe(
+        'Date,Type,Clock In,Clock Out,Hours,Regular Hours,Overtime Hours,Double Time Hours,Hourly Rate,Earnings,Currency,Project,Client'
+      );
+      expect(lines[2]).toBe(
+        '2024-01-01,Work,2024-01-01T09:00:00.000Z,2024-01-01T17:00:00.000Z,8.00,6.00,2.00,0.00,40.00,360.00,USD,,'
+      );
+    });
+
+    test('labels leave entries with their type', () => {
+      const csv = sessionsToCsv([{ ...sessions[1], entryType: 'vacation' }], {
+        hourlyRate: 40,
+      });
+
+      expect(csv.split('\r\n')[1]).toBe(
+        '2024-01-01,Vacation,2024-01-01T09:00:00.000Z,2024-01-01T17:00:00.000Z,8.00,40.00,320.00,USD,,'
+      );
+    });
+  });
+
+  describe('buildExportDocument', () => {
+    test('includes version, range, totals and per-session earnings', () => {
+      const doc = buildExportDocument(sessions, {
+        hourlyRate: 40,
+        startDate: new Date(2024, 0, 1),
+        endDate: new Date(2024, 0, 7),
+        exportedAt: new Date('2024-01-08T12:00:00.000Z'),
+      });
+
+      expect(doc.version).toBe(EXPORT_FORMAT_VERSION);
+      expect(doc.range).toEqual({
+        startDate: '2024-01-01',
+        endDate: '2024-01-07',
+      });
+      expect(doc.totals).toEqual({
+        sessions: 2,
+        hours: 12.5,
+        earnings: { USD: 500 },
+      });
+      expect(doc.sessions[1].earnings).toBe(320);
+    });
+
+    test('keeps earnings in different currencies apart', () => {
+      const doc = buildExportDocument(
+        [sessions[0], { ...sessions[1], projectId: 'project-1' }],
+        {
+          hourlyRate: 40,
+          currency: 'GBP',
+          projects: [
+            {
+              id: 'project-1',
+              name: 'Website',
+              color: '#6750A4',
+              hourlyRate: 50,
+              currency: 'EUR',
+              createdAt: '2024-01-01T00:00:00.000Z',
+            },
+          ],
+        }
+      );
+
+      expect(doc.currency).toBe('GBP');
+      expect(doc.sessions.map((s) => s.currency)).toEqual(['GBP', 'EUR']);
+      expect(doc.totals.earnings).toEqual({ GBP: 180, EUR: 400 });
+    });
+
+    test('includes the overtime split when overtime is enabled', () => {
+      const rules = {
+        ...DEFAULT_OVERTIME_RULES,
+        enabled: true,
+        dailyThreshold: 6,
+      };
+      const doc = buildExportDocument(sessions, {
+        hourlyRate: 40,
+        overtime: { rules, split: splitOvertimeHours(sessions, rules, 1) },
+      });
+
+      expect(doc.overtimeRules).toEqual(rules);
+      expect(doc.totals).toEqual({
+        sessions: 2,
+        hours: 12.5,
+        earnings: { USD: 540 },
+        regularHours: 10.5,
+        overtimeHours: 2,
+        doubleTimeHours: 0,
+      });
+      expect(doc.sessions[1].overtime).toEqual({
+        regularHours: 6,
+        overtimeHours: 2,
+        doubleTimeHours: 0,
+      });
+    });
+
+    test('leaves overtime out when the rules are off', () => {
+      const doc = buildExportDocument(sessions, {
+        hourlyRate: 40,
+        overtime: {
+          rules: DEFAULT_OVERTIME_RULES,
+          split: splitOvertimeHours(sessions, DEFAULT_OVERTIME_RULES, 1),
+        },
+      });
+
+      expect(doc.overtimeRules).toBeUndefined();
+      expect(doc.sessions[0].overtime).toBeUndefined();
+      expect(doc.totals.earnings).toEqual({ USD: 500 });
+    });
+
+    test('totals leave apart from hours worked', () => {
+      const doc = buildExportDocument(
+        [sessions[0], { ...sessions[1], entryType: 'sick' }],
+        { hourlyRate: 40 }
+      );
+
+      expect(doc.totals).toEqual({
+        sessions: 2,
+        hours: 4.5,
+        leaveHours: { sick: 8 },
+        earnings: { USD: 500 },
+      });
+    });
+
+    test('uses a null range when exporting all sessions', () => {
+      expect(buildExportDocument(sessions, { hourlyRate: 0 }).range).toBeNull();
+    });
+  });
+
+  describe('serializeSessions', () => {
+    test('names the file after the export date and format', () => {
+      const result = serializeSessions('json', sessions, {
+        hourlyRate: 40,
+        exportedAt: new Date(2024, 0, 8),
+      });
+
+      expect(result.fileName).toBe('kaamko-sessions-2024-01-08.json');
+      expect(result.mimeType).toBe('application/json');
+      expect(JSON.parse(result.content).sessions).toHaveLength(2);
+    });
+  });
+});
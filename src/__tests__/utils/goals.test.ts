@@ -0,0 +1,179 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  DEFAULT_HOUR_GOALS,
+  formatGoalProgress,
+  getGoalFraction,
+  getGoalProgress,
+  planGoalReminders,
+} from '../../utils/goals';
+import {
+  getGoalStorageKeys,
+  loadHourGoals,
+  saveHourGoals,
+} from '../../utils/goalStorage';
+import { validateHourGoals } from '../../utils/validation';
+import { HourGoals } from '../../types';
+import { createSession } from '../../testUtils/sessions';
+
+const { HOUR_GOALS_KEY } = getGoalStorageKeys();
+
+const goals: HourGoals = {
+  dailyHours: 8,
+  weeklyHours: 40,
+  notifyWhenReached: true,
+};
+
+// Wednesday 13 March 2024, 15:00; weeks start on Monday
+const now = new Date('2024-03-13T15:00:00.000Z');
+
+const sessions = [
+  createSession({ id: 'last-week', date: '2024-03-08', hours: 8 }),
+  createSession({ id: 'mon', date: '2024-03-11', hours: 8 }),
+  createSession({ id: 'tue', date: '2024-03-12', hours: 7.5 }),
+  createSession({ id: 'wed', date: '2024-03-13', hours: 2 }),
+];
+
+describe('Hour goals', () => {
+  describe('getGoalProgress', () => {
+    test('totals today and this week', () => {
+      expect(getGoalProgress(sessions, null, [], now, 1)).toEqual({
+        todayHours: 2,
+        weekHours: 17.5,
+      });
+    });
+
+    test('includes the running session minus breaks', () => {
+      const clockIn = new Date('2024-03-13T12:00:00.000Z');
+      const breaks = [
+        { start: '2024-03-13T13:00:00.000Z', end: '2024-03-13T13:30:00.000Z' },
+      ];
+      expect(getGoalProgress(sessions, clockIn, breaks, now, 1)).toEqual({
+        todayHours: 4.5,
+        weekHours: 20,
+      });
+    });
+
+    test('counts a session running since yesterday towards yesterday', () => {
+      const clockIn = new Date('2024-03-12T22:00:00.000Z');
+      expect(getGoalProgress([], clockIn, [], now, 1)).toEqual({
+        todayHours: 0,
+        weekHours: 17,
+      });
+    });
+  });
+
+  describe('getGoalFraction', () => {
+    test('caps at 1 and is null without a goal', () => {
+      expect(getGoalFraction(4, 8)).toBe(0.5);
+      expect(getGoalFraction(10, 8)).toBe(1);
+      expect(getGoalFraction(4, null)).toBeNull();
+    });
+  });
+
+  describe('formatGoalProgress', () => {
+    test('shows the goal when one is set', () => {
+      expect(formatGoalProgress(3.456, 8)).toBe('3.46 / 8h');
+      expect(formatGoalProgress(3.5, null)).toBe('3.5h');
+    });
+  });
+
+  describe('planGoalReminders', () => {
+    const clockIn = new Date('2024-03-13T13:00:00.000Z');
+    const progress = { todayHours: 4, weekHours: 38 };
+
+    test('plans nothing when notifications are off or clocked out', () => {
+      expect(
+        planGoalReminders(
+          { ...goals, notifyWhenReached: false },
+          progress,
+          clockIn,
+          [],
+          now,
+          1
+        )
+      ).toEqual([]);
+      expect(planGoalReminders(goals, progress, null, [], now, 1)).toEqual([]);
+    });
+
+    test('plans nothing while on a break', () => {
+      expect(
+        planGoalReminders(
+          goals,
+          progress,
+          clockIn,
+          [{ start: '2024-03-13T14:30:00.000Z', end: null }],
+          now,
+          1
+        )
+      ).toEqual([]);
+    });
+
+    test('schedules when the running session reaches each goal', () => {
+      const reminders = planGoalReminders(goals, progress, clockIn, [], now, 1);
+
+      expect(reminders.map(({ id, date }) => [id, date.toISOString()])).toEqual(
+        [
+          ['reminder-goal-daily-2024-03-13', '2024-03-13T19:00:00.000Z'],
+          ['reminder-goal-weekly-2024-03-11', '2024-03-13T17:00:00.000Z'],
+        ]
+      );
+    });
+
+    test('skips goals that are already reached', () => {
+      expect(
+        planGoalReminders(
+          goals,
+          { todayHours: 8, weekHours: 41 },
+          clockIn,
+          [],
+          now,
+          1
+        )
+      ).toEqual([]);
+    });
+  });
+
+  describe('validateHourGoals', () => {
+    test('accepts goals that are off or in range', () => {
+      expect(validateHourGoals(DEFAULT_HOUR_GOALS)).toBe(true);
+      expect(validateHourGoals(goals)).toBe(true);
+    });
+
+    test('rejects goals out of range', () => {
+      expect(validateHourGoals({ ...goals, dailyHours: 25 })).toBe(false);
+      expect(validateHourGoals({ ...goals, weeklyHours: 0 })).toBe(false);
+      expect(validateHourGoals({ ...goals, notifyWhenReached: 'yes' })).toBe(
+        false
+      );
+    });
+  });
+
+  describe('storage', () => {
+    beforeEach(async () => {
+      await AsyncStorage.clear();
+    });
+
+    test('returns defaults when nothing is saved', async () => {
+      expect(await loadHourGoals()).toEqual(DEFAULT_HOUR_GOALS);
+    });
+
+    test('saves and loads goals', async () => {
+      await saveHourGoals(goals);
+      expect(await loadHourGoals()).toEqual(goals);
+    });
+
+    test('ignores invalid stored goals', async () => {
+      await AsyncStorage.setItem(
+        HOUR_GOALS_KEY,
+        JSON.stringify({ dailyHours: -1 })
+      );
+      expect(await loadHourGoals()).toEqual(DEFAULT_HOUR_GOALS);
+    });
+
+    test('rejects invalid goals on save', async () => {
+      await expect(
+        saveHourGoals({ ...goals, weeklyHours: 200 })
+      ).rejects.toThrow('Invalid hour goals');
+    });
+  });
+});
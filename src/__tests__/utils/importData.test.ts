@@ -0,0 +1,219 @@
+import {
+  parseCsv,
+  parseImportContent,
+  detectImportConflicts,
+} from '../../utils/importData';
+import { sessionsToCsv, sessionsToJson } from '../../utils/exportData';
+import { SessionObject } from '../../types';
+
+const existing: SessionObject[] = [
+  {
+    id: 'existing-1',
+    date: '2024-01-01',
+    clockIn: '2024-01-01T09:00:00.000Z',
+    clockOut: '2024-01-01T17:00:00.000Z',
+    hours: 8,
+  },
+];
+
+describe('Import Data', () => {
+  describe('parseCsv', () => {
+    test('handles quoted fields, escaped quotes and CRLF', () => {
+      expect(parseCsv('a,"b,c","say ""hi"""\r\n1,2,3\r\n')).toEqual([
+        ['a', 'b,c', 'say "hi"'],
+        ['1', '2', '3'],
+      ]);
+    });
+
+    test('skips blank lines', () => {
+      expect(parseCsv('a,b\n\n1,2')).toEqual([
+        ['a', 'b'],
+        ['1', '2'],
+      ]);
+    });
+  });
+
+  describe('parseImportContent', () => {
+    test('round-trips the CSV export', () => {
+      const csv = sessionsToCsv(existing, { hourlyRate: 40 });
+      const rows = parseImportContent(csv, 'sessions.csv');
+
+      expect(rows).toHaveLength(1);
+      expect(rows[0].status).toBe('new');
+      expect(rows[0].session).toMatchObject({
+        date: '2024-01-01',
+        clockIn: '2024-01-01T09:00:00.000Z',
+        clockOut: '2024-01-01T17:00:00.000Z',
+        hours: 8,
+      });
+    });
+
+    test('round-trips the JSON export and keeps session ids', () => {
+      const json = sessionsToJson(existing, { hourlyRate: 40 });
+      const rows = parseImportContent(json);
+
+      expect(rows[0].session?.id).toBe('existing-1');
+      expect(rows[0].session).not.toHaveProperty('earnings');
+    });
+
+    test('keeps billing status and invoice links from a JSON export', () => {
+      const billed: SessionObject = {
+        ...existing[0],
+        invoiceId: 'invoice-1',
+        billingStatus: 'paid',
+      };
+      const rows = parseImportContent(
+        sessionsToJson([billed], { hourlyRate: 40 })
+      );
+
+      expect(rows[0].session).toMatchObject({
+        invoiceId: 'invoice-1',
+        billingStatus: 'paid',
+      });
+    });
+
+    test('keeps notes and tags from a JSON export', () => {
+      const noted: SessionObject = {
+        ...existing[0],
+        note: 'Sprint planning',
+        tags: ['meeting', 'client-a'],
+      };
+      const rows = parseImportContent(
+        sessionsToJson([noted], { hourlyRate: 40 })
+      );
+
+      expect(rows[0].session).toMatchObject({
+        note: 'Sprint planning',
+        tags: ['meeting', 'client-a'],
+      });
+    });
+
+    test('drops malformed notes and tags', () => {
+      const rows = parseImportContent(
+        JSON.stringify([
+          {
+            clockIn: '2024-01-02T09:00:00.000Z',
+            clockOut: '2024-01-02T17:00:00.000Z',
+            note: '  ',
+            tags: ['ok', 3],
+          },
+        ])
+      );
+
+      expect(rows[0].status).toBe('new');
+      expect(rows[0].session).not.toHaveProperty('note');
+      expect(rows[0].session).not.toHaveProperty('tags');
+    });
+
+    test('keeps entry types from CSV and JSON exports', () => {
+      const leave: SessionObject[] = [
+        { ...existing[0], entryType: 'vacation', fullDay: true },
+      ];
+      const csvRows = parseImportContent(
+        sessionsToCsv(leave, { hourlyRate: 40 })
+      );
+      const jsonRows = parseImportContent(
+        sessionsToJson(leave, { hourlyRate: 40 })
+      );
+
+      expect(csvRows[0].session?.entryType).toBe('vacation');
+      expect(jsonRows[0].session).toMatchObject({
+        entryType: 'vacation',
+        fullDay: true,
+      });
+    });
+
+    test('drops unknown entry types', () => {
+      const rows = parseImportContent(
+        JSON.stringify([
+          {
+            clockIn: '2024-01-02T09:00:00.000Z',
+            clockOut: '2024-01-02T17:00:00.000Z',
+            entryType: 'sabbatical',
+            fullDay: 'yes',
+          },
+        ])
+      );
+
+      expect(rows[0].status).toBe('new');
+      expect(rows[0].session).not.toHaveProperty('entryType');
+      expect(rows[0].session).not.toHaveProperty('fullDay');
+    });
+
+    test('marks rows that fail validation as invalid', () => {
+      const rows = parseImportContent(
+        'Date,Clock In,Clock Out\n2024-01-02,2024-01-02T17:00:00Z,2024-01-02T09:00:00Z\n2024-01-02,not a time,2024-01-02T09:00:00Z'
+      );
+
+      expect(rows.map((row) => row.status)).toEqual(['invalid', 'invalid']);
+      expect(rows[0].errors).toHaveLength(1);
+    });
+
+    test('rejects CSV files without clock columns', () => {
+      expect(() => parseImportContent('Date,Hours\n2024-01-01,8')).toThrow(
+        'Clock In'
+      );
+    });
+
+    test('rejects exports from a newer format version', () => {
+      expect(() =>
+        parseImportContent(
+          JSON.stringify({ format: 'kaamko-sessions', version: 99 })
+        )
+      ).toThrow('newer version');
+    });
+  });
+
+  describe('detectImportConflicts', () => {
+    test('flags duplicates and overlaps with existing and earlier rows', () => {
+      const rows = parseImportContent(
+        [
+          'Clock In,Clock Out',
+          '2024-01-01T09:00:00.000Z,2024-01-01T17:00:00.000Z',
+          '2024-01-01T16:00:00.000Z,2024-01-01T18:00:00.000Z',
+          '2024-01-02T09:00:00.000Z,2024-01-02T12:00:00.000Z',
+          '2024-01-02T11:00:00.000Z,2024-01-02T13:00:00.000Z',
+        ].join('\n')
+      );
+
+      const result = detectImportConflicts(rows, existing);
+
+      expect(result.map((row) => row.status)).toEqual([
+        'duplicate',
+        'overlap',
+        'new',
+        'overlap',
+      ]);
+      expect(result[0].conflictingSessionIds).toEqual(['existing-1']);
+      expect(result[3].conflictingSessionIds).toEqual([result[2].session?.id]);
+    });
+
+    test('gives rows with a taken id a new one', () => {
+      const rows = parseImportContent(
+        JSON.stringify([
+          {
+            id: 'existing-1',
+            clockIn: '2024-02-10T09:00:00.000Z',
+            clockOut: '2024-02-10T17:00:00.000Z',
+          },
+          {
+            id: 'existing-1',
+            clockIn: '2024-02-11T09:00:00.000Z',
+            clockOut: '2024-02-11T17:00:00.000Z',
+          },
+        ])
+      );
+
+      const result = detectImportConflicts(rows, existing, 'import');
+
+      expect(result.map((row) => row.status)).toEqual([
+        'duplicate',
+        'duplicate',
+      ]);
+      expect(result.map((row) => row.session?.id)).toEqual([
+        'import-1',
+        'import-2',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,247 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  buildInvoiceDraft,
+  formatInvoiceNumber,
+  InvoiceDraftOptions,
+  renderInvoiceHtml,
+  selectInvoiceSessions,
+} from '../../utils/invoices';
+import {
+  getNextInvoiceNumber,
+  loadInvoices,
+  saveInvoice,
+} from '../../utils/invoiceStorage';
+import {
+  prepareSessionsInsert,
+  loadAllSessions,
+} from '../../utils/sessionStore';
+import {
+  DEFAULT_CALENDAR_PREFERENCES,
+  setCalendarPreferences,
+} from '../../utils/calendar';
+import { Project } from '../../types';
+import { createSession } from '../../testUtils/sessions';
+
+const projects: Project[] = [
+  {
+    id: 'p-web',
+    name: 'Website',
+    color: '#6750A4',
+    hourlyRate: 60,
+    createdAt: '2026-01-01T00:00:00.000Z',
+  },
+  {
+    id: 'p-euro',
+    name: 'Berlin Client',
+    color: '#22d3ee',
+    hourlyRate: 50,
+    currency: 'EUR',
+    createdAt: '2026-01-01T00:00:00.000Z',
+  },
+];
+
+const sessions = [
+  createSession({ id: 's1', date: '2026-10-05', hours: 2, projectId: 'p-web' }),
+  createSession({ id: 's2', date: '2026-10-05', hours: 3 }),
+  createSession({ id: 's3', date: '2026-10-06', hours: 4, projectId: 'p-web' }),
+  createSession({
+    id: 's4',
+    date: '2026-10-07',
+    hours: 1,
+    invoiceId: 'invoice-old',
+  }),
+  createSession({ id: 's5', date: '2026-10-20', hours: 2 }),
+];
+
+const options = (
+  overrides: Partial<InvoiceDraftOptions> = {}
+): InvoiceDraftOptions => ({
+  hourlyRate: 40,
+  currency: 'USD',
+  projects,
+  grouping: 'day',
+  taxRate: 0,
+  selection: { startDate: '2026-10-01', endDate: '2026-10-31' },
+  ...overrides,
+});
+
+describe('Invoices', () => {
+  describe('formatInvoiceNumber', () => {
+    test('pads the sequence to four digits', () => {
+      expect(formatInvoiceNumber(7)).toBe('INV-0007');
+      expect(formatInvoiceNumber(12345)).toBe('INV-12345');
+    });
+  });
+
+  describe('selectInvoiceSessions', () => {
+    test('selects unbilled sessions in the range, oldest first', () => {
+      const selected = selectInvoiceSessions(sessions, {
+        startDate: '2026-10-05',
+        endDate: '2026-10-10',
+      });
+      expect(selected.map((s) => s.id)).toEqual(['s1', 's2', 's3']);
+    });
+
+    test('filters by project', () => {
+      const selected = selectInvoiceSessions(sessions, { projectId: 'p-web' });
+      expect(selected.map((s) => s.id)).toEqual(['s1', 's3']);
+    });
+  });
+
+  describe('buildInvoiceDraft', () => {
+    const billable = sessions.filter((s) => !s.invoiceId);
+
+    test('groups line items by day', () => {
+      const draft = buildInvoiceDraft(billable, options());
+      expect(draft.lineItems.map((line) => line.key)).toEqual([
+        '2026-10-05',
+        '2026-10-06',
+        '2026-10-20',
+      ]);
+      // 2h at the project rate plus 3h at the default rate
+      expect(draft.lineItems[0]).toMatchObject({
+        hours: 5,
+        amount: 240,
+        rate: 48,
+        sessionIds: ['s1', 's2'],
+      });
+      expect(draft.subtotal).toBe(560);
+      expect(draft.sessionIds).toEqual(['s1', 's2', 's3', 's5']);
+    });
+
+    test('groups line items by project', () => {
+      const draft = buildInvoiceDraft(
+        billable,
+        options({ grouping: 'project' })
+      );
+      expect(
+        draft.lineItems.map((line) => [line.description, line.hours])
+      ).toEqual([
+        ['No project', 5],
+        ['Website', 6],
+      ]);
+    });
+
+    test('applies the tax rate to the subtotal', () => {
+      const draft = buildInvoiceDraft(
+        billable,
+        options({ taxRate: 13, billTo: '  Acme Corp ' })
+      );
+      expect(draft.tax).toBe(72.8);
+      expect(draft.total).toBe(632.8);
+      expect(draft.billTo).toBe('Acme Corp');
+      expect(draft.range).toEqual({
+        startDate: '2026-10-01',
+        endDate: '2026-10-31',
+      });
+    });
+
+    test('refuses to mix currencies on one invoice', () => {
+      expect(() =>
+        buildInvoiceDraft(
+          [
+            ...billable,
+            createSession({
+              id: 's6',
+              date: '2026-10-08',
+              hours: 1,
+              projectId: 'p-euro',
+            }),
+          ],
+          options()
+        )
+      ).toThrow('more than one currency');
+    });
+  });
+
+  describe('renderInvoiceHtml', () => {
+    test('renders line items and escapes user text', () => {
+      const draft = buildInvoiceDraft(
+        [sessions[0]],
+        options({ grouping: 'project', billTo: '<b>Acme & Sons</b>' })
+      );
+      const { sessionIds: _ids, ...rest } = draft;
+      const html = renderInvoiceHtml({
+        ...rest,
+        id: 'invoice-1',
+        number: 'INV-0001',
+        issuedAt: '2026-10-31T12:00:00.000Z',
+      });
+      expect(html).toContain('Invoice INV-0001');
+      expect(html).toContain('&lt;b&gt;Acme &amp; Sons&lt;/b&gt;');
+      expect(html).toContain('Website');
+      expect(html).toContain('$120.00');
+    });
+
+    test('writes dates in the active locale', () => {
+      setCalendarPreferences({
+        ...DEFAULT_CALENDAR_PREFERENCES,
+        locale: 'de-DE',
+      });
+      const { sessionIds: _ids, ...rest } = buildInvoiceDraft(
+        [sessions[0]],
+        options()
+      );
+      const html = renderInvoiceHtml({
+        ...rest,
+        id: 'invoice-1',
+        number: 'INV-0001',
+        issuedAt: '2026-10-31T12:00:00.000Z',
+      });
+      setCalendarPreferences(DEFAULT_CALENDAR_PREFERENCES);
+      expect(html).toContain('Issued 31. Oktober 2026');
+    });
+  });
+
+  describe('storage', () => {
+    beforeEach(async () => {
+      await AsyncStorage.clear();
+    });
+
+    test('numbers invoices in sequence and marks sessions invoiced', async () => {
+      const billable = sessions.filter((s) => !s.invoiceId);
+      await AsyncStorage.multiSet(await prepareSessionsInsert(billable));
+
+      expect(await getNextInvoiceNumber()).toBe('INV-0001');
+      const first = await saveInvoice(
+        buildInvoiceDraft(billable.slice(0, 2), options())
+      );
+      const second = await saveInvoice(
+        buildInvoiceDraft(billable.slice(2), options())
+      );
+
+      expect(first.number).toBe('INV-0001');
+      expect(second.number).toBe('INV-0002');
+      expect(await getNextInvoiceNumber()).toBe('INV-0003');
+      expect((await loadInvoices()).map((i) => i.number).sort()).toEqual([
+        'INV-0001',
+        'INV-0002',
+      ]);
+
+      const stored = await loadAllSessions();
+      expect(stored.find((s) => s.id === 's1')?.invoiceId).toBe(first.id);
+      expect(stored.find((s) => s.id === 's5')?.invoiceId).toBe(second.id);
+      expect(selectInvoiceSessions(stored, {})).toEqual([]);
+    });
+
+    test('saves nothing when the write fails', async () => {
+      const billable = sessions.filter((s) => !s.invoiceId);
+      await AsyncStorage.multiSet(await prepareSessionsInsert(billable));
+      // Let the one-off time zone migration run first
+      await loadAllSessions();
+      (AsyncStorage.multiSet as jest.Mock)
+        .mockRejectedValueOnce(new Error('Disk full'))
+        .mockRejectedValueOnce(new Error('Disk full'));
+
+      await expect(
+        saveInvoice(buildInvoiceDraft(billable.slice(0, 2), options()))
+      ).rejects.toThrow();
+
+      expect(await loadInvoices()).toEqual([]);
+      expect(await getNextInvoiceNumber()).toBe('INV-0001');
+      expect(selectInvoiceSessions(await loadAllSessions(), {})).toHaveLength(
+        billable.length
+      );
+    });
+  });
+});
@@ -0,0 +1,231 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  DEFAULT_LEAVE_POLICY,
+  buildLeaveTimes,
+  formatLeaveTotals,
+  getEntryType,
+  getPtoBalance,
+  sumHoursByEntryType,
+} from '../../utils/leave';
+import {
+  getLeavePolicyStorageKeys,
+  loadLeavePolicy,
+  saveLeavePolicy,
+} from '../../utils/leavePolicyStorage';
+import { findOverlappingSessions } from '../../utils/sessionConflicts';
+import {
+  splitOvertimeHours,
+  DEFAULT_OVERTIME_RULES,
+} from '../../utils/overtime';
+import { priceSession } from '../../utils/exportData';
+import {
+  validateLeavePolicy,
+  validateSessionData,
+} from '../../utils/validation';
+import { LeavePolicy } from '../../types';
+import { createSession } from '../../testUtils/sessions';
+
+const { LEAVE_POLICY_KEY } = getLeavePolicyStorageKeys();
+
+// 2 hours of PTO per 40 hours worked, with 4 hours carried over
+const policy: LeavePolicy = {
+  standardDayHours: 8,
+  accrualRate: 0.05,
+  openingBalance: 4,
+};
+
+const sessions = [
+  createSession({ id: 'mon', date: '2024-03-11', hours: 10 }),
+  createSession({ id: 'tue', date: '2024-03-12', hours: 8, entryType: 'work' }),
+  createSession({
+    id: 'wed',
+    date: '2024-03-13',
+    hours: 8,
+    entryType: 'vacation',
+  }),
+  createSession({ id: 'thu', date: '2024-03-14', hours: 3, entryType: 'sick' }),
+  createSession({
+    id: 'fri',
+    date: '2024-03-15',
+    hours: 8,
+    entryType: 'holiday',
+  }),
+  createSession({
+    id: 'sat',
+    date: '2024-03-16',
+    hours: 4,
+    entryType: 'unpaidLeave',
+  }),
+];
+
+describe('Leave', () => {
+  describe('getEntryType', () => {
+    test('treats sessions without a type as work', () => {
+      expect(getEntryType(sessions[0])).toBe('work');
+      expect(getEntryType(sessions[2])).toBe('vacation');
+    });
+  });
+
+  describe('sumHoursByEntryType', () => {
+    test('totals worked hours and each kind of leave separately', () => {
+      expect(sumHoursByEntryType(sessions)).toEqual({
+        work: 18,
+        vacation: 8,
+        sick: 3,
+        holiday: 8,
+        unpaidLeave: 4,
+      });
+    });
+
+    test('returns zeros without sessions', () => {
+      expect(sumHoursByEntryType([])).toEqual({
+        work: 0,
+        vacation: 0,
+        sick: 0,
+        holiday: 0,
+        unpaidLeave: 0,
+      });
+    });
+  });
+
+  describe('formatLeaveTotals', () => {
+    test('lists leave with hours, skipping work', () => {
+      expect(formatLeaveTotals(sumHoursByEntryType(sessions.slice(1, 4)))).toBe(
+        'Vacation 8.00 hrs · Sick 3.00 hrs'
+      );
+    });
+
+    test('returns null without leave', () => {
+      expect(formatLeaveTotals(sumHoursByEntryType(sessions.slice(0, 2)))).toBe(
+        null
+      );
+    });
+  });
+
+  describe('getPtoBalance', () => {
+    test('accrues on worked hours and deducts vacation and sick leave', () => {
+      expect(getPtoBalance(sessions, policy)).toEqual({
+        accrued: 0.9,
+        used: 11,
+        balance: -6.1,
+      });
+    });
+
+    test('keeps the opening balance without accrual or leave', () => {
+      expect(
+        getPtoBalance(sessions.slice(0, 2), { ...policy, accrualRate: 0 })
+      ).toEqual({ accrued: 0, used: 0, balance: 4 });
+    });
+  });
+
+  describe('buildLeaveTimes', () => {
+    test('starts leave at 9:00 on the day and lasts its hours', () => {
+      const { clockIn, clockOut } = buildLeaveTimes(
+        new Date('2024-03-13T15:30:00.000Z'),
+        7.5
+      );
+      expect(clockIn).toBe('2024-03-13T09:00:00.000Z');
+      expect(clockOut).toBe('2024-03-13T16:30:00.000Z');
+    });
+  });
+
+  describe('work-only calculations', () => {
+    test('leave never overlaps worked time', () => {
+      const work = createSession({ id: 'work', date: '2024-03-13', hours: 4 });
+      const vacation = createSession({
+        id: 'half-day',
+        date: '2024-03-13',
+        hours: 4,
+        entryType: 'vacation',
+      });
+      expect(findOverlappingSessions(work, [vacation])).toEqual([]);
+      expect(findOverlappingSessions(vacation, [work])).toEqual([]);
+    });
+
+    test('leave gets no overtime and does not count towards thresholds', () => {
+      const split = splitOvertimeHours(
+        [
+          createSession({
+            id: 'vacation',
+            date: '2024-03-12',
+            hours: 8,
+            entryType: 'vacation',
+          }),
+          createSession({ id: 'work', date: '2024-03-12', hours: 8 }),
+        ],
+        { ...DEFAULT_OVERTIME_RULES, enabled: true },
+        1
+      );
+      expect(split.regularHours).toBe(8);
+      expect(split.overtimeHours).toBe(0);
+      expect(split.bySession.vacation).toEqual({
+        regularHours: 0,
+        overtimeHours: 0,
+        doubleTimeHours: 0,
+      });
+    });
+
+    test('pays paid leave at the base rate and unpaid leave nothing', () => {
+      const rules = { ...DEFAULT_OVERTIME_RULES, enabled: true };
+      const pricing = {
+        hourlyRate: 20,
+        overtime: { rules, split: splitOvertimeHours(sessions, rules, 1) },
+      };
+      expect(priceSession(sessions[2], pricing).earnings).toBe(160);
+      expect(priceSession(sessions[5], pricing).earnings).toBe(0);
+    });
+  });
+
+  describe('validation', () => {
+    test('accepts sessions with a known entry type', () => {
+      expect(validateSessionData({ ...sessions[2], fullDay: true })).toBe(true);
+    });
+
+    test('rejects unknown entry types', () => {
+      expect(
+        validateSessionData({ ...sessions[0], entryType: 'sabbatical' })
+      ).toBe(false);
+      expect(validateSessionData({ ...sessions[2], fullDay: 'yes' })).toBe(
+        false
+      );
+    });
+
+    test('validates leave policies', () => {
+      expect(validateLeavePolicy(DEFAULT_LEAVE_POLICY)).toBe(true);
+      expect(validateLeavePolicy(policy)).toBe(true);
+      expect(validateLeavePolicy({ ...policy, standardDayHours: 0 })).toBe(
+        false
+      );
+      expect(validateLeavePolicy({ ...policy, accrualRate: -0.1 })).toBe(false);
+    });
+  });
+
+  describe('storage', () => {
+    beforeEach(async () => {
+      await AsyncStorage.clear();
+    });
+
+    test('returns defaults when nothing is saved', async () => {
+      expect(await loadLeavePolicy()).toEqual(DEFAULT_LEAVE_POLICY);
+    });
+
+    test('saves and loads the policy', async () => {
+      await saveLeavePolicy(policy);
+      expect(await loadLeavePolicy()).toEqual(policy);
+    });
+
+    test('ignores an invalid stored policy', async () => {
+      await AsyncStorage.setItem(
+        LEAVE_POLICY_KEY,
+        JSON.stringify({ accrualRate: 2 })
+      );
+      expect(await loadLeavePolicy()).toEqual(DEFAULT_LEAVE_POLICY);
+    });
+
+    test('rejects an invalid policy on save', async () => {
+      await expect(
+        saveLeavePolicy({ ...policy, standardDayHours: 25 })
+      ).rejects.toThrow('Invalid leave policy');
+    });
+  });
+});
@@ -0,0 +1,251 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  DEFAULT_OVERTIME_RULES,
+  calculateOvertimePay,
+  describeOvertimeRules,
+  splitOvertimeHours,
+  sumOvertimeBreakdowns,
+} from '../../utils/overtime';
+import {
+  getOvertimeStorageKeys,
+  loadOvertimeRules,
+  saveOvertimeRules,
+} from '../../utils/overtimeStorage';
+import { validateOvertimeRules } from '../../utils/validation';
+import { OvertimeRules } from '../../types';
+import { createSession } from '../../testUtils/sessions';
+
+const { OVERTIME_RULES_KEY } = getOvertimeStorageKeys();
+
+const rules: OvertimeRules = { ...DEFAULT_OVERTIME_RULES, enabled: true };
+
+describe('Overtime', () => {
+  describe('splitOvertimeHours', () => {
+    test('counts every hour as regular when rules are off', () => {
+      const split = splitOvertimeHours(
+        [createSession({ id: 'a', date: '2024-03-11', hours: 12 })],
+        DEFAULT_OVERTIME_RULES,
+        1
+      );
+      expect(split).toMatchObject({
+        regularHours: 12,
+        overtimeHours: 0,
+        doubleTimeHours: 0,
+      });
+    });
+
+    test('splits a long day at the daily threshold', () => {
+      const split = splitOvertimeHours(
+        [createSession({ id: 'a', date: '2024-03-11', hours: 10.5 })],
+        rules,
+        1
+      );
+      expect(split.bySession.a).toEqual({
+        regularHours: 8,
+        overtimeHours: 2.5,
+        doubleTimeHours: 0,
+      });
+    });
+
+    test('applies the daily threshold across sessions in the same day', () => {
+      const split = splitOvertimeHours(
+        [
+          createSession({
+            id: 'late',
+            hours: 4,
+            clockIn: '2024-03-11T14:00:00.000Z',
+          }),
+          createSession({
+            id: 'early',
+            hours: 5,
+            clockIn: '2024-03-11T08:00:00.000Z',
+          }),
+        ],
+        rules,
+        1
+      );
+      expect(split.bySession.early).toEqual({
+        regularHours: 5,
+        overtimeHours: 0,
+        doubleTimeHours: 0,
+      });
+      expect(split.bySession.late).toEqual({
+        regularHours: 3,
+        overtimeHours: 1,
+        doubleTimeHours: 0,
+      });
+    });
+
+    test('pays double time past the daily double time threshold', () => {
+      const split = splitOvertimeHours(
+        [createSession({ id: 'a', date: '2024-03-11', hours: 13.25 })],
+        { ...rules, dailyDoubleTimeThreshold: 12 },
+        1
+      );
+      expect(split.bySession.a).toEqual({
+        regularHours: 8,
+        overtimeHours: 4,
+        doubleTimeHours: 1.25,
+      });
+    });
+
+    test('weekly overtime only counts hours that were regular by the day', () => {
+      // Monday to Friday at 9h each: 5h daily overtime, 40h regular
+      const week = ['11', '12', '13', '14', '15'].map((day) =>
+        createSession({ id: day, date: `2024-03-${day}`, hours: 9 })
+      );
+      // Saturday pushes the week past 40 regular hours
+      const saturday = createSession({
+        id: '16',
+        date: '2024-03-16',
+        hours: 3,
+      });
+
+      const split = splitOvertimeHours([...week, saturday], rules, 1);
+      expect(split.bySession['16']).toEqual({
+        regularHours: 0,
+        overtimeHours: 3,
+        doubleTimeHours: 0,
+      });
+      expect(split).toMatchObject({
+        regularHours: 40,
+        overtimeHours: 8,
+        doubleTimeHours: 0,
+      });
+    });
+
+    test('weekly totals reset at the configured week start', () => {
+      // Thursday to Tuesday at 8h each
+      const sessions = ['14', '15', '16', '17', '18', '19'].map((day) =>
+        createSession({ id: day, date: `2024-03-${day}`, hours: 8 })
+      );
+      // Monday start: Thu-Sun is one week (32h), Mon-Tue the next
+      expect(splitOvertimeHours(sessions, rules, 1).overtimeHours).toBe(0);
+      // Thursday start: all six days fall in one week
+      expect(splitOvertimeHours(sessions, rules, 4).bySession['19']).toEqual({
+        regularHours: 0,
+        overtimeHours: 8,
+        doubleTimeHours: 0,
+      });
+    });
+
+    test('applies weekly double time after weekly overtime', () => {
+      const sessions = ['11', '12', '13', '14', '15', '16'].map((day) =>
+        createSession({ id: day, date: `2024-03-${day}`, hours: 10 })
+      );
+      const split = splitOvertimeHours(
+        sessions,
+        {
+          ...rules,
+          dailyThreshold: null,
+          weeklyThreshold: 40,
+          weeklyDoubleTimeThreshold: 50,
+        },
+        1
+      );
+      expect(split).toMatchObject({
+        regularHours: 40,
+        overtimeHours: 10,
+        doubleTimeHours: 10,
+      });
+    });
+
+    test('sums the breakdown for a subset of sessions', () => {
+      const sessions = [
+        createSession({ id: 'a', date: '2024-03-11', hours: 10 }),
+        createSession({ id: 'b', date: '2024-03-12', hours: 6 }),
+      ];
+      const split = splitOvertimeHours(sessions, rules, 1);
+      expect(sumOvertimeBreakdowns(split, [sessions[0]])).toEqual({
+        regularHours: 8,
+        overtimeHours: 2,
+        doubleTimeHours: 0,
+      });
+    });
+  });
+
+  describe('calculateOvertimePay', () => {
+    test('pays each tier at its multiplier', () => {
+      expect(
+        calculateOvertimePay(
+          { regularHours: 8, overtimeHours: 2, doubleTimeHours: 1 },
+          20,
+          rules
+        )
+      ).toBe(260);
+    });
+
+    test('pays a flat rate when rules are off', () => {
+      expect(
+        calculateOvertimePay(
+          { regularHours: 8, overtimeHours: 2, doubleTimeHours: 1 },
+          20,
+          DEFAULT_OVERTIME_RULES
+        )
+      ).toBe(220);
+    });
+  });
+
+  describe('describeOvertimeRules', () => {
+    test('summarizes thresholds and multipliers', () => {
+      expect(describeOvertimeRules(DEFAULT_OVERTIME_RULES)).toBe('Off');
+      expect(describeOvertimeRules(rules)).toBe(
+        '1.5× after 8h/day or 40h/week'
+      );
+      expect(
+        describeOvertimeRules({ ...rules, dailyDoubleTimeThreshold: 12 })
+      ).toBe('1.5× after 8h/day or 40h/week, 2× after 12h/day');
+    });
+  });
+
+  describe('validateOvertimeRules', () => {
+    test('accepts the defaults and null thresholds', () => {
+      expect(validateOvertimeRules(DEFAULT_OVERTIME_RULES)).toBe(true);
+      expect(validateOvertimeRules({ ...rules, dailyThreshold: null })).toBe(
+        true
+      );
+    });
+
+    test('rejects double time before overtime and low multipliers', () => {
+      expect(
+        validateOvertimeRules({ ...rules, dailyDoubleTimeThreshold: 6 })
+      ).toBe(false);
+      expect(validateOvertimeRules({ ...rules, overtimeMultiplier: 0.5 })).toBe(
+        false
+      );
+      expect(validateOvertimeRules({ ...rules, weeklyThreshold: 0 })).toBe(
+        false
+      );
+      expect(validateOvertimeRules({ ...rules, enabled: 'yes' })).toBe(false);
+    });
+  });
+
+  describe('storage', () => {
+    beforeEach(async () => {
+      await AsyncStorage.clear();
+    });
+
+    test('returns defaults when nothing is saved', async () => {
+      expect(await loadOvertimeRules()).toEqual(DEFAULT_OVERTIME_RULES);
+    });
+
+    test('saves and loads rules', async () => {
+      await saveOvertimeRules(rules);
+      expect(await loadOvertimeRules()).toEqual(rules);
+    });
+
+    test('ignores invalid stored rules', async () => {
+      await AsyncStorage.setItem(
+        OVERTIME_RULES_KEY,
+        JSON.stringify({ ...rules, overtimeMultiplier: -1 })
+      );
+      expect(await loadOvertimeRules()).toEqual(DEFAULT_OVERTIME_RULES);
+    });
+
+    test('rejects invalid rules on save', async () => {
+      await expect(
+        saveOvertimeRules({ ...rules, weeklyDoubleTimeThreshold: 30 })
+      ).rejects.toThrow('Invalid overtime rules');
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  getRateOnDate,
+  removeRateEntry,
+  upsertRateEntry,
+} from '../../utils/rateHistory';
+import { loadRateHistory, saveRateHistory } from '../../utils/rateStorage';
+import { buildExportDocument } from '../../utils/exportData';
+import { getBackupKeys } from '../../utils/backup';
+import { toLocalDateString } from '../../utils/timeUtils';
+import { RateHistoryEntry, SessionObject } from '../../types';
+import { createSession } from '../../testUtils/sessions';
+
+const { HOURLY_RATE_KEY } = getBackupKeys();
+
+const history: RateHistoryEntry[] = [
+  { id: 'rate-2', amount: 45, currency: 'USD', effectiveFrom: '2026-07-01' },
+  { id: 'rate-1', amount: 40, currency: 'USD', effectiveFrom: '2026-01-01' },
+];
+
+describe('Rate History', () => {
+  describe('getRateOnDate', () => {
+    test('uses the latest rate that started on or before the day', () => {
+      expect(getRateOnDate(history, '2026-03-15')?.amount).toBe(40);
+      expect(getRateOnDate(history, '2026-07-01')?.amount).toBe(45);
+      expect(getRateOnDate(history, '2026-12-31')?.amount).toBe(45);
+    });
+
+    test('uses the first rate for sessions before any rate started', () => {
+      expect(getRateOnDate(history, '2025-06-01')).toEqual({
+        amount: 40,
+        currency: 'USD',
+      });
+    });
+
+    test('returns null when no rate is set', () => {
+      expect(getRateOnDate([], '2026-03-15')).toBeNull();
+    });
+  });
+
+  describe('editing', () => {
+    test('replaces an entry starting on the same day and keeps order', () => {
+      const updated = upsertRateEntry(history, {
+        id: 'rate-3',
+        amount: 50,
+        currency: 'EUR',
+        effectiveFrom: '2026-07-01',
+      });
+      expect(updated.map((entry) => entry.id)).toEqual(['rate-1', 'rate-3']);
+    });
+
+    test('moves an edited entry to its new date', () => {
+      const updated = upsertRateEntry(history, {
+        ...history[1],
+        effectiveFrom: '2026-09-01',
+      });
+      expect(updated.map((entry) => entry.id)).toEqual(['rate-2', 'rate-1']);
+    });
+
+    test('removes an entry', () => {
+      expect(removeRateEntry(history, 'rate-2')).toEqual([history[1]]);
+    });
+  });
+
+  describe('earnings', () => {
+    test('prices each session at the rate in effect on its date', () => {
+      const sessions: SessionObject[] = [
+        createSession({ id: 'before', date: '2026-06-30', hours: 8 }),
+        createSession({ id: 'after', date: '2026-07-01', hours: 8 }),
+      ];
+      const doc = buildExportDocument(sessions, {
+        hourlyRate: 45,
+        rateHistory: history,
+      });
+
+      expect(doc.sessions.map((session) => session.earnings)).toEqual([
+        320, 360,
+      ]);
+      expect(doc.totals.earnings).toEqual({ USD: 680 });
+    });
+  });
+
+  describe('storage', () => {
+    beforeEach(async () => {
+      await AsyncStorage.clear();
+    });
+
+    test('returns an empty history when no rate is set', async () => {
+      expect(await loadRateHistory()).toEqual([]);
+    });
+
+    test('saves and loads the history oldest first', async () => {
+      await saveRateHistory(history);
+      expect(await loadRateHistory()).toEqual([history[1], history[0]]);
+    });
+
+    test('reads a rate stored as a bare string', async () => {
+      await AsyncStorage.setItem(HOURLY_RATE_KEY, '40.5');
+      expect(await loadRateHistory()).toEqual([
+        {
+          id: 'rate-initial',
+          amount: 40.5,
+          currency: 'USD',
+          effectiveFrom: toLocalDateString(new Date()),
+        },
+      ]);
+    });
+
+    test('reads a single rate with a currency', async () => {
+      await AsyncStorage.setItem(
+        HOURLY_RATE_KEY,
+        JSON.stringify({ amount: 45, currency: 'EUR' })
+      );
+      const [entry] = await loadRateHistory();
+      expect(entry).toMatchObject({ amount: 45, currency: 'EUR' });
+    });
+
+    test('rejects invalid entries on save', async () => {
+      await expect(
+        saveRateHistory([{ ...history[0], effectiveFrom: 'July' }])
+      ).rejects.toThrow('Invalid hourly rate');
+    });
+  });
+});
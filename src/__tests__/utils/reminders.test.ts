@@ -0,0 +1,150 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  formatReminderTime,
+  planReminders,
+} from '../../utils/reminders';
+import {
+  getReminderStorageKeys,
+  loadReminderSettings,
+  saveReminderSettings,
+} from '../../utils/reminderStorage';
+import { validateReminderSettings } from '../../utils/validation';
+import { ReminderSettings, SessionObject } from '../../types';
+
+const { REMINDER_SETTINGS_KEY } = getReminderStorageKeys();
+
+const settings: ReminderSettings = {
+  ...DEFAULT_REMINDER_SETTINGS,
+  clockInReminderEnabled: true,
+  longSessionReminderEnabled: true,
+  endOfDayReminderEnabled: true,
+};
+
+// Monday 11 March 2024, 07:00
+const monday = new Date('2024-03-11T07:00:00.000Z');
+
+const session: SessionObject = {
+  id: 'a',
+  date: '2024-03-11',
+  clockIn: '2024-03-11T06:00:00.000Z',
+  clockOut: '2024-03-11T06:30:00.000Z',
+  hours: 0.5,
+};
+
+const ids = (reminders: { id: string }[]) => reminders.map(({ id }) => id);
+
+describe('Reminders', () => {
+  describe('planReminders', () => {
+    test('plans nothing when every reminder is off', () => {
+      expect(
+        planReminders(DEFAULT_REMINDER_SETTINGS, null, [], monday)
+      ).toEqual([]);
+    });
+
+    test('schedules clock-in and end-of-day reminders on work days', () => {
+      const reminders = planReminders(settings, null, [], monday);
+
+      // Monday to Friday this week, then Monday again is 7 days out
+      expect(ids(reminders)).toEqual([
+        'reminder-clockIn-2024-03-11',
+        'reminder-endOfDay-2024-03-11',
+        'reminder-clockIn-2024-03-12',
+        'reminder-endOfDay-2024-03-12',
+        'reminder-clockIn-2024-03-13',
+        'reminder-endOfDay-2024-03-13',
+        'reminder-clockIn-2024-03-14',
+        'reminder-endOfDay-2024-03-14',
+        'reminder-clockIn-2024-03-15',
+        'reminder-endOfDay-2024-03-15',
+      ]);
+      expect(reminders[0].date.toISOString()).toBe('2024-03-11T09:00:00.000Z');
+      expect(reminders[1].date.toISOString()).toBe('2024-03-11T18:00:00.000Z');
+    });
+
+    test("skips today's reminders once time is logged", () => {
+      const reminders = planReminders(settings, null, [session], monday);
+
+      expect(ids(reminders)).not.toContain('reminder-clockIn-2024-03-11');
+      expect(ids(reminders)).not.toContain('reminder-endOfDay-2024-03-11');
+      expect(ids(reminders)).toContain('reminder-clockIn-2024-03-12');
+    });
+
+    test('nudges after a long session while clocked in', () => {
+      const clockIn = new Date('2024-03-11T06:30:00.000Z');
+      const reminders = planReminders(settings, clockIn, [], monday);
+
+      expect(ids(reminders)).not.toContain('reminder-clockIn-2024-03-11');
+      const nudge = reminders.find(({ kind }) => kind === 'longSession');
+      expect(nudge?.date.toISOString()).toBe('2024-03-11T14:30:00.000Z');
+      expect(nudge?.body).toBe("You've been clocked in for 8 hours.");
+    });
+
+    test('drops reminders that are already in the past', () => {
+      const evening = new Date('2024-03-11T20:00:00.000Z');
+      const clockIn = new Date('2024-03-11T09:00:00.000Z');
+      const reminders = planReminders(
+        { ...settings, workDays: [1] },
+        clockIn,
+        [],
+        evening
+      );
+
+      expect(ids(reminders)).toEqual([]);
+    });
+  });
+
+  describe('formatReminderTime', () => {
+    test('formats minutes after midnight', () => {
+      expect(formatReminderTime(545)).toBe('09:05');
+      expect(formatReminderTime(1080)).toBe('18:00');
+    });
+  });
+
+  describe('validateReminderSettings', () => {
+    test('accepts the defaults', () => {
+      expect(validateReminderSettings(DEFAULT_REMINDER_SETTINGS)).toBe(true);
+    });
+
+    test('rejects out of range values', () => {
+      expect(validateReminderSettings({ ...settings, workDays: [7] })).toBe(
+        false
+      );
+      expect(
+        validateReminderSettings({ ...settings, clockInReminderTime: 1440 })
+      ).toBe(false);
+      expect(
+        validateReminderSettings({ ...settings, longSessionReminderHours: 0 })
+      ).toBe(false);
+    });
+  });
+
+  describe('storage', () => {
+    beforeEach(async () => {
+      await AsyncStorage.clear();
+    });
+
+    test('returns defaults when nothing is saved', async () => {
+      expect(await loadReminderSettings()).toEqual(DEFAULT_REMINDER_SETTINGS);
+    });
+
+    test('saves and loads settings', async () => {
+      await saveReminderSettings(settings);
+      expect(await loadReminderSettings()).toEqual(settings);
+    });
+
+    test('ignores invalid stored settings', async () => {
+      await AsyncStorage.setItem(
+        REMINDER_SETTINGS_KEY,
+        JSON.stringify({ ...settings, endOfDayReminderTime: -1 })
+      );
+      expect(await loadReminderSettings()).toEqual(DEFAULT_REMINDER_SETTINGS);
+    });
+
+    test('rejects invalid settings on save', async () => {
+      await expect(
+        saveReminderSettings({ ...settings, workDays: [9] as any })
+      ).rejects.toThrow('Invalid reminder settings');
+    });
+  });
+});
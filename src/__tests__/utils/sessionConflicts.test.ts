@@ -0,0 +1,118 @@
+import {
+  detectSessionConflicts,
+  resolveSessionConflicts,
+} from '../../utils/sessionConflicts';
+import { createSession } from '../../testUtils/sessions';
+
+describe('Session Conflicts', () => {
+  const existing = createSession({
+    id: 'existing',
+    clockIn: '2024-01-10T12:00:00.000Z',
+    clockOut: '2024-01-10T14:00:00.000Z',
+  });
+
+  describe('detectSessionConflicts', () => {
+    test('describes the shared time with each overlapping session', () => {
+      const session = createSession({
+        id: 'new',
+        clockIn: '2024-01-10T13:00:00.000Z',
+        clockOut: '2024-01-10T17:00:00.000Z',
+      });
+
+      expect(detectSessionConflicts(session, [existing])).toEqual([
+        {
+          session: existing,
+          overlapStart: '2024-01-10T13:00:00.000Z',
+          overlapEnd: '2024-01-10T14:00:00.000Z',
+          overlapHours: 1,
+        },
+      ]);
+    });
+
+    test('ignores touching sessions and the session itself', () => {
+      const session = createSession({
+        id: 'existing',
+        clockIn: '2024-01-10T14:00:00.000Z',
+        clockOut: '2024-01-10T16:00:00.000Z',
+      });
+      const touching = createSession({
+        id: 'touching',
+        clockIn: '2024-01-10T16:00:00.000Z',
+        clockOut: '2024-01-10T18:00:00.000Z',
+      });
+
+      expect(detectSessionConflicts(session, [existing, touching])).toEqual([]);
+    });
+  });
+
+  describe('resolveSessionConflicts', () => {
+    const session = createSession({
+      id: 'new',
+      clockIn: '2024-01-10T10:00:00.000Z',
+      clockOut: '2024-01-10T18:00:00.000Z',
+    });
+    const conflicts = detectSessionConflicts(session, [existing]);
+
+    test('keeps both sessions unchanged', () => {
+      expect(resolveSessionConflicts(session, conflicts, 'keepBoth')).toEqual({
+        session,
+        removedIds: [],
+      });
+    });
+
+    test('merges into one session spanning all of them', () => {
+      const early = createSession({
+        id: 'early',
+        clockIn: '2024-01-10T08:00:00.000Z',
+        clockOut: '2024-01-10T11:00:00.000Z',
+        breaks: [
+          {
+            start: '2024-01-10T09:00:00.000Z',
+            end: '2024-01-10T09:30:00.000Z',
+          },
+        ],
+      });
+      const result = resolveSessionConflicts(
+        session,
+        detectSessionConflicts(session, [existing, early]),
+        'merge'
+      );
+
+      expect(result.removedIds.sort()).toEqual(['early', 'existing']);
+      expect(result.session).toMatchObject({
+        id: 'new',
+        clockIn: '2024-01-10T08:00:00.000Z',
+        clockOut: '2024-01-10T18:00:00.000Z',
+        hours: 9.5,
+      });
+    });
+
+    test('trims to the longest piece left outside the overlaps', () => {
+      const result = resolveSessionConflicts(session, conflicts, 'trim');
+
+      expect(result.removedIds).toEqual([]);
+      expect(result.session).toMatchObject({
+        id: 'new',
+        clockIn: '2024-01-10T14:00:00.000Z',
+        clockOut: '2024-01-10T18:00:00.000Z',
+        hours: 4,
+      });
+    });
+
+    test('trims a fully covered session away', () => {
+      const covered = createSession({
+        id: 'covered',
+        clockIn: '2024-01-10T12:30:00.000Z',
+        clockOut: '2024-01-10T13:30:00.000Z',
+      });
+
+      expect(
+        resolveSessionConflicts(
+          covered,
+          detectSessionConflicts(covered, [existing]),
+          'trim'
+        ).session
+      ).toBeNull();
+    });
+  });
+});
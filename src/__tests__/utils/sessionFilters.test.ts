@@ -0,0 +1,139 @@
+import {
+  createSessionFilter,
+  filterSessions,
+  getPresetDateRange,
+  getPreviousPayPeriodRange,
+  formatDateRangeLabel,
+  parseTags,
+  buildSessionNotes,
+  filterSessionsByTag,
+  getTagTotals,
+} from '../../utils/sessionFilters';
+import { createSession } from '../../testUtils/sessions';
+
+describe('Session Filters', () => {
+  // Thursday, May 16 2024
+  const now = new Date(2024, 4, 16, 10, 30);
+
+  describe('getPresetDateRange', () => {
+    test('counts today as the last of the N days', () => {
+      const { startDate, endDate } = getPresetDateRange('last7Days', now);
+      expect(startDate).toEqual(new Date(2024, 4, 10));
+      expect(endDate).toEqual(now);
+
+      expect(getPresetDateRange('last90Days', now).startDate).toEqual(
+        new Date(2024, 1, 17)
+      );
+    });
+
+    test('starts this quarter and year to date on the right day', () => {
+      expect(getPresetDateRange('thisQuarter', now).startDate).toEqual(
+        new Date(2024, 3, 1)
+      );
+      expect(getPresetDateRange('yearToDate', now).startDate).toEqual(
+        new Date(2024, 0, 1)
+      );
+    });
+  });
+
+  describe('getPreviousPayPeriodRange', () => {
+    test('returns the first half of the month late in the month', () => {
+      expect(getPreviousPayPeriodRange(now)).toEqual({
+        startDate: new Date(2024, 4, 1),
+        endDate: new Date(2024, 4, 15),
+      });
+    });
+
+    test('returns the second half of last month early in the month', () => {
+      expect(getPreviousPayPeriodRange(new Date(2024, 2, 5))).toEqual({
+        startDate: new Date(2024, 1, 16),
+        endDate: new Date(2024, 1, 29),
+      });
+    });
+  });
+
+  describe('custom filter', () => {
+    const sessions = [
+      createSession({ id: 'before', date: '2024-04-30' }),
+      createSession({ id: 'start', date: '2024-05-01' }),
+      createSession({ id: 'end', date: '2024-05-15' }),
+      createSession({ id: 'after', date: '2024-05-16' }),
+    ];
+
+    test('keeps sessions inside the custom range inclusively', () => {
+      const filter = createSessionFilter(
+        'custom',
+        getPreviousPayPeriodRange(now)
+      );
+
+      expect(
+        filterSessions(sessions, filter).map((session) => session.id)
+      ).toEqual(['start', 'end']);
+    });
+
+    test('falls back to all sessions without a range', () => {
+      expect(createSessionFilter('custom')).toEqual({ type: 'all' });
+    });
+  });
+
+  describe('formatDateRangeLabel', () => {
+    test('adds the year only when the range spans years', () => {
+      expect(
+        formatDateRangeLabel({
+          startDate: new Date(2024, 4, 1),
+          endDate: new Date(2024, 4, 15),
+        })
+      ).toBe('May 1 – May 15');
+      expect(
+        formatDateRangeLabel({
+          startDate: new Date(2023, 11, 20),
+          endDate: new Date(2024, 0, 5),
+        })
+      ).toBe('Dec 20, 2023 – Jan 5, 2024');
+    });
+  });
+
+  describe('tags', () => {
+    const tagged = [
+      {
+        ...createSession({ id: 'a', date: '2024-05-01' }),
+        tags: ['design', 'client'],
+      },
+      {
+        ...createSession({ id: 'b', date: '2024-05-02' }),
+        hours: 2.5,
+        tags: ['design'],
+      },
+      createSession({ id: 'c', date: '2024-05-03' }),
+    ];
+
+    test('parses comma-separated input into unique normalized tags', () => {
+      expect(parseTags(' #Design, meetings ,design,, Code  Review')).toEqual([
+        'design',
+        'meetings',
+        'code review',
+      ]);
+    });
+
+    test('leaves out empty notes and tags', () => {
+      expect(buildSessionNotes({ note: '   ', tags: [] })).toEqual({});
+      expect(
+        buildSessionNotes({ note: ' Fixed login bug ', tags: ['#Bugs'] })
+      ).toEqual({ note: 'Fixed login bug', tags: ['bugs'] });
+    });
+
+    test('filters sessions by tag', () => {
+      expect(
+        filterSessionsByTag(tagged, 'design').map((session) => session.id)
+      ).toEqual(['a', 'b']);
+      expect(filterSessionsByTag(tagged, null)).toHaveLength(3);
+    });
+
+    test('totals hours per tag, most hours first', () => {
+      expect(getTagTotals(tagged)).toEqual([
+        { tag: 'design', hours: 10.5, sessionCount: 2 },
+        { tag: 'client', hours: 8, sessionCount: 1 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  getPartitionId,
+  loadSessionsInRange,
+  migrateLegacySessions,
+  migrateSessionTimeZones,
+  prepareSessionsChange,
+  prepareSessionsInsert,
+  loadAllSessions,
+} from '../../utils/sessionStore';
+import { createSession } from '../../testUtils/sessions';
+
+const mockAsyncStorage = AsyncStorage as jest.Mocked<typeof AsyncStorage>;
+
+describe('Session Store', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await AsyncStorage.clear();
+  });
+
+  describe('getPartitionId', () => {
+    test('derives the month partition from a session date', () => {
+      expect(getPartitionId('2026-10-19')).toBe('2026_10');
+    });
+  });
+
+  describe('migrateLegacySessions', () => {
+    test('splits the legacy blob into month partitions', async () => {
+      await AsyncStorage.setItem(
+        'WORK_SESSIONS',
+        JSON.stringify([
+          createSession({ id: 'b', date: '2024-02-01' }),
+          createSession({ id: 'a', date: '2024-01-31' }),
+        ])
+      );
+
+      const migrated = await migrateLegacySessions();
+
+      expect(migrated).toBe(2);
+      expect(await AsyncStorage.getItem('WORK_SESSIONS')).toBeNull();
+      expect(
+        JSON.parse((await AsyncStorage.getItem('WORK_SESSIONS_INDEX'))!)
+      ).toEqual(['2024_02', '2024_01']);
+      expect(
+        JSON.parse((await AsyncStorage.getItem('WORK_SESSIONS_2024_01'))!)
+      ).toHaveLength(1);
+      expect(
+        await AsyncStorage.getItem('WORK_SESSIONS_LEGACY_BACKUP')
+      ).toBeNull();
+    });
+
+    test('keeps a backup of a legacy blob it cannot fully read', async () => {
+      const legacy = JSON.stringify([
+        createSession({ id: 'a', date: '2024-01-31' }),
+        { id: 'broken' },
+      ]);
+      await AsyncStorage.setItem('WORK_SESSIONS', legacy);
+
+      expect(await migrateLegacySessions()).toBe(1);
+      expect(await AsyncStorage.getItem('WORK_SESSIONS')).toBeNull();
+      expect(await AsyncStorage.getItem('WORK_SESSIONS_LEGACY_BACKUP')).toBe(
+        legacy
+      );
+    });
+
+    test('keeps a backup of a corrupt legacy blob', async () => {
+      await AsyncStorage.setItem('WORK_SESSIONS', '[{"id":');
+
+      expect(await migrateLegacySessions()).toBe(0);
+      expect(await AsyncStorage.getItem('WORK_SESSIONS_LEGACY_BACKUP')).toBe(
+        '[{"id":'
+      );
+    });
+
+    test('does nothing when there is no legacy data', async () => {
+      expect(await migrateLegacySessions()).toBe(0);
+      expect(mockAsyncStorage.multiSet).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('migrateSessionTimeZones', () => {
+    test('stamps older sessions once and keeps their dates', async () => {
+      await AsyncStorage.setItem(
+        'WORK_SESSIONS_2024_01',
+        JSON.stringify([
+          createSession({ id: 'old', date: '2024-01-31' }),
+          {
+            ...createSession({ id: 'tokyo', date: '2024-01-30' }),
+            timeZone: 'Asia/Tokyo',
+            utcOffset: 540,
+          },
+        ])
+      );
+      await AsyncStorage.setItem(
+        'WORK_SESSIONS_INDEX',
+        JSON.stringify(['2024_01'])
+      );
+
+      expect(await migrateSessionTimeZones()).toBe(1);
+
+      const [old, tokyo] = JSON.parse(
+        (await AsyncStorage.getItem('WORK_SESSIONS_2024_01'))!
+      );
+      expect(old.date).toBe('2024-01-31');
+      expect(typeof old.timeZone).toBe('string');
+      expect(typeof old.utcOffset).toBe('number');
+      expect(tokyo.timeZone).toBe('Asia/Tokyo');
+      expect(await AsyncStorage.getItem('WORK_SESSIONS_SCHEMA_VERSION')).toBe(
+        '2'
+      );
+
+      jest.clearAllMocks();
+      expect(await migrateSessionTimeZones()).toBe(0);
+      expect(mockAsyncStorage.multiSet).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('loadSessionsInRange', () => {
+    test('reads only the partitions overlapping the range', async () => {
+      await AsyncStorage.multiSet(
+        await prepareSessionsInsert([
+          createSession({ id: 'jan', date: '2024-01-15' }),
+          createSession({ id: 'feb', date: '2024-02-15' }),
+          createSession({ id: 'mar', date: '2024-03-15' }),
+        ])
+      );
+      mockAsyncStorage.multiGet.mockClear();
+
+      const sessions = await loadSessionsInRange(
+        new Date(2024, 1, 1),
+        new Date(2024, 1, 29)
+      );
+
+      expect(sessions.map((session) => session.id)).toEqual(['feb']);
+      expect(mockAsyncStorage.multiGet).toHaveBeenCalledWith([
+        'WORK_SESSIONS_2024_02',
+      ]);
+    });
+  });
+
+  describe('prepareSessionsInsert', () => {
+    test('replaces a session that already exists with the same id', async () => {
+      await AsyncStorage.multiSet(
+        await prepareSessionsInsert([
+          createSession({ id: 'a', date: '2024-01-15' }),
+        ])
+      );
+      await AsyncStorage.multiSet(
+        await prepareSessionsInsert([
+          createSession({ id: 'a', date: '2024-01-15' }),
+        ])
+      );
+
+      expect(await loadAllSessions()).toHaveLength(1);
+    });
+  });
+
+  describe('prepareSessionsChange', () => {
+    beforeEach(async () => {
+      await AsyncStorage.multiSet(
+        await prepareSessionsInsert([
+          createSession({ id: 'jan', date: '2024-01-15' }),
+          createSession({ id: 'feb', date: '2024-02-15' }),
+          createSession({ id: 'mar', date: '2024-03-15' }),
+        ])
+      );
+      // Run the one-off time zone migration, which reads every partition
+      await loadAllSessions();
+      mockAsyncStorage.multiGet.mockClear();
+    });
+
+    const readPartitions = () =>
+      mockAsyncStorage.multiGet.mock.calls
+        .flatMap(([keys]) => keys)
+        .filter((key) => /^WORK_SESSIONS_\d{4}_\d{2}$/.test(key));
+
+    test('reads only the old and new months of an edit', async () => {
+      const { removals, replaced } = await prepareSessionsChange(
+        [createSession({ id: 'jan', date: '2024-02-20' })],
+        [],
+        { storedDates: ['2024-01-15'], replacing: true }
+      );
+
+      expect(replaced.map((session) => session.id)).toEqual(['jan']);
+      expect(removals).toEqual(['WORK_SESSIONS_2024_01']);
+      expect(readPartitions()).toEqual([
+        'WORK_SESSIONS_2024_02',
+        'WORK_SESSIONS_2024_01',
+      ]);
+    });
+
+    test('reads the other months when a session is not where expected', async () => {
+      const { removed } = await prepareSessionsChange([], ['mar'], {
+        storedDates: ['2024-01-15'],
+      });
+
+      expect(removed.map((session) => session.id)).toEqual(['mar']);
+      expect(readPartitions()).toEqual([
+        'WORK_SESSIONS_2024_01',
+        'WORK_SESSIONS_2024_03',
+        'WORK_SESSIONS_2024_02',
+      ]);
+    });
+  });
+});
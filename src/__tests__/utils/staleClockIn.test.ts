@@ -0,0 +1,126 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  DEFAULT_STALE_CLOCK_IN_HOURS,
+  getClockOutTimeError,
+  getSuggestedClockOutTime,
+  getTypicalSessionHours,
+  isClockInStale,
+} from '../../utils/staleClockIn';
+import {
+  getStaleClockInStorageKeys,
+  loadStaleClockInHours,
+  saveStaleClockInHours,
+} from '../../utils/staleClockInStorage';
+import { createSession } from '../../testUtils/sessions';
+
+const { STALE_CLOCK_IN_HOURS_KEY } = getStaleClockInStorageKeys();
+
+const clockIn = new Date('2024-03-11T09:00:00.000Z');
+
+describe('Forgotten clock-outs', () => {
+  describe('isClockInStale', () => {
+    test('flags clock-ins at or past the threshold', () => {
+      expect(
+        isClockInStale(clockIn, 12, new Date('2024-03-11T20:59:00.000Z'))
+      ).toBe(false);
+      expect(
+        isClockInStale(clockIn, 12, new Date('2024-03-11T21:00:00.000Z'))
+      ).toBe(true);
+      expect(
+        isClockInStale(clockIn, 12, new Date('2024-03-12T16:00:00.000Z'))
+      ).toBe(true);
+    });
+  });
+
+  describe('getTypicalSessionHours', () => {
+    test('falls back to 8 hours without history', () => {
+      expect(getTypicalSessionHours([])).toBe(8);
+    });
+
+    test('uses the median of recent sessions', () => {
+      expect(
+        getTypicalSessionHours([
+          createSession({ id: 'a', date: '2024-03-04', hours: 6 }),
+          createSession({ id: 'b', date: '2024-03-05', hours: 30 }),
+          createSession({ id: 'c', date: '2024-03-06', hours: 7.5 }),
+        ])
+      ).toBe(7.5);
+      expect(
+        getTypicalSessionHours([
+          createSession({ id: 'a', date: '2024-03-04', hours: 6 }),
+          createSession({ id: 'b', date: '2024-03-05', hours: 7 }),
+        ])
+      ).toBe(6.5);
+    });
+  });
+
+  describe('getSuggestedClockOutTime', () => {
+    test('adds the typical session length to the clock-in', () => {
+      expect(
+        getSuggestedClockOutTime(
+          clockIn,
+          7.5,
+          new Date('2024-03-12T08:00:00.000Z')
+        ).toISOString()
+      ).toBe('2024-03-11T16:30:00.000Z');
+    });
+
+    test('never suggests a time in the future', () => {
+      expect(
+        getSuggestedClockOutTime(
+          clockIn,
+          8,
+          new Date('2024-03-11T12:15:30.000Z')
+        ).toISOString()
+      ).toBe('2024-03-11T12:15:00.000Z');
+    });
+  });
+
+  describe('getClockOutTimeError', () => {
+    const now = new Date('2024-03-12T08:00:00.000Z');
+
+    test('accepts times between clock-in and now', () => {
+      expect(
+        getClockOutTimeError(clockIn, new Date('2024-03-11T17:00:00.000Z'), now)
+      ).toBeNull();
+    });
+
+    test('rejects times at or before clock-in', () => {
+      expect(getClockOutTimeError(clockIn, clockIn, now)).toBe(
+        'Clock-out must be after you clocked in'
+      );
+    });
+
+    test('rejects times in the future', () => {
+      expect(
+        getClockOutTimeError(clockIn, new Date('2024-03-12T09:00:00.000Z'), now)
+      ).toBe('Clock-out cannot be in the future');
+    });
+  });
+
+  describe('storage', () => {
+    beforeEach(async () => {
+      await AsyncStorage.clear();
+    });
+
+    test('returns the default when nothing is saved', async () => {
+      expect(await loadStaleClockInHours()).toBe(DEFAULT_STALE_CLOCK_IN_HOURS);
+    });
+
+    test('saves and loads the threshold', async () => {
+      await saveStaleClockInHours(16);
+      expect(await loadStaleClockInHours()).toBe(16);
+    });
+
+    test('ignores an invalid stored threshold', async () => {
+      await AsyncStorage.setItem(STALE_CLOCK_IN_HOURS_KEY, '0');
+      expect(await loadStaleClockInHours()).toBe(DEFAULT_STALE_CLOCK_IN_HOURS);
+    });
+
+    test('rejects an invalid threshold on save', async () => {
+      await expect(saveStaleClockInHours(100)).rejects.toThrow(
+        'Invalid forgotten clock-out threshold'
+      );
+    });
+  });
+});
@@ -1,19 +1,25 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { saveCurrentState, loadStoredData, saveSession, clearStoredData } from '../../utils/storage';
-import { ClockState, SessionObject } from '../../types';
-
-jest.mock('@react-native-async-storage/async-storage', () => ({
-  setItem: jest.fn(),
-  getItem: jest.fn(),
-  multiRemove: jest.fn(),
-  multiSet: jest.fn(),
-}));
+import {
+  saveCurrentState,
+  loadStoredData,
+  saveSession,
+  batchSaveClockOutData,
+  deleteSession,
+  restoreDeletedSession,
+  updateSession,
+  clearStoredData,
+} from '../../utils/storage';
+import { loadDeletedSessions } from '../../utils/deletedSessions';
+import { withDeviceTimeZone } from '../../utils/timeZone';
+import { ClockState } from '../../types';
+import { createSession } from '../../testUtils/sessions';
 
 const mockAsyncStorage = AsyncStorage as jest.Mocked<typeof AsyncStorage>;
 
 describe('Storage Utils', () => {
-  beforeEach(() => {
+  beforeEach(async () => {
     jest.clearAllMocks();
+    await AsyncStorage.clear();
   });
 
   describe('saveCurrentState', () => {
@@ -23,54 +29,318 @@ describe('Storage Utils', () => {
         clockInTime: '2024-01-01T09:00:00.000Z',
       };
 
-      mockAsyncStorage.setItem.mockResolvedValueOnce();
       await saveCurrentState(state);
 
       expect(mockAsyncStorage.setItem).toHaveBeenCalledWith(
         'CLOCK_STATE',
-        JSON.stringify({ isClocked: true, clockInTime: '2024-01-01T09:00:00.000Z' })
+        JSON.stringify({
+          isClocked: true,
+          clockInTime: '2024-01-01T09:00:00.000Z',
+        })
       );
     });
+
+    test('keeps the clock-in time zone across a reload', async () => {
+      const state: ClockState = {
+        isClocked: true,
+        clockInTime: '2024-01-01T09:00:00.000Z',
+        timeZone: 'Asia/Tokyo',
+        utcOffset: 540,
+      };
+
+      await saveCurrentState(state);
+
+      expect((await loadStoredData()).clockState).toEqual(state);
+    });
   });
 
   describe('loadStoredData', () => {
-    test('loads valid data successfully', async () => {
-      const mockClockState = { isClocked: true, clockInTime: '2024-01-01T09:00:00.000Z' };
-      const mockSessions: SessionObject[] = [{
-        id: 'test-1',
-        date: '2024-01-01',
-        clockIn: '2024-01-01T09:00:00.000Z',
-        clockOut: '2024-01-01T17:00:00.000Z',
-        hours: 8,
-      }];
-
-      mockAsyncStorage.getItem
-        .mockResolvedValueOnce(JSON.stringify(mockClockState))
-        .mockResolvedValueOnce(JSON.stringify(mockSessions));
+    test('loads and migrates legacy data successfully', async () => {
+      const mockClockState = {
+        isClocked: true,
+        clockInTime: '2024-01-01T09:00:00.000Z',
+      };
+      const mockSessions = [
+        createSession({ id: 'test-1', date: '2024-01-01' }),
+      ];
+      const migratedSessions = mockSessions.map(withDeviceTimeZone);
+
+      await AsyncStorage.setItem('CLOCK_STATE', JSON.stringify(mockClockState));
+      await AsyncStorage.setItem('WORK_SESSIONS', JSON.stringify(mockSessions));
 
       const result = await loadStoredData();
       expect(result.clockState).toEqual(mockClockState);
-      expect(result.sessions).toEqual(mockSessions);
+      expect(result.sessions).toEqual(migratedSessions);
+      expect(await AsyncStorage.getItem('WORK_SESSIONS')).toBeNull();
+      expect(
+        JSON.parse((await AsyncStorage.getItem('WORK_SESSIONS_2024_01'))!)
+      ).toEqual(migratedSessions);
     });
 
     test('returns defaults when no data exists', async () => {
-      mockAsyncStorage.getItem.mockResolvedValue(null);
       const result = await loadStoredData();
-      
-      expect(result.clockState).toEqual({ isClocked: false, clockInTime: null });
+
+      expect(result.clockState).toEqual({
+        isClocked: false,
+        clockInTime: null,
+      });
       expect(result.sessions).toEqual([]);
     });
   });
 
+  describe('saveSession', () => {
+    test('keeps more than 50 sessions', async () => {
+      for (let day = 1; day <= 28; day++) {
+        const date = `2024-01-${String(day).padStart(2, '0')}`;
+        await saveSession(createSession({ id: `jan-${day}`, date }));
+        await saveSession(
+          createSession({
+            id: `feb-${day}`,
+            date: date.replace('-01-', '-02-'),
+          })
+        );
+      }
+
+      const { sessions } = await loadStoredData();
+      expect(sessions).toHaveLength(56);
+      expect(sessions[0].id).toBe('feb-28');
+      expect(sessions[55].id).toBe('jan-1');
+    });
+
+    test('returns conflicts instead of saving an overlapping session', async () => {
+      await saveSession(createSession({ id: 'existing', date: '2024-01-10' }));
+      const overlapping = {
+        ...createSession({ id: 'new', date: '2024-01-10' }),
+        clockIn: '2024-01-10T16:00:00.000Z',
+        clockOut: '2024-01-10T20:00:00.000Z',
+        hours: 4,
+      };
+
+      const result = await saveSession(overlapping);
+
+      expect(result.saved).toBeNull();
+      expect(result.conflicts).toHaveLength(1);
+      expect(result.conflicts[0]).toMatchObject({
+        session: { id: 'existing' },
+        overlapHours: 1,
+      });
+      const { sessions } = await loadStoredData();
+      expect(sessions.map((session) => session.id)).toEqual(['existing']);
+    });
+
+    test('merges overlapping sessions when asked to', async () => {
+      await saveSession(createSession({ id: 'existing', date: '2024-01-10' }));
+      // Let the one-off time zone migration run first
+      await loadStoredData();
+      mockAsyncStorage.multiSet.mockClear();
+
+      const result = await saveSession(
+        {
+          ...createSession({ id: 'new', date: '2024-01-10' }),
+          clockIn: '2024-01-10T16:00:00.000Z',
+          clockOut: '2024-01-10T20:00:00.000Z',
+          hours: 4,
+        },
+        'merge'
+      );
+
+      expect(result.removedIds).toEqual(['existing']);
+      const { sessions } = await loadStoredData();
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0]).toMatchObject({
+        id: 'new',
+        clockIn: '2024-01-10T09:00:00.000Z',
+        clockOut: '2024-01-10T20:00:00.000Z',
+        hours: 11,
+      });
+      expect(mockAsyncStorage.multiSet).toHaveBeenCalledTimes(1);
+      expect(
+        (await loadDeletedSessions()).map((entry) => entry.session.id)
+      ).toEqual(['existing']);
+    });
+
+    test('keeps the merged sessions when the write fails', async () => {
+      await saveSession(createSession({ id: 'existing', date: '2024-01-10' }));
+      await loadStoredData();
+      mockAsyncStorage.multiSet
+        .mockRejectedValueOnce(new Error('Disk full'))
+        .mockRejectedValueOnce(new Error('Disk full'));
+
+      await expect(
+        saveSession(
+          {
+            ...createSession({ id: 'new', date: '2024-01-10' }),
+            clockIn: '2024-01-10T16:00:00.000Z',
+          },
+          'merge'
+        )
+      ).rejects.toThrow();
+
+      const { sessions } = await loadStoredData();
+      expect(sessions.map((session) => session.id)).toEqual(['existing']);
+    });
+  });
+
+  describe('batchSaveClockOutData', () => {
+    test('saves clock state and session in one multiSet', async () => {
+      const session = createSession({ id: 'test-1', date: '2024-03-05' });
+
+      await batchSaveClockOutData(
+        { isClocked: false, clockInTime: null },
+        session
+      );
+
+      expect(mockAsyncStorage.multiSet).toHaveBeenCalledTimes(1);
+      expect(JSON.parse((await AsyncStorage.getItem('CLOCK_STATE'))!)).toEqual({
+        isClocked: false,
+        clockInTime: null,
+      });
+      expect(
+        JSON.parse((await AsyncStorage.getItem('WORK_SESSIONS_INDEX'))!)
+      ).toEqual(['2024_03']);
+    });
+
+    test('leaves the clock state alone while overlaps are unresolved', async () => {
+      await saveSession(createSession({ id: 'manual', date: '2024-03-05' }));
+      await AsyncStorage.setItem(
+        'CLOCK_STATE',
+        JSON.stringify({
+          isClocked: true,
+          clockInTime: '2024-03-05T08:00:00.000Z',
+        })
+      );
+
+      const result = await batchSaveClockOutData(
+        { isClocked: false, clockInTime: null },
+        {
+          ...createSession({ id: 'clocked', date: '2024-03-05' }),
+          clockIn: '2024-03-05T08:00:00.000Z',
+        }
+      );
+
+      expect(result.conflicts).toHaveLength(1);
+      expect(
+        JSON.parse((await AsyncStorage.getItem('CLOCK_STATE'))!).isClocked
+      ).toBe(true);
+    });
+  });
+
+  describe('deleteSession', () => {
+    test('removes the session and drops empty partitions', async () => {
+      await saveSession(createSession({ id: 'keep', date: '2024-01-10' }));
+      await saveSession(createSession({ id: 'remove', date: '2024-02-10' }));
+
+      await deleteSession('remove');
+
+      const { sessions } = await loadStoredData();
+      expect(sessions.map((session) => session.id)).toEqual(['keep']);
+      expect(await AsyncStorage.getItem('WORK_SESSIONS_2024_02')).toBeNull();
+      expect(
+        JSON.parse((await AsyncStorage.getItem('WORK_SESSIONS_INDEX'))!)
+      ).toEqual(['2024_01']);
+      expect(
+        (await loadDeletedSessions()).map((entry) => entry.session.id)
+      ).toEqual(['remove']);
+    });
+
+    test('keeps the session when the write fails', async () => {
+      await saveSession(createSession({ id: 'keep', date: '2024-01-10' }));
+      await loadStoredData();
+      mockAsyncStorage.multiSet
+        .mockRejectedValueOnce(new Error('Disk full'))
+        .mockRejectedValueOnce(new Error('Disk full'));
+
+      await expect(deleteSession('keep')).rejects.toThrow();
+
+      const { sessions } = await loadStoredData();
+      expect(sessions.map((session) => session.id)).toEqual(['keep']);
+      expect(await loadDeletedSessions()).toEqual([]);
+    });
+  });
+
+  describe('restoreDeletedSession', () => {
+    test('puts a deleted session back in date order', async () => {
+      await saveSession(createSession({ id: 'newer', date: '2024-01-20' }));
+      await saveSession(createSession({ id: 'middle', date: '2024-01-15' }));
+      await saveSession(createSession({ id: 'older', date: '2024-01-10' }));
+
+      await deleteSession('middle');
+      expect(await restoreDeletedSession('middle')).toMatchObject({
+        id: 'middle',
+      });
+
+      const { sessions } = await loadStoredData();
+      expect(sessions.map((session) => session.id)).toEqual([
+        'newer',
+        'middle',
+        'older',
+      ]);
+      expect(await restoreDeletedSession('middle')).toBeNull();
+    });
+  });
+
+  describe('updateSession', () => {
+    test('moves an edited session to its new month partition', async () => {
+      await saveSession(createSession({ id: 'edit', date: '2024-01-31' }));
+
+      await updateSession({
+        ...createSession({ id: 'edit', date: '2024-02-01' }),
+        clockOut: '2024-02-01T18:00:00.000Z',
+        hours: 9,
+      });
+
+      const { sessions } = await loadStoredData();
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0]).toMatchObject({ date: '2024-02-01', hours: 9 });
+      expect(await AsyncStorage.getItem('WORK_SESSIONS_2024_01')).toBeNull();
+    });
+
+    test('trims an edit that overlaps another session', async () => {
+      await saveSession(createSession({ id: 'morning', date: '2024-01-10' }));
+      await saveSession({
+        ...createSession({ id: 'evening', date: '2024-01-10' }),
+        clockIn: '2024-01-10T18:00:00.000Z',
+        clockOut: '2024-01-10T22:00:00.000Z',
+        hours: 4,
+      });
+
+      const edited = {
+        ...createSession({ id: 'evening', date: '2024-01-10' }),
+        clockIn: '2024-01-10T15:00:00.000Z',
+        clockOut: '2024-01-10T22:00:00.000Z',
+        hours: 7,
+      };
+      expect((await updateSession(edited)).conflicts).toHaveLength(1);
+
+      const result = await updateSession(edited, 'trim');
+      expect(result.saved).toMatchObject({
+        clockIn: '2024-01-10T17:00:00.000Z',
+        hours: 5,
+      });
+    });
+
+    test('throws when the session does not exist', async () => {
+      await expect(
+        updateSession(createSession({ id: 'missing', date: '2024-01-10' }))
+      ).rejects.toThrow();
+    });
+  });
+
   describe('clearStoredData', () => {
     test('clears all stored data', async () => {
-      mockAsyncStorage.multiRemove.mockResolvedValueOnce();
+      await saveSession(createSession({ id: 'test-1', date: '2024-01-10' }));
+
       await clearStoredData();
-      
+
       expect(mockAsyncStorage.multiRemove).toHaveBeenCalledWith([
         'CLOCK_STATE',
         'WORK_SESSIONS',
+        'WORK_SESSIONS_LEGACY_BACKUP',
+        'WORK_SESSIONS_INDEX',
+        'WORK_SESSIONS_SCHEMA_VERSION',
+        'WORK_SESSIONS_2024_01',
       ]);
+      expect(await AsyncStorage.getAllKeys()).toEqual([]);
     });
   });
 });
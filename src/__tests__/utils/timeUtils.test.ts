@@ -1,11 +1,14 @@
-import { 
-  calculateHours, 
-  formatTime, 
-  formatDate, 
-  getThisWeekDateRange, 
-  getLastWeekDateRange, 
-  getLastMonthDateRange, 
-  isDateInRange 
+import {
+  calculateHours,
+  calculateBreakHours,
+  formatTime,
+  formatDate,
+  getThisWeekDateRange,
+  getLastWeekDateRange,
+  getLastMonthDateRange,
+  isDateInRange,
+  buildSessionTimes,
+  parseLocalDate,
 } from '../../utils/timeUtils';
 
 describe('Time Utils', () => {
@@ -37,6 +40,49 @@ describe('Time Utils', () => {
       const hours = calculateHours(clockIn, clockOut);
       expect(hours).toBe(-8);
     });
+
+    test('subtracts breaks from worked hours', () => {
+      const hours = calculateHours(
+        '2024-01-01T09:00:00.000Z',
+        '2024-01-01T17:00:00.000Z',
+        [
+          {
+            start: '2024-01-01T12:00:00.000Z',
+            end: '2024-01-01T12:30:00.000Z',
+          },
+          {
+            start: '2024-01-01T15:00:00.000Z',
+            end: '2024-01-01T15:15:00.000Z',
+          },
+        ]
+      );
+      expect(hours).toBe(7.25);
+    });
+
+    test('counts a running break up to the end time', () => {
+      const hours = calculateHours(
+        '2024-01-01T09:00:00.000Z',
+        '2024-01-01T13:00:00.000Z',
+        [{ start: '2024-01-01T12:00:00.000Z', end: null }]
+      );
+      expect(hours).toBe(3);
+    });
+  });
+
+  describe('calculateBreakHours', () => {
+    test('clips breaks to the session bounds', () => {
+      const breakHours = calculateBreakHours(
+        [
+          {
+            start: '2024-01-01T08:00:00.000Z',
+            end: '2024-01-01T10:00:00.000Z',
+          },
+        ],
+        '2024-01-01T09:00:00.000Z',
+        '2024-01-01T17:00:00.000Z'
+      );
+      expect(breakHours).toBe(1);
+    });
   });
 
   describe('formatTime', () => {
@@ -60,7 +106,9 @@ describe('Time Utils', () => {
       const range = getThisWeekDateRange();
       expect(range.startDate).toBeInstanceOf(Date);
       expect(range.endDate).toBeInstanceOf(Date);
-      expect(range.endDate.getTime()).toBeGreaterThan(range.startDate.getTime());
+      expect(range.endDate.getTime()).toBeGreaterThan(
+        range.startDate.getTime()
+      );
     });
   });
 
@@ -69,7 +117,9 @@ describe('Time Utils', () => {
       const range = getLastWeekDateRange();
       expect(range.startDate).toBeInstanceOf(Date);
       expect(range.endDate).toBeInstanceOf(Date);
-      expect(range.endDate.getTime()).toBeGreaterThan(range.startDate.getTime());
+      expect(range.endDate.getTime()).toBeGreaterThan(
+        range.startDate.getTime()
+      );
     });
   });
 
@@ -78,7 +128,9 @@ describe('Time Utils', () => {
       const range = getLastMonthDateRange();
       expect(range.startDate).toBeInstanceOf(Date);
       expect(range.endDate).toBeInstanceOf(Date);
-      expect(range.endDate.getTime()).toBeGreaterThan(range.startDate.getTime());
+      expect(range.endDate.getTime()).toBeGreaterThan(
+        range.startDate.getTime()
+      );
     });
   });
 
@@ -86,7 +138,7 @@ describe('Time Utils', () => {
     test('correctly identifies dates within range', () => {
       const startDate = new Date('2024-01-01');
       const endDate = new Date('2024-01-31');
-      
+
       expect(isDateInRange('2024-01-15', startDate, endDate)).toBe(true);
       expect(isDateInRange('2024-01-01', startDate, endDate)).toBe(true);
       expect(isDateInRange('2024-01-31', startDate, endDate)).toBe(true);
@@ -95,9 +147,67 @@ describe('Time Utils', () => {
     test('correctly identifies dates outside range', () => {
       const startDate = new Date('2024-01-01');
       const endDate = new Date('2024-01-31');
-      
+
       expect(isDateInRange('2023-12-31', startDate, endDate)).toBe(false);
       expect(isDateInRange('2024-02-01', startDate, endDate)).toBe(false);
     });
+
+    test('compares session dates as local calendar days', () => {
+      const day = new Date(2024, 0, 15, 23, 30);
+
+      expect(isDateInRange('2024-01-15', day, day)).toBe(true);
+      expect(isDateInRange('2024-01-14', day, day)).toBe(false);
+    });
+  });
+
+  describe('parseLocalDate', () => {
+    test('parses YYYY-MM-DD as local midnight', () => {
+      const date = parseLocalDate('2024-03-05');
+      expect(date.getFullYear()).toBe(2024);
+      expect(date.getMonth()).toBe(2);
+      expect(date.getDate()).toBe(5);
+      expect(date.getHours()).toBe(0);
+    });
+  });
+
+  describe('buildSessionTimes', () => {
+    const day = new Date(2024, 0, 15);
+
+    test('keeps same-day sessions on the selected date', () => {
+      const { clockIn, clockOut, endsNextDay } = buildSessionTimes(
+        day,
+        new Date(2024, 0, 1, 9, 0),
+        new Date(2024, 0, 1, 17, 30)
+      );
+
+      expect(endsNextDay).toBe(false);
+      expect(clockIn).toEqual(new Date(2024, 0, 15, 9, 0));
+      expect(clockOut).toEqual(new Date(2024, 0, 15, 17, 30));
+    });
+
+    test('rolls an earlier clock out over to the next day', () => {
+      const { clockIn, clockOut, endsNextDay } = buildSessionTimes(
+        day,
+        new Date(2024, 0, 1, 22, 0),
+        new Date(2024, 0, 1, 6, 0)
+      );
+
+      expect(endsNextDay).toBe(true);
+      expect(clockIn).toEqual(new Date(2024, 0, 15, 22, 0));
+      expect(clockOut).toEqual(new Date(2024, 0, 16, 6, 0));
+      expect(
+        calculateHours(clockIn.toISOString(), clockOut.toISOString())
+      ).toBe(8);
+    });
+
+    test('rolls over across month boundaries', () => {
+      const { clockOut } = buildSessionTimes(
+        new Date(2024, 0, 31),
+        new Date(2024, 0, 1, 23, 0),
+        new Date(2024, 0, 1, 1, 0)
+      );
+
+      expect(clockOut).toEqual(new Date(2024, 1, 1, 1, 0));
+    });
   });
 });
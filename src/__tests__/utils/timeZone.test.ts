@@ -0,0 +1,89 @@
+import {
+  getClockInZone,
+  getSessionDate,
+  getTimeZoneStamp,
+  getUtcOffset,
+  withDeviceTimeZone,
+} from '../../utils/timeZone';
+import { toLocalDateString } from '../../utils/timeUtils';
+import { createSession } from '../../testUtils/sessions';
+
+describe('Time Zones', () => {
+  describe('getSessionDate', () => {
+    test('uses the wall-clock day where the session started', () => {
+      // 23:30 UTC is already the next morning in Tokyo and still the
+      // afternoon in Los Angeles
+      expect(getSessionDate('2024-03-10T23:30:00.000Z', 0)).toBe('2024-03-10');
+      expect(getSessionDate('2024-03-10T23:30:00.000Z', 540)).toBe(
+        '2024-03-11'
+      );
+      expect(getSessionDate('2024-03-10T23:30:00.000Z', -420)).toBe(
+        '2024-03-10'
+      );
+      expect(getSessionDate('2024-03-11T03:00:00.000Z', -420)).toBe(
+        '2024-03-10'
+      );
+    });
+
+    test('falls back to the device day without an offset', () => {
+      const clockIn = new Date(2024, 2, 10, 23, 30);
+      expect(getSessionDate(clockIn)).toBe(toLocalDateString(clockIn));
+    });
+
+    test('matches the local day for the device offset', () => {
+      const clockIn = new Date(2024, 6, 1, 0, 15);
+      expect(getSessionDate(clockIn, getUtcOffset(clockIn))).toBe('2024-07-01');
+    });
+  });
+
+  describe('getTimeZoneStamp', () => {
+    test('records the device zone and offset', () => {
+      const date = new Date(2024, 0, 15, 9);
+      const stamp = getTimeZoneStamp(date);
+      expect(typeof stamp.timeZone).toBe('string');
+      expect(stamp.timeZone).not.toBe('');
+      expect(stamp.utcOffset).toBe(-date.getTimezoneOffset() || 0);
+    });
+  });
+
+  describe('withDeviceTimeZone', () => {
+    test('stamps sessions without a zone and keeps their date', () => {
+      const stamped = withDeviceTimeZone(
+        createSession({ clockIn: '2024-03-10T23:30:00.000Z', hours: 2.5 })
+      );
+      expect(stamped.date).toBe('2024-03-10');
+      expect(stamped).toEqual(
+        expect.objectContaining(
+          getTimeZoneStamp(new Date('2024-03-10T23:30:00.000Z'))
+        )
+      );
+    });
+
+    test('leaves stamped sessions alone', () => {
+      const session = createSession({
+        timeZone: 'Asia/Tokyo',
+        utcOffset: 540,
+      });
+      expect(withDeviceTimeZone(session)).toBe(session);
+    });
+  });
+
+  describe('getClockInZone', () => {
+    test('returns the stamp only when both fields are stored', () => {
+      expect(
+        getClockInZone({
+          isClocked: true,
+          clockInTime: '2024-03-10T23:30:00.000Z',
+          timeZone: 'Asia/Tokyo',
+          utcOffset: 540,
+        })
+      ).toEqual({ timeZone: 'Asia/Tokyo', utcOffset: 540 });
+      expect(
+        getClockInZone({
+          isClocked: true,
+          clockInTime: '2024-03-10T23:30:00.000Z',
+        })
+      ).toBeNull();
+    });
+  });
+});
@@ -1,4 +1,10 @@
-import { validateClockState, validateSessionsArray, validateSessionData } from '../../utils/validation';
+import {
+  validateClockState,
+  validateSessionsArray,
+  validateSessionData,
+  validateProject,
+  validateTimeZoneStamp,
+} from '../../utils/validation';
 import { ClockState, SessionObject } from '../../types';
 
 describe('Validation Utils', () => {
@@ -8,17 +14,46 @@ describe('Validation Utils', () => {
         isClocked: true,
         clockInTime: '2024-01-01T09:00:00.000Z',
       };
-      
+
       const result = validateClockState(validState);
       expect(result).toEqual(validState);
     });
 
+    test('keeps the project selected at clock-in', () => {
+      const validState: ClockState = {
+        isClocked: true,
+        clockInTime: '2024-01-01T09:00:00.000Z',
+        projectId: 'project-1',
+      };
+
+      expect(validateClockState(validState)).toEqual(validState);
+    });
+
+    test('keeps a running break and drops malformed breaks', () => {
+      const state: ClockState = {
+        isClocked: true,
+        clockInTime: '2024-01-01T09:00:00.000Z',
+        breaks: [
+          {
+            start: '2024-01-01T12:00:00.000Z',
+            end: '2024-01-01T12:30:00.000Z',
+          },
+          { start: '2024-01-01T15:00:00.000Z', end: null },
+        ],
+      };
+
+      expect(validateClockState(state)).toEqual(state);
+      expect(
+        validateClockState({ ...state, breaks: [{ start: 'nope', end: null }] })
+      ).not.toHaveProperty('breaks');
+    });
+
     test('validates clock state with null time', () => {
       const validState: ClockState = {
         isClocked: false,
         clockInTime: null,
       };
-      
+
       const result = validateClockState(validState);
       expect(result).toEqual(validState);
     });
@@ -28,14 +63,14 @@ describe('Validation Utils', () => {
         isClocked: 'true',
         clockInTime: 'invalid-time',
       };
-      
+
       const result = validateClockState(invalidState as any);
       expect(result).toEqual({ isClocked: false, clockInTime: null });
     });
 
     test('returns default for missing properties', () => {
       const incompleteState = { isClocked: true };
-      
+
       const result = validateClockState(incompleteState as any);
       expect(result).toEqual({ isClocked: false, clockInTime: null });
     });
@@ -50,7 +85,7 @@ describe('Validation Utils', () => {
         clockOut: '2024-01-01T17:00:00.000Z',
         hours: 8,
       };
-      
+
       const result = validateSessionData(validSession);
       expect(result).toBe(true);
     });
@@ -63,7 +98,7 @@ describe('Validation Utils', () => {
         clockOut: '2024-01-01T17:00:00.000Z',
         hours: 'invalid-hours',
       };
-      
+
       const result = validateSessionData(invalidSession as any);
       expect(result).toBe(false);
     });
@@ -73,7 +108,7 @@ describe('Validation Utils', () => {
         id: 'test-id',
         date: '2024-01-01',
       };
-      
+
       const result = validateSessionData(incompleteSession as any);
       expect(result).toBe(false);
     });
@@ -86,10 +121,31 @@ describe('Validation Utils', () => {
         clockOut: '2024-01-01T09:00:00.000Z',
         hours: 8,
       };
-      
+
       const result = validateSessionData(invalidSession);
       expect(result).toBe(false);
     });
+
+    test('accepts a note and tags but rejects malformed ones', () => {
+      const session = {
+        id: 'test-id',
+        date: '2024-01-01',
+        clockIn: '2024-01-01T09:00:00.000Z',
+        clockOut: '2024-01-01T17:00:00.000Z',
+        hours: 8,
+      };
+
+      expect(
+        validateSessionData({
+          ...session,
+          note: 'Sprint planning',
+          tags: ['meetings'],
+        })
+      ).toBe(true);
+      expect(validateSessionData({ ...session, note: 42 })).toBe(false);
+      expect(validateSessionData({ ...session, tags: 'meetings' })).toBe(false);
+      expect(validateSessionData({ ...session, tags: ['ok', 7] })).toBe(false);
+    });
   });
 
   describe('validateSessionsArray', () => {
@@ -110,7 +166,7 @@ describe('Validation Utils', () => {
           hours: 8,
         },
       ];
-      
+
       const result = validateSessionsArray(validSessions);
       expect(result).toEqual(validSessions);
       expect(result).toHaveLength(2);
@@ -140,7 +196,7 @@ describe('Validation Utils', () => {
           hours: 8,
         },
       ];
-      
+
       const result = validateSessionsArray(mixedSessions as any);
       expect(result).toHaveLength(2);
       expect(result[0].id).toBe('valid-1');
@@ -149,7 +205,7 @@ describe('Validation Utils', () => {
 
     test('returns empty array for non-array input', () => {
       const nonArrayInput = { notAnArray: true };
-      
+
       const result = validateSessionsArray(nonArrayInput as any);
       expect(result).toEqual([]);
     });
@@ -158,5 +214,106 @@ describe('Validation Utils', () => {
       expect(validateSessionsArray(null as any)).toEqual([]);
       expect(validateSessionsArray(undefined as any)).toEqual([]);
     });
+
+    test('loads sessions with and without a project', () => {
+      const base = {
+        date: '2024-01-01',
+        clockIn: '2024-01-01T09:00:00.000Z',
+        clockOut: '2024-01-01T17:00:00.000Z',
+        hours: 8,
+      };
+
+      const result = validateSessionsArray([
+        { ...base, id: 'legacy' },
+        { ...base, id: 'with-project', projectId: 'project-1' },
+        { ...base, id: 'null-project', projectId: null },
+        { ...base, id: 'bad-project', projectId: 42 },
+      ]);
+
+      expect(result.map((s) => s.id)).toEqual([
+        'legacy',
+        'with-project',
+        'null-project',
+      ]);
+      expect(result[1].projectId).toBe('project-1');
+      expect(result[2]).not.toHaveProperty('projectId');
+    });
+
+    test('rejects sessions with a running or reversed break', () => {
+      const session = {
+        id: 'session-1',
+        date: '2024-01-01',
+        clockIn: '2024-01-01T09:00:00.000Z',
+        clockOut: '2024-01-01T17:00:00.000Z',
+        hours: 7.5,
+      };
+
+      expect(
+        validateSessionData({
+          ...session,
+          breaks: [
+            {
+              start: '2024-01-01T12:00:00.000Z',
+              end: '2024-01-01T12:30:00.000Z',
+            },
+          ],
+        })
+      ).toBe(true);
+      expect(
+        validateSessionData({
+          ...session,
+          breaks: [{ start: '2024-01-01T12:00:00.000Z', end: null }],
+        })
+      ).toBe(false);
+      expect(
+        validateSessionData({
+          ...session,
+          breaks: [
+            {
+              start: '2024-01-01T12:30:00.000Z',
+              end: '2024-01-01T12:00:00.000Z',
+            },
+          ],
+        })
+      ).toBe(false);
+    });
+  });
+
+  describe('validateTimeZoneStamp', () => {
+    test('accepts both fields or neither', () => {
+      expect(validateTimeZoneStamp(undefined, undefined)).toBe(true);
+      expect(validateTimeZoneStamp('America/New_York', -300)).toBe(true);
+      expect(validateTimeZoneStamp('Asia/Kolkata', 330)).toBe(true);
+    });
+
+    test('rejects half stamps and impossible offsets', () => {
+      expect(validateTimeZoneStamp('Europe/Berlin', undefined)).toBe(false);
+      expect(validateTimeZoneStamp(undefined, 60)).toBe(false);
+      expect(validateTimeZoneStamp('', 0)).toBe(false);
+      expect(validateTimeZoneStamp('UTC', 15 * 60)).toBe(false);
+      expect(validateTimeZoneStamp('UTC', 1.5)).toBe(false);
+    });
+  });
+
+  describe('validateProject', () => {
+    const project = {
+      id: 'project-1',
+      name: 'Website',
+      color: '#6750A4',
+      createdAt: '2024-01-01T00:00:00.000Z',
+    };
+
+    test('accepts projects with optional client and rate', () => {
+      expect(validateProject(project)).toBe(true);
+      expect(
+        validateProject({ ...project, client: 'Acme', hourlyRate: 55 })
+      ).toBe(true);
+    });
+
+    test('rejects missing names, bad colors and negative rates', () => {
+      expect(validateProject({ ...project, name: ' ' })).toBe(false);
+      expect(validateProject({ ...project, color: 'purple' })).toBe(false);
+      expect(validateProject({ ...project, hourlyRate: -1 })).toBe(false);
+    });
   });
 });
@@ -6,17 +6,35 @@ import Animated, {
   useSharedValue,
   withTiming,
 } from 'react-native-reanimated';
-import Svg, { Path, Line, Defs, Marker, Polygon, G } from 'react-native-svg';
+import Svg, {
+  Path,
+  Line,
+  Defs,
+  Marker,
+  Polygon,
+  G,
+  Circle,
+} from 'react-native-svg';
+import { useCalendarContext } from '../contexts/CalendarContext';
 
 const { width } = Dimensions.get('window');
 const CLOCK_SIZE = width * 0.9;
 const CENTER = CLOCK_SIZE / 2;
+const RING_SIZE = CLOCK_SIZE + 20;
+const RING_RADIUS = RING_SIZE / 2 - 4;
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
 
 interface AnalogClockProps {
   clockInTime?: Date;
+  /** Share of today's hour goal reached, 0 to 1; null for no goal */
+  goalProgress?: number | null;
 }
 
-const AnalogClock: React.FC<AnalogClockProps> = ({ clockInTime }) => {
+const AnalogClock: React.FC<AnalogClockProps> = ({
+  clockInTime,
+  goalProgress = null,
+}) => {
+  const { preferences } = useCalendarContext();
   const hourRotation = useSharedValue(0);
   const minuteRotation = useSharedValue(0);
   const secondRotation = useSharedValue(0);
@@ -115,6 +133,26 @@ const AnalogClock: React.FC<AnalogClockProps> = ({ clockInTime }) => {
           {i}
         </Text>
       );
+
+      // 24-hour clock: afternoon hours on an inner ring, midnight as 00
+      if (preferences.use24HourClock) {
+        const innerR = CENTER - 58;
+        numbers.push(
+          <Text
+            key={`inner-${i}`}
+            style={{
+              position: 'absolute',
+              width: 20,
+              textAlign: 'center',
+              fontSize: 11,
+              color: '#94a3b8',
+              left: CENTER + innerR * Math.sin(angle) - 10,
+              top: CENTER - innerR * Math.cos(angle) - 7,
+            }}>
+            {i === 12 ? '00' : i + 12}
+          </Text>
+        );
+      }
     }
     return numbers;
   };
@@ -235,9 +273,45 @@ const AnalogClock: React.FC<AnalogClockProps> = ({ clockInTime }) => {
     );
   };
 
+  // Draw today's goal progress as a ring around the clock face
+  const renderGoalRing = () => {
+    if (goalProgress === null) return null;
+    const center = RING_SIZE / 2;
+    return (
+      <Svg
+        width={RING_SIZE}
+        height={RING_SIZE}
+        style={{ position: 'absolute', left: 0, top: 0 }}
+        pointerEvents="none">
+        <Circle
+          cx={center}
+          cy={center}
+          r={RING_RADIUS}
+          stroke="rgba(255,255,255,0.1)"
+          strokeWidth={6}
+          fill="none"
+        />
+        {goalProgress > 0 && (
+          <Circle
+            cx={center}
+            cy={center}
+            r={RING_RADIUS}
+            stroke={goalProgress >= 1 ? '#22c55e' : '#22d3ee'}
+            strokeWidth={6}
+            strokeLinecap="round"
+            strokeDasharray={`${RING_CIRCUMFERENCE * goalProgress} ${RING_CIRCUMFERENCE}`}
+            fill="none"
+            transform={`rotate(-90 ${center} ${center})`}
+          />
+        )}
+      </Svg>
+    );
+  };
+
   return (
     <View style={styles.container}>
       <View style={styles.clockContainer}>
+        {renderGoalRing()}
         <View style={styles.clock}>
           {renderCoveredArc()}
           {renderTicks()}
@@ -262,9 +336,9 @@ const styles = StyleSheet.create({
   },
   clockContainer: {
     backgroundColor: 'rgba(255,255,255,0.05)',
-    width: CLOCK_SIZE + 20,
-    height: CLOCK_SIZE + 20,
-    borderRadius: (CLOCK_SIZE + 20) / 2,
+    width: RING_SIZE,
+    height: RING_SIZE,
+    borderRadius: RING_SIZE / 2,
     shadowColor: '#22d3ee',
     shadowOffset: { width: 0, height: 5 },
     shadowOpacity: 0.3,
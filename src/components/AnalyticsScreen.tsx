@@ -0,0 +1,371 @@
+import React, { useMemo, useState } from 'react';
+import { View, StyleSheet, ScrollView, Dimensions } from 'react-native';
+import { Text, Card } from 'react-native-paper';
+import { Ionicons } from '@expo/vector-icons';
+import Svg, {
+  Rect,
+  Line,
+  Polyline,
+  Circle,
+  Text as SvgText,
+} from 'react-native-svg';
+import { AppColors } from '../theme/colors';
+import { PeriodTotal } from '../types';
+import { useSessionsContext } from '../contexts/SessionsContext';
+import { useProjectsContext } from '../contexts/ProjectsContext';
+import { useCalendarContext } from '../contexts/CalendarContext';
+import {
+  getDailyTotals,
+  getWeeklyTotals,
+  getMonthlyTotals,
+  getSessionsForDate,
+} from '../utils/analytics';
+import { formatDate, formatTime, toLocalDateString } from '../utils/timeUtils';
+
+const { width } = Dimensions.get('window');
+const CHART_WIDTH = width - 64; // Card margins and padding
+const CHART_HEIGHT = 160;
+const LABEL_HEIGHT = 20;
+const PLOT_HEIGHT = CHART_HEIGHT - LABEL_HEIGHT;
+
+interface ChartProps {
+  data: PeriodTotal[];
+  selectedKey?: string | null;
+  onSelect?: (key: string) => void;
+}
+
+/**
+ * Scale so the tallest value leaves a little headroom
+ */
+const getMaxHours = (data: PeriodTotal[]): number =>
+  Math.max(1, ...data.map((point) => point.hours)) * 1.1;
+
+const BarChart: React.FC<ChartProps> = ({ data, selectedKey, onSelect }) => {
+  const maxHours = getMaxHours(data);
+  const slotWidth = CHART_WIDTH / data.length;
+  const barWidth = slotWidth * 0.6;
+
+  return (
+    <Svg width={CHART_WIDTH} height={CHART_HEIGHT}>
+      {data.map((point, index) => {
+        const barHeight = (point.hours / maxHours) * PLOT_HEIGHT;
+        const x = index * slotWidth + (slotWidth - barWidth) / 2;
+        const isSelected = point.key === selectedKey;
+        return (
+          <React.Fragment key={point.key}>
+            {/* Full-height hit area so empty days can be tapped too */}
+            <Rect
+              x={index * slotWidth}
+              y={0}
+              width={slotWidth}
+              height={PLOT_HEIGHT}
+              fill="transparent"
+              onPress={onSelect ? () => onSelect(point.key) : undefined}
+            />
+            <Rect
+              x={x}
+              y={PLOT_HEIGHT - barHeight}
+              width={barWidth}
+              height={Math.max(barHeight, 2)}
+              rx={4}
+              fill={isSelected ? '#93c5fd' : AppColors.primary}
+              onPress={onSelect ? () => onSelect(point.key) : undefined}
+            />
+            <SvgText
+              x={index * slotWidth + slotWidth / 2}
+              y={CHART_HEIGHT - 4}
+              fontSize={10}
+              fill="rgba(255,255,255,0.6)"
+              textAnchor="middle">
+              {point.label}
+            </SvgText>
+          </React.Fragment>
+        );
+      })}
+    </Svg>
+  );
+};
+
+const TrendLine: React.FC<ChartProps> = ({ data }) => {
+  const maxHours = getMaxHours(data);
+  const slotWidth = CHART_WIDTH / data.length;
+  const points = data.map((point, index) => ({
+    ...point,
+    x: index * slotWidth + slotWidth / 2,
+    y: PLOT_HEIGHT - (point.hours / maxHours) * PLOT_HEIGHT,
+  }));
+
+  return (
+    <Svg width={CHART_WIDTH} height={CHART_HEIGHT}>
+      <Line
+        x1={0}
+        y1={PLOT_HEIGHT}
+        x2={CHART_WIDTH}
+        y2={PLOT_HEIGHT}
+        stroke="rgba(255,255,255,0.2)"
+        strokeWidth={1}
+      />
+      <Polyline
+        points={points.map((point) => `${point.x},${point.y}`).join(' ')}
+        fill="none"
+        stroke="#93c5fd"
+        strokeWidth={2}
+      />
+      {points.map((point) => (
+        <React.Fragment key={point.key}>
+          <Circle cx={point.x} cy={point.y} r={3} fill="#93c5fd" />
+          <SvgText
+            x={point.x}
+            y={CHART_HEIGHT - 4}
+            fontSize={10}
+            fill="rgba(255,255,255,0.6)"
+            textAnchor="middle">
+            {point.label}
+          </SvgText>
+        </React.Fragment>
+      ))}
+    </Svg>
+  );
+};
+
+const AnalyticsScreen: React.FC = () => {
+  const { sessions } = useSessionsContext();
+  const { getProjectById } = useProjectsContext();
+  const { preferences } = useCalendarContext();
+  const [selectedDate, setSelectedDate] = useState<string>(() =>
+    toLocalDateString(new Date())
+  );
+
+  // Weeks start on the day picked in Settings
+  const { weekStartsOn } = preferences;
+  const dailyTotals = useMemo(
+    () => getDailyTotals(sessions, new Date(), weekStartsOn),
+    [sessions, weekStartsOn]
+  );
+  const weeklyTotals = useMemo(
+    () => getWeeklyTotals(sessions, 12, new Date(), weekStartsOn),
+    [sessions, weekStartsOn]
+  );
+  const monthlyTotals = useMemo(() => getMonthlyTotals(sessions), [sessions]);
+  const daySessions = useMemo(
+    () => getSessionsForDate(sessions, selectedDate),
+    [sessions, selectedDate]
+  );
+
+  const weekHours = dailyTotals.reduce((total, day) => total + day.hours, 0);
+  const averageWeekHours =
+    weeklyTotals.reduce((total, week) => total + week.hours, 0) /
+    weeklyTotals.length;
+
+  return (
+    <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Analytics</Text>
+        <Text style={styles.headerSubtitle}>See where your hours go</Text>
+      </View>
+
+      {/* Summary */}
+      <View style={styles.summaryRow}>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryValue}>{weekHours.toFixed(2)}</Text>
+          <Text style={styles.summaryLabel}>This week</Text>
+        </View>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryValue}>{averageWeekHours.toFixed(2)}</Text>
+          <Text style={styles.summaryLabel}>12-week avg</Text>
+        </View>
+      </View>
+
+      {/* Daily bars for the current week */}
+      <Card style={styles.card}>
+        <Card.Content>
+          <View style={styles.cardHeader}>
+            <Ionicons
+              name="bar-chart-outline"
+              size={24}
+              color={AppColors.primary}
+            />
+            <Text style={styles.cardTitle}>This Week</Text>
+          </View>
+          <Text style={styles.cardDescription}>
+            Tap a day to see its sessions
+          </Text>
+          <BarChart
+            data={dailyTotals}
+            selectedKey={selectedDate}
+            onSelect={setSelectedDate}
+          />
+
+          {/* Drill-down for the selected day */}
+          <View style={styles.dayDetails}>
+            <Text style={styles.dayTitle}>
+              {formatDate(selectedDate)} ·{' '}
+              {daySessions
+                .reduce((total, session) => total + session.hours, 0)
+                .toFixed(2)}{' '}
+              hrs
+            </Text>
+            {daySessions.length === 0 ? (
+              <Text style={styles.emptyText}>No sessions on this day</Text>
+            ) : (
+              daySessions.map((session) => (
+                <View key={session.id} style={styles.sessionRow}>
+                  <Text style={styles.sessionTime}>
+                    {formatTime(session.clockIn)} –{' '}
+                    {formatTime(session.clockOut)}
+                  </Text>
+                  <Text style={styles.sessionProject} numberOfLines={1}>
+                    {getProjectById(session.projectId)?.name ?? ''}
+                  </Text>
+                  <Text style={styles.sessionHours}>
+                    {session.hours.toFixed(2)} hrs
+                  </Text>
+                </View>
+              ))
+            )}
+          </View>
+        </Card.Content>
+      </Card>
+
+      {/* Weekly totals */}
+      <Card style={styles.card}>
+        <Card.Content>
+          <View style={styles.cardHeader}>
+            <Ionicons
+              name="calendar-outline"
+              size={24}
+              color={AppColors.primary}
+            />
+            <Text style={styles.cardTitle}>Last 12 Weeks</Text>
+          </View>
+          <BarChart data={weeklyTotals} />
+        </Card.Content>
+      </Card>
+
+      {/* Monthly trend */}
+      <Card style={styles.card}>
+        <Card.Content>
+          <View style={styles.cardHeader}>
+            <Ionicons
+              name="trending-up-outline"
+              size={24}
+              color={AppColors.primary}
+            />
+            <Text style={styles.cardTitle}>Monthly Trend</Text>
+          </View>
+          <TrendLine data={monthlyTotals} />
+        </Card.Content>
+      </Card>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0f172a',
+    paddingBottom: 100, // Account for bottom tabs
+  },
+  header: {
+    paddingTop: 60,
+    paddingHorizontal: 24,
+    paddingBottom: 24,
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+    marginBottom: 8,
+  },
+  headerSubtitle: {
+    fontSize: 16,
+    color: 'rgba(255,255,255,0.7)',
+    textAlign: 'center',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    marginHorizontal: 16,
+    marginBottom: 16,
+    paddingVertical: 12,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+  },
+  summaryItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  summaryValue: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.6)',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  card: {
+    marginHorizontal: 16,
+    marginBottom: 16,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 16,
+    elevation: 4,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  cardTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginLeft: 12,
+  },
+  cardDescription: {
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.7)',
+    marginBottom: 12,
+  },
+  dayDetails: {
+    marginTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255,255,255,0.1)',
+    paddingTop: 12,
+  },
+  dayTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.6)',
+  },
+  sessionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    gap: 8,
+  },
+  sessionTime: {
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.8)',
+  },
+  sessionProject: {
+    flex: 1,
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.5)',
+  },
+  sessionHours: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#93c5fd',
+  },
+});
+
+export default AnalyticsScreen;
@@ -2,6 +2,8 @@ import React, { useRef, useEffect } from 'react';
 import { Animated, PanResponder, StyleSheet, View } from 'react-native';
 import { Text } from 'react-native-paper';
 import { AppColors } from '../theme/colors';
+import { Project } from '../types';
+import ProjectPicker from './ProjectPicker';
 
 interface AnimatedClockButtonProps {
   isClocked: boolean;
@@ -9,6 +11,9 @@ interface AnimatedClockButtonProps {
   onClockOut: () => void;
   disabled?: boolean;
   workedMinutes?: number; // total minutes worked (live or last session)
+  projects?: Project[]; // projects offered at clock-in
+  selectedProjectId?: string | null;
+  onSelectProject?: (projectId: string | null) => void;
 }
 
 const SWIPE_THRESHOLD = 60;
@@ -19,6 +24,9 @@ export const AnimatedClockButton: React.FC<AnimatedClockButtonProps> = ({
   onClockOut,
   disabled,
   workedMinutes = 0,
+  projects = [],
+  selectedProjectId = null,
+  onSelectProject,
 }) => {
   const pan = useRef(new Animated.Value(0)).current;
   const scale = useRef(new Animated.Value(1)).current;
@@ -113,6 +121,16 @@ export const AnimatedClockButton: React.FC<AnimatedClockButtonProps> = ({
           {isClocked ? 'Swipe Down' : 'Swipe Up'}
         </Text>
       </Animated.View>
+      {!isClocked && onSelectProject && projects.length > 0 && (
+        <View style={styles.projectPicker}>
+          <ProjectPicker
+            projects={projects}
+            selectedProjectId={selectedProjectId}
+            onSelect={onSelectProject}
+            disabled={disabled}
+          />
+        </View>
+      )}
     </View>
   );
 };
@@ -134,6 +152,10 @@ const styles = StyleSheet.create({
     shadowOpacity: 0.3,
     shadowOffset: { width: 0, height: 8 },
   },
+  projectPicker: {
+    marginTop: 40,
+    alignSelf: 'stretch',
+  },
   clockIcon: {
     marginBottom: 8,
   },
@@ -0,0 +1,134 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, Modal, TouchableOpacity } from 'react-native';
+import { Text, Button } from 'react-native-paper';
+import { AppColors } from '../theme/colors';
+import { SessionNotes } from '../types';
+import { buildSessionNotes } from '../utils/sessionFilters';
+import SessionNotesFields from './SessionNotesFields';
+
+interface ClockOutDialogProps {
+  visible: boolean;
+  onDismiss: () => void;
+  /** Called with the note and tags to save on the finished session */
+  onConfirm: (notes: SessionNotes) => void;
+  /** Existing tags offered when tagging the session */
+  tagSuggestions?: string[];
+}
+
+/**
+ * Asks what was worked on before clocking out. Both fields are optional.
+ */
+const ClockOutDialog: React.FC<ClockOutDialogProps> = ({
+  visible,
+  onDismiss,
+  onConfirm,
+  tagSuggestions = [],
+}) => {
+  const [note, setNote] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
+
+  // Start empty for every clock-out
+  useEffect(() => {
+    if (visible) {
+      setNote('');
+      setTags([]);
+    }
+  }, [visible]);
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onDismiss}>
+      <TouchableOpacity
+        style={styles.modalOverlay}
+        activeOpacity={1}
+        onPress={onDismiss}>
+        <TouchableOpacity activeOpacity={1} style={styles.container}>
+          <Text style={styles.title}>Clock Out</Text>
+          <Text style={styles.subtitle}>What did you work on?</Text>
+
+          <SessionNotesFields
+            note={note}
+            tags={tags}
+            onChangeNote={setNote}
+            onChangeTags={setTags}
+            suggestions={tagSuggestions}
+          />
+
+          <View style={styles.actions}>
+            <Button
+              mode="outlined"
+              onPress={onDismiss}
+              style={styles.cancelButton}
+              textColor="#fff">
+              Cancel
+            </Button>
+            <Button
+              mode="contained"
+              onPress={() => onConfirm(buildSessionNotes({ note, tags }))}
+              style={styles.confirmButton}>
+              Clock Out
+            </Button>
+          </View>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  container: {
+    backgroundColor: 'rgba(15, 23, 42, 0.98)',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+    width: '85%',
+    maxWidth: 360,
+    padding: 16,
+    elevation: 8,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 4,
+    },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+  },
+  title: {
+    color: '#FFFFFF',
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.7)',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    borderRadius: 12,
+    borderColor: '#9ca3af',
+  },
+  confirmButton: {
+    flex: 1,
+    backgroundColor: AppColors.primary,
+    borderRadius: 12,
+  },
+});
+
+export default ClockOutDialog;
@@ -0,0 +1,223 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, Modal, TouchableOpacity, Alert } from 'react-native';
+import { Text, Button } from 'react-native-paper';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { AppColors } from '../theme/colors';
+import { DateRange, DateRangePreset } from '../types';
+import {
+  DATE_RANGE_PRESETS,
+  getPresetDateRange,
+} from '../utils/sessionFilters';
+
+interface DateRangePickerModalProps {
+  visible: boolean;
+  /** Range shown when the picker opens */
+  initialRange?: DateRange | null;
+  onApply: (range: DateRange) => void;
+  onDismiss: () => void;
+}
+
+const DateRangePickerModal: React.FC<DateRangePickerModalProps> = ({
+  visible,
+  initialRange = null,
+  onApply,
+  onDismiss,
+}) => {
+  const [range, setRange] = useState<DateRange>(
+    () => initialRange ?? getPresetDateRange('last7Days')
+  );
+  const [activePreset, setActivePreset] = useState<DateRangePreset | null>(
+    null
+  );
+
+  // Start from the current selection every time the picker opens
+  useEffect(() => {
+    if (visible) {
+      setRange(initialRange ?? getPresetDateRange('last7Days'));
+      setActivePreset(initialRange ? null : 'last7Days');
+    }
+  }, [visible, initialRange]);
+
+  const handlePresetPress = (preset: DateRangePreset) => {
+    setRange(getPresetDateRange(preset));
+    setActivePreset(preset);
+  };
+
+  const handleApply = () => {
+    const startDate = new Date(range.startDate);
+    startDate.setHours(0, 0, 0, 0);
+    const endDate = new Date(range.endDate);
+    endDate.setHours(23, 59, 59, 999);
+
+    if (endDate < startDate) {
+      Alert.alert('Invalid Range', 'End date must be on or after start date.');
+      return;
+    }
+
+    onApply({ startDate, endDate });
+  };
+
+  if (!visible) return null;
+
+  return (
+    <Modal
+      transparent={true}
+      visible={visible}
+      animationType="fade"
+      onRequestClose={onDismiss}>
+      <View style={styles.overlay}>
+        <View style={styles.card}>
+          <Text style={styles.title}>Custom Range</Text>
+
+          {/* Presets */}
+          <View style={styles.presetRow}>
+            {DATE_RANGE_PRESETS.map(({ preset, label }) => (
+              <TouchableOpacity
+                key={preset}
+                onPress={() => handlePresetPress(preset)}
+                style={[
+                  styles.presetChip,
+                  activePreset === preset && styles.presetChipActive,
+                ]}>
+                <Text
+                  style={[
+                    styles.presetText,
+                    activePreset === preset && styles.presetTextActive,
+                  ]}>
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {/* Start and end dates */}
+          <View style={styles.dateRow}>
+            <View style={styles.dateColumn}>
+              <Text style={styles.label}>From</Text>
+              <DateTimePicker
+                value={range.startDate}
+                mode="date"
+                display="default"
+                maximumDate={range.endDate}
+                onChange={(event, date) => {
+                  if (date) {
+                    setRange((prev) => ({ ...prev, startDate: date }));
+                    setActivePreset(null);
+                  }
+                }}
+              />
+            </View>
+            <View style={styles.dateColumn}>
+              <Text style={styles.label}>To</Text>
+              <DateTimePicker
+                value={range.endDate}
+                mode="date"
+                display="default"
+                minimumDate={range.startDate}
+                onChange={(event, date) => {
+                  if (date) {
+                    setRange((prev) => ({ ...prev, endDate: date }));
+                    setActivePreset(null);
+                  }
+                }}
+              />
+            </View>
+          </View>
+
+          <View style={styles.actions}>
+            <Button
+              mode="outlined"
+              onPress={onDismiss}
+              style={styles.cancelButton}
+              textColor="#fff">
+              Cancel
+            </Button>
+            <Button
+              mode="contained"
+              onPress={handleApply}
+              style={styles.applyButton}>
+              Apply
+            </Button>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  card: {
+    backgroundColor: '#0f172a',
+    borderRadius: 16,
+    padding: 20,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+    marginBottom: 16,
+  },
+  presetRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  presetChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.2)',
+    backgroundColor: 'rgba(255,255,255,0.05)',
+  },
+  presetChipActive: {
+    borderColor: AppColors.primary,
+    backgroundColor: 'rgba(103, 80, 164, 0.3)',
+  },
+  presetText: {
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.8)',
+  },
+  presetTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  dateRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 20,
+  },
+  dateColumn: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#e5e7eb',
+    marginBottom: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    borderRadius: 12,
+    borderColor: '#9ca3af',
+  },
+  applyButton: {
+    flex: 1,
+    backgroundColor: AppColors.primary,
+    borderRadius: 12,
+  },
+});
+
+export default DateRangePickerModal;
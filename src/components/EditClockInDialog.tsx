@@ -0,0 +1,190 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, Modal, TouchableOpacity } from 'react-native';
+import { Text, Button } from 'react-native-paper';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { AppColors } from '../theme/colors';
+import { BreakInterval } from '../types';
+import { getClockInTimeError } from '../utils/clockInEdit';
+import { formatDate, formatTime, toLocalDateString } from '../utils/timeUtils';
+
+interface EditClockInDialogProps {
+  visible: boolean;
+  /** Current start of the running session */
+  clockInTime: Date;
+  /** End of the session before it; the new time can't be earlier */
+  previousSessionEnd: Date | null;
+  /** Breaks taken so far; the new time can't be after the first one */
+  breaks: BreakInterval[];
+  onDismiss: () => void;
+  /** Called with the corrected clock-in time */
+  onSave: (clockInTime: Date) => void;
+}
+
+/**
+ * Lets the user correct when the running session started, e.g. after
+ * clocking in late.
+ */
+const EditClockInDialog: React.FC<EditClockInDialogProps> = ({
+  visible,
+  clockInTime,
+  previousSessionEnd,
+  breaks,
+  onDismiss,
+  onSave,
+}) => {
+  const [value, setValue] = useState(clockInTime);
+
+  // Start from the current clock-in every time the dialog opens
+  useEffect(() => {
+    if (visible) {
+      setValue(clockInTime);
+    }
+  }, [visible, clockInTime]);
+
+  const error = getClockInTimeError(value, previousSessionEnd, breaks);
+
+  // The date and time pickers each change their half of the clock-in
+  const handleDateChange = (date?: Date) => {
+    if (date) {
+      setValue((prev) => {
+        const next = new Date(prev);
+        next.setFullYear(date.getFullYear(), date.getMonth(), date.getDate());
+        return next;
+      });
+    }
+  };
+
+  const handleTimeChange = (time?: Date) => {
+    if (time) {
+      setValue((prev) => {
+        const next = new Date(prev);
+        next.setHours(time.getHours(), time.getMinutes(), 0, 0);
+        return next;
+      });
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onDismiss}>
+      <TouchableOpacity
+        style={styles.modalOverlay}
+        activeOpacity={1}
+        onPress={onDismiss}>
+        <TouchableOpacity activeOpacity={1} style={styles.container}>
+          <Text style={styles.title}>Edit Clock-In</Text>
+          <Text style={styles.subtitle}>
+            {previousSessionEnd
+              ? `Your previous session ended ${formatDate(toLocalDateString(previousSessionEnd))} at ${formatTime(previousSessionEnd.toISOString())}.`
+              : 'When did you start working?'}
+          </Text>
+
+          <View style={styles.pickerRow}>
+            <DateTimePicker
+              value={value}
+              mode="date"
+              display="default"
+              onChange={(event, date) => handleDateChange(date)}
+              maximumDate={new Date()}
+            />
+            <DateTimePicker
+              value={value}
+              mode="time"
+              display="default"
+              onChange={(event, time) => handleTimeChange(time)}
+            />
+          </View>
+          {error && <Text style={styles.errorText}>{error}</Text>}
+
+          <View style={styles.actions}>
+            <Button
+              mode="outlined"
+              onPress={onDismiss}
+              style={styles.cancelButton}
+              textColor="#fff">
+              Cancel
+            </Button>
+            <Button
+              mode="contained"
+              onPress={() => onSave(value)}
+              disabled={error !== null}
+              style={styles.confirmButton}>
+              Save
+            </Button>
+          </View>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  container: {
+    backgroundColor: 'rgba(15, 23, 42, 0.98)',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+    width: '85%',
+    maxWidth: 360,
+    padding: 16,
+    elevation: 8,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 4,
+    },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+  },
+  title: {
+    color: '#FFFFFF',
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.7)',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  pickerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#ef4444',
+    marginBottom: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  cancelButton: {
+    flex: 1,
+    borderRadius: 12,
+    borderColor: '#9ca3af',
+  },
+  confirmButton: {
+    flex: 1,
+    backgroundColor: AppColors.primary,
+    borderRadius: 12,
+  },
+});
+
+export default EditClockInDialog;
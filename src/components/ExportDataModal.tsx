@@ -0,0 +1,309 @@
+import React, { useState, useMemo, useCallback } from 'react';
+import { View, StyleSheet, Modal, TouchableOpacity, Alert } from 'react-native';
+import { Text, Button } from 'react-native-paper';
+import { Ionicons } from '@expo/vector-icons';
+import { AppColors } from '../theme/colors';
+import {
+  ExportFormat,
+  FilterType,
+  OvertimeRules,
+  RateHistoryEntry,
+} from '../types';
+import { useSessionsContext } from '../contexts/SessionsContext';
+import { useProjectsContext } from '../contexts/ProjectsContext';
+import { useCalendarContext } from '../contexts/CalendarContext';
+import { createSessionFilter, filterSessions } from '../utils/sessionFilters';
+import { serializeSessions } from '../utils/exportData';
+import { splitOvertimeHours } from '../utils/overtime';
+import { getRateOnDate } from '../utils/rateHistory';
+import { DEFAULT_CURRENCY } from '../utils/currency';
+import { toLocalDateString } from '../utils/timeUtils';
+import { shareTextFile } from '../utils/shareFile';
+
+interface ExportDataModalProps {
+  visible: boolean;
+  onDismiss: () => void;
+  /** Effective-dated default hourly rates */
+  rateHistory: RateHistoryEntry[];
+  overtimeRules: OvertimeRules;
+}
+
+const EXPORT_RANGES = [
+  { value: 'thisWeek' as FilterType, label: 'This Week' },
+  { value: 'lastWeek' as FilterType, label: 'Last Week' },
+  { value: 'lastMonth' as FilterType, label: 'Last Month' },
+  { value: 'all' as FilterType, label: 'All Sessions' },
+];
+
+const EXPORT_FORMATS = [
+  { value: 'csv' as ExportFormat, label: 'CSV', icon: 'grid-outline' },
+  { value: 'json' as ExportFormat, label: 'JSON', icon: 'code-slash-outline' },
+];
+
+const ExportDataModal: React.FC<ExportDataModalProps> = ({
+  visible,
+  onDismiss,
+  rateHistory,
+  overtimeRules,
+}) => {
+  const { sessions } = useSessionsContext();
+  const { projects } = useProjectsContext();
+  const {
+    preferences: { weekStartsOn },
+  } = useCalendarContext();
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [range, setRange] = useState<FilterType>('lastWeek');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const filter = useMemo(() => createSessionFilter(range), [range]);
+  const sessionsToExport = useMemo(
+    () => filterSessions(sessions, filter),
+    [sessions, filter]
+  );
+
+  // Split over every session so exported weeks count hours outside the range
+  const overtimeSplit = useMemo(
+    () => splitOvertimeHours(sessions, overtimeRules, weekStartsOn),
+    [sessions, overtimeRules, weekStartsOn]
+  );
+
+  const handleExport = useCallback(async () => {
+    if (sessionsToExport.length === 0) {
+      Alert.alert('Nothing to Export', 'No sessions found for this period.');
+      return;
+    }
+
+    try {
+      setIsExporting(true);
+      const currentRate = getRateOnDate(
+        rateHistory,
+        toLocalDateString(new Date())
+      );
+      const { content, fileName, mimeType } = serializeSessions(
+        format,
+        sessionsToExport,
+        {
+          hourlyRate: currentRate?.amount ?? 0,
+          currency: currentRate?.currency ?? DEFAULT_CURRENCY,
+          rateHistory,
+          projects,
+          startDate: filter.startDate,
+          endDate: filter.endDate,
+          overtime: { rules: overtimeRules, split: overtimeSplit },
+        }
+      );
+      await shareTextFile(content, fileName, mimeType);
+      onDismiss();
+    } catch (error) {
+      console.error('Failed to export sessions:', error);
+      Alert.alert('Error', 'Failed to export sessions. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  }, [
+    format,
+    sessionsToExport,
+    rateHistory,
+    projects,
+    filter,
+    overtimeRules,
+    overtimeSplit,
+    onDismiss,
+  ]);
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onDismiss}>
+      <TouchableOpacity
+        style={styles.modalOverlay}
+        activeOpacity={1}
+        onPress={onDismiss}>
+        <TouchableOpacity activeOpacity={1} style={styles.container}>
+          <Text style={styles.title}>Export Data</Text>
+
+          <Text style={styles.sectionLabel}>Format</Text>
+          <View style={styles.formatRow}>
+            {EXPORT_FORMATS.map((option) => (
+              <TouchableOpacity
+                key={option.value}
+                style={[
+                  styles.formatButton,
+                  format === option.value && styles.optionSelected,
+                ]}
+                onPress={() => setFormat(option.value)}>
+                <Ionicons
+                  name={option.icon as any}
+                  size={18}
+                  color={
+                    format === option.value ? AppColors.primary : '#FFFFFF'
+                  }
+                />
+                <Text
+                  style={[
+                    styles.optionText,
+                    format === option.value && styles.optionTextSelected,
+                  ]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.sectionLabel}>Date Range</Text>
+          {EXPORT_RANGES.map((option) => (
+            <TouchableOpacity
+              key={option.value}
+              style={[
+                styles.rangeItem,
+                range === option.value && styles.optionSelected,
+              ]}
+              onPress={() => setRange(option.value)}>
+              <Text
+                style={[
+                  styles.optionText,
+                  range === option.value && styles.optionTextSelected,
+                ]}>
+                {option.label}
+              </Text>
+              {range === option.value && (
+                <Ionicons
+                  name="checkmark"
+                  size={20}
+                  color={AppColors.primary}
+                />
+              )}
+            </TouchableOpacity>
+          ))}
+
+          <Text style={styles.summaryText}>
+            {sessionsToExport.length} session
+            {sessionsToExport.length !== 1 ? 's' : ''} will be exported
+          </Text>
+
+          <View style={styles.actions}>
+            <Button
+              mode="outlined"
+              onPress={onDismiss}
+              style={styles.cancelButton}
+              textColor="#fff"
+              disabled={isExporting}>
+              Cancel
+            </Button>
+            <Button
+              mode="contained"
+              onPress={handleExport}
+              style={styles.exportButton}
+              loading={isExporting}
+              disabled={isExporting}>
+              Export
+            </Button>
+          </View>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  container: {
+    backgroundColor: 'rgba(15, 23, 42, 0.98)',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+    width: '85%',
+    maxWidth: 360,
+    padding: 16,
+    elevation: 8,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 4,
+    },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+  },
+  title: {
+    color: '#FFFFFF',
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginBottom: 12,
+    paddingBottom: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255,255,255,0.1)',
+  },
+  sectionLabel: {
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.6)',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  formatRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  formatButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.2)',
+  },
+  rangeItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 8,
+    marginVertical: 2,
+  },
+  optionSelected: {
+    backgroundColor: 'rgba(255,255,255,0.1)',
+  },
+  optionText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+  },
+  optionTextSelected: {
+    color: AppColors.primary,
+    fontWeight: '600',
+  },
+  summaryText: {
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.7)',
+    textAlign: 'center',
+    marginVertical: 16,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    borderRadius: 12,
+    borderColor: '#9ca3af',
+  },
+  exportButton: {
+    flex: 1,
+    backgroundColor: AppColors.primary,
+    borderRadius: 12,
+  },
+});
+
+export default ExportDataModal;
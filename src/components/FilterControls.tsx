@@ -1,5 +1,11 @@
 import React, { useState, useCallback, memo } from 'react';
-import { View, StyleSheet, Pressable, Animated } from 'react-native';
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  Animated,
+  ScrollView,
+} from 'react-native';
 import { Text, Surface } from 'react-native-paper';
 import { AppColors } from '../theme/colors';
 import { FilterType } from '../types';
@@ -7,6 +13,8 @@ import { FilterType } from '../types';
 interface FilterControlsProps {
   activeFilter: FilterType;
   onFilterChange: (filter: FilterType) => void;
+  /** Label for the custom chip once a range is picked (e.g. "Mar 1 – Mar 15") */
+  customLabel?: string;
 }
 
 interface FilterOption {
@@ -19,11 +27,13 @@ const FILTER_OPTIONS: FilterOption[] = [
   { type: 'thisWeek', label: 'This Week' },
   { type: 'lastWeek', label: 'Last Week' },
   { type: 'lastMonth', label: 'Last Month' },
+  { type: 'custom', label: 'Custom' },
 ];
 
 const FilterControls: React.FC<FilterControlsProps> = ({
   activeFilter,
   onFilterChange,
+  customLabel,
 }) => {
   const [pressedButton, setPressedButton] = useState<FilterType | null>(null);
   // Dynamically create animation values for all filter types
@@ -70,7 +80,11 @@ const FilterControls: React.FC<FilterControlsProps> = ({
     <View style={styles.container}>
       <Surface style={styles.filterSurface} elevation={2}>
         <View style={styles.buttonContainerWrapper}>
-          <View style={styles.buttonContainer}>
+          {/* Scrolls horizontally when the chips don't fit */}
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.buttonContainer}>
             {FILTER_OPTIONS.map((option) => {
               const isActive =
                 activeFilter === option.type && activeFilter !== 'all';
@@ -99,13 +113,15 @@ const FilterControls: React.FC<FilterControlsProps> = ({
                         styles.filterButtonText,
                         isActive && styles.activeFilterButtonText,
                       ]}>
-                      {option.label}
+                      {option.type === 'custom' && isActive && customLabel
+                        ? customLabel
+                        : option.label}
                     </Text>
                   </Pressable>
                 </Animated.View>
               );
             })}
-          </View>
+          </ScrollView>
         </View>
       </Surface>
     </View>
@@ -113,17 +129,19 @@ const FilterControls: React.FC<FilterControlsProps> = ({
 };
 
 // Memoize FilterControls to prevent unnecessary re-renders
-// Only re-render when activeFilter or onFilterChange changes
+// Only re-render when activeFilter, onFilterChange or customLabel changes
 export default memo(FilterControls, (prevProps, nextProps) => {
   return (
     prevProps.activeFilter === nextProps.activeFilter &&
-    prevProps.onFilterChange === nextProps.onFilterChange
+    prevProps.onFilterChange === nextProps.onFilterChange &&
+    prevProps.customLabel === nextProps.customLabel
   );
 });
 
 const styles = StyleSheet.create({
   container: {
     alignSelf: 'flex-end',
+    flexShrink: 1,
     marginBottom: 16,
   },
   filterSurface: {
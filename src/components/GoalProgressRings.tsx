@@ -0,0 +1,122 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text } from 'react-native-paper';
+import Svg, { Circle } from 'react-native-svg';
+import { AppColors } from '../theme/colors';
+import { GoalProgress, HourGoals } from '../types';
+import { formatGoalProgress, getGoalFraction } from '../utils/goals';
+
+const RING_SIZE = 72;
+const STROKE_WIDTH = 6;
+const RADIUS = (RING_SIZE - STROKE_WIDTH) / 2;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+interface GoalProgressRingsProps {
+  goals: HourGoals;
+  progress: GoalProgress;
+}
+
+interface RingProps {
+  label: string;
+  hours: number;
+  target: number | null;
+}
+
+// One ring; without a goal only the hours are shown
+const ProgressRing: React.FC<RingProps> = ({ label, hours, target }) => {
+  const fraction = getGoalFraction(hours, target) ?? 0;
+  const isReached = target !== null && hours >= target;
+
+  return (
+    <View style={styles.ringItem}>
+      <View style={styles.ring}>
+        <Svg width={RING_SIZE} height={RING_SIZE}>
+          <Circle
+            cx={RING_SIZE / 2}
+            cy={RING_SIZE / 2}
+            r={RADIUS}
+            stroke="rgba(255,255,255,0.1)"
+            strokeWidth={STROKE_WIDTH}
+            fill="none"
+          />
+          {fraction > 0 && (
+            <Circle
+              cx={RING_SIZE / 2}
+              cy={RING_SIZE / 2}
+              r={RADIUS}
+              stroke={isReached ? '#22c55e' : AppColors.primary}
+              strokeWidth={STROKE_WIDTH}
+              strokeLinecap="round"
+              strokeDasharray={`${CIRCUMFERENCE * fraction} ${CIRCUMFERENCE}`}
+              fill="none"
+              // Start at 12 o'clock
+              transform={`rotate(-90 ${RING_SIZE / 2} ${RING_SIZE / 2})`}
+            />
+          )}
+        </Svg>
+        <Text style={styles.ringPercent}>
+          {target !== null ? `${Math.round(fraction * 100)}%` : '—'}
+        </Text>
+      </View>
+      <Text style={styles.ringLabel}>{label}</Text>
+      <Text style={styles.ringHours}>{formatGoalProgress(hours, target)}</Text>
+    </View>
+  );
+};
+
+/**
+ * Today's and this week's hours against the hour goals
+ */
+const GoalProgressRings: React.FC<GoalProgressRingsProps> = ({
+  goals,
+  progress,
+}) => (
+  <View style={styles.container}>
+    <ProgressRing
+      label="Today"
+      hours={progress.todayHours}
+      target={goals.dailyHours}
+    />
+    <ProgressRing
+      label="This Week"
+      hours={progress.weekHours}
+      target={goals.weeklyHours}
+    />
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 32,
+    marginTop: 24,
+  },
+  ringItem: {
+    alignItems: 'center',
+  },
+  ring: {
+    width: RING_SIZE,
+    height: RING_SIZE,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  ringPercent: {
+    position: 'absolute',
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  ringLabel: {
+    marginTop: 8,
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.6)',
+  },
+  ringHours: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
+
+export default GoalProgressRings;
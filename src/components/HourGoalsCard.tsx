@@ -0,0 +1,197 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, Alert } from 'react-native';
+import {
+  Text,
+  TextInput,
+  Button,
+  Card,
+  List,
+  Switch,
+} from 'react-native-paper';
+import { Ionicons } from '@expo/vector-icons';
+import { AppColors } from '../theme/colors';
+import { HourGoals } from '../types';
+import { validateHourGoals } from '../utils/validation';
+
+interface HourGoalsCardProps {
+  goals: HourGoals;
+  onSave: (goals: HourGoals) => Promise<void>;
+}
+
+// Empty fields turn the goal off
+const parseGoal = (value: string): number | null =>
+  value.trim() ? parseFloat(value) : null;
+
+const HourGoalsCard: React.FC<HourGoalsCardProps> = ({ goals, onSave }) => {
+  const [dailyHours, setDailyHours] = useState('');
+  const [weeklyHours, setWeeklyHours] = useState('');
+  const [notifyWhenReached, setNotifyWhenReached] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the form when stored goals load or are restored
+  useEffect(() => {
+    setDailyHours(goals.dailyHours?.toString() ?? '');
+    setWeeklyHours(goals.weeklyHours?.toString() ?? '');
+    setNotifyWhenReached(goals.notifyWhenReached);
+  }, [goals]);
+
+  const handleSave = async () => {
+    const updated: HourGoals = {
+      dailyHours: parseGoal(dailyHours),
+      weeklyHours: parseGoal(weeklyHours),
+      notifyWhenReached,
+    };
+
+    if (!validateHourGoals(updated)) {
+      Alert.alert(
+        'Invalid Goals',
+        'Goals must be positive, at most 24 hours a day and 168 hours a week.'
+      );
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await onSave(updated);
+      Alert.alert('Success', 'Hour goals saved successfully!');
+    } catch (error) {
+      console.error('Failed to save hour goals:', error);
+      Alert.alert('Error', 'Failed to save hour goals. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card style={styles.card}>
+      <Card.Content>
+        <View style={styles.cardHeader}>
+          <Ionicons name="flag-outline" size={24} color={AppColors.primary} />
+          <Text style={styles.cardTitle}>Hour Goals</Text>
+        </View>
+        <Text style={styles.cardDescription}>
+          Track today&apos;s and this week&apos;s hours against a target on the
+          home screen. Leave a goal empty to turn it off.
+        </Text>
+
+        <View style={styles.fieldRow}>
+          <TextInput
+            mode="outlined"
+            label="Hours per day"
+            value={dailyHours}
+            onChangeText={setDailyHours}
+            keyboardType="decimal-pad"
+            style={styles.input}
+            outlineColor="rgba(255,255,255,0.2)"
+            activeOutlineColor={AppColors.primary}
+            textColor="#FFFFFF"
+            disabled={isSaving}
+          />
+          <TextInput
+            mode="outlined"
+            label="Hours per week"
+            value={weeklyHours}
+            onChangeText={setWeeklyHours}
+            keyboardType="decimal-pad"
+            style={styles.input}
+            outlineColor="rgba(255,255,255,0.2)"
+            activeOutlineColor={AppColors.primary}
+            textColor="#FFFFFF"
+            disabled={isSaving}
+          />
+        </View>
+
+        <List.Item
+          title="Notify When Reached"
+          description="While clocked in, when a goal is met"
+          left={() => (
+            <Ionicons
+              name="notifications-outline"
+              size={20}
+              color="rgba(255,255,255,0.7)"
+            />
+          )}
+          right={() => (
+            <Switch
+              value={notifyWhenReached}
+              onValueChange={setNotifyWhenReached}
+              color={AppColors.primary}
+            />
+          )}
+          style={styles.listItem}
+          titleStyle={styles.listItemTitle}
+          descriptionStyle={styles.listItemDescription}
+        />
+
+        <Button
+          mode="contained"
+          onPress={handleSave}
+          loading={isSaving}
+          disabled={isSaving}
+          style={styles.saveButton}
+          labelStyle={styles.saveButtonText}>
+          {isSaving ? 'Saving...' : 'Save Goals'}
+        </Button>
+      </Card.Content>
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    marginHorizontal: 16,
+    marginBottom: 16,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 16,
+    elevation: 4,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  cardTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginLeft: 12,
+  },
+  cardDescription: {
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.7)',
+    marginBottom: 12,
+    lineHeight: 20,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  input: {
+    width: '48%',
+    marginBottom: 12,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+  },
+  saveButton: {
+    backgroundColor: AppColors.primary,
+    borderRadius: 12,
+    marginTop: 4,
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  listItem: {
+    paddingVertical: 8,
+  },
+  listItemTitle: {
+    color: '#FFFFFF',
+    fontSize: 16,
+  },
+  listItemDescription: {
+    color: 'rgba(255,255,255,0.6)',
+    fontSize: 14,
+  },
+});
+
+export default HourGoalsCard;
@@ -0,0 +1,323 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import {
+  View,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import { Text, Button, Switch } from 'react-native-paper';
+import { Ionicons } from '@expo/vector-icons';
+import { AppColors } from '../theme/colors';
+import { ImportRow, ImportRowStatus, SessionObject } from '../types';
+import { formatDate, formatTime } from '../utils/timeUtils';
+
+interface ImportPreviewModalProps {
+  visible: boolean;
+  fileName: string;
+  rows: ImportRow[];
+  onDismiss: () => void;
+  onConfirm: (sessions: SessionObject[]) => Promise<void>;
+}
+
+const STATUS_DETAILS: Record<
+  ImportRowStatus,
+  { label: string; color: string; icon: string }
+> = {
+  new: { label: 'New', color: '#34d399', icon: 'add-circle-outline' },
+  duplicate: {
+    label: 'Duplicate',
+    color: '#94a3b8',
+    icon: 'copy-outline',
+  },
+  overlap: { label: 'Overlaps', color: '#fbbf24', icon: 'warning-outline' },
+  invalid: { label: 'Invalid', color: '#ef4444', icon: 'close-circle-outline' },
+};
+
+/**
+ * Rows are accepted by default only when they are new; duplicates and
+ * overlaps start skipped so the user has to opt in
+ */
+const getDefaultAccepted = (rows: ImportRow[]): Set<number> =>
+  new Set(
+    rows.filter((row) => row.status === 'new').map((row) => row.rowNumber)
+  );
+
+const ImportPreviewModal: React.FC<ImportPreviewModalProps> = ({
+  visible,
+  fileName,
+  rows,
+  onDismiss,
+  onConfirm,
+}) => {
+  const [accepted, setAccepted] = useState<Set<number>>(() =>
+    getDefaultAccepted(rows)
+  );
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Reset selection whenever a new file is previewed
+  useEffect(() => {
+    setAccepted(getDefaultAccepted(rows));
+  }, [rows]);
+
+  const toggleRow = useCallback((rowNumber: number) => {
+    setAccepted((prev) => {
+      const next = new Set(prev);
+      if (next.has(rowNumber)) {
+        next.delete(rowNumber);
+      } else {
+        next.add(rowNumber);
+      }
+      return next;
+    });
+  }, []);
+
+  const counts = useMemo(
+    () =>
+      rows.reduce(
+        (acc, row) => ({ ...acc, [row.status]: acc[row.status] + 1 }),
+        { new: 0, duplicate: 0, overlap: 0, invalid: 0 } as Record<
+          ImportRowStatus,
+          number
+        >
+      ),
+    [rows]
+  );
+
+  const sessionsToImport = useMemo(
+    () =>
+      rows
+        .filter((row) => row.session && accepted.has(row.rowNumber))
+        .map((row) => row.session as SessionObject),
+    [rows, accepted]
+  );
+
+  const handleConfirm = useCallback(async () => {
+    try {
+      setIsImporting(true);
+      await onConfirm(sessionsToImport);
+    } finally {
+      setIsImporting(false);
+    }
+  }, [onConfirm, sessionsToImport]);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      onRequestClose={onDismiss}
+      statusBarTranslucent={true}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <View style={styles.headerText}>
+            <Text style={styles.title}>Import Preview</Text>
+            <Text style={styles.subtitle} numberOfLines={1}>
+              {fileName}
+            </Text>
+          </View>
+          <TouchableOpacity onPress={onDismiss} disabled={isImporting}>
+            <Ionicons name="close" size={28} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.summaryRow}>
+          {(Object.keys(STATUS_DETAILS) as ImportRowStatus[]).map((status) => (
+            <View key={status} style={styles.summaryItem}>
+              <Text
+                style={[
+                  styles.summaryValue,
+                  { color: STATUS_DETAILS[status].color },
+                ]}>
+                {counts[status]}
+              </Text>
+              <Text style={styles.summaryLabel}>
+                {STATUS_DETAILS[status].label}
+              </Text>
+            </View>
+          ))}
+        </View>
+
+        <ScrollView
+          style={styles.list}
+          contentContainerStyle={styles.listContent}
+          showsVerticalScrollIndicator={true}>
+          {rows.map((row) => {
+            const details = STATUS_DETAILS[row.status];
+            return (
+              <View key={row.rowNumber} style={styles.rowCard}>
+                <View style={styles.rowHeader}>
+                  <View style={styles.rowStatus}>
+                    <Ionicons
+                      name={details.icon as any}
+                      size={18}
+                      color={details.color}
+                    />
+                    <Text
+                      style={[styles.rowStatusText, { color: details.color }]}>
+                      Row {row.rowNumber} · {details.label}
+                    </Text>
+                  </View>
+                  <Switch
+                    value={accepted.has(row.rowNumber)}
+                    onValueChange={() => toggleRow(row.rowNumber)}
+                    disabled={!row.session || isImporting}
+                    color={AppColors.primary}
+                  />
+                </View>
+                {row.session ? (
+                  <Text style={styles.rowDetails}>
+                    {formatDate(row.session.date)} ·{' '}
+                    {formatTime(row.session.clockIn)} –{' '}
+                    {formatTime(row.session.clockOut)} ·{' '}
+                    {row.session.hours.toFixed(2)} hrs
+                  </Text>
+                ) : null}
+                {row.errors.map((error) => (
+                  <Text key={error} style={styles.rowError}>
+                    {error}
+                  </Text>
+                ))}
+                {row.conflictingSessionIds.length > 0 && (
+                  <Text style={styles.rowConflict}>
+                    Conflicts with {row.conflictingSessionIds.length} session
+                    {row.conflictingSessionIds.length !== 1 ? 's' : ''}
+                  </Text>
+                )}
+              </View>
+            );
+          })}
+        </ScrollView>
+
+        <View style={styles.actions}>
+          <Button
+            mode="outlined"
+            onPress={onDismiss}
+            style={styles.cancelButton}
+            textColor="#fff"
+            disabled={isImporting}>
+            Cancel
+          </Button>
+          <Button
+            mode="contained"
+            onPress={handleConfirm}
+            style={styles.importButton}
+            loading={isImporting}
+            disabled={isImporting || sessionsToImport.length === 0}>
+            Import {sessionsToImport.length}
+          </Button>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0f172a',
+    paddingTop: 60,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+    marginBottom: 16,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.6)',
+    marginTop: 4,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    marginHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+  },
+  summaryItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  summaryValue: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.6)',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  list: {
+    flex: 1,
+    marginTop: 16,
+  },
+  listContent: {
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  rowCard: {
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  rowStatus: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  rowStatusText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  rowDetails: {
+    fontSize: 14,
+    color: '#FFFFFF',
+    marginTop: 6,
+  },
+  rowError: {
+    fontSize: 12,
+    color: '#fca5a5',
+    marginTop: 4,
+  },
+  rowConflict: {
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.6)',
+    marginTop: 4,
+    fontStyle: 'italic',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    paddingBottom: 32,
+  },
+  cancelButton: {
+    flex: 1,
+    borderRadius: 12,
+    borderColor: '#9ca3af',
+  },
+  importButton: {
+    flex: 1,
+    backgroundColor: AppColors.primary,
+    borderRadius: 12,
+  },
+});
+
+export default ImportPreviewModal;
@@ -0,0 +1,583 @@
+import React, { useState, useMemo, useEffect, useCallback } from 'react';
+import {
+  View,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  Alert,
+  ScrollView,
+} from 'react-native';
+import { Text, Button, TextInput } from 'react-native-paper';
+import { Ionicons } from '@expo/vector-icons';
+import { AppColors } from '../theme/colors';
+import {
+  FilterType,
+  Invoice,
+  InvoiceGrouping,
+  OvertimeRules,
+  RateHistoryEntry,
+} from '../types';
+import { useSessionsContext } from '../contexts/SessionsContext';
+import { useProjectsContext } from '../contexts/ProjectsContext';
+import { useCalendarContext } from '../contexts/CalendarContext';
+import { createSessionFilter } from '../utils/sessionFilters';
+import { splitOvertimeHours } from '../utils/overtime';
+import { getRateOnDate } from '../utils/rateHistory';
+import { DEFAULT_CURRENCY, formatCurrency } from '../utils/currency';
+import {
+  buildInvoiceDraft,
+  renderInvoiceHtml,
+  selectInvoiceSessions,
+} from '../utils/invoices';
+import {
+  getNextInvoiceNumber,
+  loadInvoices,
+  saveInvoice,
+} from '../utils/invoiceStorage';
+import { toLocalDateString } from '../utils/timeUtils';
+import { printHtml, shareHtmlAsPdf } from '../utils/shareFile';
+
+interface InvoiceBuilderModalProps {
+  visible: boolean;
+  onDismiss: () => void;
+  /** Effective-dated default hourly rates */
+  rateHistory: RateHistoryEntry[];
+  overtimeRules: OvertimeRules;
+}
+
+type InvoiceOutput = 'pdf' | 'print';
+
+const INVOICE_RANGES = [
+  { value: 'thisWeek' as FilterType, label: 'This Week' },
+  { value: 'lastWeek' as FilterType, label: 'Last Week' },
+  { value: 'lastMonth' as FilterType, label: 'Last Month' },
+  { value: 'all' as FilterType, label: 'All Unbilled' },
+];
+
+const INVOICE_GROUPINGS = [
+  { value: 'day' as InvoiceGrouping, label: 'By Day' },
+  { value: 'project' as InvoiceGrouping, label: 'By Project' },
+];
+
+// Number of past invoices listed for re-sharing
+const RECENT_INVOICE_COUNT = 5;
+
+const InvoiceBuilderModal: React.FC<InvoiceBuilderModalProps> = ({
+  visible,
+  onDismiss,
+  rateHistory,
+  overtimeRules,
+}) => {
+  const { sessions, refreshSessions } = useSessionsContext();
+  const { projects } = useProjectsContext();
+  const {
+    preferences: { weekStartsOn },
+  } = useCalendarContext();
+  const [range, setRange] = useState<FilterType>('lastMonth');
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [grouping, setGrouping] = useState<InvoiceGrouping>('day');
+  const [taxRate, setTaxRate] = useState('');
+  const [billTo, setBillTo] = useState('');
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [nextNumber, setNextNumber] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadHistory = useCallback(async () => {
+    setInvoices(await loadInvoices());
+    setNextNumber(await getNextInvoiceNumber());
+  }, []);
+
+  useEffect(() => {
+    if (visible) {
+      loadHistory();
+    }
+  }, [visible, loadHistory]);
+
+  const selection = useMemo(() => {
+    const filter = createSessionFilter(range);
+    return {
+      ...(filter.startDate
+        ? { startDate: toLocalDateString(filter.startDate) }
+        : {}),
+      ...(filter.endDate ? { endDate: toLocalDateString(filter.endDate) } : {}),
+      ...(projectId ? { projectId } : {}),
+    };
+  }, [range, projectId]);
+
+  const selectedSessions = useMemo(
+    () => selectInvoiceSessions(sessions, selection),
+    [sessions, selection]
+  );
+
+  // Split over every session so invoiced weeks count hours outside the range
+  const overtimeSplit = useMemo(
+    () => splitOvertimeHours(sessions, overtimeRules, weekStartsOn),
+    [sessions, overtimeRules, weekStartsOn]
+  );
+
+  const parsedTaxRate = taxRate.trim() ? parseFloat(taxRate) : 0;
+  const isTaxRateValid =
+    !isNaN(parsedTaxRate) && parsedTaxRate >= 0 && parsedTaxRate <= 100;
+
+  const { draft, draftError } = useMemo(() => {
+    if (selectedSessions.length === 0 || !isTaxRateValid) {
+      return { draft: null, draftError: null };
+    }
+    const currentRate = getRateOnDate(
+      rateHistory,
+      toLocalDateString(new Date())
+    );
+    try {
+      return {
+        draft: buildInvoiceDraft(selectedSessions, {
+          hourlyRate: currentRate?.amount ?? 0,
+          currency: currentRate?.currency ?? DEFAULT_CURRENCY,
+          rateHistory,
+          projects,
+          overtime: { rules: overtimeRules, split: overtimeSplit },
+          grouping,
+          taxRate: parsedTaxRate,
+          billTo,
+          selection,
+        }),
+        draftError: null,
+      };
+    } catch (error) {
+      return { draft: null, draftError: (error as Error).message };
+    }
+  }, [
+    selectedSessions,
+    isTaxRateValid,
+    parsedTaxRate,
+    rateHistory,
+    projects,
+    overtimeRules,
+    overtimeSplit,
+    grouping,
+    billTo,
+    selection,
+  ]);
+
+  const outputInvoice = async (invoice: Invoice, output: InvoiceOutput) => {
+    const html = renderInvoiceHtml(invoice);
+    if (output === 'print') {
+      await printHtml(html);
+    } else {
+      await shareHtmlAsPdf(html, `${invoice.number}.pdf`);
+    }
+  };
+
+  const handleCreate = async (output: InvoiceOutput) => {
+    if (!isTaxRateValid) {
+      Alert.alert('Invalid Input', 'Tax rate must be between 0 and 100');
+      return;
+    }
+    if (!draft) {
+      Alert.alert(
+        'Nothing to Invoice',
+        draftError ?? 'No unbilled sessions found for this selection.'
+      );
+      return;
+    }
+
+    let invoice: Invoice;
+    try {
+      setIsSaving(true);
+      invoice = await saveInvoice(draft);
+      await refreshSessions();
+      await loadHistory();
+    } catch (error) {
+      console.error('Failed to create invoice:', error);
+      Alert.alert('Error', 'Failed to create invoice. Please try again.');
+      setIsSaving(false);
+      return;
+    }
+
+    // The invoice is saved either way; a cancelled share can be redone below
+    try {
+      await outputInvoice(invoice, output);
+    } catch (error) {
+      console.error('Failed to share invoice:', error);
+      Alert.alert(
+        'Invoice Saved',
+        `${invoice.number} was saved but could not be shared. You can share it again from Recent Invoices.`
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReshare = async (invoice: Invoice) => {
+    try {
+      await outputInvoice(invoice, 'pdf');
+    } catch (error) {
+      console.error('Failed to share invoice:', error);
+      Alert.alert('Error', 'Failed to share invoice. Please try again.');
+    }
+  };
+
+  const renderChip = (
+    key: string,
+    label: string,
+    active: boolean,
+    onPress: () => void
+  ) => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      disabled={isSaving}
+      style={[styles.chip, active && styles.chipActive]}>
+      <Text style={[styles.chipText, active && styles.chipTextActive]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onDismiss}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.container}>
+          <Text style={styles.title}>
+            Create Invoice{nextNumber ? ` ${nextNumber}` : ''}
+          </Text>
+
+          <ScrollView showsVerticalScrollIndicator={false}>
+            <Text style={styles.sectionLabel}>Date Range</Text>
+            <View style={styles.chipRow}>
+              {INVOICE_RANGES.map((option) =>
+                renderChip(
+                  option.value,
+                  option.label,
+                  range === option.value,
+                  () => setRange(option.value)
+                )
+              )}
+            </View>
+
+            {projects.length > 0 && (
+              <>
+                <Text style={styles.sectionLabel}>Project</Text>
+                <View style={styles.chipRow}>
+                  {renderChip('all', 'All Projects', projectId === null, () =>
+                    setProjectId(null)
+                  )}
+                  {projects.map((project) =>
+                    renderChip(
+                      project.id,
+                      project.name,
+                      projectId === project.id,
+                      () => setProjectId(project.id)
+                    )
+                  )}
+                </View>
+              </>
+            )}
+
+            <Text style={styles.sectionLabel}>Line Items</Text>
+            <View style={styles.chipRow}>
+              {INVOICE_GROUPINGS.map((option) =>
+                renderChip(
+                  option.value,
+                  option.label,
+                  grouping === option.value,
+                  () => setGrouping(option.value)
+                )
+              )}
+            </View>
+
+            <TextInput
+              mode="outlined"
+              label="Bill To"
+              value={billTo}
+              onChangeText={setBillTo}
+              style={styles.input}
+              outlineColor="rgba(255,255,255,0.2)"
+              activeOutlineColor={AppColors.primary}
+              textColor="#FFFFFF"
+              disabled={isSaving}
+            />
+            <TextInput
+              mode="outlined"
+              label="Tax Rate (%)"
+              value={taxRate}
+              onChangeText={setTaxRate}
+              keyboardType="decimal-pad"
+              style={styles.input}
+              outlineColor="rgba(255,255,255,0.2)"
+              activeOutlineColor={AppColors.primary}
+              textColor="#FFFFFF"
+              error={!isTaxRateValid}
+              disabled={isSaving}
+            />
+
+            {/* Preview */}
+            <Text style={styles.sectionLabel}>Preview</Text>
+            {draft ? (
+              <View style={styles.preview}>
+                {draft.lineItems.map((line) => (
+                  <View key={line.key} style={styles.lineItem}>
+                    <View style={styles.lineInfo}>
+                      <Text style={styles.lineDescription}>
+                        {line.description}
+                      </Text>
+                      <Text style={styles.lineDetail}>
+                        {`${line.hours.toFixed(2)}h × ${formatCurrency(
+                          line.rate,
+                          draft.currency
+                        )}`}
+                      </Text>
+                    </View>
+                    <Text style={styles.lineAmount}>
+                      {formatCurrency(line.amount, draft.currency)}
+                    </Text>
+                  </View>
+                ))}
+                {draft.taxRate > 0 && (
+                  <View style={styles.totalRow}>
+                    <Text style={styles.totalLabel}>
+                      {`Tax (${draft.taxRate}%)`}
+                    </Text>
+                    <Text style={styles.totalLabel}>
+                      {formatCurrency(draft.tax, draft.currency)}
+                    </Text>
+                  </View>
+                )}
+                <View style={styles.totalRow}>
+                  <Text style={styles.totalValue}>Total</Text>
+                  <Text style={styles.totalValue}>
+                    {formatCurrency(draft.total, draft.currency)}
+                  </Text>
+                </View>
+              </View>
+            ) : (
+              <Text style={styles.summaryText}>
+                {draftError ?? 'No unbilled sessions found for this selection.'}
+              </Text>
+            )}
+
+            <Text style={styles.summaryText}>
+              {selectedSessions.length} unbilled session
+              {selectedSessions.length !== 1 ? 's' : ''} will be marked as
+              invoiced
+            </Text>
+
+            <View style={styles.actions}>
+              <Button
+                mode="outlined"
+                onPress={() => handleCreate('print')}
+                style={styles.cancelButton}
+                textColor="#fff"
+                disabled={isSaving || !draft}>
+                Print
+              </Button>
+              <Button
+                mode="contained"
+                onPress={() => handleCreate('pdf')}
+                style={styles.createButton}
+                loading={isSaving}
+                disabled={isSaving || !draft}>
+                Share PDF
+              </Button>
+            </View>
+
+            {/* Recent Invoices */}
+            {invoices.length > 0 && (
+              <>
+                <Text style={styles.sectionLabel}>Recent Invoices</Text>
+                {invoices.slice(0, RECENT_INVOICE_COUNT).map((invoice) => (
+                  <TouchableOpacity
+                    key={invoice.id}
+                    style={styles.invoiceItem}
+                    onPress={() => handleReshare(invoice)}>
+                    <View style={styles.lineInfo}>
+                      <Text style={styles.lineDescription}>
+                        {invoice.number}
+                      </Text>
+                      <Text style={styles.lineDetail}>
+                        {new Date(invoice.issuedAt).toLocaleDateString()}
+                        {invoice.billTo ? ` · ${invoice.billTo}` : ''}
+                      </Text>
+                    </View>
+                    <Text style={styles.lineAmount}>
+                      {formatCurrency(invoice.total, invoice.currency)}
+                    </Text>
+                    <Ionicons
+                      name="share-outline"
+                      size={18}
+                      color="rgba(255,255,255,0.7)"
+                      style={styles.shareIcon}
+                    />
+                  </TouchableOpacity>
+                ))}
+              </>
+            )}
+          </ScrollView>
+
+          <Button
+            mode="text"
+            onPress={onDismiss}
+            textColor="rgba(255,255,255,0.7)"
+            disabled={isSaving}>
+            Close
+          </Button>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  container: {
+    backgroundColor: 'rgba(15, 23, 42, 0.98)',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+    width: '90%',
+    maxWidth: 420,
+    maxHeight: '85%',
+    padding: 16,
+    elevation: 8,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 4,
+    },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+  },
+  title: {
+    color: '#FFFFFF',
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginBottom: 12,
+    paddingBottom: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255,255,255,0.1)',
+  },
+  sectionLabel: {
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.6)',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.2)',
+    backgroundColor: 'rgba(255,255,255,0.05)',
+  },
+  chipActive: {
+    borderColor: AppColors.primary,
+    backgroundColor: 'rgba(103, 80, 164, 0.3)',
+  },
+  chipText: {
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.8)',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  input: {
+    marginBottom: 8,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+  },
+  preview: {
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 8,
+    padding: 12,
+  },
+  lineItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255,255,255,0.1)',
+  },
+  lineInfo: {
+    flex: 1,
+  },
+  lineDescription: {
+    color: '#FFFFFF',
+    fontSize: 14,
+  },
+  lineDetail: {
+    color: 'rgba(255,255,255,0.6)',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  lineAmount: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingTop: 8,
+  },
+  totalLabel: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: 14,
+  },
+  totalValue: {
+    color: '#93c5fd',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  summaryText: {
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.7)',
+    textAlign: 'center',
+    marginVertical: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 8,
+  },
+  cancelButton: {
+    flex: 1,
+    borderRadius: 12,
+    borderColor: '#9ca3af',
+  },
+  createButton: {
+    flex: 1,
+    backgroundColor: AppColors.primary,
+    borderRadius: 12,
+  },
+  invoiceItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 6,
+  },
+  shareIcon: {
+    marginLeft: 12,
+  },
+});
+
+export default InvoiceBuilderModal;
@@ -0,0 +1,232 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, Alert } from 'react-native';
+import { Text, TextInput, Button, Card } from 'react-native-paper';
+import { Ionicons } from '@expo/vector-icons';
+import { AppColors } from '../theme/colors';
+import { LeavePolicy, PtoBalance } from '../types';
+import { validateLeavePolicy } from '../utils/validation';
+
+interface LeavePolicyCardProps {
+  policy: LeavePolicy;
+  /** Balance over every stored session under the saved policy */
+  balance: PtoBalance;
+  onSave: (policy: LeavePolicy) => Promise<void>;
+}
+
+// Accrual is entered as hours earned per 40 hours worked, like a pay stub
+const ACCRUAL_BASIS_HOURS = 40;
+
+const LeavePolicyCard: React.FC<LeavePolicyCardProps> = ({
+  policy,
+  balance,
+  onSave,
+}) => {
+  const [standardDayHours, setStandardDayHours] = useState('');
+  const [accrualHours, setAccrualHours] = useState('');
+  const [openingBalance, setOpeningBalance] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the form when the stored policy loads or is restored
+  useEffect(() => {
+    setStandardDayHours(String(policy.standardDayHours));
+    setAccrualHours(
+      String(Math.round(policy.accrualRate * ACCRUAL_BASIS_HOURS * 100) / 100)
+    );
+    setOpeningBalance(String(policy.openingBalance));
+  }, [policy]);
+
+  const handleSave = async () => {
+    const updated: LeavePolicy = {
+      standardDayHours: parseFloat(standardDayHours),
+      accrualRate: parseFloat(accrualHours || '0') / ACCRUAL_BASIS_HOURS,
+      openingBalance: parseFloat(openingBalance || '0'),
+    };
+
+    if (!validateLeavePolicy(updated)) {
+      Alert.alert(
+        'Invalid Policy',
+        'A day must be up to 24 hours, and PTO earned per 40 hours worked must be between 0 and 40.'
+      );
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await onSave(updated);
+      Alert.alert('Success', 'Leave policy saved successfully!');
+    } catch (error) {
+      console.error('Failed to save leave policy:', error);
+      Alert.alert('Error', 'Failed to save leave policy. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card style={styles.card}>
+      <Card.Content>
+        <View style={styles.cardHeader}>
+          <Ionicons
+            name="airplane-outline"
+            size={24}
+            color={AppColors.primary}
+          />
+          <Text style={styles.cardTitle}>Leave & PTO</Text>
+        </View>
+        <Text style={styles.cardDescription}>
+          Full days of leave count as a standard day. PTO is earned on hours
+          worked and used by vacation and sick days; holidays and unpaid leave
+          don&apos;t touch it.
+        </Text>
+
+        <View style={styles.balanceRow}>
+          <View style={styles.balanceItem}>
+            <Text style={styles.balanceLabel}>Accrued</Text>
+            <Text style={styles.balanceValue}>
+              {`${balance.accrued.toFixed(2)} hrs`}
+            </Text>
+          </View>
+          <View style={styles.balanceItem}>
+            <Text style={styles.balanceLabel}>Used</Text>
+            <Text style={styles.balanceValue}>
+              {`${balance.used.toFixed(2)} hrs`}
+            </Text>
+          </View>
+          <View style={styles.balanceItem}>
+            <Text style={styles.balanceLabel}>Balance</Text>
+            <Text
+              style={[
+                styles.balanceValue,
+                balance.balance < 0 && styles.negativeBalance,
+              ]}>
+              {`${balance.balance.toFixed(2)} hrs`}
+            </Text>
+          </View>
+        </View>
+
+        <View style={styles.fieldRow}>
+          <TextInput
+            mode="outlined"
+            label="Hours per day"
+            value={standardDayHours}
+            onChangeText={setStandardDayHours}
+            keyboardType="decimal-pad"
+            style={styles.input}
+            outlineColor="rgba(255,255,255,0.2)"
+            activeOutlineColor={AppColors.primary}
+            textColor="#FFFFFF"
+            disabled={isSaving}
+          />
+          <TextInput
+            mode="outlined"
+            label="PTO per 40 hrs worked"
+            value={accrualHours}
+            onChangeText={setAccrualHours}
+            keyboardType="decimal-pad"
+            style={styles.input}
+            outlineColor="rgba(255,255,255,0.2)"
+            activeOutlineColor={AppColors.primary}
+            textColor="#FFFFFF"
+            disabled={isSaving}
+          />
+        </View>
+        <TextInput
+          mode="outlined"
+          label="Opening balance (hours)"
+          value={openingBalance}
+          onChangeText={setOpeningBalance}
+          keyboardType="numbers-and-punctuation"
+          style={styles.fullInput}
+          outlineColor="rgba(255,255,255,0.2)"
+          activeOutlineColor={AppColors.primary}
+          textColor="#FFFFFF"
+          disabled={isSaving}
+        />
+
+        <Button
+          mode="contained"
+          onPress={handleSave}
+          loading={isSaving}
+          disabled={isSaving}
+          style={styles.saveButton}
+          labelStyle={styles.saveButtonText}>
+          {isSaving ? 'Saving...' : 'Save Policy'}
+        </Button>
+      </Card.Content>
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    marginHorizontal: 16,
+    marginBottom: 16,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 16,
+    elevation: 4,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  cardTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginLeft: 12,
+  },
+  cardDescription: {
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.7)',
+    marginBottom: 12,
+    lineHeight: 20,
+  },
+  balanceRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  balanceItem: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  balanceLabel: {
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.6)',
+    marginBottom: 4,
+  },
+  balanceValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  negativeBalance: {
+    color: '#ef4444',
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  input: {
+    width: '48%',
+    marginBottom: 12,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+  },
+  fullInput: {
+    marginBottom: 12,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+  },
+  saveButton: {
+    backgroundColor: AppColors.primary,
+    borderRadius: 12,
+    marginTop: 4,
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default LeavePolicyCard;
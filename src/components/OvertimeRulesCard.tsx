@@ -0,0 +1,243 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, Alert } from 'react-native';
+import {
+  Text,
+  TextInput,
+  Button,
+  Card,
+  List,
+  Switch,
+} from 'react-native-paper';
+import { Ionicons } from '@expo/vector-icons';
+import { AppColors } from '../theme/colors';
+import { OvertimeRules } from '../types';
+import { validateOvertimeRules } from '../utils/validation';
+import { describeOvertimeRules } from '../utils/overtime';
+
+interface OvertimeRulesCardProps {
+  rules: OvertimeRules;
+  onSave: (rules: OvertimeRules) => Promise<void>;
+}
+
+type RuleField = Exclude<keyof OvertimeRules, 'enabled'>;
+
+const THRESHOLD_FIELDS: { field: RuleField; label: string }[] = [
+  { field: 'dailyThreshold', label: 'Overtime after (h/day)' },
+  { field: 'dailyDoubleTimeThreshold', label: 'Double time after (h/day)' },
+  { field: 'weeklyThreshold', label: 'Overtime after (h/week)' },
+  { field: 'weeklyDoubleTimeThreshold', label: 'Double time after (h/week)' },
+];
+
+const MULTIPLIER_FIELDS: { field: RuleField; label: string }[] = [
+  { field: 'overtimeMultiplier', label: 'Overtime multiplier' },
+  { field: 'doubleTimeMultiplier', label: 'Double time multiplier' },
+];
+
+const toFormValues = (rules: OvertimeRules): Record<RuleField, string> => ({
+  dailyThreshold: rules.dailyThreshold?.toString() ?? '',
+  dailyDoubleTimeThreshold: rules.dailyDoubleTimeThreshold?.toString() ?? '',
+  weeklyThreshold: rules.weeklyThreshold?.toString() ?? '',
+  weeklyDoubleTimeThreshold: rules.weeklyDoubleTimeThreshold?.toString() ?? '',
+  overtimeMultiplier: rules.overtimeMultiplier.toString(),
+  doubleTimeMultiplier: rules.doubleTimeMultiplier.toString(),
+});
+
+// Empty threshold fields turn the threshold off
+const parseThreshold = (value: string): number | null =>
+  value.trim() ? parseFloat(value) : null;
+
+const OvertimeRulesCard: React.FC<OvertimeRulesCardProps> = ({
+  rules,
+  onSave,
+}) => {
+  const [enabled, setEnabled] = useState(rules.enabled);
+  const [values, setValues] = useState(() => toFormValues(rules));
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the form when stored rules load or are restored
+  useEffect(() => {
+    setEnabled(rules.enabled);
+    setValues(toFormValues(rules));
+  }, [rules]);
+
+  const handleChange = (field: RuleField, value: string) => {
+    setValues((current) => ({ ...current, [field]: value }));
+  };
+
+  const handleSave = async () => {
+    const updated: OvertimeRules = {
+      enabled,
+      dailyThreshold: parseThreshold(values.dailyThreshold),
+      dailyDoubleTimeThreshold: parseThreshold(values.dailyDoubleTimeThreshold),
+      weeklyThreshold: parseThreshold(values.weeklyThreshold),
+      weeklyDoubleTimeThreshold: parseThreshold(
+        values.weeklyDoubleTimeThreshold
+      ),
+      overtimeMultiplier: parseFloat(values.overtimeMultiplier),
+      doubleTimeMultiplier: parseFloat(values.doubleTimeMultiplier),
+    };
+
+    if (!validateOvertimeRules(updated)) {
+      Alert.alert(
+        'Invalid Rules',
+        'Thresholds must be positive, double time must start after overtime, and multipliers must be at least 1.'
+      );
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await onSave(updated);
+      Alert.alert('Success', 'Overtime rules saved successfully!');
+    } catch (error) {
+      console.error('Failed to save overtime rules:', error);
+      Alert.alert('Error', 'Failed to save overtime rules. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderField = ({
+    field,
+    label,
+  }: {
+    field: RuleField;
+    label: string;
+  }) => (
+    <TextInput
+      key={field}
+      mode="outlined"
+      label={label}
+      value={values[field]}
+      onChangeText={(value) => handleChange(field, value)}
+      keyboardType="decimal-pad"
+      style={styles.input}
+      outlineColor="rgba(255,255,255,0.2)"
+      activeOutlineColor={AppColors.primary}
+      textColor="#FFFFFF"
+      disabled={isSaving}
+    />
+  );
+
+  return (
+    <Card style={styles.card}>
+      <Card.Content>
+        <View style={styles.cardHeader}>
+          <Ionicons
+            name="trending-up-outline"
+            size={24}
+            color={AppColors.primary}
+          />
+          <Text style={styles.cardTitle}>Overtime</Text>
+        </View>
+        <Text style={styles.cardDescription}>
+          Pay hours past daily or weekly thresholds at a higher rate. Leave a
+          threshold empty to turn it off.
+        </Text>
+
+        <List.Item
+          title="Pay Overtime"
+          description={describeOvertimeRules(rules)}
+          left={() => (
+            <Ionicons
+              name="timer-outline"
+              size={20}
+              color="rgba(255,255,255,0.7)"
+            />
+          )}
+          right={() => (
+            <Switch
+              value={enabled}
+              onValueChange={setEnabled}
+              color={AppColors.primary}
+            />
+          )}
+          style={styles.listItem}
+          titleStyle={styles.listItemTitle}
+          descriptionStyle={styles.listItemDescription}
+        />
+
+        {enabled && (
+          <>
+            <View style={styles.fieldRow}>
+              {THRESHOLD_FIELDS.map(renderField)}
+            </View>
+            <View style={styles.fieldRow}>
+              {MULTIPLIER_FIELDS.map(renderField)}
+            </View>
+          </>
+        )}
+
+        <Button
+          mode="contained"
+          onPress={handleSave}
+          loading={isSaving}
+          disabled={isSaving}
+          style={styles.saveButton}
+          labelStyle={styles.saveButtonText}>
+          {isSaving ? 'Saving...' : 'Save Overtime Rules'}
+        </Button>
+      </Card.Content>
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    marginHorizontal: 16,
+    marginBottom: 16,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 16,
+    elevation: 4,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  cardTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginLeft: 12,
+  },
+  cardDescription: {
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.7)',
+    marginBottom: 12,
+    lineHeight: 20,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+  },
+  input: {
+    width: '48%',
+    marginBottom: 12,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+  },
+  saveButton: {
+    backgroundColor: AppColors.primary,
+    borderRadius: 12,
+    marginTop: 4,
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  listItem: {
+    paddingVertical: 8,
+  },
+  listItemTitle: {
+    color: '#FFFFFF',
+    fontSize: 16,
+  },
+  listItemDescription: {
+    color: 'rgba(255,255,255,0.6)',
+    fontSize: 14,
+  },
+});
+
+export default OvertimeRulesCard;
@@ -0,0 +1,97 @@
+import React from 'react';
+import { View, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import { Text } from 'react-native-paper';
+import { Project } from '../types';
+
+interface ProjectPickerProps {
+  projects: Project[];
+  selectedProjectId: string | null;
+  onSelect: (projectId: string | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Horizontal row of project chips with a leading "No project" option
+ */
+const ProjectPicker: React.FC<ProjectPickerProps> = ({
+  projects,
+  selectedProjectId,
+  onSelect,
+  disabled,
+}) => {
+  const options: { id: string | null; name: string; color: string }[] = [
+    { id: null, name: 'No project', color: 'rgba(255,255,255,0.4)' },
+    ...projects.map((project) => ({
+      id: project.id,
+      name: project.client
+        ? `${project.name} · ${project.client}`
+        : project.name,
+      color: project.color,
+    })),
+  ];
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.container}>
+      {options.map((option) => {
+        const isSelected = option.id === selectedProjectId;
+        return (
+          <TouchableOpacity
+            key={option.id ?? 'none'}
+            onPress={() => onSelect(option.id)}
+            disabled={disabled}
+            style={[
+              styles.chip,
+              isSelected && {
+                borderColor: option.color,
+                backgroundColor: 'rgba(255,255,255,0.12)',
+              },
+            ]}>
+            <View style={[styles.dot, { backgroundColor: option.color }]} />
+            <Text
+              style={[styles.chipText, isSelected && styles.chipTextSelected]}
+              numberOfLines={1}>
+              {option.name}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 16,
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.15)',
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    maxWidth: 220,
+  },
+  dot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 8,
+  },
+  chipText: {
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.7)',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+});
+
+export default ProjectPicker;
@@ -0,0 +1,433 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { Text, TextInput, Button } from 'react-native-paper';
+import { Ionicons } from '@expo/vector-icons';
+import { AppColors } from '../theme/colors';
+import { Project } from '../types';
+import { useProjectsContext } from '../contexts/ProjectsContext';
+import { PROJECT_COLORS } from '../utils/projectStorage';
+import { CURRENCIES, formatCurrency } from '../utils/currency';
+
+interface ProjectsScreenProps {
+  visible: boolean;
+  onDismiss: () => void;
+  /** Currency of the default hourly rate, used for projects without one */
+  defaultCurrency: string;
+}
+
+interface ProjectForm {
+  id: string | null;
+  name: string;
+  client: string;
+  hourlyRate: string;
+  /** Currency of the hourly rate, null to use the default rate's */
+  currency: string | null;
+  color: string;
+}
+
+const EMPTY_FORM: ProjectForm = {
+  id: null,
+  name: '',
+  client: '',
+  hourlyRate: '',
+  currency: null,
+  color: PROJECT_COLORS[0],
+};
+
+const ProjectsScreen: React.FC<ProjectsScreenProps> = ({
+  visible,
+  onDismiss,
+  defaultCurrency,
+}) => {
+  const { projects, saveProject, deleteProject } = useProjectsContext();
+  const [form, setForm] = useState<ProjectForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleEdit = useCallback((project: Project) => {
+    setForm({
+      id: project.id,
+      name: project.name,
+      client: project.client ?? '',
+      hourlyRate:
+        project.hourlyRate !== undefined ? String(project.hourlyRate) : '',
+      currency: project.currency ?? null,
+      color: project.color,
+    });
+  }, []);
+
+  const handleSave = async () => {
+    const name = form.name.trim();
+    if (!name) {
+      Alert.alert('Invalid Input', 'Please enter a project name');
+      return;
+    }
+
+    const rate = form.hourlyRate.trim() ? parseFloat(form.hourlyRate) : NaN;
+    if (form.hourlyRate.trim() && (isNaN(rate) || rate < 0)) {
+      Alert.alert('Invalid Input', 'Please enter a valid positive number');
+      return;
+    }
+
+    const existing = projects.find((p) => p.id === form.id);
+    const project: Project = {
+      id: existing?.id ?? `project-${Date.now()}`,
+      name,
+      color: form.color,
+      createdAt: existing?.createdAt ?? new Date().toISOString(),
+      ...(form.client.trim() ? { client: form.client.trim() } : {}),
+      ...(isNaN(rate) ? {} : { hourlyRate: rate }),
+      ...(!isNaN(rate) && form.currency ? { currency: form.currency } : {}),
+    };
+
+    try {
+      setIsSaving(true);
+      await saveProject(project);
+      setForm(EMPTY_FORM);
+    } catch (error) {
+      console.error('Failed to save project:', error);
+      Alert.alert('Error', 'Failed to save project. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = (project: Project) => {
+    Alert.alert(
+      'Delete Project',
+      `Delete "${project.name}"? Sessions tracked on it are kept but will no longer show a project.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteProject(project.id);
+              if (form.id === project.id) {
+                setForm(EMPTY_FORM);
+              }
+            } catch (error) {
+              console.error('Failed to delete project:', error);
+              Alert.alert(
+                'Error',
+                'Failed to delete project. Please try again.'
+              );
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      onRequestClose={onDismiss}
+      statusBarTranslucent={true}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <View style={styles.headerText}>
+            <Text style={styles.title}>Projects</Text>
+            <Text style={styles.subtitle}>
+              Group sessions by project or client
+            </Text>
+          </View>
+          <TouchableOpacity onPress={onDismiss}>
+            <Ionicons name="close" size={28} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView
+          style={styles.list}
+          contentContainerStyle={styles.listContent}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled">
+          {/* Project Form */}
+          <View style={styles.formCard}>
+            <Text style={styles.formTitle}>
+              {form.id ? 'Edit Project' : 'New Project'}
+            </Text>
+            <TextInput
+              label="Name"
+              value={form.name}
+              onChangeText={(name) => setForm((prev) => ({ ...prev, name }))}
+              mode="outlined"
+              style={styles.input}
+              outlineColor="rgba(255,255,255,0.3)"
+              activeOutlineColor={AppColors.primary}
+              textColor="#FFFFFF"
+            />
+            <TextInput
+              label="Client (optional)"
+              value={form.client}
+              onChangeText={(client) =>
+                setForm((prev) => ({ ...prev, client }))
+              }
+              mode="outlined"
+              style={styles.input}
+              outlineColor="rgba(255,255,255,0.3)"
+              activeOutlineColor={AppColors.primary}
+              textColor="#FFFFFF"
+            />
+            <TextInput
+              label="Hourly Rate (optional)"
+              value={form.hourlyRate}
+              onChangeText={(hourlyRate) =>
+                setForm((prev) => ({ ...prev, hourlyRate }))
+              }
+              keyboardType="numeric"
+              mode="outlined"
+              style={styles.input}
+              outlineColor="rgba(255,255,255,0.3)"
+              activeOutlineColor={AppColors.primary}
+              textColor="#FFFFFF"
+              left={<TextInput.Icon icon="cash" />}
+            />
+            <View style={styles.chipRow}>
+              {CURRENCIES.map((code) => {
+                const selected = (form.currency ?? defaultCurrency) === code;
+                return (
+                  <TouchableOpacity
+                    key={code}
+                    onPress={() =>
+                      setForm((prev) => ({ ...prev, currency: code }))
+                    }
+                    style={[styles.chip, selected && styles.chipActive]}>
+                    <Text
+                      style={[
+                        styles.chipText,
+                        selected && styles.chipTextActive,
+                      ]}>
+                      {code}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <View style={styles.colorRow}>
+              {PROJECT_COLORS.map((color) => (
+                <TouchableOpacity
+                  key={color}
+                  onPress={() => setForm((prev) => ({ ...prev, color }))}
+                  style={[
+                    styles.colorSwatch,
+                    { backgroundColor: color },
+                    form.color === color && styles.colorSwatchSelected,
+                  ]}
+                />
+              ))}
+            </View>
+            <View style={styles.formActions}>
+              {form.id && (
+                <Button
+                  mode="outlined"
+                  onPress={() => setForm(EMPTY_FORM)}
+                  style={styles.cancelButton}
+                  textColor="#fff"
+                  disabled={isSaving}>
+                  Cancel
+                </Button>
+              )}
+              <Button
+                mode="contained"
+                onPress={handleSave}
+                style={styles.saveButton}
+                loading={isSaving}
+                disabled={isSaving}>
+                {form.id ? 'Save Project' : 'Add Project'}
+              </Button>
+            </View>
+          </View>
+
+          {/* Project List */}
+          {projects.length === 0 ? (
+            <Text style={styles.emptyText}>No projects yet</Text>
+          ) : (
+            projects.map((project) => (
+              <TouchableOpacity
+                key={project.id}
+                style={styles.projectCard}
+                onPress={() => handleEdit(project)}>
+                <View
+                  style={[
+                    styles.projectDot,
+                    { backgroundColor: project.color },
+                  ]}
+                />
+                <View style={styles.projectInfo}>
+                  <Text style={styles.projectName}>{project.name}</Text>
+                  <Text style={styles.projectDetails}>
+                    {[
+                      project.client,
+                      project.hourlyRate !== undefined
+                        ? `${formatCurrency(
+                            project.hourlyRate,
+                            project.currency ?? defaultCurrency
+                          )}/hr`
+                        : 'Default rate',
+                    ]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </Text>
+                </View>
+                <TouchableOpacity onPress={() => handleDelete(project)}>
+                  <Ionicons name="trash-outline" size={20} color="#ef4444" />
+                </TouchableOpacity>
+              </TouchableOpacity>
+            ))
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0f172a',
+    paddingTop: 60,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+    marginBottom: 16,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.6)',
+    marginTop: 4,
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+  },
+  formCard: {
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+  },
+  formTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: 'transparent',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginVertical: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.2)',
+    backgroundColor: 'rgba(255,255,255,0.05)',
+  },
+  chipActive: {
+    borderColor: AppColors.primary,
+    backgroundColor: 'rgba(103, 80, 164, 0.3)',
+  },
+  chipText: {
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.8)',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  colorRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+    marginVertical: 8,
+  },
+  colorSwatch: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  colorSwatchSelected: {
+    borderColor: '#FFFFFF',
+  },
+  formActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  cancelButton: {
+    flex: 1,
+    borderRadius: 12,
+    borderColor: '#9ca3af',
+  },
+  saveButton: {
+    flex: 1,
+    backgroundColor: AppColors.primary,
+    borderRadius: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.6)',
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  projectCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  projectDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginRight: 12,
+  },
+  projectInfo: {
+    flex: 1,
+  },
+  projectName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  projectDetails: {
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.6)',
+    marginTop: 2,
+  },
+});
+
+export default ProjectsScreen;
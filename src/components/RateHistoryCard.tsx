@@ -0,0 +1,394 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { View, StyleSheet, Alert, TouchableOpacity } from 'react-native';
+import { Text, TextInput, Button, Card } from 'react-native-paper';
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { AppColors } from '../theme/colors';
+import { RateHistoryEntry } from '../types';
+import {
+  CURRENCIES,
+  DEFAULT_CURRENCY,
+  formatCurrency,
+} from '../utils/currency';
+import {
+  getRateEntryOnDate,
+  removeRateEntry,
+  upsertRateEntry,
+} from '../utils/rateHistory';
+import {
+  formatDate,
+  parseLocalDate,
+  toLocalDateString,
+} from '../utils/timeUtils';
+
+interface RateHistoryCardProps {
+  history: RateHistoryEntry[];
+  onSave: (history: RateHistoryEntry[]) => Promise<void>;
+}
+
+interface RateForm {
+  /** Entry being edited, null for a new rate */
+  id: string | null;
+  amount: string;
+  currency: string;
+  effectiveFrom: Date;
+}
+
+const RateHistoryCard: React.FC<RateHistoryCardProps> = ({
+  history,
+  onSave,
+}) => {
+  const today = toLocalDateString(new Date());
+  const currentRate = useMemo(
+    () => getRateEntryOnDate(history, today),
+    [history, today]
+  );
+
+  const emptyForm = (): RateForm => ({
+    id: null,
+    amount: '',
+    currency: currentRate?.currency ?? DEFAULT_CURRENCY,
+    effectiveFrom: new Date(),
+  });
+
+  const [form, setForm] = useState<RateForm>(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start new rates in the current rate's currency once the history loads
+  useEffect(() => {
+    setForm((prev) =>
+      prev.id
+        ? prev
+        : { ...prev, currency: currentRate?.currency ?? DEFAULT_CURRENCY }
+    );
+  }, [currentRate]);
+
+  const handleEdit = (entry: RateHistoryEntry) => {
+    setForm({
+      id: entry.id,
+      amount: String(entry.amount),
+      currency: entry.currency,
+      effectiveFrom: parseLocalDate(entry.effectiveFrom),
+    });
+  };
+
+  const saveHistory = async (updated: RateHistoryEntry[]) => {
+    try {
+      setIsSaving(true);
+      await onSave(updated);
+      return true;
+    } catch (error) {
+      console.error('Failed to save hourly rate:', error);
+      Alert.alert('Error', 'Failed to save hourly rate. Please try again.');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!form.amount.trim()) {
+      Alert.alert('Invalid Input', 'Please enter a valid hourly rate');
+      return;
+    }
+
+    const amount = parseFloat(form.amount);
+    if (isNaN(amount) || amount < 0) {
+      Alert.alert('Invalid Input', 'Please enter a valid positive number');
+      return;
+    }
+
+    const saved = await saveHistory(
+      upsertRateEntry(history, {
+        id: form.id ?? `rate-${Date.now()}`,
+        amount,
+        currency: form.currency,
+        effectiveFrom: toLocalDateString(form.effectiveFrom),
+      })
+    );
+    if (saved) {
+      setForm(emptyForm());
+      Alert.alert('Success', 'Hourly rate saved successfully!');
+    }
+  };
+
+  const handleDelete = (entry: RateHistoryEntry) => {
+    Alert.alert(
+      'Delete Rate',
+      `Delete the rate starting ${formatDate(entry.effectiveFrom)}? Sessions from that day use the previous rate instead.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            if (await saveHistory(removeRateEntry(history, entry.id))) {
+              if (form.id === entry.id) {
+                setForm(emptyForm());
+              }
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <Card style={styles.card}>
+      <Card.Content>
+        <View style={styles.cardHeader}>
+          <Ionicons name="cash-outline" size={24} color={AppColors.primary} />
+          <Text style={styles.cardTitle}>Hourly Rate</Text>
+        </View>
+        <Text style={styles.cardDescription}>
+          Set your hourly rate and the day it takes effect. Each session is paid
+          at the rate in effect on its date, so a new rate leaves past income
+          unchanged.
+        </Text>
+
+        <TextInput
+          mode="outlined"
+          label={`${form.id ? 'Edit Rate' : 'New Rate'} (${form.currency})`}
+          value={form.amount}
+          onChangeText={(amount) => setForm((prev) => ({ ...prev, amount }))}
+          keyboardType="decimal-pad"
+          style={styles.input}
+          outlineColor="rgba(255,255,255,0.2)"
+          activeOutlineColor={AppColors.primary}
+          textColor="#FFFFFF"
+          left={<TextInput.Icon icon="cash" />}
+          disabled={isSaving}
+        />
+
+        <Text style={styles.label}>Currency</Text>
+        <View style={styles.chipRow}>
+          {CURRENCIES.map((code) => (
+            <TouchableOpacity
+              key={code}
+              onPress={() => setForm((prev) => ({ ...prev, currency: code }))}
+              disabled={isSaving}
+              style={[
+                styles.chip,
+                form.currency === code && styles.chipActive,
+              ]}>
+              <Text
+                style={[
+                  styles.chipText,
+                  form.currency === code && styles.chipTextActive,
+                ]}>
+                {code}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.dateRow}>
+          <Text style={styles.label}>Effective from</Text>
+          <DateTimePicker
+            value={form.effectiveFrom}
+            mode="date"
+            display="default"
+            onChange={(event, date) => {
+              if (date) {
+                setForm((prev) => ({ ...prev, effectiveFrom: date }));
+              }
+            }}
+          />
+        </View>
+
+        <View style={styles.formActions}>
+          {form.id && (
+            <Button
+              mode="outlined"
+              onPress={() => setForm(emptyForm())}
+              style={styles.cancelButton}
+              textColor="#fff"
+              disabled={isSaving}>
+              Cancel
+            </Button>
+          )}
+          <Button
+            mode="contained"
+            onPress={handleSave}
+            loading={isSaving}
+            disabled={isSaving}
+            style={styles.saveButton}
+            labelStyle={styles.saveButtonText}>
+            {isSaving ? 'Saving...' : 'Save Rate'}
+          </Button>
+        </View>
+
+        {/* Rate Timeline */}
+        {history.length > 0 && (
+          <View style={styles.timeline}>
+            <Text style={styles.label}>Rate History</Text>
+            {[...history].reverse().map((entry, index) => {
+              const isCurrent = entry.id === currentRate?.id;
+              const isEarliest = index === history.length - 1;
+              return (
+                <TouchableOpacity
+                  key={entry.id}
+                  style={[
+                    styles.timelineItem,
+                    form.id === entry.id && styles.timelineItemSelected,
+                  ]}
+                  onPress={() => handleEdit(entry)}>
+                  <View
+                    style={[
+                      styles.timelineDot,
+                      isCurrent && styles.timelineDotCurrent,
+                    ]}
+                  />
+                  <View style={styles.timelineInfo}>
+                    <Text style={styles.timelineRate}>
+                      {`${formatCurrency(entry.amount, entry.currency)}/hr`}
+                      {isCurrent ? ' · Current' : ''}
+                    </Text>
+                    <Text style={styles.timelineDate}>
+                      {isEarliest
+                        ? `From ${formatDate(entry.effectiveFrom)} and earlier`
+                        : `From ${formatDate(entry.effectiveFrom)}`}
+                    </Text>
+                  </View>
+                  <TouchableOpacity
+                    onPress={() => handleDelete(entry)}
+                    disabled={isSaving}>
+                    <Ionicons name="trash-outline" size={20} color="#ef4444" />
+                  </TouchableOpacity>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
+      </Card.Content>
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    marginHorizontal: 16,
+    marginBottom: 16,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 16,
+    elevation: 4,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  cardTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginLeft: 12,
+  },
+  cardDescription: {
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.7)',
+    marginBottom: 20,
+    lineHeight: 20,
+  },
+  input: {
+    marginBottom: 16,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+  },
+  label: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    marginBottom: 8,
+    fontWeight: '500',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.2)',
+    backgroundColor: 'rgba(255,255,255,0.05)',
+  },
+  chipActive: {
+    borderColor: AppColors.primary,
+    backgroundColor: 'rgba(103, 80, 164, 0.3)',
+  },
+  chipText: {
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.8)',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  dateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  formActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    borderRadius: 12,
+    borderColor: '#9ca3af',
+  },
+  saveButton: {
+    flex: 1,
+    backgroundColor: AppColors.primary,
+    borderRadius: 12,
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  timeline: {
+    marginTop: 20,
+  },
+  timelineItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  timelineItemSelected: {
+    borderWidth: 1,
+    borderColor: AppColors.primary,
+  },
+  timelineDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 12,
+    backgroundColor: 'rgba(255,255,255,0.3)',
+  },
+  timelineDotCurrent: {
+    backgroundColor: '#93c5fd',
+  },
+  timelineInfo: {
+    flex: 1,
+  },
+  timelineRate: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  timelineDate: {
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.6)',
+    marginTop: 2,
+  },
+});
+
+export default RateHistoryCard;
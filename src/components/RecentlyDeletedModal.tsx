@@ -0,0 +1,207 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { Text, Button, ActivityIndicator } from 'react-native-paper';
+import { Ionicons } from '@expo/vector-icons';
+import { AppColors } from '../theme/colors';
+import { DeletedSession } from '../types';
+import { useSessionsContext } from '../contexts/SessionsContext';
+import {
+  loadDeletedSessions,
+  getDaysUntilPurge,
+  DELETED_RETENTION_DAYS,
+} from '../utils/deletedSessions';
+import { formatDate, formatTime } from '../utils/timeUtils';
+
+interface RecentlyDeletedModalProps {
+  visible: boolean;
+  onDismiss: () => void;
+}
+
+const RecentlyDeletedModal: React.FC<RecentlyDeletedModalProps> = ({
+  visible,
+  onDismiss,
+}) => {
+  const { restoreSession } = useSessionsContext();
+  const [entries, setEntries] = useState<DeletedSession[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    setLoading(true);
+    setEntries(await loadDeletedSessions());
+    setLoading(false);
+  }, []);
+
+  // Reload the bin every time it is opened
+  useEffect(() => {
+    if (visible) {
+      loadEntries();
+    }
+  }, [visible, loadEntries]);
+
+  const handleRestore = async (sessionId: string) => {
+    try {
+      setRestoringId(sessionId);
+      await restoreSession(sessionId);
+      setEntries((prev) =>
+        prev.filter((entry) => entry.session.id !== sessionId)
+      );
+    } catch (error) {
+      console.error('Failed to restore session:', error);
+      Alert.alert('Error', 'Failed to restore session. Please try again.');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      onRequestClose={onDismiss}
+      statusBarTranslucent={true}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <View style={styles.headerText}>
+            <Text style={styles.title}>Recently Deleted</Text>
+            <Text style={styles.subtitle}>
+              Sessions can be restored for {DELETED_RETENTION_DAYS} days
+            </Text>
+          </View>
+          <TouchableOpacity onPress={onDismiss}>
+            <Ionicons name="close" size={28} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
+
+        {loading ? (
+          <ActivityIndicator
+            size="large"
+            color={AppColors.primary}
+            style={styles.loading}
+          />
+        ) : (
+          <ScrollView
+            style={styles.list}
+            contentContainerStyle={styles.listContent}
+            showsVerticalScrollIndicator={true}>
+            {entries.length === 0 ? (
+              <Text style={styles.emptyText}>No recently deleted sessions</Text>
+            ) : (
+              entries.map((entry) => {
+                const daysLeft = getDaysUntilPurge(entry);
+                return (
+                  <View key={entry.session.id} style={styles.rowCard}>
+                    <View style={styles.rowInfo}>
+                      <Text style={styles.rowTitle}>
+                        {formatDate(entry.session.date)} ·{' '}
+                        {entry.session.hours.toFixed(2)} hrs
+                      </Text>
+                      <Text style={styles.rowDetails}>
+                        {formatTime(entry.session.clockIn)} –{' '}
+                        {formatTime(entry.session.clockOut)}
+                      </Text>
+                      <Text style={styles.rowExpiry}>
+                        Deleted permanently in {daysLeft} day
+                        {daysLeft !== 1 ? 's' : ''}
+                      </Text>
+                    </View>
+                    <Button
+                      mode="contained"
+                      onPress={() => handleRestore(entry.session.id)}
+                      style={styles.restoreButton}
+                      loading={restoringId === entry.session.id}
+                      disabled={restoringId !== null}>
+                      Restore
+                    </Button>
+                  </View>
+                );
+              })
+            )}
+          </ScrollView>
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0f172a',
+    paddingTop: 60,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+    marginBottom: 16,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.6)',
+    marginTop: 4,
+  },
+  loading: {
+    marginTop: 32,
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.6)',
+    textAlign: 'center',
+    marginTop: 32,
+  },
+  rowCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  rowDetails: {
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.8)',
+    marginTop: 2,
+  },
+  rowExpiry: {
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.5)',
+    marginTop: 4,
+  },
+  restoreButton: {
+    backgroundColor: AppColors.primary,
+    borderRadius: 12,
+  },
+});
+
+export default RecentlyDeletedModal;
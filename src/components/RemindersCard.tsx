@@ -0,0 +1,269 @@
+import React from 'react';
+import { View, StyleSheet, TouchableOpacity } from 'react-native';
+import { Text, Card, List, Switch } from 'react-native-paper';
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { AppColors } from '../theme/colors';
+import { ReminderSettings, WeekDay } from '../types';
+import { getWeekDayLabels } from '../utils/calendar';
+import { formatReminderTime } from '../utils/reminders';
+
+interface RemindersCardProps {
+  settings: ReminderSettings;
+  onChange: (changes: Partial<ReminderSettings>) => void;
+}
+
+type TimeField = 'clockInReminderTime' | 'endOfDayReminderTime';
+
+// Session lengths offered for the long session nudge
+const LONG_SESSION_HOURS = [4, 6, 8, 10, 12];
+
+// Minutes after midnight as a Date the time picker can show
+const toPickerDate = (minutes: number): Date => {
+  const date = new Date();
+  date.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+  return date;
+};
+
+const RemindersCard: React.FC<RemindersCardProps> = ({
+  settings,
+  onChange,
+}) => {
+  const handleTimeChange = (field: TimeField, time?: Date) => {
+    if (time) {
+      onChange({ [field]: time.getHours() * 60 + time.getMinutes() });
+    }
+  };
+
+  const toggleWorkDay = (day: WeekDay) => {
+    onChange({
+      workDays: settings.workDays.includes(day)
+        ? settings.workDays.filter((workDay) => workDay !== day)
+        : [...settings.workDays, day].sort((a, b) => a - b),
+    });
+  };
+
+  const renderTimePicker = (field: TimeField) => (
+    <View style={styles.timeRow}>
+      <Text style={styles.label}>At</Text>
+      <DateTimePicker
+        value={toPickerDate(settings[field])}
+        mode="time"
+        display="default"
+        onChange={(event, time) => handleTimeChange(field, time)}
+      />
+    </View>
+  );
+
+  return (
+    <Card style={styles.card}>
+      <Card.Content>
+        <View style={styles.cardHeader}>
+          <Ionicons
+            name="notifications-outline"
+            size={24}
+            color={AppColors.primary}
+          />
+          <Text style={styles.cardTitle}>Reminders</Text>
+        </View>
+        <Text style={styles.cardDescription}>
+          Get a notification when it&apos;s time to clock in, after a long
+          session, or when a work day ends with no time logged.
+        </Text>
+
+        <Text style={styles.label}>Work days</Text>
+        <View style={styles.chipRow}>
+          {getWeekDayLabels(0).map((label, day) => {
+            const isActive = settings.workDays.includes(day as WeekDay);
+            return (
+              <TouchableOpacity
+                key={label}
+                onPress={() => toggleWorkDay(day as WeekDay)}
+                style={[styles.chip, isActive && styles.chipActive]}>
+                <Text
+                  style={[styles.chipText, isActive && styles.chipTextActive]}>
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <List.Item
+          title="Clock-In Reminder"
+          description={`${formatReminderTime(settings.clockInReminderTime)} on work days you haven't clocked in`}
+          left={() => (
+            <Ionicons
+              name="alarm-outline"
+              size={20}
+              color="rgba(255,255,255,0.7)"
+            />
+          )}
+          right={() => (
+            <Switch
+              value={settings.clockInReminderEnabled}
+              onValueChange={(value) =>
+                onChange({ clockInReminderEnabled: value })
+              }
+              color={AppColors.primary}
+            />
+          )}
+          style={styles.listItem}
+          titleStyle={styles.listItemTitle}
+          descriptionStyle={styles.listItemDescription}
+        />
+        {settings.clockInReminderEnabled &&
+          renderTimePicker('clockInReminderTime')}
+
+        <List.Item
+          title="Long Session Nudge"
+          description={`After ${settings.longSessionReminderHours} hours clocked in`}
+          left={() => (
+            <Ionicons
+              name="hourglass-outline"
+              size={20}
+              color="rgba(255,255,255,0.7)"
+            />
+          )}
+          right={() => (
+            <Switch
+              value={settings.longSessionReminderEnabled}
+              onValueChange={(value) =>
+                onChange({ longSessionReminderEnabled: value })
+              }
+              color={AppColors.primary}
+            />
+          )}
+          style={styles.listItem}
+          titleStyle={styles.listItemTitle}
+          descriptionStyle={styles.listItemDescription}
+        />
+        {settings.longSessionReminderEnabled && (
+          <View style={styles.chipRow}>
+            {LONG_SESSION_HOURS.map((hours) => {
+              const isActive = settings.longSessionReminderHours === hours;
+              return (
+                <TouchableOpacity
+                  key={hours}
+                  onPress={() => onChange({ longSessionReminderHours: hours })}
+                  style={[styles.chip, isActive && styles.chipActive]}>
+                  <Text
+                    style={[
+                      styles.chipText,
+                      isActive && styles.chipTextActive,
+                    ]}>
+                    {`${hours}h`}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
+
+        <List.Item
+          title="End-of-Day Reminder"
+          description={`${formatReminderTime(settings.endOfDayReminderTime)} on work days with no time logged`}
+          left={() => (
+            <Ionicons
+              name="moon-outline"
+              size={20}
+              color="rgba(255,255,255,0.7)"
+            />
+          )}
+          right={() => (
+            <Switch
+              value={settings.endOfDayReminderEnabled}
+              onValueChange={(value) =>
+                onChange({ endOfDayReminderEnabled: value })
+              }
+              color={AppColors.primary}
+            />
+          )}
+          style={styles.listItem}
+          titleStyle={styles.listItemTitle}
+          descriptionStyle={styles.listItemDescription}
+        />
+        {settings.endOfDayReminderEnabled &&
+          renderTimePicker('endOfDayReminderTime')}
+      </Card.Content>
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    marginHorizontal: 16,
+    marginBottom: 16,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 16,
+    elevation: 4,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  cardTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginLeft: 12,
+  },
+  cardDescription: {
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.7)',
+    marginBottom: 20,
+    lineHeight: 20,
+  },
+  label: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    marginBottom: 8,
+    fontWeight: '500',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.2)',
+    backgroundColor: 'rgba(255,255,255,0.05)',
+  },
+  chipActive: {
+    borderColor: AppColors.primary,
+    backgroundColor: 'rgba(103, 80, 164, 0.3)',
+  },
+  chipText: {
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.8)',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  timeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  listItem: {
+    paddingVertical: 8,
+  },
+  listItemTitle: {
+    color: '#FFFFFF',
+    fontSize: 16,
+  },
+  listItemDescription: {
+    color: 'rgba(255,255,255,0.6)',
+    fontSize: 14,
+  },
+});
+
+export default RemindersCard;
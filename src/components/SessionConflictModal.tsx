@@ -0,0 +1,173 @@
+import React from 'react';
+import { View, StyleSheet, Modal, ScrollView } from 'react-native';
+import { Text, Button } from 'react-native-paper';
+import { Ionicons } from '@expo/vector-icons';
+import { AppColors } from '../theme/colors';
+import { ConflictResolution, SessionConflict, SessionObject } from '../types';
+import { formatDate, formatTime } from '../utils/timeUtils';
+
+interface SessionConflictModalProps {
+  visible: boolean;
+  /** Session being saved */
+  session: SessionObject | null;
+  conflicts: SessionConflict[];
+  onResolve: (resolution: ConflictResolution) => void;
+  onDismiss: () => void;
+}
+
+const RESOLUTION_OPTIONS: {
+  resolution: ConflictResolution;
+  label: string;
+  description: string;
+}[] = [
+  {
+    resolution: 'merge',
+    label: 'Merge',
+    description: 'Combine into one session covering all of them',
+  },
+  {
+    resolution: 'trim',
+    label: 'Trim',
+    description: 'Cut the overlapping time from this session',
+  },
+  {
+    resolution: 'keepBoth',
+    label: 'Keep Both',
+    description: 'Save as is; overlapping time is counted twice',
+  },
+];
+
+const SessionConflictModal: React.FC<SessionConflictModalProps> = ({
+  visible,
+  session,
+  conflicts,
+  onResolve,
+  onDismiss,
+}) => {
+  if (!visible || !session) return null;
+
+  return (
+    <Modal
+      transparent={true}
+      visible={visible}
+      animationType="fade"
+      onRequestClose={onDismiss}>
+      <View style={styles.overlay}>
+        <View style={styles.card}>
+          <View style={styles.header}>
+            <Ionicons name="warning-outline" size={24} color="#fbbf24" />
+            <Text style={styles.title}>Overlapping Sessions</Text>
+          </View>
+          <Text style={styles.subtitle}>
+            {formatTime(session.clockIn)} – {formatTime(session.clockOut)}{' '}
+            overlaps {conflicts.length} existing session
+            {conflicts.length !== 1 ? 's' : ''}
+          </Text>
+
+          <ScrollView style={styles.list}>
+            {conflicts.map((conflict) => (
+              <View key={conflict.session.id} style={styles.conflictRow}>
+                <Text style={styles.conflictTitle}>
+                  {formatDate(conflict.session.date)} ·{' '}
+                  {formatTime(conflict.session.clockIn)} –{' '}
+                  {formatTime(conflict.session.clockOut)}
+                </Text>
+                <Text style={styles.conflictDetails}>
+                  {conflict.overlapHours.toFixed(2)} hrs overlap
+                </Text>
+              </View>
+            ))}
+          </ScrollView>
+
+          {RESOLUTION_OPTIONS.map((option) => (
+            <View key={option.resolution} style={styles.option}>
+              <Button
+                mode="contained"
+                onPress={() => onResolve(option.resolution)}
+                style={styles.optionButton}>
+                {option.label}
+              </Button>
+              <Text style={styles.optionDescription}>{option.description}</Text>
+            </View>
+          ))}
+
+          <Button
+            mode="outlined"
+            onPress={onDismiss}
+            style={styles.cancelButton}
+            textColor="#fff">
+            Cancel
+          </Button>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  card: {
+    backgroundColor: '#0f172a',
+    borderRadius: 16,
+    padding: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.6)',
+    marginTop: 4,
+  },
+  list: {
+    maxHeight: 180,
+    marginVertical: 12,
+  },
+  conflictRow: {
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  conflictTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  conflictDetails: {
+    fontSize: 12,
+    color: '#fbbf24',
+    marginTop: 2,
+  },
+  option: {
+    marginBottom: 12,
+  },
+  optionButton: {
+    backgroundColor: AppColors.primary,
+    borderRadius: 12,
+  },
+  optionDescription: {
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.6)',
+    marginTop: 4,
+    textAlign: 'center',
+  },
+  cancelButton: {
+    borderRadius: 12,
+    borderColor: '#9ca3af',
+  },
+});
+
+export default SessionConflictModal;
@@ -7,13 +7,32 @@ import {
   Animated,
   PanResponder,
   Alert,
+  ScrollView,
+  TouchableOpacity,
 } from 'react-native';
-import { Text, Button, Surface } from 'react-native-paper';
+import { Text, Button, Surface, TextInput } from 'react-native-paper';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { BlurView } from 'expo-blur';
-import { SessionObject } from '../types';
-import { calculateHours } from '../utils/timeUtils';
+import { EntryType, Project, SessionObject } from '../types';
+import {
+  buildSessionTimes,
+  calculateHours,
+  clipBreaks,
+  parseLocalDate,
+} from '../utils/timeUtils';
+import { getSessionDate, getTimeZoneStamp } from '../utils/timeZone';
+import { buildSessionNotes } from '../utils/sessionFilters';
+import {
+  DEFAULT_LEAVE_POLICY,
+  ENTRY_TYPES,
+  ENTRY_TYPE_LABELS,
+  buildLeaveTimes,
+  getEntryType,
+} from '../utils/leave';
+import { loadLeavePolicy } from '../utils/leavePolicyStorage';
 import { AppColors } from '../theme/colors';
+import ProjectPicker from './ProjectPicker';
+import SessionNotesFields from './SessionNotesFields';
 
 const { height: screenHeight } = Dimensions.get('window');
 
@@ -21,24 +40,85 @@ interface SessionDialogProps {
   visible: boolean;
   onDismiss: () => void;
   onAddSession: (session: SessionObject) => void;
+  projects?: Project[];
+  /** Session to edit; the dialog opens in edit mode when set */
+  editingSession?: SessionObject | null;
+  onUpdateSession?: (session: SessionObject) => void;
+  /** Existing tags offered when tagging the session */
+  tagSuggestions?: string[];
 }
 
 const SessionDialog: React.FC<SessionDialogProps> = ({
   visible,
   onDismiss,
   onAddSession,
+  projects = [],
+  editingSession = null,
+  onUpdateSession,
+  tagSuggestions = [],
 }) => {
+  const isEditing = editingSession !== null;
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [clockInTime, setClockInTime] = useState(new Date());
   const [clockOutTime, setClockOutTime] = useState(() => {
     const now = new Date();
     return new Date(now.getTime() + 60 * 60 * 1000); // 1 hour later
   });
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [entryType, setEntryType] = useState<EntryType>('work');
+  const [fullDay, setFullDay] = useState(true);
+  const [leaveHours, setLeaveHours] = useState('');
+  const [standardDayHours, setStandardDayHours] = useState(
+    DEFAULT_LEAVE_POLICY.standardDayHours
+  );
+
+  const isLeave = entryType !== 'work';
+  const leaveAmount = fullDay ? standardDayHours : parseFloat(leaveHours);
 
   const [slideAnim] = useState(new Animated.Value(screenHeight));
   const [scaleAnim] = useState(new Animated.Value(0.85));
   const [opacityAnim] = useState(new Animated.Value(0));
 
+  // Prefill from the edited session, or start fresh for a new one
+  React.useEffect(() => {
+    if (!visible) {
+      return;
+    }
+    if (editingSession) {
+      setSelectedDate(parseLocalDate(editingSession.date));
+      setClockInTime(new Date(editingSession.clockIn));
+      setClockOutTime(new Date(editingSession.clockOut));
+      setProjectId(editingSession.projectId ?? null);
+      setNote(editingSession.note ?? '');
+      setTags(editingSession.tags ?? []);
+      setEntryType(getEntryType(editingSession));
+      setFullDay(editingSession.fullDay ?? false);
+      setLeaveHours(String(editingSession.hours));
+    } else {
+      const now = new Date();
+      setSelectedDate(now);
+      setClockInTime(now);
+      setClockOutTime(new Date(now.getTime() + 60 * 60 * 1000));
+      setProjectId(null);
+      setNote('');
+      setTags([]);
+      setEntryType('work');
+      setFullDay(true);
+      setLeaveHours('');
+    }
+  }, [visible, editingSession]);
+
+  // A full day of leave counts as the policy's standard day
+  React.useEffect(() => {
+    if (visible) {
+      loadLeavePolicy().then((policy) =>
+        setStandardDayHours(policy.standardDayHours)
+      );
+    }
+  }, [visible]);
+
   React.useEffect(() => {
     if (visible) {
       // Pop-up animation with scale and slide
@@ -161,27 +241,14 @@ const SessionDialog: React.FC<SessionDialogProps> = ({
   });
 
   const validateTimes = useCallback(() => {
-    const clockInDateTime = new Date(selectedDate);
-    clockInDateTime.setHours(
-      clockInTime.getHours(),
-      clockInTime.getMinutes(),
-      0,
-      0
-    );
+    const { clockIn: clockInDateTime, clockOut: clockOutDateTime } =
+      buildSessionTimes(selectedDate, clockInTime, clockOutTime);
 
-    const clockOutDateTime = new Date(selectedDate);
-    clockOutDateTime.setHours(
-      clockOutTime.getHours(),
-      clockOutTime.getMinutes(),
-      0,
-      0
-    );
-
-    // Check if clock out is after clock in
-    if (clockOutDateTime <= clockInDateTime) {
+    // Equal times would make an empty session
+    if (clockOutDateTime.getTime() === clockInDateTime.getTime()) {
       Alert.alert(
         'Invalid Time Range',
-        'Clock out time must be after clock in time.',
+        'Clock out time must be different from clock in time.',
         [{ text: 'OK' }]
       );
       return false;
@@ -212,59 +279,139 @@ const SessionDialog: React.FC<SessionDialogProps> = ({
     return true;
   }, [selectedDate, clockInTime, clockOutTime]);
 
+  // Leave can be booked ahead, so only its length is checked
+  const validateLeave = useCallback(() => {
+    if (!(leaveAmount > 0 && leaveAmount <= 24)) {
+      Alert.alert(
+        'Invalid Hours',
+        'Leave must be more than 0 and at most 24 hours.',
+        [{ text: 'OK' }]
+      );
+      return false;
+    }
+    return true;
+  }, [leaveAmount]);
+
+  const buildLeaveSession = useCallback((): SessionObject => {
+    const { clockIn, clockOut } = buildLeaveTimes(selectedDate, leaveAmount);
+    const clockInZone = getTimeZoneStamp(new Date(clockIn));
+
+    return {
+      id: editingSession?.id ?? `manual-session-${Date.now()}`,
+      date: getSessionDate(new Date(clockIn), clockInZone.utcOffset),
+      clockIn,
+      clockOut,
+      hours: Math.round(leaveAmount * 100) / 100,
+      entryType,
+      ...(fullDay ? { fullDay } : {}),
+      ...(projectId ? { projectId } : {}),
+      ...clockInZone,
+      ...buildSessionNotes({ note, tags }),
+      // Changing the entry type doesn't change whether it was billed
+      ...(editingSession?.invoiceId
+        ? { invoiceId: editingSession.invoiceId }
+        : {}),
+      ...(editingSession?.billingStatus
+        ? { billingStatus: editingSession.billingStatus }
+        : {}),
+    };
+  }, [
+    selectedDate,
+    leaveAmount,
+    entryType,
+    fullDay,
+    projectId,
+    note,
+    tags,
+    editingSession,
+  ]);
+
   const handleSubmit = useCallback(() => {
+    if (isLeave) {
+      if (!validateLeave()) {
+        return;
+      }
+      const session = buildLeaveSession();
+      if (editingSession && onUpdateSession) {
+        onUpdateSession(session);
+      } else {
+        onAddSession(session);
+      }
+      onDismiss();
+      return;
+    }
+
     if (!validateTimes()) {
       return;
     }
 
-    // Create session object
-    const clockInDateTime = new Date(selectedDate);
-    clockInDateTime.setHours(
-      clockInTime.getHours(),
-      clockInTime.getMinutes(),
-      0,
-      0
-    );
+    // Create session object, attributed to the day it started
+    const { clockIn: clockInDateTime, clockOut: clockOutDateTime } =
+      buildSessionTimes(selectedDate, clockInTime, clockOutTime);
 
-    const clockOutDateTime = new Date(selectedDate);
-    clockOutDateTime.setHours(
-      clockOutTime.getHours(),
-      clockOutTime.getMinutes(),
-      0,
-      0
-    );
+    const breaks = editingSession?.breaks
+      ? clipBreaks(editingSession.breaks, clockInDateTime, clockOutDateTime)
+      : [];
 
     const hours = calculateHours(
       clockInDateTime.toISOString(),
-      clockOutDateTime.toISOString()
+      clockOutDateTime.toISOString(),
+      breaks
     );
 
+    // Times are picked in the device's time zone
+    const clockInZone = getTimeZoneStamp(clockInDateTime);
+
     const session: SessionObject = {
-      id: `manual-session-${Date.now()}`,
-      date:
-        selectedDate.getFullYear() +
-        '-' +
-        String(selectedDate.getMonth() + 1).padStart(2, '0') +
-        '-' +
-        String(selectedDate.getDate()).padStart(2, '0'),
+      id: editingSession?.id ?? `manual-session-${Date.now()}`,
+      date: getSessionDate(clockInDateTime, clockInZone.utcOffset),
       clockIn: clockInDateTime.toISOString(),
       clockOut: clockOutDateTime.toISOString(),
       hours,
+      ...(projectId ? { projectId } : {}),
+      ...(breaks.length > 0 ? { breaks } : {}),
+      ...clockInZone,
+      ...buildSessionNotes({ note, tags }),
+      // Editing times doesn't change whether the session was billed
+      ...(editingSession?.invoiceId
+        ? { invoiceId: editingSession.invoiceId }
+        : {}),
+      ...(editingSession?.billingStatus
+        ? { billingStatus: editingSession.billingStatus }
+        : {}),
     };
 
-    onAddSession(session);
+    if (editingSession && onUpdateSession) {
+      onUpdateSession(session);
+    } else {
+      onAddSession(session);
+    }
     onDismiss();
   }, [
     selectedDate,
     clockInTime,
     clockOutTime,
+    projectId,
+    note,
+    tags,
+    editingSession,
     onAddSession,
+    onUpdateSession,
     onDismiss,
     validateTimes,
+    isLeave,
+    validateLeave,
+    buildLeaveSession,
   ]);
 
   if (!visible) return null;
 
+  const { endsNextDay } = buildSessionTimes(
+    selectedDate,
+    clockInTime,
+    clockOutTime
+  );
+
   return (
     <Modal
       transparent={true}
@@ -285,85 +432,189 @@ const SessionDialog: React.FC<SessionDialogProps> = ({
               <View style={styles.handle} />
             </View>
 
-            <Text style={styles.title}>Add Manual Session</Text>
-
-            {/* Date Picker */}
-            <View style={styles.row}>
-              <Text style={styles.label}>Date</Text>
-              <View style={styles.pickerContainer}>
-                <DateTimePicker
-                  value={selectedDate}
-                  mode="date"
-                  display="default"
-                  onChange={(event, date) => date && setSelectedDate(date)}
-                  maximumDate={new Date()}
-                />
-              </View>
-            </View>
-
-            {/* Time Pickers Row */}
-            <View style={styles.timeRow}>
-              <View style={styles.timeColumn}>
-                <Text style={styles.label}>Clock In</Text>
+            <Text style={styles.title}>
+              {isEditing ? 'Edit Session' : 'Add Manual Session'}
+            </Text>
+
+            <ScrollView
+              style={styles.form}
+              keyboardShouldPersistTaps="handled"
+              showsVerticalScrollIndicator={false}>
+              {/* Date Picker */}
+              <View style={styles.row}>
+                <Text style={styles.label}>Date</Text>
                 <View style={styles.pickerContainer}>
                   <DateTimePicker
-                    value={clockInTime}
-                    mode="time"
+                    value={selectedDate}
+                    mode="date"
                     display="default"
-                    onChange={(event, time) => time && setClockInTime(time)}
+                    onChange={(event, date) => date && setSelectedDate(date)}
+                    maximumDate={isLeave ? undefined : new Date()}
                   />
                 </View>
               </View>
 
-              <View style={styles.timeColumn}>
-                <Text style={styles.label}>Clock Out</Text>
-                <View style={styles.pickerContainer}>
-                  <DateTimePicker
-                    value={clockOutTime}
-                    mode="time"
-                    display="default"
-                    onChange={(event, time) => time && setClockOutTime(time)}
+              {/* Entry Type */}
+              <View style={styles.chipRow}>
+                {ENTRY_TYPES.map((type) => {
+                  const isActive = entryType === type;
+                  return (
+                    <TouchableOpacity
+                      key={type}
+                      onPress={() => setEntryType(type)}
+                      style={[styles.chip, isActive && styles.chipActive]}>
+                      <Text
+                        style={[
+                          styles.chipText,
+                          isActive && styles.chipTextActive,
+                        ]}>
+                        {ENTRY_TYPE_LABELS[type]}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+
+              {/* Leave Amount */}
+              {isLeave && (
+                <View style={styles.leaveRow}>
+                  <View style={styles.chipRow}>
+                    {[true, false].map((isFullDay) => {
+                      const isActive = fullDay === isFullDay;
+                      return (
+                        <TouchableOpacity
+                          key={String(isFullDay)}
+                          onPress={() => setFullDay(isFullDay)}
+                          style={[styles.chip, isActive && styles.chipActive]}>
+                          <Text
+                            style={[
+                              styles.chipText,
+                              isActive && styles.chipTextActive,
+                            ]}>
+                            {isFullDay
+                              ? `Full day (${standardDayHours}h)`
+                              : 'Hours'}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                  {!fullDay && (
+                    <TextInput
+                      mode="outlined"
+                      label="Hours"
+                      value={leaveHours}
+                      onChangeText={setLeaveHours}
+                      keyboardType="decimal-pad"
+                      style={styles.hoursInput}
+                      outlineColor="rgba(255,255,255,0.2)"
+                      activeOutlineColor={AppColors.primary}
+                      textColor="#FFFFFF"
+                    />
+                  )}
+                </View>
+              )}
+
+              {/* Time Pickers Row */}
+              {!isLeave && (
+                <View style={styles.timeRow}>
+                  <View style={styles.timeColumn}>
+                    <Text style={styles.label}>Clock In</Text>
+                    <View style={styles.pickerContainer}>
+                      <DateTimePicker
+                        value={clockInTime}
+                        mode="time"
+                        display="default"
+                        onChange={(event, time) => time && setClockInTime(time)}
+                      />
+                    </View>
+                  </View>
+
+                  <View style={styles.timeColumn}>
+                    <Text style={styles.label}>Clock Out</Text>
+                    <View style={styles.pickerContainer}>
+                      <DateTimePicker
+                        value={clockOutTime}
+                        mode="time"
+                        display="default"
+                        onChange={(event, time) =>
+                          time && setClockOutTime(time)
+                        }
+                      />
+                    </View>
+                  </View>
+                </View>
+              )}
+
+              {/* Project Picker */}
+              {!isLeave && projects.length > 0 && (
+                <View style={styles.projectRow}>
+                  <Text style={styles.label}>Project</Text>
+                  <ProjectPicker
+                    projects={projects}
+                    selectedProjectId={projectId}
+                    onSelect={setProjectId}
                   />
                 </View>
+              )}
+
+              {/* Note and Tags */}
+              <SessionNotesFields
+                note={note}
+                tags={tags}
+                onChangeNote={setNote}
+                onChangeTags={setTags}
+                suggestions={tagSuggestions}
+              />
+
+              {/* Hours Preview */}
+              <View style={styles.previewRow}>
+                <Text style={styles.hoursText}>
+                  Total:{' '}
+                  {(() => {
+                    if (isLeave) {
+                      return leaveAmount > 0 ? leaveAmount.toFixed(2) : '0.00';
+                    }
+
+                    const {
+                      clockIn: clockInDateTime,
+                      clockOut: clockOutDateTime,
+                    } = buildSessionTimes(
+                      selectedDate,
+                      clockInTime,
+                      clockOutTime
+                    );
+
+                    const hours = calculateHours(
+                      clockInDateTime.toISOString(),
+                      clockOutDateTime.toISOString(),
+                      editingSession?.breaks
+                        ? clipBreaks(
+                            editingSession.breaks,
+                            clockInDateTime,
+                            clockOutDateTime
+                          )
+                        : []
+                    );
+
+                    // Show warning for invalid times
+                    if (
+                      clockOutDateTime.getTime() === clockInDateTime.getTime()
+                    ) {
+                      return 'Invalid time range';
+                    }
+
+                    return hours.toFixed(2);
+                  })()}{' '}
+                  hours
+                </Text>
+                {!isLeave && endsNextDay && (
+                  <Text style={styles.nextDayText}>
+                    Ends the next day · counted on the start date
+                  </Text>
+                )}
               </View>
-            </View>
-
-            {/* Hours Preview */}
-            <View style={styles.previewRow}>
-              <Text style={styles.hoursText}>
-                Total:{' '}
-                {(() => {
-                  const clockInDateTime = new Date(selectedDate);
-                  clockInDateTime.setHours(
-                    clockInTime.getHours(),
-                    clockInTime.getMinutes(),
-                    0,
-                    0
-                  );
-
-                  const clockOutDateTime = new Date(selectedDate);
-                  clockOutDateTime.setHours(
-                    clockOutTime.getHours(),
-                    clockOutTime.getMinutes(),
-                    0,
-                    0
-                  );
-
-                  const hours = calculateHours(
-                    clockInDateTime.toISOString(),
-                    clockOutDateTime.toISOString()
-                  );
-
-                  // Show warning for invalid times
-                  if (clockOutDateTime <= clockInDateTime) {
-                    return 'Invalid time range';
-                  }
-
-                  return hours.toFixed(2);
-                })()}{' '}
-                hours
-              </Text>
-            </View>
+            </ScrollView>
 
             {/* Action Buttons */}
             <View style={styles.actions}>
@@ -378,7 +629,7 @@ const SessionDialog: React.FC<SessionDialogProps> = ({
                 mode="contained"
                 onPress={handleSubmit}
                 style={styles.submitButton}>
-                Add Session
+                {isEditing ? 'Save Changes' : 'Add Session'}
               </Button>
             </View>
           </BlurView>
@@ -398,6 +649,7 @@ const styles = StyleSheet.create({
     borderTopLeftRadius: 24,
     borderTopRightRadius: 24,
     minHeight: 400,
+    maxHeight: '90%',
     elevation: 16,
     shadowColor: '#000',
     shadowOffset: { width: 0, height: -4 },
@@ -425,6 +677,9 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  form: {
+    flexGrow: 0,
+  },
   title: {
     fontSize: 20,
     fontWeight: 'bold',
@@ -451,12 +706,51 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     paddingVertical: 4,
   },
+  projectRow: {
+    alignItems: 'center',
+    marginBottom: 16,
+    marginHorizontal: -24,
+  },
   label: {
     fontSize: 16,
     fontWeight: '600',
     color: '#e5e7eb',
     marginBottom: 4,
   },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.2)',
+    backgroundColor: 'rgba(255,255,255,0.05)',
+  },
+  chipActive: {
+    borderColor: AppColors.primary,
+    backgroundColor: 'rgba(103, 80, 164, 0.3)',
+  },
+  chipText: {
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.8)',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  leaveRow: {
+    marginBottom: 8,
+  },
+  hoursInput: {
+    marginBottom: 8,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+  },
   pickerContainer: {
     borderRadius: 12,
     paddingVertical: 4,
@@ -473,6 +767,11 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#93c5fd',
   },
+  nextDayText: {
+    fontSize: 13,
+    color: 'rgba(147, 197, 253, 0.8)',
+    marginTop: 4,
+  },
   actions: {
     flexDirection: 'row',
     gap: 12,
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, TouchableOpacity } from 'react-native';
+import { Text, TextInput } from 'react-native-paper';
+import { Ionicons } from '@expo/vector-icons';
+import { AppColors } from '../theme/colors';
+import { parseTags } from '../utils/sessionFilters';
+
+interface SessionNotesFieldsProps {
+  note: string;
+  tags: string[];
+  onChangeNote: (note: string) => void;
+  onChangeTags: (tags: string[]) => void;
+  /** Tags used on other sessions, offered for one-tap reuse */
+  suggestions?: string[];
+  disabled?: boolean;
+}
+
+// Number of existing tags offered as suggestions
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * Note and tag inputs shared by the session dialog and clock-out
+ */
+const SessionNotesFields: React.FC<SessionNotesFieldsProps> = ({
+  note,
+  tags,
+  onChangeNote,
+  onChangeTags,
+  suggestions = [],
+  disabled,
+}) => {
+  const [tagInput, setTagInput] = useState('');
+
+  const addTags = (text: string) => {
+    const added = parseTags(text).filter((tag) => !tags.includes(tag));
+    if (added.length > 0) {
+      onChangeTags([...tags, ...added]);
+    }
+    setTagInput('');
+  };
+
+  // Typing a comma commits the tags entered so far
+  const handleTagInput = (text: string) => {
+    if (text.includes(',')) {
+      addTags(text);
+    } else {
+      setTagInput(text);
+    }
+  };
+
+  const openSuggestions = suggestions
+    .filter((tag) => !tags.includes(tag))
+    .slice(0, MAX_SUGGESTIONS);
+
+  return (
+    <View style={styles.container}>
+      <TextInput
+        mode="outlined"
+        label="Note"
+        value={note}
+        onChangeText={onChangeNote}
+        multiline
+        numberOfLines={2}
+        style={styles.input}
+        outlineColor="rgba(255,255,255,0.2)"
+        activeOutlineColor={AppColors.primary}
+        textColor="#FFFFFF"
+        disabled={disabled}
+      />
+      <TextInput
+        mode="outlined"
+        label="Add tags (comma separated)"
+        value={tagInput}
+        onChangeText={handleTagInput}
+        onSubmitEditing={() => addTags(tagInput)}
+        onBlur={() => addTags(tagInput)}
+        autoCapitalize="none"
+        style={styles.input}
+        outlineColor="rgba(255,255,255,0.2)"
+        activeOutlineColor={AppColors.primary}
+        textColor="#FFFFFF"
+        disabled={disabled}
+        left={<TextInput.Icon icon="tag-outline" />}
+      />
+
+      {(tags.length > 0 || openSuggestions.length > 0) && (
+        <View style={styles.chipRow}>
+          {tags.map((tag) => (
+            <TouchableOpacity
+              key={tag}
+              onPress={() => onChangeTags(tags.filter((t) => t !== tag))}
+              disabled={disabled}
+              style={[styles.chip, styles.chipActive]}
+              accessibilityLabel={`Remove tag ${tag}`}>
+              <Text style={[styles.chipText, styles.chipTextActive]}>
+                #{tag}
+              </Text>
+              <Ionicons name="close" size={12} color="#FFFFFF" />
+            </TouchableOpacity>
+          ))}
+          {openSuggestions.map((tag) => (
+            <TouchableOpacity
+              key={tag}
+              onPress={() => onChangeTags([...tags, tag])}
+              disabled={disabled}
+              style={styles.chip}
+              accessibilityLabel={`Add tag ${tag}`}>
+              <Text style={styles.chipText}>#{tag}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  input: {
+    marginBottom: 8,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.2)',
+    backgroundColor: 'rgba(255,255,255,0.05)',
+  },
+  chipActive: {
+    borderColor: AppColors.primary,
+    backgroundColor: 'rgba(103, 80, 164, 0.3)',
+  },
+  chipText: {
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.8)',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+});
+
+export default SessionNotesFields;
@@ -17,10 +17,40 @@ import {
   ActivityIndicator,
   Card,
   Divider,
+  Snackbar,
+  Chip,
+  Button,
 } from 'react-native-paper';
 import { AppColors } from '../theme/colors';
-import { FilterType, SessionObject } from '../types';
+import {
+  BillingStatus,
+  ConflictResolution,
+  DateRange,
+  FilterType,
+  Project,
+  SessionConflict,
+  SessionObject,
+} from '../types';
 import FilterControls from './FilterControls';
+import SessionDialog from './SessionDialog';
+import RecentlyDeletedModal from './RecentlyDeletedModal';
+import SessionConflictModal from './SessionConflictModal';
+import DateRangePickerModal from './DateRangePickerModal';
+import {
+  BILLING_FILTER_OPTIONS,
+  filterSessionsByBillingStatus,
+  filterSessionsByTag,
+  formatDateRangeLabel,
+  getTagTotals,
+} from '../utils/sessionFilters';
+import { BILLING_STATUS_LABELS, getBillingStatus } from '../utils/billing';
+import {
+  ENTRY_TYPE_LABELS,
+  formatLeaveTotals,
+  getEntryType,
+  isWorkEntry,
+  sumHoursByEntryType,
+} from '../utils/leave';
 import {
   getLastWeekDateRange,
   getLastMonthDateRange,
@@ -28,8 +58,12 @@ import {
   formatDate,
   formatTime,
   getThisWeekDateRange,
+  calculateHours,
+  calculateBreakHours,
 } from '../utils/timeUtils';
 import { useSessionsContext } from '../contexts/SessionsContext';
+import { useProjectsContext } from '../contexts/ProjectsContext';
+import { useCalendarContext } from '../contexts/CalendarContext';
 import {
   Gesture,
   GestureDetector,
@@ -42,8 +76,13 @@ import Reanimated, {
   interpolate,
 } from 'react-native-reanimated';
 
-const getFilterDisplayName = (filter: FilterType): string => {
+const getFilterDisplayName = (
+  filter: FilterType,
+  customRange?: DateRange | null
+): string => {
   switch (filter) {
+    case 'custom':
+      return customRange ? formatDateRangeLabel(customRange) : 'Custom Range';
     case 'thisWeek':
       return 'This Week';
     case 'lastWeek':
@@ -83,6 +122,12 @@ const getEmptyStateMessage = (filter: FilterType, hasAnySessions: boolean) => {
         subtitle: 'Try selecting a different time period or check back later',
         icon: 'calendar-month' as const,
       };
+    case 'custom':
+      return {
+        title: 'No sessions found in this range',
+        subtitle: 'Try selecting a different date range',
+        icon: 'calendar-range' as const,
+      };
     case 'all':
     default:
       return {
@@ -93,14 +138,182 @@ const getEmptyStateMessage = (filter: FilterType, hasAnySessions: boolean) => {
   }
 };
 
+/**
+ * Gross vs. net summary for sessions that include breaks
+ */
+const BreakSummary: React.FC<{ session: SessionObject }> = ({ session }) => {
+  if (!session.breaks || session.breaks.length === 0) {
+    return null;
+  }
+
+  const grossHours = calculateHours(session.clockIn, session.clockOut);
+  const breakHours = calculateBreakHours(
+    session.breaks,
+    session.clockIn,
+    session.clockOut
+  );
+
+  return (
+    <View style={styles.breakRow}>
+      <Icon
+        source="coffee-outline"
+        size={16}
+        color={AppColors.onSurfaceVariant}
+      />
+      <Text variant="bodySmall" style={styles.breakText}>
+        Gross {grossHours.toFixed(2)} hrs · Breaks {breakHours.toFixed(2)} hrs ·
+        Net {session.hours.toFixed(2)} hrs
+      </Text>
+    </View>
+  );
+};
+
+/**
+ * Badge for sessions that have been billed or paid
+ */
+const BillingBadge: React.FC<{ session: SessionObject }> = ({ session }) => {
+  const status = getBillingStatus(session);
+  if (status === 'unbilled') {
+    return null;
+  }
+
+  return (
+    <View
+      style={[
+        styles.billingBadge,
+        status === 'paid' && styles.billingBadgePaid,
+      ]}>
+      <Icon
+        source={status === 'paid' ? 'check-circle' : 'receipt'}
+        size={14}
+        color={status === 'paid' ? '#15803d' : AppColors.primary}
+      />
+      <Text
+        variant="labelSmall"
+        style={[
+          styles.billingBadgeText,
+          status === 'paid' && styles.billingBadgeTextPaid,
+        ]}>
+        {BILLING_STATUS_LABELS[status]}
+      </Text>
+    </View>
+  );
+};
+
+/**
+ * Badge naming the kind of leave; worked time has none
+ */
+const EntryTypeBadge: React.FC<{ session: SessionObject }> = ({ session }) => {
+  const entryType = getEntryType(session);
+  if (entryType === 'work') {
+    return null;
+  }
+
+  return (
+    <View style={[styles.billingBadge, styles.leaveBadge]}>
+      <Icon source="airplane" size={14} color="#b45309" />
+      <Text
+        variant="labelSmall"
+        style={[styles.billingBadgeText, styles.leaveBadgeText]}>
+        {ENTRY_TYPE_LABELS[entryType]}
+      </Text>
+    </View>
+  );
+};
+
+/**
+ * Clock-in and clock-out for worked time. Leave has no real times, so
+ * its length is shown instead.
+ */
+const SessionTimes: React.FC<{ session: SessionObject }> = ({ session }) => {
+  if (!isWorkEntry(session)) {
+    return (
+      <View style={styles.breakRow}>
+        <Icon
+          source="calendar-check"
+          size={16}
+          color={AppColors.onSurfaceVariant}
+        />
+        <Text variant="bodySmall" style={styles.breakText}>
+          {session.fullDay
+            ? 'Full day'
+            : `${session.hours.toFixed(2)} hrs of leave`}
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.timeRow}>
+      <View style={styles.timeItem}>
+        <Icon source="login" size={16} color={AppColors.primary} />
+        <Text variant="bodyMedium" style={styles.timeLabel}>
+          In:
+        </Text>
+        <Text variant="bodyMedium" style={styles.timeValue}>
+          {formatTime(session.clockIn)}
+        </Text>
+      </View>
+      <View style={styles.timeItem}>
+        <Icon source="logout" size={16} color={AppColors.error} />
+        <Text variant="bodyMedium" style={styles.timeLabel}>
+          Out:
+        </Text>
+        <Text variant="bodyMedium" style={styles.timeValue}>
+          {formatTime(session.clockOut)}
+        </Text>
+      </View>
+    </View>
+  );
+};
+
+/**
+ * Note and tags recorded for a session
+ */
+const SessionNotesSummary: React.FC<{ session: SessionObject }> = ({
+  session,
+}) => {
+  if (!session.note && (!session.tags || session.tags.length === 0)) {
+    return null;
+  }
+
+  return (
+    <View style={styles.notesRow}>
+      {session.note && (
+        <Text variant="bodySmall" style={styles.noteText} numberOfLines={2}>
+          {session.note}
+        </Text>
+      )}
+      {session.tags && session.tags.length > 0 && (
+        <View style={styles.tagRow}>
+          {session.tags.map((tag) => (
+            <Text key={tag} variant="labelSmall" style={styles.tagText}>
+              #{tag}
+            </Text>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
 // Swipeable Session Item Component
 interface SwipeableSessionItemProps {
   item: SessionObject;
+  project?: Project;
+  /** Whether the item is picked for a bulk action */
+  selected?: boolean;
+  onPress: (session: SessionObject) => void;
+  onLongPress?: (session: SessionObject) => void;
   onDelete: (sessionId: string) => void;
 }
 
 const SwipeableSessionItem: React.FC<SwipeableSessionItemProps> = ({
   item,
+  project,
+  selected = false,
+  onPress,
+  onLongPress,
   onDelete,
 }) => {
   const translateX = useSharedValue(0);
@@ -211,14 +424,24 @@ const SwipeableSessionItem: React.FC<SwipeableSessionItemProps> = ({
       {/* Session Card */}
       <GestureDetector gesture={panGesture}>
         <Reanimated.View style={[cardAnimatedStyle]}>
-          <Card style={styles.sessionCard} mode="elevated">
+          <Card
+            style={[styles.sessionCard, selected && styles.sessionCardSelected]}
+            mode="elevated"
+            onPress={() => onPress(item)}
+            onLongPress={onLongPress ? () => onLongPress(item) : undefined}>
             <Card.Content>
               <View style={styles.sessionHeader}>
                 <View style={styles.dateContainer}>
-                  <Icon source="calendar" size={20} color={AppColors.primary} />
+                  <Icon
+                    source={selected ? 'checkbox-marked-circle' : 'calendar'}
+                    size={20}
+                    color={AppColors.primary}
+                  />
                   <Text variant="titleMedium" style={styles.dateText}>
                     {formatDate(item.date)}
                   </Text>
+                  <EntryTypeBadge session={item} />
+                  <BillingBadge session={item} />
                 </View>
                 <Surface style={styles.hoursChip} elevation={1}>
                   <Text variant="titleMedium" style={styles.hoursText}>
@@ -227,26 +450,24 @@ const SwipeableSessionItem: React.FC<SwipeableSessionItemProps> = ({
                 </Surface>
               </View>
               <Divider style={styles.itemDivider} />
-              <View style={styles.timeRow}>
-                <View style={styles.timeItem}>
-                  <Icon source="login" size={16} color={AppColors.primary} />
-                  <Text variant="bodyMedium" style={styles.timeLabel}>
-                    In:
-                  </Text>
-                  <Text variant="bodyMedium" style={styles.timeValue}>
-                    {formatTime(item.clockIn)}
-                  </Text>
-                </View>
-                <View style={styles.timeItem}>
-                  <Icon source="logout" size={16} color={AppColors.error} />
-                  <Text variant="bodyMedium" style={styles.timeLabel}>
-                    Out:
-                  </Text>
-                  <Text variant="bodyMedium" style={styles.timeValue}>
-                    {formatTime(item.clockOut)}
+              <SessionTimes session={item} />
+              <BreakSummary session={item} />
+              {project && (
+                <View style={styles.projectRow}>
+                  <View
+                    style={[
+                      styles.projectDot,
+                      { backgroundColor: project.color },
+                    ]}
+                  />
+                  <Text variant="bodySmall" style={styles.projectText}>
+                    {project.client
+                      ? `${project.name} · ${project.client}`
+                      : project.name}
                   </Text>
                 </View>
-              </View>
+              )}
+              <SessionNotesSummary session={item} />
             </Card.Content>
           </Card>
         </Reanimated.View>
@@ -256,21 +477,47 @@ const SwipeableSessionItem: React.FC<SwipeableSessionItemProps> = ({
 };
 
 const SessionsHistoryScreen: React.FC = () => {
-  const { sessions, loading, refreshSessions, deleteSession } =
-    useSessionsContext();
+  const {
+    sessions,
+    loading,
+    updateSession,
+    deleteSession,
+    restoreSession,
+    setBillingStatus,
+  } = useSessionsContext();
+  const { projects, getProjectById } = useProjectsContext();
+  const { preferences } = useCalendarContext();
 
   // State management
   const [activeFilter, setActiveFilter] = useState<FilterType>('all');
+  const [customRange, setCustomRange] = useState<DateRange | null>(null);
+  const [billingFilter, setBillingFilter] = useState<BillingStatus | 'all'>(
+    'all'
+  );
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  // Ids picked for a bulk billing action; null when not selecting
+  const [selectedIds, setSelectedIds] = useState<Set<string> | null>(null);
+  const [showRangePicker, setShowRangePicker] = useState(false);
   const [screenData, setScreenData] = useState(Dimensions.get('window'));
   const [contentAnimation] = useState(new Animated.Value(0));
   const [isFullScreen, setIsFullScreen] = useState(false);
+  const [editingSession, setEditingSession] = useState<SessionObject | null>(
+    null
+  );
+  const [undoSessionId, setUndoSessionId] = useState<string | null>(null);
+  const [showRecentlyDeleted, setShowRecentlyDeleted] = useState(false);
+  const [pendingConflict, setPendingConflict] = useState<{
+    session: SessionObject;
+    conflicts: SessionConflict[];
+  } | null>(null);
 
   // Event handlers
   const handleDeleteSession = useCallback(
     async (sessionId: string) => {
       try {
         await deleteSession(sessionId);
-      } catch (error) {
+        setUndoSessionId(sessionId);
+      } catch {
         Alert.alert('Error', 'Failed to delete session. Please try again.', [
           { text: 'OK' },
         ]);
@@ -279,14 +526,98 @@ const SessionsHistoryScreen: React.FC = () => {
     [deleteSession]
   );
 
+  const handleUndoDelete = useCallback(async () => {
+    if (!undoSessionId) {
+      return;
+    }
+    setUndoSessionId(null);
+    try {
+      await restoreSession(undoSessionId);
+    } catch {
+      Alert.alert('Error', 'Failed to restore session. Please try again.', [
+        { text: 'OK' },
+      ]);
+    }
+  }, [undoSessionId, restoreSession]);
+
+  const handleUpdateSession = useCallback(
+    async (session: SessionObject, resolution?: ConflictResolution) => {
+      try {
+        const result = await updateSession(session, resolution);
+        if (!resolution && result.conflicts.length > 0) {
+          setPendingConflict({ session, conflicts: result.conflicts });
+        }
+      } catch {
+        Alert.alert('Error', 'Failed to update session. Please try again.', [
+          { text: 'OK' },
+        ]);
+      }
+    },
+    [updateSession]
+  );
+
+  const handleConflictResolve = useCallback(
+    (resolution: ConflictResolution) => {
+      if (pendingConflict) {
+        setPendingConflict(null);
+        handleUpdateSession(pendingConflict.session, resolution);
+      }
+    },
+    [pendingConflict, handleUpdateSession]
+  );
+
+  const toggleSelected = useCallback((session: SessionObject) => {
+    setSelectedIds((current) => {
+      const next = new Set(current ?? []);
+      if (next.has(session.id)) {
+        next.delete(session.id);
+      } else {
+        next.add(session.id);
+      }
+      return next;
+    });
+  }, []);
+
+  const handleMarkSelected = useCallback(
+    async (status: BillingStatus) => {
+      if (!selectedIds || selectedIds.size === 0) {
+        return;
+      }
+      try {
+        await setBillingStatus(Array.from(selectedIds), status);
+        setSelectedIds(null);
+      } catch {
+        Alert.alert('Error', 'Failed to update sessions. Please try again.', [
+          { text: 'OK' },
+        ]);
+      }
+    },
+    [selectedIds, setBillingStatus]
+  );
+
+  const handleEditDismiss = useCallback(() => {
+    setEditingSession(null);
+  }, []);
+
   const toggleFullScreen = useCallback(() => {
     setIsFullScreen(!isFullScreen);
   }, [isFullScreen]);
 
   const handleFilterChange = useCallback((filter: FilterType) => {
+    // The custom filter applies once a range is picked
+    if (filter === 'custom') {
+      setShowRangePicker(true);
+      return;
+    }
     setActiveFilter(filter);
   }, []);
 
+  const handleRangeApply = useCallback((range: DateRange) => {
+    setCustomRange(range);
+    setActiveFilter('custom');
+    setShowRangePicker(false);
+  }, []);
+
   // Effects
   React.useEffect(() => {
     const subscription = Dimensions.addEventListener('change', ({ window }) => {
@@ -304,18 +635,34 @@ const SessionsHistoryScreen: React.FC = () => {
   }, [contentAnimation]);
 
   // Computed values
+  const { weekStartsOn } = preferences;
   const dateRanges = useMemo(
     () => ({
-      lastWeek: getLastWeekDateRange(),
+      lastWeek: getLastWeekDateRange(weekStartsOn),
       lastMonth: getLastMonthDateRange(),
-      thisWeek: getThisWeekDateRange(),
+      thisWeek: getThisWeekDateRange(weekStartsOn),
     }),
-    []
+    [weekStartsOn]
+  );
+
+  const billingSessions = useMemo(
+    () =>
+      filterSessionsByTag(
+        filterSessionsByBillingStatus(sessions, billingFilter),
+        tagFilter
+      ),
+    [sessions, billingFilter, tagFilter]
+  );
+
+  // Every tag in use, so the tag filter stays available while filtering
+  const allTags = useMemo(
+    () => getTagTotals(sessions).map(({ tag }) => tag),
+    [sessions]
   );
 
   const filteredSessions = useMemo(() => {
     if (activeFilter === 'all') {
-      return [...sessions].sort(
+      return [...billingSessions].sort(
         (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
       );
     }
@@ -326,13 +673,31 @@ const SessionsHistoryScreen: React.FC = () => {
       dateRange = dateRanges.lastMonth;
     } else if (activeFilter === 'thisWeek') {
       dateRange = dateRanges.thisWeek;
+    } else if (activeFilter === 'custom' && customRange) {
+      dateRange = customRange;
     }
     if (!dateRange) return [];
     const { startDate, endDate } = dateRange;
-    return sessions
+    return billingSessions
       .filter((session) => isDateInRange(session.date, startDate, endDate))
       .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-  }, [sessions, activeFilter, dateRanges]);
+  }, [billingSessions, activeFilter, dateRanges, customRange]);
+
+  // Hours per tag across the sessions currently listed
+  const tagHours = useMemo(
+    () =>
+      new Map(
+        getTagTotals(filteredSessions).map(({ tag, hours }) => [tag, hours])
+      ),
+    [filteredSessions]
+  );
+
+  // Worked hours and each kind of leave, totalled separately
+  const hoursByType = useMemo(
+    () => sumHoursByEntryType(filteredSessions),
+    [filteredSessions]
+  );
+  const leaveSummary = formatLeaveTotals(hoursByType);
 
   const isSmallScreen = screenData.width < 400;
   const isTablet = screenData.width >= 768;
@@ -340,9 +705,16 @@ const SessionsHistoryScreen: React.FC = () => {
   // Memoize render function to prevent recreation on every render
   const renderSessionItem = useCallback(
     ({ item }: { item: SessionObject }) => (
-      <SwipeableSessionItem item={item} onDelete={handleDeleteSession} />
+      <SwipeableSessionItem
+        item={item}
+        project={getProjectById(item.projectId)}
+        selected={selectedIds?.has(item.id) ?? false}
+        onPress={selectedIds ? toggleSelected : setEditingSession}
+        onLongPress={toggleSelected}
+        onDelete={handleDeleteSession}
+      />
     ),
-    [handleDeleteSession]
+    [handleDeleteSession, getProjectById, selectedIds, toggleSelected]
   );
   // Memoize key extractor for FlatList performance
   const keyExtractor = useCallback((item: SessionObject) => item.id, []);
@@ -408,10 +780,119 @@ const SessionsHistoryScreen: React.FC = () => {
             <FilterControls
               activeFilter={activeFilter}
               onFilterChange={handleFilterChange}
+              customLabel={
+                customRange ? formatDateRangeLabel(customRange) : undefined
+              }
             />
           </View>
+          <IconButton
+            icon={selectedIds ? 'close' : 'checkbox-multiple-marked-outline'}
+            size={24}
+            iconColor={AppColors.primary}
+            onPress={() => setSelectedIds(selectedIds ? null : new Set())}
+            accessibilityLabel={
+              selectedIds ? 'Cancel selection' : 'Select sessions to bill'
+            }
+          />
+          <IconButton
+            icon="delete-restore"
+            size={24}
+            iconColor={AppColors.primary}
+            onPress={() => setShowRecentlyDeleted(true)}
+            accessibilityLabel="Recently deleted sessions"
+          />
         </View>
 
+        {/* Billing status filter */}
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.billingFilterRow}>
+          {BILLING_FILTER_OPTIONS.map((option) => (
+            <Chip
+              key={option.status}
+              compact
+              selected={billingFilter === option.status}
+              showSelectedCheck={false}
+              onPress={() => setBillingFilter(option.status)}
+              style={[
+                styles.billingFilterChip,
+                billingFilter === option.status &&
+                  styles.billingFilterChipActive,
+              ]}>
+              {option.label}
+            </Chip>
+          ))}
+        </ScrollView>
+
+        {/* Tag filter with hours per tag */}
+        {allTags.length > 0 && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.billingFilterRow}>
+            <Chip
+              compact
+              selected={tagFilter === null}
+              showSelectedCheck={false}
+              onPress={() => setTagFilter(null)}
+              style={[
+                styles.billingFilterChip,
+                tagFilter === null && styles.billingFilterChipActive,
+              ]}>
+              Any Tag
+            </Chip>
+            {allTags.map((tag) => (
+              <Chip
+                key={tag}
+                compact
+                selected={tagFilter === tag}
+                showSelectedCheck={false}
+                onPress={() => setTagFilter(tagFilter === tag ? null : tag)}
+                style={[
+                  styles.billingFilterChip,
+                  tagFilter === tag && styles.billingFilterChipActive,
+                ]}>
+                {`#${tag} · ${(tagHours.get(tag) ?? 0).toFixed(1)}h`}
+              </Chip>
+            ))}
+          </ScrollView>
+        )}
+
+        {/* Bulk billing actions */}
+        {selectedIds && (
+          <Surface style={styles.selectionBar} elevation={1}>
+            <Text variant="bodyMedium" style={styles.selectionText}>
+              {selectedIds.size > 0
+                ? `${selectedIds.size} selected`
+                : 'Tap sessions to select'}
+            </Text>
+            <Button
+              compact
+              onPress={() =>
+                setSelectedIds(
+                  new Set(filteredSessions.map((session) => session.id))
+                )
+              }>
+              All
+            </Button>
+            <Button
+              compact
+              mode="contained-tonal"
+              disabled={selectedIds.size === 0}
+              onPress={() => handleMarkSelected('billed')}>
+              Mark Billed
+            </Button>
+            <Button
+              compact
+              mode="contained"
+              disabled={selectedIds.size === 0}
+              onPress={() => handleMarkSelected('paid')}>
+              Paid
+            </Button>
+          </Surface>
+        )}
+
         {/* Sessions display areat */}
         <View
           style={[
@@ -463,7 +944,10 @@ const SessionsHistoryScreen: React.FC = () => {
                   Showing {filteredSessions.length} of {sessions.length} session
                   {sessions.length !== 1 ? 's' : ''}
                   {activeFilter !== 'all' &&
-                    ` (${getFilterDisplayName(activeFilter)})`}
+                    ` (${getFilterDisplayName(activeFilter, customRange)})`}
+                  {billingFilter !== 'all' &&
+                    ` · ${BILLING_STATUS_LABELS[billingFilter]}`}
+                  {tagFilter !== null && ` · #${tagFilter}`}
                 </Text>
                 <IconButton
                   icon="fullscreen"
@@ -474,10 +958,8 @@ const SessionsHistoryScreen: React.FC = () => {
                 />
               </View>
               <Text variant="bodySmall" style={styles.placeholderSubtext}>
-                Total Hours:{' '}
-                {filteredSessions
-                  .reduce((total, session) => total + session.hours, 0)
-                  .toFixed(2)}
+                Hours Worked: {hoursByType.work.toFixed(2)}
+                {leaveSummary && ` · ${leaveSummary}`}
               </Text>
 
               <GestureHandlerRootView style={{ flex: 1 }}>
@@ -485,6 +967,7 @@ const SessionsHistoryScreen: React.FC = () => {
                   data={filteredSessions}
                   renderItem={renderSessionItem}
                   keyExtractor={keyExtractor}
+                  extraData={preferences}
                   showsVerticalScrollIndicator={false}
                   contentContainerStyle={styles.listContainer}
                   removeClippedSubviews={true}
@@ -514,14 +997,16 @@ const SessionsHistoryScreen: React.FC = () => {
             <Icon source="clock" size={24} color={AppColors.primary} />
             <View style={styles.totalHoursTextContainer}>
               <Text variant="titleMedium" style={styles.totalHoursLabel}>
-                Total Hours
+                Hours Worked
               </Text>
               <Text variant="headlineMedium" style={styles.totalHoursValue}>
-                {filteredSessions
-                  .reduce((total, session) => total + session.hours, 0)
-                  .toFixed(2)}{' '}
-                hrs
+                {hoursByType.work.toFixed(2)} hrs
               </Text>
+              {leaveSummary && (
+                <Text variant="bodySmall" style={styles.leaveSummaryText}>
+                  {leaveSummary}
+                </Text>
+              )}
             </View>
             <Text variant="bodySmall" style={styles.sessionCount}>
               {filteredSessions.length} session
@@ -581,6 +1066,7 @@ const SessionsHistoryScreen: React.FC = () => {
                           <Text variant="titleMedium" style={styles.dateText}>
                             {formatDate(session.date)}
                           </Text>
+                          <EntryTypeBadge session={session} />
                         </View>
                         <Surface style={styles.hoursChip} elevation={1}>
                           <Text variant="titleMedium" style={styles.hoursText}>
@@ -589,34 +1075,9 @@ const SessionsHistoryScreen: React.FC = () => {
                         </Surface>
                       </View>
                       <Divider style={styles.itemDivider} />
-                      <View style={styles.timeRow}>
-                        <View style={styles.timeItem}>
-                          <Icon
-                            source="login"
-                            size={16}
-                            color={AppColors.primary}
-                          />
-                          <Text variant="bodyMedium" style={styles.timeLabel}>
-                            In:
-                          </Text>
-                          <Text variant="bodyMedium" style={styles.timeValue}>
-                            {formatTime(session.clockIn)}
-                          </Text>
-                        </View>
-                        <View style={styles.timeItem}>
-                          <Icon
-                            source="logout"
-                            size={16}
-                            color={AppColors.error}
-                          />
-                          <Text variant="bodyMedium" style={styles.timeLabel}>
-                            Out:
-                          </Text>
-                          <Text variant="bodyMedium" style={styles.timeValue}>
-                            {formatTime(session.clockOut)}
-                          </Text>
-                        </View>
-                      </View>
+                      <SessionTimes session={session} />
+                      <BreakSummary session={session} />
+                      <SessionNotesSummary session={session} />
                     </Card.Content>
                   </Card>
                 ))}
@@ -625,6 +1086,53 @@ const SessionsHistoryScreen: React.FC = () => {
           </View>
         </View>
       </Modal>
+
+      {/* Edit Session Dialog */}
+      <SessionDialog
+        visible={editingSession !== null}
+        onDismiss={handleEditDismiss}
+        onAddSession={handleUpdateSession}
+        onUpdateSession={handleUpdateSession}
+        editingSession={editingSession}
+        projects={projects}
+        tagSuggestions={allTags}
+      />
+
+      {/* Custom date range filter */}
+      <DateRangePickerModal
+        visible={showRangePicker}
+        initialRange={customRange}
+        onApply={handleRangeApply}
+        onDismiss={() => setShowRangePicker(false)}
+      />
+
+      {/* Overlap resolution for edits */}
+      <SessionConflictModal
+        visible={pendingConflict !== null}
+        session={pendingConflict?.session ?? null}
+        conflicts={pendingConflict?.conflicts ?? []}
+        onResolve={handleConflictResolve}
+        onDismiss={() => setPendingConflict(null)}
+      />
+
+      {/* Recently Deleted Bin */}
+      <RecentlyDeletedModal
+        visible={showRecentlyDeleted}
+        onDismiss={() => setShowRecentlyDeleted(false)}
+      />
+
+      {/* Undo Delete */}
+      <Snackbar
+        visible={undoSessionId !== null}
+        onDismiss={() => setUndoSessionId(null)}
+        duration={5000}
+        style={styles.undoSnackbar}
+        action={{
+          label: 'Undo',
+          onPress: handleUndoDelete,
+        }}>
+        Session deleted
+      </Snackbar>
     </Animated.View>
   );
 };
@@ -677,6 +1185,7 @@ const styles = StyleSheet.create({
     width: '100%',
   },
   filterControlsContainer: {
+    flexShrink: 1,
     marginBottom: 14,
   },
   filterControlsContainerSmall: {
@@ -844,6 +1353,104 @@ const styles = StyleSheet.create({
     color: AppColors.onSurface,
     fontWeight: 'bold',
   },
+  sessionCardSelected: {
+    borderWidth: 2,
+    borderColor: AppColors.primary,
+  },
+  billingBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 3,
+    marginLeft: 8,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: AppColors.primaryContainer,
+  },
+  billingBadgePaid: {
+    backgroundColor: '#dcfce7',
+  },
+  billingBadgeText: {
+    color: AppColors.primary,
+  },
+  billingBadgeTextPaid: {
+    color: '#15803d',
+  },
+  leaveBadge: {
+    backgroundColor: '#fef3c7',
+  },
+  leaveBadgeText: {
+    color: '#b45309',
+  },
+  notesRow: {
+    marginTop: 8,
+    gap: 4,
+  },
+  noteText: {
+    color: AppColors.onSurface,
+  },
+  tagRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  tagText: {
+    color: AppColors.primary,
+  },
+  billingFilterRow: {
+    gap: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  billingFilterChip: {
+    backgroundColor: AppColors.surfaceVariant,
+  },
+  billingFilterChipActive: {
+    backgroundColor: AppColors.primaryContainer,
+  },
+  selectionBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginHorizontal: 10,
+    marginBottom: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 12,
+    backgroundColor: AppColors.surface,
+  },
+  selectionText: {
+    flex: 1,
+    color: AppColors.onSurfaceVariant,
+  },
+  undoSnackbar: {
+    marginBottom: 100, // Position above bottom tab
+    marginHorizontal: 16,
+    borderRadius: 8,
+  },
+  breakRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+  },
+  breakText: {
+    color: AppColors.onSurfaceVariant,
+  },
+  projectRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  projectDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 6,
+  },
+  projectText: {
+    color: AppColors.onSurfaceVariant,
+  },
   emptyContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -922,6 +1529,10 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     marginTop: 1,
   },
+  leaveSummaryText: {
+    color: AppColors.onSurfaceVariant,
+    marginTop: 2,
+  },
   sessionCount: {
     color: AppColors.primary,
     fontWeight: '500',
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import {
   View,
   StyleSheet,
@@ -7,108 +7,361 @@ import {
   TouchableOpacity,
   Modal,
 } from 'react-native';
-import {
-  Text,
-  TextInput,
-  Button,
-  Card,
-  Divider,
-  List,
-} from 'react-native-paper';
+import { Text, Card, Divider, List, Switch } from 'react-native-paper';
 import { Ionicons } from '@expo/vector-icons';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { AppColors } from '../theme/colors';
-import { useFilteredSessionsContext } from '../contexts/SessionsContext';
-
-// Storage key for hourly rate
-const HOURLY_RATE_KEY = 'HOURLY_RATE';
+import {
+  useFilteredSessionsContext,
+  useSessionsContext,
+} from '../contexts/SessionsContext';
+import ExportDataModal from './ExportDataModal';
+import InvoiceBuilderModal from './InvoiceBuilderModal';
+import ImportPreviewModal from './ImportPreviewModal';
+import ProjectsScreen from './ProjectsScreen';
+import DateRangePickerModal from './DateRangePickerModal';
+import OvertimeRulesCard from './OvertimeRulesCard';
+import RateHistoryCard from './RateHistoryCard';
+import StaleClockInCard from './StaleClockInCard';
+import RemindersCard from './RemindersCard';
+import HourGoalsCard from './HourGoalsCard';
+import LeavePolicyCard from './LeavePolicyCard';
+import { useProjectsContext } from '../contexts/ProjectsContext';
+import { useCalendarContext } from '../contexts/CalendarContext';
+import { useRemindersContext } from '../contexts/RemindersContext';
+import { useGoalsContext } from '../contexts/GoalsContext';
+import {
+  CalendarPreferences,
+  DateRange,
+  ImportRow,
+  LeavePolicy,
+  OvertimeRules,
+  RateHistoryEntry,
+  ReminderSettings,
+  SessionObject,
+  WeekDay,
+} from '../types';
+import { parseImportContent, detectImportConflicts } from '../utils/importData';
+import { priceSession, PricingOptions } from '../utils/exportData';
+import { sumIncomeByBillingStatus } from '../utils/billing';
+import {
+  DEFAULT_CURRENCY,
+  formatCurrency,
+  formatCurrencyTotals,
+  sumByCurrency,
+} from '../utils/currency';
+import { loadRateHistory, saveRateHistory } from '../utils/rateStorage';
+import { getRateOnDate } from '../utils/rateHistory';
+import { toLocalDateString } from '../utils/timeUtils';
+import { formatDateRangeLabel } from '../utils/sessionFilters';
+import {
+  DEFAULT_OVERTIME_RULES,
+  splitOvertimeHours,
+  sumOvertimeBreakdowns,
+} from '../utils/overtime';
+import { loadOvertimeRules, saveOvertimeRules } from '../utils/overtimeStorage';
+import { DEFAULT_STALE_CLOCK_IN_HOURS } from '../utils/staleClockIn';
+import {
+  DEFAULT_LEAVE_POLICY,
+  ENTRY_TYPE_LABELS,
+  getPtoBalance,
+  sumHoursByEntryType,
+} from '../utils/leave';
+import { loadLeavePolicy, saveLeavePolicy } from '../utils/leavePolicyStorage';
+import {
+  loadStaleClockInHours,
+  saveStaleClockInHours,
+} from '../utils/staleClockInStorage';
+import {
+  CALENDAR_LOCALES,
+  getActiveLocale,
+  getWeekDayLabels,
+} from '../utils/calendar';
+import { saveSessions } from '../utils/storage';
+import {
+  DataBackup,
+  clearAllAppData,
+  loadDataBackup,
+  restoreDataBackup,
+} from '../utils/backup';
+import { pickTextFile } from '../utils/shareFile';
 
-type TimePeriod = 'thisWeek' | 'lastWeek' | 'all';
+type TimePeriod = 'thisWeek' | 'lastWeek' | 'all' | 'custom';
 
 const TIME_PERIODS = [
   { value: 'thisWeek' as TimePeriod, label: 'This Week' },
   { value: 'lastWeek' as TimePeriod, label: 'Last Week' },
   { value: 'all' as TimePeriod, label: 'Total Hours' },
+  { value: 'custom' as TimePeriod, label: 'Custom Range' },
 ];
 
-const SettingsPage: React.FC = () => {
-  const [hourlyRate, setHourlyRate] = useState<string>('');
-  const [isLoading, setIsLoading] = useState(false);
-  const [isSaving, setIsSaving] = useState(false);
+interface SettingsPageProps {
+  /** Called after app data is cleared or restored so the clock state reloads */
+  onDataReset?: () => void;
+}
+
+const SettingsPage: React.FC<SettingsPageProps> = ({ onDataReset }) => {
+  const [rateHistory, setRateHistory] = useState<RateHistoryEntry[]>([]);
+  const [overtimeRules, setOvertimeRules] = useState<OvertimeRules>(
+    DEFAULT_OVERTIME_RULES
+  );
+  const [staleClockInHours, setStaleClockInHours] = useState(
+    DEFAULT_STALE_CLOCK_IN_HOURS
+  );
+  const [leavePolicy, setLeavePolicy] =
+    useState<LeavePolicy>(DEFAULT_LEAVE_POLICY);
   const [selectedPeriod, setSelectedPeriod] = useState<TimePeriod>('thisWeek');
   const [menuVisible, setMenuVisible] = useState(false);
+  const [customRange, setCustomRange] = useState<DateRange | null>(null);
+  const [rangePickerVisible, setRangePickerVisible] = useState(false);
+  const [exportVisible, setExportVisible] = useState(false);
+  const [invoiceVisible, setInvoiceVisible] = useState(false);
+  const [projectsVisible, setProjectsVisible] = useState(false);
+  const [backup, setBackup] = useState<DataBackup | null>(null);
+  const [importPreview, setImportPreview] = useState<{
+    fileName: string;
+    rows: ImportRow[];
+  } | null>(null);
 
   // Get filtered sessions based on selected period
   const {
-    totalHours,
+    sessions: periodSessions,
     sessionCount,
     loading: sessionsLoading,
-  } = useFilteredSessionsContext(selectedPeriod);
+  } = useFilteredSessionsContext(selectedPeriod, customRange);
+  const { sessions: allSessions, refreshSessions } = useSessionsContext();
+  const { projects, refreshProjects } = useProjectsContext();
+  const { preferences, updatePreferences, refreshPreferences } =
+    useCalendarContext();
+  const {
+    settings: reminderSettings,
+    updateSettings: updateReminderSettings,
+    refreshSettings: refreshReminderSettings,
+  } = useRemindersContext();
+  const { goals, updateGoals, refreshGoals } = useGoalsContext();
 
-  // Load saved hourly rate on mount
+  // Load saved hourly rates and any data backup on mount
   useEffect(() => {
-    loadHourlyRate();
+    loadRateHistory().then(setRateHistory);
+    loadOvertimeRules().then(setOvertimeRules);
+    loadStaleClockInHours().then(setStaleClockInHours);
+    loadLeavePolicy().then(setLeavePolicy);
+    loadDataBackup().then(setBackup);
   }, []);
 
-  const loadHourlyRate = async () => {
+  const handleSaveRateHistory = async (history: RateHistoryEntry[]) => {
+    await saveRateHistory(history);
+    setRateHistory(history);
+  };
+
+  // Rate in effect today, shown in the income card and used by exports
+  // and projects without their own currency
+  const currentRate = getRateOnDate(rateHistory, toLocalDateString(new Date()));
+  const currency = currentRate?.currency ?? DEFAULT_CURRENCY;
+
+  const handleSaveOvertimeRules = async (rules: OvertimeRules) => {
+    await saveOvertimeRules(rules);
+    setOvertimeRules(rules);
+  };
+
+  const handleSaveStaleClockInHours = async (hours: number) => {
+    await saveStaleClockInHours(hours);
+    setStaleClockInHours(hours);
+  };
+
+  const handleSaveLeavePolicy = async (policy: LeavePolicy) => {
+    await saveLeavePolicy(policy);
+    setLeavePolicy(policy);
+  };
+
+  // Worked hours and each kind of leave are reported separately
+  const periodHoursByType = useMemo(
+    () => sumHoursByEntryType(periodSessions),
+    [periodSessions]
+  );
+
+  // The balance builds up over all time, not just the selected period
+  const ptoBalance = useMemo(
+    () => getPtoBalance(allSessions, leavePolicy),
+    [allSessions, leavePolicy]
+  );
+
+  // Split over every session so a period starting mid-week still counts
+  // the hours worked earlier that week
+  const overtimeSplit = useMemo(
+    () =>
+      splitOvertimeHours(allSessions, overtimeRules, preferences.weekStartsOn),
+    [allSessions, overtimeRules, preferences.weekStartsOn]
+  );
+
+  const periodOvertime = useMemo(
+    () => sumOvertimeBreakdowns(overtimeSplit, periodSessions),
+    [overtimeSplit, periodSessions]
+  );
+
+  // Each session is paid at the default rate in effect on its date unless
+  // its project has its own rate, and overtime hours are paid at their
+  // multiplier. Totals are kept per currency rather than summed.
+  const pricing = useMemo<PricingOptions>(
+    () => ({
+      hourlyRate: 0,
+      currency: DEFAULT_CURRENCY,
+      rateHistory,
+      projects,
+      overtime: { rules: overtimeRules, split: overtimeSplit },
+    }),
+    [rateHistory, projects, overtimeRules, overtimeSplit]
+  );
+
+  const calculateTotalIncome = useCallback(() => {
+    return sumByCurrency(
+      periodSessions.map((session) => {
+        const { earnings, currency: sessionCurrency } = priceSession(
+          session,
+          pricing
+        );
+        return { amount: earnings, currency: sessionCurrency };
+      })
+    );
+  }, [periodSessions, pricing]);
+
+  const billingIncome = useMemo(
+    () => sumIncomeByBillingStatus(periodSessions, pricing),
+    [periodSessions, pricing]
+  );
+
+  const getPeriodLabel = (): string => {
+    if (selectedPeriod === 'custom' && customRange) {
+      return formatDateRangeLabel(customRange);
+    }
+    const period = TIME_PERIODS.find((p) => p.value === selectedPeriod);
+    return period?.label || 'This Week';
+  };
+
+  const handleImportPress = async () => {
     try {
-      setIsLoading(true);
-      const savedRate = await AsyncStorage.getItem(HOURLY_RATE_KEY);
-      if (savedRate) {
-        setHourlyRate(savedRate);
+      const picked = await pickTextFile();
+      if (!picked) {
+        return;
       }
+
+      const rows = detectImportConflicts(
+        parseImportContent(picked.content, picked.name),
+        allSessions
+      );
+      if (rows.length === 0) {
+        Alert.alert(
+          'Nothing to Import',
+          'No sessions were found in this file.'
+        );
+        return;
+      }
+
+      setImportPreview({ fileName: picked.name, rows });
     } catch (error) {
-      console.error('Failed to load hourly rate:', error);
-    } finally {
-      setIsLoading(false);
+      console.error('Failed to read import file:', error);
+      Alert.alert(
+        'Import Failed',
+        error instanceof Error ? error.message : 'Could not read this file.'
+      );
     }
   };
 
-  const saveHourlyRate = async () => {
-    if (!hourlyRate.trim()) {
-      Alert.alert('Invalid Input', 'Please enter a valid hourly rate');
-      return;
+  const handleImportConfirm = async (sessions: SessionObject[]) => {
+    try {
+      await saveSessions(sessions);
+      await refreshSessions();
+      setImportPreview(null);
+      Alert.alert(
+        'Import Complete',
+        `Imported ${sessions.length} session${sessions.length !== 1 ? 's' : ''}.`
+      );
+    } catch (error) {
+      console.error('Failed to import sessions:', error);
+      Alert.alert('Error', 'Failed to import sessions. Please try again.');
     }
+  };
 
-    const rate = parseFloat(hourlyRate);
-    if (isNaN(rate) || rate < 0) {
-      Alert.alert('Invalid Input', 'Please enter a valid positive number');
-      return;
-    }
+  // Reload everything that reads from storage after a clear or restore
+  const reloadAppData = async () => {
+    await Promise.all([
+      refreshSessions(),
+      refreshProjects(),
+      refreshPreferences(),
+      loadRateHistory().then(setRateHistory),
+      loadOvertimeRules().then(setOvertimeRules),
+      loadStaleClockInHours().then(setStaleClockInHours),
+      loadLeavePolicy().then(setLeavePolicy),
+      refreshReminderSettings(),
+      refreshGoals(),
+    ]);
+    onDataReset?.();
+  };
 
+  const handleClearAllData = async () => {
     try {
-      setIsSaving(true);
-      await AsyncStorage.setItem(HOURLY_RATE_KEY, hourlyRate);
-      Alert.alert('Success', 'Hourly rate saved successfully!');
+      const snapshot = await clearAllAppData();
+      setBackup(snapshot);
+      await reloadAppData();
+      Alert.alert(
+        'Data Cleared',
+        'All sessions and settings were deleted. A backup was saved and can be restored from Settings.'
+      );
     } catch (error) {
-      console.error('Failed to save hourly rate:', error);
-      Alert.alert('Error', 'Failed to save hourly rate. Please try again.');
-    } finally {
-      setIsSaving(false);
+      console.error('Failed to clear data:', error);
+      Alert.alert('Error', 'Failed to clear data. Please try again.');
     }
   };
 
-  const calculateTotalIncome = useCallback((): number => {
-    const rate = parseFloat(hourlyRate);
-    if (isNaN(rate) || rate < 0) return 0;
-    return totalHours * rate;
-  }, [hourlyRate, totalHours]);
+  const handleRestoreBackup = async () => {
+    try {
+      const restored = await restoreDataBackup();
+      if (!restored) {
+        setBackup(null);
+        Alert.alert('No Backup', 'There is no backup to restore.');
+        return;
+      }
+      await reloadAppData();
+      Alert.alert('Backup Restored', 'Your sessions and settings are back.');
+    } catch (error) {
+      console.error('Failed to restore backup:', error);
+      Alert.alert('Error', 'Failed to restore backup. Please try again.');
+    }
+  };
 
-  const getPeriodLabel = (): string => {
-    const period = TIME_PERIODS.find((p) => p.value === selectedPeriod);
-    return period?.label || 'This Week';
+  const handleCalendarChange = async (
+    changes: Partial<CalendarPreferences>
+  ) => {
+    try {
+      await updatePreferences(changes);
+    } catch (error) {
+      console.error('Failed to save calendar preferences:', error);
+      Alert.alert('Error', 'Failed to save preference. Please try again.');
+    }
   };
 
-  const formatCurrency = (amount: number): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(amount);
+  const handleReminderChange = async (changes: Partial<ReminderSettings>) => {
+    try {
+      await updateReminderSettings(changes);
+    } catch (error) {
+      console.error('Failed to save reminder settings:', error);
+      Alert.alert('Error', 'Failed to save reminder. Please try again.');
+    }
   };
 
   const handlePeriodSelect = (period: TimePeriod) => {
-    setSelectedPeriod(period);
     setMenuVisible(false);
+    // The custom period applies once a range is picked
+    if (period === 'custom') {
+      setRangePickerVisible(true);
+      return;
+    }
+    setSelectedPeriod(period);
+  };
+
+  const handleRangeApply = (range: DateRange) => {
+    setCustomRange(range);
+    setSelectedPeriod('custom');
+    setRangePickerVisible(false);
   };
 
   return (
@@ -122,47 +375,21 @@ const SettingsPage: React.FC = () => {
           </Text>
         </View>
 
-        {/* Hourly Rate Input */}
-        <Card style={styles.card}>
-          <Card.Content>
-            <View style={styles.cardHeader}>
-              <Ionicons
-                name="cash-outline"
-                size={24}
-                color={AppColors.primary}
-              />
-              <Text style={styles.cardTitle}>Hourly Rate</Text>
-            </View>
-            <Text style={styles.cardDescription}>
-              Enter your hourly rate to calculate total income from your work
-              sessions
-            </Text>
+        {/* Hourly Rate Timeline */}
+        <RateHistoryCard history={rateHistory} onSave={handleSaveRateHistory} />
 
-            <TextInput
-              mode="outlined"
-              label="Hourly Rate (USD)"
-              value={hourlyRate}
-              onChangeText={setHourlyRate}
-              keyboardType="decimal-pad"
-              style={styles.input}
-              outlineColor="rgba(255,255,255,0.2)"
-              activeOutlineColor={AppColors.primary}
-              textColor="#FFFFFF"
-              left={<TextInput.Icon icon="currency-usd" />}
-              disabled={isSaving}
-            />
+        {/* Overtime Rules */}
+        <OvertimeRulesCard
+          rules={overtimeRules}
+          onSave={handleSaveOvertimeRules}
+        />
 
-            <Button
-              mode="contained"
-              onPress={saveHourlyRate}
-              loading={isSaving}
-              disabled={isSaving}
-              style={styles.saveButton}
-              labelStyle={styles.saveButtonText}>
-              {isSaving ? 'Saving...' : 'Save Rate'}
-            </Button>
-          </Card.Content>
-        </Card>
+        {/* Leave & PTO */}
+        <LeavePolicyCard
+          policy={leavePolicy}
+          balance={ptoBalance}
+          onSave={handleSaveLeavePolicy}
+        />
 
         {/* Income Calculator */}
         <Card style={styles.card}>
@@ -176,7 +403,7 @@ const SettingsPage: React.FC = () => {
               <Text style={styles.cardTitle}>Income Calculator</Text>
             </View>
             <Text style={styles.cardDescription}>
-              Calculate your total income based on hours worked
+              Calculate your total income based on hours worked and paid leave
             </Text>
 
             {/* Period Selector */}
@@ -203,7 +430,9 @@ const SettingsPage: React.FC = () => {
               <View style={styles.statItem}>
                 <Text style={styles.statLabel}>Hours Worked</Text>
                 <Text style={styles.statValue}>
-                  {sessionsLoading ? '...' : `${totalHours.toFixed(2)} hrs`}
+                  {sessionsLoading
+                    ? '...'
+                    : `${periodHoursByType.work.toFixed(2)} hrs`}
                 </Text>
               </View>
 
@@ -217,13 +446,72 @@ const SettingsPage: React.FC = () => {
               <View style={styles.statItem}>
                 <Text style={styles.statLabel}>Hourly Rate</Text>
                 <Text style={styles.statValue}>
-                  {hourlyRate
-                    ? formatCurrency(parseFloat(hourlyRate))
-                    : '$0.00'}
+                  {formatCurrency(currentRate?.amount ?? 0, currency)}
+                </Text>
+              </View>
+            </View>
+
+            {/* Leave taken in the period, paid at the base rate except unpaid leave */}
+            <View style={styles.statsContainer}>
+              {(['vacation', 'sick', 'holiday'] as const).map((type) => (
+                <View key={type} style={styles.statItem}>
+                  <Text style={styles.statLabel}>
+                    {ENTRY_TYPE_LABELS[type]}
+                  </Text>
+                  <Text style={styles.statValue}>
+                    {`${periodHoursByType[type].toFixed(2)} hrs`}
+                  </Text>
+                </View>
+              ))}
+            </View>
+
+            <View style={styles.statsContainer}>
+              <View style={styles.statItem}>
+                <Text style={styles.statLabel}>
+                  {ENTRY_TYPE_LABELS.unpaidLeave}
+                </Text>
+                <Text style={styles.statValue}>
+                  {`${periodHoursByType.unpaidLeave.toFixed(2)} hrs`}
+                </Text>
+              </View>
+
+              <View style={styles.statItem}>
+                <Text style={styles.statLabel}>PTO Balance</Text>
+                <Text
+                  style={[
+                    styles.statValue,
+                    ptoBalance.balance < 0 && styles.negativeValue,
+                  ]}>
+                  {`${ptoBalance.balance.toFixed(2)} hrs`}
                 </Text>
               </View>
             </View>
 
+            {overtimeRules.enabled && (
+              <View style={styles.statsContainer}>
+                <View style={styles.statItem}>
+                  <Text style={styles.statLabel}>Regular</Text>
+                  <Text style={styles.statValue}>
+                    {`${periodOvertime.regularHours.toFixed(2)} hrs`}
+                  </Text>
+                </View>
+
+                <View style={styles.statItem}>
+                  <Text style={styles.statLabel}>Overtime</Text>
+                  <Text style={styles.statValue}>
+                    {`${periodOvertime.overtimeHours.toFixed(2)} hrs`}
+                  </Text>
+                </View>
+
+                <View style={styles.statItem}>
+                  <Text style={styles.statLabel}>Double Time</Text>
+                  <Text style={styles.statValue}>
+                    {`${periodOvertime.doubleTimeHours.toFixed(2)} hrs`}
+                  </Text>
+                </View>
+              </View>
+            )}
+
             <Divider style={styles.divider} />
 
             {/* Total Income */}
@@ -231,18 +519,153 @@ const SettingsPage: React.FC = () => {
               <Text style={styles.totalIncomeLabel}>
                 Total Income ({getPeriodLabel()})
               </Text>
-              <Text style={styles.totalIncomeValue}>
-                {formatCurrency(calculateTotalIncome())}
-              </Text>
-              {!hourlyRate && (
+              {formatCurrencyTotals(calculateTotalIncome(), currency).map(
+                (total) => (
+                  <Text key={total} style={styles.totalIncomeValue}>
+                    {total}
+                  </Text>
+                )
+              )}
+              {!currentRate && (
                 <Text style={styles.noRateText}>
                   Enter hourly rate above to calculate income
                 </Text>
               )}
             </View>
+
+            {/* Outstanding vs. paid */}
+            <View style={styles.statsContainer}>
+              <View style={styles.statItem}>
+                <Text style={styles.statLabel}>Outstanding</Text>
+                {formatCurrencyTotals(billingIncome.outstanding, currency).map(
+                  (total) => (
+                    <Text key={total} style={styles.statValue}>
+                      {total}
+                    </Text>
+                  )
+                )}
+              </View>
+
+              <View style={styles.statItem}>
+                <Text style={styles.statLabel}>Paid</Text>
+                {formatCurrencyTotals(billingIncome.paid, currency).map(
+                  (total) => (
+                    <Text
+                      key={total}
+                      style={[styles.statValue, styles.paidValue]}>
+                      {total}
+                    </Text>
+                  )
+                )}
+              </View>
+            </View>
+            <Text style={styles.billingNote}>
+              Outstanding covers unbilled work and billed sessions not yet paid.
+              Mark sessions as billed or paid from the history screen.
+            </Text>
+          </Card.Content>
+        </Card>
+
+        {/* Calendar Preferences */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <View style={styles.cardHeader}>
+              <Ionicons
+                name="calendar-outline"
+                size={24}
+                color={AppColors.primary}
+              />
+              <Text style={styles.cardTitle}>Calendar</Text>
+            </View>
+            <Text style={styles.cardDescription}>
+              Choose how weeks, dates and times are shown
+            </Text>
+
+            <Text style={styles.periodLabel}>Week starts on</Text>
+            <View style={styles.chipRow}>
+              {getWeekDayLabels(0).map((label, day) => (
+                <TouchableOpacity
+                  key={label}
+                  onPress={() =>
+                    handleCalendarChange({ weekStartsOn: day as WeekDay })
+                  }
+                  style={[
+                    styles.chip,
+                    preferences.weekStartsOn === day && styles.chipActive,
+                  ]}>
+                  <Text
+                    style={[
+                      styles.chipText,
+                      preferences.weekStartsOn === day && styles.chipTextActive,
+                    ]}>
+                    {label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.periodLabel}>Date & time format</Text>
+            <View style={styles.chipRow}>
+              {CALENDAR_LOCALES.map(({ locale, label }) => (
+                <TouchableOpacity
+                  key={label}
+                  onPress={() => handleCalendarChange({ locale })}
+                  style={[
+                    styles.chip,
+                    preferences.locale === locale && styles.chipActive,
+                  ]}>
+                  <Text
+                    style={[
+                      styles.chipText,
+                      preferences.locale === locale && styles.chipTextActive,
+                    ]}>
+                    {label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <List.Item
+              title="24-Hour Clock"
+              description="Show times like 17:30 instead of 5:30 PM"
+              left={() => (
+                <Ionicons
+                  name="time-outline"
+                  size={20}
+                  color="rgba(255,255,255,0.7)"
+                />
+              )}
+              right={() => (
+                <Switch
+                  value={preferences.use24HourClock}
+                  onValueChange={(value) =>
+                    handleCalendarChange({ use24HourClock: value })
+                  }
+                  color={AppColors.primary}
+                />
+              )}
+              style={styles.listItem}
+              titleStyle={styles.listItemTitle}
+              descriptionStyle={styles.listItemDescription}
+            />
           </Card.Content>
         </Card>
 
+        {/* Hour Goals */}
+        <HourGoalsCard goals={goals} onSave={updateGoals} />
+
+        {/* Forgotten Clock-Outs */}
+        <StaleClockInCard
+          thresholdHours={staleClockInHours}
+          onSave={handleSaveStaleClockInHours}
+        />
+
+        {/* Reminders */}
+        <RemindersCard
+          settings={reminderSettings}
+          onChange={handleReminderChange}
+        />
+
         {/* Additional Settings */}
         <Card style={styles.card}>
           <Card.Content>
@@ -255,9 +678,38 @@ const SettingsPage: React.FC = () => {
               <Text style={styles.cardTitle}>App Settings</Text>
             </View>
 
+            <List.Item
+              title="Projects"
+              description={
+                projects.length > 0
+                  ? `${projects.length} project${projects.length !== 1 ? 's' : ''}`
+                  : 'Track time per project or client'
+              }
+              left={() => (
+                <Ionicons
+                  name="folder-outline"
+                  size={20}
+                  color="rgba(255,255,255,0.7)"
+                />
+              )}
+              right={() => (
+                <Ionicons
+                  name="chevron-forward"
+                  size={20}
+                  color="rgba(255,255,255,0.5)"
+                />
+              )}
+              onPress={() => setProjectsVisible(true)}
+              style={styles.listItem}
+              titleStyle={styles.listItemTitle}
+              descriptionStyle={styles.listItemDescription}
+            />
+
+            <Divider style={styles.divider} />
+
             <List.Item
               title="Export Data"
-              description="Export your work sessions"
+              description="Export your work sessions as CSV or JSON"
               left={() => (
                 <Ionicons
                   name="download-outline"
@@ -272,12 +724,57 @@ const SettingsPage: React.FC = () => {
                   color="rgba(255,255,255,0.5)"
                 />
               )}
-              onPress={() =>
-                Alert.alert(
-                  'Coming Soon',
-                  'Export functionality will be available soon!'
-                )
-              }
+              onPress={() => setExportVisible(true)}
+              style={styles.listItem}
+              titleStyle={styles.listItemTitle}
+              descriptionStyle={styles.listItemDescription}
+            />
+
+            <Divider style={styles.divider} />
+
+            <List.Item
+              title="Create Invoice"
+              description="Bill unbilled sessions as a printable PDF"
+              left={() => (
+                <Ionicons
+                  name="receipt-outline"
+                  size={20}
+                  color="rgba(255,255,255,0.7)"
+                />
+              )}
+              right={() => (
+                <Ionicons
+                  name="chevron-forward"
+                  size={20}
+                  color="rgba(255,255,255,0.5)"
+                />
+              )}
+              onPress={() => setInvoiceVisible(true)}
+              style={styles.listItem}
+              titleStyle={styles.listItemTitle}
+              descriptionStyle={styles.listItemDescription}
+            />
+
+            <Divider style={styles.divider} />
+
+            <List.Item
+              title="Import Data"
+              description="Import sessions from a CSV or JSON file"
+              left={() => (
+                <Ionicons
+                  name="cloud-upload-outline"
+                  size={20}
+                  color="rgba(255,255,255,0.7)"
+                />
+              )}
+              right={() => (
+                <Ionicons
+                  name="chevron-forward"
+                  size={20}
+                  color="rgba(255,255,255,0.5)"
+                />
+              )}
+              onPress={handleImportPress}
               style={styles.listItem}
               titleStyle={styles.listItemTitle}
               descriptionStyle={styles.listItemDescription}
@@ -301,19 +798,13 @@ const SettingsPage: React.FC = () => {
               onPress={() =>
                 Alert.alert(
                   'Clear All Data',
-                  'This will permanently delete all your work sessions and settings. This action cannot be undone.',
+                  'This will delete all your work sessions, projects and settings. A backup is saved first so you can restore it from Settings.',
                   [
                     { text: 'Cancel', style: 'cancel' },
                     {
                       text: 'Clear All',
                       style: 'destructive',
-                      onPress: () => {
-                        // TODO: Implement clear all data functionality
-                        Alert.alert(
-                          'Coming Soon',
-                          'Clear data functionality will be available soon!'
-                        );
-                      },
+                      onPress: handleClearAllData,
                     },
                   ]
                 )
@@ -322,6 +813,48 @@ const SettingsPage: React.FC = () => {
               titleStyle={[styles.listItemTitle, { color: '#ef4444' }]}
               descriptionStyle={styles.listItemDescription}
             />
+
+            {backup && (
+              <>
+                <Divider style={styles.divider} />
+
+                <List.Item
+                  title="Restore Backup"
+                  description={`Backup from ${new Date(
+                    backup.createdAt
+                  ).toLocaleString(getActiveLocale(), {
+                    hour12: !preferences.use24HourClock,
+                  })}`}
+                  left={() => (
+                    <Ionicons
+                      name="refresh-outline"
+                      size={20}
+                      color="rgba(255,255,255,0.7)"
+                    />
+                  )}
+                  right={() => (
+                    <Ionicons
+                      name="chevron-forward"
+                      size={20}
+                      color="rgba(255,255,255,0.5)"
+                    />
+                  )}
+                  onPress={() =>
+                    Alert.alert(
+                      'Restore Backup',
+                      'This replaces your current sessions and settings with the backup taken before data was last cleared.',
+                      [
+                        { text: 'Cancel', style: 'cancel' },
+                        { text: 'Restore', onPress: handleRestoreBackup },
+                      ]
+                    )
+                  }
+                  style={styles.listItem}
+                  titleStyle={styles.listItemTitle}
+                  descriptionStyle={styles.listItemDescription}
+                />
+              </>
+            )}
           </Card.Content>
         </Card>
 
@@ -334,6 +867,48 @@ const SettingsPage: React.FC = () => {
         </View>
       </ScrollView>
 
+      {/* Export Modal */}
+      <ExportDataModal
+        visible={exportVisible}
+        onDismiss={() => setExportVisible(false)}
+        rateHistory={rateHistory}
+        overtimeRules={overtimeRules}
+      />
+
+      {/* Invoice Builder */}
+      <InvoiceBuilderModal
+        visible={invoiceVisible}
+        onDismiss={() => setInvoiceVisible(false)}
+        rateHistory={rateHistory}
+        overtimeRules={overtimeRules}
+      />
+
+      {/* Projects */}
+      <ProjectsScreen
+        visible={projectsVisible}
+        onDismiss={() => setProjectsVisible(false)}
+        defaultCurrency={currency}
+      />
+
+      {/* Import Preview */}
+      {importPreview && (
+        <ImportPreviewModal
+          visible={true}
+          fileName={importPreview.fileName}
+          rows={importPreview.rows}
+          onDismiss={() => setImportPreview(null)}
+          onConfirm={handleImportConfirm}
+        />
+      )}
+
+      {/* Custom Range Picker */}
+      <DateRangePickerModal
+        visible={rangePickerVisible}
+        initialRange={customRange}
+        onApply={handleRangeApply}
+        onDismiss={() => setRangePickerVisible(false)}
+      />
+
       {/* Dropdown Modal */}
       <Modal
         visible={menuVisible}
@@ -438,19 +1013,6 @@ const styles = StyleSheet.create({
     marginBottom: 20,
     lineHeight: 20,
   },
-  input: {
-    marginBottom: 16,
-    backgroundColor: 'rgba(255,255,255,0.05)',
-  },
-  saveButton: {
-    backgroundColor: AppColors.primary,
-    borderRadius: 12,
-  },
-  saveButtonText: {
-    color: '#FFFFFF',
-    fontSize: 16,
-    fontWeight: '600',
-  },
   periodSelector: {
     marginBottom: 20,
   },
@@ -537,12 +1099,50 @@ const styles = StyleSheet.create({
     color: AppColors.primary,
     fontWeight: 'bold',
   },
+  negativeValue: {
+    color: '#ef4444',
+  },
+  paidValue: {
+    color: '#4ade80',
+  },
+  billingNote: {
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.5)',
+    textAlign: 'center',
+    marginTop: 4,
+  },
   noRateText: {
     fontSize: 12,
     color: 'rgba(255,255,255,0.5)',
     marginTop: 8,
     fontStyle: 'italic',
   },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.2)',
+    backgroundColor: 'rgba(255,255,255,0.05)',
+  },
+  chipActive: {
+    borderColor: AppColors.primary,
+    backgroundColor: 'rgba(103, 80, 164, 0.3)',
+  },
+  chipText: {
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.8)',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
   listItem: {
     paddingVertical: 8,
   },
@@ -0,0 +1,127 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, Alert } from 'react-native';
+import { Text, TextInput, Button, Card } from 'react-native-paper';
+import { Ionicons } from '@expo/vector-icons';
+import { AppColors } from '../theme/colors';
+import { validateStaleClockInHours } from '../utils/validation';
+
+interface StaleClockInCardProps {
+  thresholdHours: number;
+  onSave: (hours: number) => Promise<void>;
+}
+
+const StaleClockInCard: React.FC<StaleClockInCardProps> = ({
+  thresholdHours,
+  onSave,
+}) => {
+  const [value, setValue] = useState(String(thresholdHours));
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the field when the stored threshold loads or is restored
+  useEffect(() => {
+    setValue(String(thresholdHours));
+  }, [thresholdHours]);
+
+  const handleSave = async () => {
+    const hours = parseFloat(value);
+    if (!validateStaleClockInHours(hours)) {
+      Alert.alert(
+        'Invalid Input',
+        'Please enter a number of hours between 1 and 72'
+      );
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await onSave(hours);
+      Alert.alert('Success', 'Reminder threshold saved successfully!');
+    } catch (error) {
+      console.error('Failed to save forgotten clock-out threshold:', error);
+      Alert.alert('Error', 'Failed to save threshold. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card style={styles.card}>
+      <Card.Content>
+        <View style={styles.cardHeader}>
+          <Ionicons name="alarm-outline" size={24} color={AppColors.primary} />
+          <Text style={styles.cardTitle}>Forgotten Clock-Outs</Text>
+        </View>
+        <Text style={styles.cardDescription}>
+          When you open the app and a session has been running longer than this,
+          you are asked when you actually stopped working.
+        </Text>
+
+        <TextInput
+          mode="outlined"
+          label="Ask after (hours)"
+          value={value}
+          onChangeText={setValue}
+          keyboardType="decimal-pad"
+          style={styles.input}
+          outlineColor="rgba(255,255,255,0.2)"
+          activeOutlineColor={AppColors.primary}
+          textColor="#FFFFFF"
+          left={<TextInput.Icon icon="timer-sand" />}
+          disabled={isSaving}
+        />
+
+        <Button
+          mode="contained"
+          onPress={handleSave}
+          loading={isSaving}
+          disabled={isSaving}
+          style={styles.saveButton}
+          labelStyle={styles.saveButtonText}>
+          {isSaving ? 'Saving...' : 'Save Threshold'}
+        </Button>
+      </Card.Content>
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    marginHorizontal: 16,
+    marginBottom: 16,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 16,
+    elevation: 4,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  cardTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginLeft: 12,
+  },
+  cardDescription: {
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.7)',
+    marginBottom: 20,
+    lineHeight: 20,
+  },
+  input: {
+    marginBottom: 16,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+  },
+  saveButton: {
+    backgroundColor: AppColors.primary,
+    borderRadius: 12,
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default StaleClockInCard;
@@ -0,0 +1,218 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, Modal, Alert } from 'react-native';
+import { Text, Button } from 'react-native-paper';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { AppColors } from '../theme/colors';
+import { getClockOutTimeError } from '../utils/staleClockIn';
+import { formatDate, formatTime, toLocalDateString } from '../utils/timeUtils';
+
+interface StaleClockInDialogProps {
+  visible: boolean;
+  /** Start of the running session */
+  clockInTime: Date;
+  /** End time the picker starts at */
+  suggestedClockOutTime: Date;
+  /** Called with the end time to save the session with */
+  onClockOut: (clockOutTime: Date) => void;
+  /** Called to drop the running session without saving it */
+  onDiscard: () => void;
+  /** Called to leave the session running */
+  onKeepRunning: () => void;
+}
+
+/**
+ * Asks what to do with a clock-in that has been running for longer than
+ * the forgotten clock-out threshold.
+ */
+const StaleClockInDialog: React.FC<StaleClockInDialogProps> = ({
+  visible,
+  clockInTime,
+  suggestedClockOutTime,
+  onClockOut,
+  onDiscard,
+  onKeepRunning,
+}) => {
+  const [clockOutTime, setClockOutTime] = useState(suggestedClockOutTime);
+
+  // Start from the suggestion every time the dialog opens
+  useEffect(() => {
+    if (visible) {
+      setClockOutTime(suggestedClockOutTime);
+    }
+  }, [visible, suggestedClockOutTime]);
+
+  const elapsedHours = Math.floor(
+    (Date.now() - clockInTime.getTime()) / (60 * 60 * 1000)
+  );
+  const error = getClockOutTimeError(clockInTime, clockOutTime);
+
+  // The date and time pickers each change their half of the end time
+  const handleDateChange = (date?: Date) => {
+    if (date) {
+      setClockOutTime((prev) => {
+        const next = new Date(prev);
+        next.setFullYear(date.getFullYear(), date.getMonth(), date.getDate());
+        return next;
+      });
+    }
+  };
+
+  const handleTimeChange = (time?: Date) => {
+    if (time) {
+      setClockOutTime((prev) => {
+        const next = new Date(prev);
+        next.setHours(time.getHours(), time.getMinutes(), 0, 0);
+        return next;
+      });
+    }
+  };
+
+  const handleDiscard = () => {
+    Alert.alert(
+      'Discard Session',
+      'The running session will be removed without being saved. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Discard', style: 'destructive', onPress: onDiscard },
+      ]
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onKeepRunning}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.container}>
+          <Text style={styles.title}>Forgot to Clock Out?</Text>
+          <Text style={styles.subtitle}>
+            {`You clocked in on ${formatDate(toLocalDateString(clockInTime))} at ${formatTime(clockInTime.toISOString())}, ${elapsedHours} hours ago.`}
+          </Text>
+
+          <Text style={styles.label}>When did you stop working?</Text>
+          <View style={styles.pickerRow}>
+            <DateTimePicker
+              value={clockOutTime}
+              mode="date"
+              display="default"
+              onChange={(event, date) => handleDateChange(date)}
+              minimumDate={clockInTime}
+              maximumDate={new Date()}
+            />
+            <DateTimePicker
+              value={clockOutTime}
+              mode="time"
+              display="default"
+              onChange={(event, time) => handleTimeChange(time)}
+            />
+          </View>
+          {error && <Text style={styles.errorText}>{error}</Text>}
+
+          <Button
+            mode="contained"
+            onPress={() => onClockOut(clockOutTime)}
+            disabled={error !== null}
+            style={styles.confirmButton}>
+            {`Clock Out at ${formatTime(clockOutTime.toISOString())}`}
+          </Button>
+          <View style={styles.actions}>
+            <Button
+              mode="outlined"
+              onPress={handleDiscard}
+              style={styles.discardButton}
+              textColor="#ef4444">
+              Discard
+            </Button>
+            <Button
+              mode="outlined"
+              onPress={onKeepRunning}
+              style={styles.cancelButton}
+              textColor="#fff">
+              Keep Running
+            </Button>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  container: {
+    backgroundColor: 'rgba(15, 23, 42, 0.98)',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+    width: '85%',
+    maxWidth: 360,
+    padding: 16,
+    elevation: 8,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 4,
+    },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+  },
+  title: {
+    color: '#FFFFFF',
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.7)',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    color: '#FFFFFF',
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  pickerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#ef4444',
+    marginBottom: 8,
+  },
+  confirmButton: {
+    backgroundColor: AppColors.primary,
+    borderRadius: 12,
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  discardButton: {
+    flex: 1,
+    borderRadius: 12,
+    borderColor: '#ef4444',
+  },
+  cancelButton: {
+    flex: 1,
+    borderRadius: 12,
+    borderColor: '#9ca3af',
+  },
+});
+
+export default StaleClockInDialog;
@@ -0,0 +1,46 @@
+import {
+  DEFAULT_CALENDAR_PREFERENCES,
+  setCalendarPreferences,
+} from '../utils/calendar';
+import {
+  loadCalendarPreferences,
+  saveCalendarPreferences,
+} from '../utils/calendarStorage';
+import { CalendarPreferences } from '../types';
+import { createSettingsContext } from './createSettingsContext';
+
+interface CalendarContextType {
+  preferences: CalendarPreferences;
+  loading: boolean;
+  updatePreferences: (changes: Partial<CalendarPreferences>) => Promise<void>;
+  refreshPreferences: () => Promise<void>;
+}
+
+// Preferences are applied to the formatting utilities before components
+// render with them
+const { Provider, useSettingsContext } = createSettingsContext(
+  { load: loadCalendarPreferences, save: saveCalendarPreferences },
+  DEFAULT_CALENDAR_PREFERENCES,
+  'Calendar',
+  setCalendarPreferences
+);
+
+/**
+ * Provides calendar preferences and keeps the formatting utilities in sync,
+ * so components re-render when the week start, locale or clock changes
+ */
+export const CalendarProvider = Provider;
+
+/**
+ * Hook to use calendar context
+ * Must be used within a CalendarProvider
+ */
+export const useCalendarContext = (): CalendarContextType => {
+  const { value, loading, update, refresh } = useSettingsContext();
+  return {
+    preferences: value,
+    loading,
+    updatePreferences: update,
+    refreshPreferences: refresh,
+  };
+};
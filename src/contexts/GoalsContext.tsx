@@ -0,0 +1,37 @@
+import { DEFAULT_HOUR_GOALS } from '../utils/goals';
+import { loadHourGoals, saveHourGoals } from '../utils/goalStorage';
+import { HourGoals } from '../types';
+import { createSettingsContext } from './createSettingsContext';
+
+interface GoalsContextType {
+  goals: HourGoals;
+  loading: boolean;
+  updateGoals: (goals: HourGoals) => Promise<void>;
+  /** Reload goals after app data is cleared or restored */
+  refreshGoals: () => Promise<void>;
+}
+
+const { Provider, useSettingsContext } = createSettingsContext(
+  { load: loadHourGoals, save: saveHourGoals },
+  DEFAULT_HOUR_GOALS,
+  'Goals'
+);
+
+/**
+ * Provides the daily and weekly hour goals shown on the home screen
+ */
+export const GoalsProvider = Provider;
+
+/**
+ * Hook to use goals context
+ * Must be used within a GoalsProvider
+ */
+export const useGoalsContext = (): GoalsContextType => {
+  const { value, loading, update, refresh } = useSettingsContext();
+  return {
+    goals: value,
+    loading,
+    updateGoals: update,
+    refreshGoals: refresh,
+  };
+};
@@ -0,0 +1,170 @@
+import React, {
+  createContext,
+  useContext,
+  useReducer,
+  useEffect,
+  ReactNode,
+} from 'react';
+import {
+  loadProjects,
+  saveProject as saveStoredProject,
+  deleteProject as deleteStoredProject,
+} from '../utils/projectStorage';
+import { Project } from '../types';
+
+interface ProjectsState {
+  projects: Project[];
+  loading: boolean;
+  error: string | null;
+}
+
+type ProjectsAction =
+  | { type: 'LOAD_START' }
+  | { type: 'LOAD_SUCCESS'; payload: Project[] }
+  | { type: 'LOAD_ERROR'; payload: string }
+  | { type: 'SAVE_PROJECT'; payload: Project }
+  | { type: 'DELETE_PROJECT'; payload: string };
+
+interface ProjectsContextType extends ProjectsState {
+  refreshProjects: () => Promise<void>;
+  saveProject: (project: Project) => Promise<void>;
+  deleteProject: (projectId: string) => Promise<void>;
+  getProjectById: (projectId?: string | null) => Project | undefined;
+}
+
+// Initial state
+const initialState: ProjectsState = {
+  projects: [],
+  loading: true,
+  error: null,
+};
+
+// Reducer
+const projectsReducer = (
+  state: ProjectsState,
+  action: ProjectsAction
+): ProjectsState => {
+  switch (action.type) {
+    case 'LOAD_START':
+      return {
+        ...state,
+        loading: true,
+        error: null,
+      };
+    case 'LOAD_SUCCESS':
+      return {
+        ...state,
+        projects: action.payload,
+        loading: false,
+        error: null,
+      };
+    case 'LOAD_ERROR':
+      return {
+        ...state,
+        loading: false,
+        error: action.payload,
+      };
+    case 'SAVE_PROJECT': {
+      const exists = state.projects.some((p) => p.id === action.payload.id);
+      const projects = exists
+        ? state.projects.map((p) =>
+            p.id === action.payload.id ? action.payload : p
+          )
+        : [...state.projects, action.payload];
+      return {
+        ...state,
+        projects: projects.sort((a, b) => a.name.localeCompare(b.name)),
+      };
+    }
+    case 'DELETE_PROJECT':
+      return {
+        ...state,
+        projects: state.projects.filter((p) => p.id !== action.payload),
+      };
+    default:
+      return state;
+  }
+};
+
+// Context
+const ProjectsContext = createContext<ProjectsContextType | undefined>(
+  undefined
+);
+
+// Provider Props
+interface ProjectsProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Provides projects data and management functions to all child components
+ */
+export const ProjectsProvider: React.FC<ProjectsProviderProps> = ({
+  children,
+}) => {
+  const [state, dispatch] = useReducer(projectsReducer, initialState);
+
+  const refreshProjects = async () => {
+    try {
+      dispatch({ type: 'LOAD_START' });
+      const projects = await loadProjects();
+      dispatch({ type: 'LOAD_SUCCESS', payload: projects });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Failed to load projects';
+      dispatch({ type: 'LOAD_ERROR', payload: errorMessage });
+    }
+  };
+
+  /**
+   * Create or update a project
+   */
+  const saveProject = async (project: Project) => {
+    await saveStoredProject(project);
+    dispatch({ type: 'SAVE_PROJECT', payload: project });
+  };
+
+  /**
+   * Delete a project by ID
+   */
+  const deleteProject = async (projectId: string) => {
+    await deleteStoredProject(projectId);
+    dispatch({ type: 'DELETE_PROJECT', payload: projectId });
+  };
+
+  const getProjectById = (projectId?: string | null) =>
+    projectId ? state.projects.find((p) => p.id === projectId) : undefined;
+
+  // Load projects on mount
+  useEffect(() => {
+    refreshProjects();
+  }, []);
+
+  const contextValue: ProjectsContextType = {
+    ...state,
+    refreshProjects,
+    saveProject,
+    deleteProject,
+    getProjectById,
+  };
+
+  return (
+    <ProjectsContext.Provider value={contextValue}>
+      {children}
+    </ProjectsContext.Provider>
+  );
+};
+
+/**
+ * Hook to use projects context
+ * Must be used within a ProjectsProvider
+ */
+export const useProjectsContext = (): ProjectsContextType => {
+  const context = useContext(ProjectsContext);
+  if (context === undefined) {
+    throw new Error(
+      'useProjectsContext must be used within a ProjectsProvider'
+    );
+  }
+  return context;
+};
@@ -0,0 +1,41 @@
+import { DEFAULT_REMINDER_SETTINGS } from '../utils/reminders';
+import {
+  loadReminderSettings,
+  saveReminderSettings,
+} from '../utils/reminderStorage';
+import { ReminderSettings } from '../types';
+import { createSettingsContext } from './createSettingsContext';
+
+interface RemindersContextType {
+  settings: ReminderSettings;
+  loading: boolean;
+  updateSettings: (changes: Partial<ReminderSettings>) => Promise<void>;
+  /** Reload settings after app data is cleared or restored */
+  refreshSettings: () => Promise<void>;
+}
+
+const { Provider, useSettingsContext } = createSettingsContext(
+  { load: loadReminderSettings, save: saveReminderSettings },
+  DEFAULT_REMINDER_SETTINGS,
+  'Reminders'
+);
+
+/**
+ * Provides reminder settings, so the home screen can reschedule
+ * notifications as soon as they change in Settings
+ */
+export const RemindersProvider = Provider;
+
+/**
+ * Hook to use reminders context
+ * Must be used within a RemindersProvider
+ */
+export const useRemindersContext = (): RemindersContextType => {
+  const { value, loading, update, refresh } = useSettingsContext();
+  return {
+    settings: value,
+    loading,
+    updateSettings: update,
+    refreshSettings: refresh,
+  };
+};
@@ -3,10 +3,24 @@ import React, {
   useContext,
   useReducer,
   useEffect,
+  useRef,
   ReactNode,
 } from 'react';
-import { loadStoredSessions, deleteSession } from '../utils/storage';
-import { SessionObject } from '../types';
+import {
+  loadStoredSessions,
+  deleteSession,
+  updateSession,
+  restoreDeletedSession,
+  patchSessions,
+} from '../utils/storage';
+import {
+  BillingStatus,
+  ConflictResolution,
+  DateRange,
+  FilterType,
+  SessionObject,
+  SessionSaveResult,
+} from '../types';
 
 /**
  * Hook to get filtered sessions from context
@@ -29,13 +43,30 @@ type SessionsAction =
   | { type: 'LOAD_SUCCESS'; payload: SessionObject[] }
   | { type: 'LOAD_ERROR'; payload: string }
   | { type: 'ADD_SESSION'; payload: SessionObject }
+  | { type: 'UPDATE_SESSION'; payload: SessionObject }
+  | { type: 'UPDATE_SESSIONS'; payload: SessionObject[] }
   | { type: 'DELETE_SESSION'; payload: string }
+  | { type: 'REMOVE_SESSIONS'; payload: string[] }
+  | {
+      type: 'RESTORE_SESSION';
+      payload: { session: SessionObject; index?: number };
+    }
   | { type: 'CLEAR_ERROR' };
 
 interface SessionsContextType extends SessionsState {
   refreshSessions: () => Promise<void>;
   addSession: (session: SessionObject) => void;
+  removeSessions: (sessionIds: string[]) => void;
+  updateSession: (
+    session: SessionObject,
+    resolution?: ConflictResolution
+  ) => Promise<SessionSaveResult>;
   deleteSession: (sessionId: string) => Promise<void>;
+  restoreSession: (sessionId: string) => Promise<SessionObject | null>;
+  setBillingStatus: (
+    sessionIds: string[],
+    status: BillingStatus
+  ) => Promise<void>;
   totalHours: number;
   sessionCount: number;
   clearError: () => void;
@@ -78,6 +109,24 @@ const sessionsReducer = (
         ...state,
         sessions: [action.payload, ...state.sessions],
       };
+    case 'UPDATE_SESSION':
+      return {
+        ...state,
+        sessions: state.sessions.map((session) =>
+          session.id === action.payload.id ? action.payload : session
+        ),
+      };
+    case 'UPDATE_SESSIONS': {
+      const updated = new Map(
+        action.payload.map((session) => [session.id, session])
+      );
+      return {
+        ...state,
+        sessions: state.sessions.map(
+          (session) => updated.get(session.id) ?? session
+        ),
+      };
+    }
     case 'DELETE_SESSION':
       return {
         ...state,
@@ -85,6 +134,35 @@ const sessionsReducer = (
           (session) => session.id !== action.payload
         ),
       };
+    case 'REMOVE_SESSIONS':
+      return {
+        ...state,
+        sessions: state.sessions.filter(
+          (session) => !action.payload.includes(session.id)
+        ),
+      };
+    case 'RESTORE_SESSION': {
+      const { session, index } = action.payload;
+      const sessions = state.sessions.filter((s) => s.id !== session.id);
+      // Fall back to date order when the original position is unknown
+      const position =
+        index ??
+        sessions.findIndex(
+          (s) =>
+            s.date < session.date ||
+            (s.date === session.date && s.clockIn < session.clockIn)
+        );
+      const insertAt =
+        position === -1 ? sessions.length : Math.min(position, sessions.length);
+      return {
+        ...state,
+        sessions: [
+          ...sessions.slice(0, insertAt),
+          session,
+          ...sessions.slice(insertAt),
+        ],
+      };
+    }
     case 'CLEAR_ERROR':
       return {
         ...state,
@@ -113,6 +191,9 @@ export const SessionsProvider: React.FC<SessionsProviderProps> = ({
 }) => {
   const [state, dispatch] = useReducer(sessionsReducer, initialState);
 
+  // Positions of deleted sessions so an undo puts them back in place
+  const deletedPositions = useRef(new Map<string, number>());
+
   const loadSessions = async () => {
     try {
       dispatch({ type: 'LOAD_START' });
@@ -136,13 +217,59 @@ export const SessionsProvider: React.FC<SessionsProviderProps> = ({
     dispatch({ type: 'ADD_SESSION', payload: session });
   };
 
+  /**
+   * Remove sessions from the context that storage already dropped
+   * (e.g. sessions folded into a merge)
+   */
+  const removeSessions = (sessionIds: string[]) => {
+    if (sessionIds.length > 0) {
+      dispatch({ type: 'REMOVE_SESSIONS', payload: sessionIds });
+    }
+  };
+
+  /**
+   * Update an existing session. Nothing changes while the edit has
+   * unresolved overlaps; the conflicts are returned instead.
+   */
+  const updateSessionById = async (
+    session: SessionObject,
+    resolution?: ConflictResolution
+  ) => {
+    try {
+      // Update storage first
+      const result = await updateSession(
+        session,
+        resolution,
+        state.sessions.find((stored) => stored.id === session.id)?.date
+      );
+      // Then update the context state
+      removeSessions(result.removedIds);
+      if (result.saved) {
+        dispatch({ type: 'UPDATE_SESSION', payload: result.saved });
+      }
+      return result;
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Failed to update session';
+      dispatch({ type: 'LOAD_ERROR', payload: errorMessage });
+      throw error;
+    }
+  };
+
   /**
    * Delete a session by ID
    */
   const deleteSessionById = async (sessionId: string) => {
     try {
       // Delete from storage first
-      await deleteSession(sessionId);
+      await deleteSession(
+        sessionId,
+        state.sessions.find((session) => session.id === sessionId)?.date
+      );
+      deletedPositions.current.set(
+        sessionId,
+        state.sessions.findIndex((session) => session.id === sessionId)
+      );
       // Then update the context state
       dispatch({ type: 'DELETE_SESSION', payload: sessionId });
     } catch (error) {
@@ -153,6 +280,54 @@ export const SessionsProvider: React.FC<SessionsProviderProps> = ({
     }
   };
 
+  /**
+   * Restore a session from the recently deleted bin
+   */
+  const restoreSession = async (sessionId: string) => {
+    try {
+      const session = await restoreDeletedSession(sessionId);
+      if (session) {
+        const index = deletedPositions.current.get(sessionId);
+        deletedPositions.current.delete(sessionId);
+        dispatch({
+          type: 'RESTORE_SESSION',
+          payload: { session, index: index === -1 ? undefined : index },
+        });
+      }
+      return session;
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Failed to restore session';
+      dispatch({ type: 'LOAD_ERROR', payload: errorMessage });
+      throw error;
+    }
+  };
+
+  /**
+   * Mark sessions as unbilled, billed or paid
+   */
+  const setBillingStatus = async (
+    sessionIds: string[],
+    status: BillingStatus
+  ) => {
+    try {
+      const ids = new Set(sessionIds);
+      const updated = await patchSessions(
+        sessionIds,
+        { billingStatus: status },
+        state.sessions
+          .filter((session) => ids.has(session.id))
+          .map((session) => session.date)
+      );
+      dispatch({ type: 'UPDATE_SESSIONS', payload: updated });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Failed to update sessions';
+      dispatch({ type: 'LOAD_ERROR', payload: errorMessage });
+      throw error;
+    }
+  };
+
   /**
    * Clear error state
    */
@@ -176,7 +351,11 @@ export const SessionsProvider: React.FC<SessionsProviderProps> = ({
     ...state,
     refreshSessions,
     addSession,
+    removeSessions,
+    updateSession: updateSessionById,
     deleteSession: deleteSessionById,
+    restoreSession,
+    setBillingStatus,
     totalHours,
     sessionCount,
     clearError,
@@ -204,7 +383,8 @@ export const useSessionsContext = (): SessionsContextType => {
 };
 
 export const useFilteredSessionsContext = (
-  filterType: 'all' | 'lastWeek' | 'lastMonth' | 'thisWeek' = 'all'
+  filterType: FilterType = 'all',
+  customRange?: DateRange | null
 ) => {
   const {
     sessions,
@@ -228,6 +408,11 @@ export const useFilteredSessionsContext = (
     filteredSessions = sessions.filter((s) =>
       isDateInRange(s.date, startDate, endDate)
     );
+  } else if (filterType === 'custom' && customRange) {
+    const { startDate, endDate } = customRange;
+    filteredSessions = sessions.filter((s) =>
+      isDateInRange(s.date, startDate, endDate)
+    );
   }
   const totalHours = filteredSessions.reduce(
     (total, session) => total + session.hours,
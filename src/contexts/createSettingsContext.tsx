@@ -0,0 +1,136 @@
+import React, {
+  createContext,
+  useContext,
+  useReducer,
+  useEffect,
+  ReactNode,
+} from 'react';
+import { SettingsStore } from '../utils/settingsStore';
+
+interface SettingsState<T> {
+  value: T;
+  loading: boolean;
+}
+
+type SettingsAction<T> =
+  | { type: 'LOAD_START' }
+  | { type: 'SET_VALUE'; payload: T };
+
+export interface SettingsContextType<T> extends SettingsState<T> {
+  /** Save a change to one or more fields */
+  update: (changes: Partial<T>) => Promise<void>;
+
+  /** Reload the setting after app data is cleared or restored */
+  refresh: () => Promise<void>;
+}
+
+// Provider Props
+interface SettingsProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Create the provider and hook for a setting kept in a settings store
+ * @param store - Load and save functions for the setting
+ * @param defaults - Value used until the stored one has loaded
+ * @param name - Context name used in errors, e.g. "Goals" for
+ * useGoalsContext and GoalsProvider
+ * @param apply - Called with each loaded or saved value before components
+ * render with it (optional)
+ * @returns Provider component and hook
+ */
+export const createSettingsContext = <T,>(
+  store: SettingsStore<T>,
+  defaults: T,
+  name: string,
+  apply?: (value: T) => void
+) => {
+  // Initial state
+  const initialState: SettingsState<T> = {
+    value: defaults,
+    loading: true,
+  };
+
+  // Reducer
+  const settingsReducer = (
+    state: SettingsState<T>,
+    action: SettingsAction<T>
+  ): SettingsState<T> => {
+    switch (action.type) {
+      case 'LOAD_START':
+        return {
+          ...state,
+          loading: true,
+        };
+      case 'SET_VALUE':
+        return {
+          ...state,
+          value: action.payload,
+          loading: false,
+        };
+      default:
+        return state;
+    }
+  };
+
+  /**
+   * Load the stored value, applying it before it reaches the state
+   */
+  const loadSetting = async (dispatch: React.Dispatch<SettingsAction<T>>) => {
+    dispatch({ type: 'LOAD_START' });
+    const value = await store.load();
+    apply?.(value);
+    dispatch({ type: 'SET_VALUE', payload: value });
+  };
+
+  // Context
+  const SettingsContext = createContext<SettingsContextType<T> | undefined>(
+    undefined
+  );
+
+  const Provider: React.FC<SettingsProviderProps> = ({ children }) => {
+    const [state, dispatch] = useReducer(settingsReducer, initialState);
+
+    const update = async (changes: Partial<T>) => {
+      const value = { ...state.value, ...changes };
+      await store.save(value);
+      apply?.(value);
+      dispatch({ type: 'SET_VALUE', payload: value });
+    };
+
+    const refresh = () => loadSetting(dispatch);
+
+    // Load the setting on mount
+    useEffect(() => {
+      loadSetting(dispatch);
+    }, []);
+
+    const contextValue: SettingsContextType<T> = {
+      ...state,
+      update,
+      refresh,
+    };
+
+    return (
+      <SettingsContext.Provider value={contextValue}>
+        {children}
+      </SettingsContext.Provider>
+    );
+  };
+
+  /**
+   * Hook to use the settings context
+   * Must be used within the Provider
+   */
+  const useSettingsContext = (): SettingsContextType<T> => {
+    const context = useContext(SettingsContext);
+    if (context === undefined) {
+      throw new Error(
+        `use${name}Context must be used within a ${name}Provider`
+      );
+    }
+    return context;
+  };
+
+  return { Provider, useSettingsContext };
+};
@@ -1,5 +1,12 @@
 import '@testing-library/jest-native/extend-expect';
 
+// Use the in-memory AsyncStorage mock shipped with the package
+jest.mock('@react-native-async-storage/async-storage', () =>
+  jest.requireActual(
+    '@react-native-async-storage/async-storage/jest/async-storage-mock'
+  )
+);
+
 // Mock expo-font
 jest.mock('expo-font', () => ({
   loadAsync: jest.fn(),
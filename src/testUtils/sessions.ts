@@ -0,0 +1,32 @@
+// Session fixtures shared by the test suites
+import { SessionObject } from '../types';
+
+/**
+ * Create a completed session for tests. Fields that aren't overridden are
+ * derived from the ones that are: the date from the clock-in, the clock-in
+ * from the date (9:00 UTC), and the clock-out and hours from each other.
+ * @param overrides - Fields to set on the session
+ * @returns An 8-hour session on 2024-01-10 unless overridden
+ */
+export const createSession = (
+  overrides: Partial<SessionObject> = {}
+): SessionObject => {
+  const date =
+    overrides.date ?? overrides.clockIn?.slice(0, 10) ?? '2024-01-10';
+  const clockIn = overrides.clockIn ?? `${date}T09:00:00.000Z`;
+  const start = new Date(clockIn).getTime();
+  const hours =
+    overrides.hours ??
+    (overrides.clockOut
+      ? (new Date(overrides.clockOut).getTime() - start) / 3600000
+      : 8);
+
+  return {
+    id: 'session-1',
+    date,
+    clockIn,
+    clockOut: new Date(start + hours * 3600000).toISOString(),
+    hours,
+    ...overrides,
+  };
+};
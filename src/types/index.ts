@@ -1,19 +1,96 @@
 // src/types/index.ts
+export interface BreakInterval {
+  /** Break start, ISO 8601 timestamp */
+  start: string;
+  /** Break end, ISO 8601 timestamp; null while the break is still running */
+  end: string | null;
+}
+
+/** Where a clock-in happened, so its day survives travel */
+export interface TimeZoneStamp {
+  /** IANA time zone name, e.g. "America/New_York" */
+  timeZone: string;
+  /** Minutes east of UTC at that moment, e.g. -300 for New York in winter */
+  utcOffset: number;
+}
+
 export interface SessionObject {
   id: string;
+  /** Day the session started (YYYY-MM-DD) in the time zone it started in */
   date: string;
   clockIn: string;
   clockOut: string;
   hours: number;
+  /** Project the session was worked on, undefined for older sessions */
+  projectId?: string;
+  /** Breaks taken during the session; hours already exclude them */
+  breaks?: BreakInterval[];
+  /** IANA time zone at clock-in */
+  timeZone?: string;
+  /** Minutes east of UTC at clock-in */
+  utcOffset?: number;
+  /** Invoice the session was billed on */
+  invoiceId?: string;
+  /** Whether the session has been billed or paid; unset means unbilled */
+  billingStatus?: BillingStatus;
+  /** Free-text description of what was worked on */
+  note?: string;
+  /** Lowercase labels for grouping sessions, e.g. ["design", "meetings"] */
+  tags?: string[];
+  /** Worked time or a kind of leave; unset means worked time */
+  entryType?: EntryType;
+  /** Leave recorded as a whole day; hours hold the standard day length */
+  fullDay?: boolean;
+}
+
+/** What a session records: time worked or time off */
+export type EntryType =
+  | 'work'
+  | 'vacation'
+  | 'sick'
+  | 'holiday'
+  | 'unpaidLeave';
+
+/** The descriptive fields of a session, editable at clock-out */
+export type SessionNotes = Pick<SessionObject, 'note' | 'tags'>;
+
+/** Where a session is in the billing cycle */
+export type BillingStatus = 'unbilled' | 'billed' | 'paid';
+
+export interface DeletedSession {
+  session: SessionObject;
+  /** When the session was deleted, ISO 8601 timestamp */
+  deletedAt: string;
 }
 
 export interface ClockState {
   isClocked: boolean;
   clockInTime: string | null;
+  /** Project selected at clock-in */
+  projectId?: string;
+  /** Breaks taken so far; the last one has a null end while paused */
+  breaks?: BreakInterval[];
+  /** IANA time zone at clock-in */
+  timeZone?: string;
+  /** Minutes east of UTC at clock-in */
+  utcOffset?: number;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  /** Hex color used to tag the project in lists and pickers */
+  color: string;
+  client?: string;
+  /** Overrides the default hourly rate when set */
+  hourlyRate?: number;
+  /** ISO 4217 code of the project's rate; the default rate's when unset */
+  currency?: string;
+  createdAt: string;
 }
 
 export interface NavigationState {
-  currentScreen: 'main' | 'sessionsHistory' | 'settings';
+  currentScreen: 'main' | 'sessionsHistory' | 'analytics' | 'settings';
 }
 
 export interface NavigationMethods {
@@ -22,7 +99,27 @@ export interface NavigationMethods {
   navigateToSettings: () => void;
 }
 
-export type FilterType = 'all' | 'lastWeek' | 'lastMonth' | 'thisWeek';
+export type FilterType =
+  | 'all'
+  | 'lastWeek'
+  | 'lastMonth'
+  | 'thisWeek'
+  | 'custom';
+
+export interface DateRange {
+  startDate: Date;
+  endDate: Date;
+}
+
+/** Quick picks offered by the custom date range picker */
+export type DateRangePreset =
+  | 'last7Days'
+  | 'last14Days'
+  | 'last30Days'
+  | 'last90Days'
+  | 'thisQuarter'
+  | 'yearToDate'
+  | 'previousPayPeriod';
 
 export interface FilterOption {
   type: FilterType;
@@ -36,6 +133,284 @@ export interface SessionFilter {
   endDate?: Date;
 }
 
+/** Default hourly rate set in Settings */
+export interface HourlyRate {
+  amount: number;
+  /** ISO 4217 currency code, e.g. "USD" */
+  currency: string;
+}
+
+/** A default hourly rate and the day it takes effect */
+export interface RateHistoryEntry extends HourlyRate {
+  id: string;
+  /** First day the rate applies (YYYY-MM-DD); the earliest entry also covers older sessions */
+  effectiveFrom: string;
+}
+
+/** Amounts keyed by ISO 4217 currency code, e.g. { USD: 120, EUR: 80 } */
+export type CurrencyTotals = Record<string, number>;
+
+export type ExportFormat = 'csv' | 'json';
+
+export interface ExportedSession extends SessionObject {
+  earnings: number;
+  /** Currency the earnings are in */
+  currency: string;
+  /** Hours by pay tier, present when overtime rules are enabled */
+  overtime?: OvertimeBreakdown;
+}
+
+export interface ExportDocument {
+  format: string;
+  version: number;
+  exportedAt: string;
+  range: { startDate: string; endDate: string } | null;
+  hourlyRate: number;
+  /** Currency of the default hourly rate */
+  currency: string;
+  totals: {
+    sessions: number;
+    /** Hours worked, without leave */
+    hours: number;
+    /** Hours of each kind of leave, present when there is any */
+    leaveHours?: Partial<Record<EntryType, number>>;
+    /** Earnings per currency; mixed currencies are never summed */
+    earnings: CurrencyTotals;
+  } & Partial<OvertimeBreakdown>;
+  /** Effective-dated default rates the earnings were priced with */
+  rateHistory?: RateHistoryEntry[];
+  /** Rules used for the overtime split, present when enabled */
+  overtimeRules?: OvertimeRules;
+  sessions: ExportedSession[];
+}
+
+/** How invoice line items are grouped */
+export type InvoiceGrouping = 'day' | 'project';
+
+export interface InvoiceLineItem {
+  /** Day (YYYY-MM-DD) or project id the line groups by */
+  key: string;
+  description: string;
+  hours: number;
+  /** Average hourly rate across the line's sessions */
+  rate: number;
+  amount: number;
+  sessionIds: string[];
+}
+
+export interface Invoice {
+  id: string;
+
+  /** Sequential invoice number, e.g. "INV-0007" */
+  number: string;
+
+  /** When the invoice was created, ISO 8601 timestamp */
+  issuedAt: string;
+
+  /** Days the invoiced sessions were selected from (YYYY-MM-DD) */
+  range: { startDate: string; endDate: string } | null;
+
+  /** Project the sessions were selected from, undefined for all projects */
+  projectId?: string;
+
+  /** Who the invoice is addressed to */
+  billTo?: string;
+
+  grouping: InvoiceGrouping;
+
+  /** ISO 4217 code; every line item is in this currency */
+  currency: string;
+
+  lineItems: InvoiceLineItem[];
+
+  subtotal: number;
+
+  /** Tax rate as a percentage, e.g. 13 for 13% */
+  taxRate: number;
+
+  tax: number;
+
+  total: number;
+}
+
+export type ImportRowStatus = 'new' | 'duplicate' | 'overlap' | 'invalid';
+
+export interface ImportRow {
+  /** 1-based row number in the source file (header excluded) */
+  rowNumber: number;
+
+  /** Parsed session, null when the row could not be parsed */
+  session: SessionObject | null;
+
+  status: ImportRowStatus;
+
+  /** Reasons the row is invalid */
+  errors: string[];
+
+  /** Ids of existing or earlier imported sessions this row conflicts with */
+  conflictingSessionIds: string[];
+}
+
+/** Hours and sessions recorded under one tag */
+export interface TagTotal {
+  tag: string;
+  hours: number;
+  sessionCount: number;
+}
+
+/** Hours worked in one chart period (day, week or month) */
+export interface PeriodTotal {
+  /** Period start as YYYY-MM-DD, or YYYY-MM for months */
+  key: string;
+  label: string;
+  hours: number;
+}
+
+/** How to save a session that overlaps existing ones */
+export type ConflictResolution = 'merge' | 'trim' | 'keepBoth';
+
+export interface SessionConflict {
+  /** Stored session that overlaps the one being saved */
+  session: SessionObject;
+
+  /** ISO 8601 bounds of the shared time */
+  overlapStart: string;
+  overlapEnd: string;
+
+  overlapHours: number;
+}
+
+export interface SessionSaveResult {
+  /** Session as written to storage, null when nothing was saved */
+  saved: SessionObject | null;
+
+  /** Overlaps found; without a resolution nothing is saved when non-empty */
+  conflicts: SessionConflict[];
+
+  /** Ids of stored sessions folded into a merged session */
+  removedIds: string[];
+}
+
+/** Day of the week, 0 (Sunday) to 6 (Saturday) like Date.getDay() */
+export type WeekDay = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+export interface CalendarPreferences {
+  /** First day of the week for week ranges and charts */
+  weekStartsOn: WeekDay;
+
+  /** BCP 47 locale for dates and times, null to follow the device */
+  locale: string | null;
+
+  /** Use a 24-hour clock instead of AM/PM */
+  use24HourClock: boolean;
+}
+
+export interface OvertimeRules {
+  /** Whether hours past the thresholds are paid at a higher rate */
+  enabled: boolean;
+
+  /** Hours per day before overtime starts, null for no daily overtime */
+  dailyThreshold: number | null;
+
+  /** Hours per day before double time starts, null for no daily double time */
+  dailyDoubleTimeThreshold: number | null;
+
+  /** Hours per week before overtime starts, null for no weekly overtime */
+  weeklyThreshold: number | null;
+
+  /** Hours per week before double time starts, null for no weekly double time */
+  weeklyDoubleTimeThreshold: number | null;
+
+  /** Rate multiplier for overtime hours, e.g. 1.5 */
+  overtimeMultiplier: number;
+
+  /** Rate multiplier for double time hours, e.g. 2 */
+  doubleTimeMultiplier: number;
+}
+
+export interface ReminderSettings {
+  /** Days the clock-in and end-of-day reminders fire on */
+  workDays: WeekDay[];
+
+  /** Remind to clock in at the start of each work day */
+  clockInReminderEnabled: boolean;
+
+  /** Minutes after midnight, e.g. 540 for 9:00 */
+  clockInReminderTime: number;
+
+  /** Nudge when a session has been running for a long time */
+  longSessionReminderEnabled: boolean;
+
+  /** Hours clocked in before the nudge */
+  longSessionReminderHours: number;
+
+  /** Remind at the end of work days when no time was logged */
+  endOfDayReminderEnabled: boolean;
+
+  /** Minutes after midnight, e.g. 1080 for 18:00 */
+  endOfDayReminderTime: number;
+}
+
+export type ReminderKind = 'clockIn' | 'longSession' | 'endOfDay' | 'goal';
+
+/** A local notification to schedule */
+export interface PlannedReminder {
+  /** Stable identifier, so rescheduling replaces instead of duplicating */
+  id: string;
+  kind: ReminderKind;
+  title: string;
+  body: string;
+  /** When the notification fires */
+  date: Date;
+}
+
+export interface HourGoals {
+  /** Hours to work per day, null for no daily goal */
+  dailyHours: number | null;
+
+  /** Hours to work per week, null for no weekly goal */
+  weeklyHours: number | null;
+
+  /** Send a notification when the running session reaches a goal */
+  notifyWhenReached: boolean;
+}
+
+/** Hours logged towards the goals, including the running session */
+export interface GoalProgress {
+  todayHours: number;
+  weekHours: number;
+}
+
+export interface LeavePolicy {
+  /** Hours a full day of leave counts as */
+  standardDayHours: number;
+
+  /** PTO hours earned per hour worked, e.g. 0.05 for 1 hour per 20 worked */
+  accrualRate: number;
+
+  /** PTO hours available before any accrual, e.g. carried over */
+  openingBalance: number;
+}
+
+/** PTO earned from worked hours and taken as vacation or sick leave */
+export interface PtoBalance {
+  accrued: number;
+  used: number;
+  balance: number;
+}
+
+/** Hours split by pay tier */
+export interface OvertimeBreakdown {
+  regularHours: number;
+  overtimeHours: number;
+  doubleTimeHours: number;
+}
+
+export interface OvertimeSplit extends OvertimeBreakdown {
+  /** Each session's share of the split, keyed by session id */
+  bySession: Record<string, OvertimeBreakdown>;
+}
+
 export interface AppState {
   /** Whether the user is currently clocked in */
   isClocked: boolean;
@@ -43,6 +418,15 @@ export interface AppState {
   /** Clock-in time as Date object, null if not clocked in */
   clockInTime: Date | null;
 
+  /** Project of the running session, null if none was picked */
+  projectId: string | null;
+
+  /** Breaks taken during the running session */
+  breaks: BreakInterval[];
+
+  /** Time zone the running session was clocked in from */
+  clockInZone: TimeZoneStamp | null;
+
   sessions: SessionObject[];
 
   loading: boolean;
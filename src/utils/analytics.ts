@@ -0,0 +1,137 @@
+// Hour totals for the analytics charts. Only worked time is charted;
+// leave has its own totals on the history screen.
+import { PeriodTotal, SessionObject, WeekDay } from '../types';
+import { parseLocalDate, toLocalDateString } from './timeUtils';
+import {
+  getActiveLocale,
+  getCalendarPreferences,
+  getWeekDayLabels,
+  getWeekStart,
+} from './calendar';
+import { isWorkEntry } from './leave';
+
+/**
+ * Round to 2 decimal places like the rest of the hour calculations
+ */
+const roundHours = (hours: number): number => Math.round(hours * 100) / 100;
+
+/**
+ * Sum worked hours per session date
+ * @param sessions - Sessions to total
+ * @returns Map of YYYY-MM-DD date to hours
+ */
+export const sumHoursByDate = (
+  sessions: SessionObject[]
+): Map<string, number> =>
+  sessions.filter(isWorkEntry).reduce((totals, session) => {
+    totals.set(session.date, (totals.get(session.date) ?? 0) + session.hours);
+    return totals;
+  }, new Map<string, number>());
+
+/**
+ * Daily hours for the current week, starting on the configured first day
+ * @param sessions - Sessions to total
+ * @param now - Reference date (defaults to today)
+ * @param weekStartsOn - First day of the week (defaults to the preference)
+ * @returns Seven daily totals
+ */
+export const getDailyTotals = (
+  sessions: SessionObject[],
+  now: Date = new Date(),
+  weekStartsOn: WeekDay = getCalendarPreferences().weekStartsOn
+): PeriodTotal[] => {
+  const totals = sumHoursByDate(sessions);
+  const weekStart = getWeekStart(now, weekStartsOn);
+
+  return getWeekDayLabels(weekStartsOn).map((label, offset) => {
+    const day = new Date(weekStart);
+    day.setDate(weekStart.getDate() + offset);
+    const key = toLocalDateString(day);
+    return { key, label, hours: roundHours(totals.get(key) ?? 0) };
+  });
+};
+
+/**
+ * Weekly hours for the most recent weeks, oldest first
+ * @param sessions - Sessions to total
+ * @param weeks - Number of weeks including the current one
+ * @param now - Reference date (defaults to today)
+ * @param weekStartsOn - First day of the week (defaults to the preference)
+ * @returns One total per week, keyed by the week's first day
+ */
+export const getWeeklyTotals = (
+  sessions: SessionObject[],
+  weeks = 12,
+  now: Date = new Date(),
+  weekStartsOn: WeekDay = getCalendarPreferences().weekStartsOn
+): PeriodTotal[] => {
+  const totals = sessions.filter(isWorkEntry).reduce((acc, session) => {
+    const weekKey = toLocalDateString(
+      getWeekStart(parseLocalDate(session.date), weekStartsOn)
+    );
+    acc.set(weekKey, (acc.get(weekKey) ?? 0) + session.hours);
+    return acc;
+  }, new Map<string, number>());
+
+  const currentWeekStart = getWeekStart(now, weekStartsOn);
+  return Array.from({ length: weeks }, (_, index) => {
+    const weekStart = new Date(currentWeekStart);
+    weekStart.setDate(currentWeekStart.getDate() - (weeks - 1 - index) * 7);
+    const key = toLocalDateString(weekStart);
+    return {
+      key,
+      label: weekStart.toLocaleDateString(getActiveLocale(), {
+        month: 'numeric',
+        day: 'numeric',
+      }),
+      hours: roundHours(totals.get(key) ?? 0),
+    };
+  });
+};
+
+/**
+ * Monthly hours for the most recent months, oldest first
+ * @param sessions - Sessions to total
+ * @param months - Number of months including the current one
+ * @param now - Reference date (defaults to today)
+ * @returns One total per month, keyed by YYYY-MM
+ */
+export const getMonthlyTotals = (
+  sessions: SessionObject[],
+  months = 12,
+  now: Date = new Date()
+): PeriodTotal[] => {
+  const totals = sessions.filter(isWorkEntry).reduce((acc, session) => {
+    const monthKey = session.date.slice(0, 7);
+    acc.set(monthKey, (acc.get(monthKey) ?? 0) + session.hours);
+    return acc;
+  }, new Map<string, number>());
+
+  return Array.from({ length: months }, (_, index) => {
+    const month = new Date(
+      now.getFullYear(),
+      now.getMonth() - (months - 1 - index),
+      1
+    );
+    const key = toLocalDateString(month).slice(0, 7);
+    return {
+      key,
+      label: month.toLocaleDateString(getActiveLocale(), { month: 'short' }),
+      hours: roundHours(totals.get(key) ?? 0),
+    };
+  });
+};
+
+/**
+ * Sessions attributed to one day, earliest first
+ * @param sessions - Sessions to search
+ * @param date - Day in YYYY-MM-DD format
+ * @returns That day's sessions
+ */
+export const getSessionsForDate = (
+  sessions: SessionObject[],
+  date: string
+): SessionObject[] =>
+  sessions
+    .filter((session) => session.date === date)
+    .sort((a, b) => a.clockIn.localeCompare(b.clockIn));
@@ -0,0 +1,142 @@
+// Clearing all app data, with a snapshot backup that can be restored
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { clearStoredData, getStorageKeys } from './storage';
+import { getAllSessionStorageKeys } from './sessionStore';
+import { getProjectStorageKeys } from './projectStorage';
+import { getDeletedSessionsKeys } from './deletedSessions';
+import { getCalendarStorageKeys } from './calendarStorage';
+import { getOvertimeStorageKeys } from './overtimeStorage';
+import { getInvoiceStorageKeys } from './invoiceStorage';
+import { getStaleClockInStorageKeys } from './staleClockInStorage';
+import { getReminderStorageKeys } from './reminderStorage';
+import { getGoalStorageKeys } from './goalStorage';
+import { getLeavePolicyStorageKeys } from './leavePolicyStorage';
+import { handleStorageError, safeAsyncOperation } from './errorHandling';
+
+// Storage key for the default hourly rate history set in Settings
+export const HOURLY_RATE_KEY = 'HOURLY_RATE';
+
+// Storage key for the snapshot taken before data is cleared
+const BACKUP_KEY = 'DATA_BACKUP';
+
+export interface DataBackup {
+  /** When the snapshot was taken, ISO 8601 timestamp */
+  createdAt: string;
+  /** Raw AsyncStorage entries at the time of the snapshot */
+  entries: [string, string][];
+}
+
+/**
+ * Storage keys that are not session data but belong to the app
+ */
+const getSettingsKeys = (): string[] => [
+  HOURLY_RATE_KEY,
+  getProjectStorageKeys().PROJECTS_KEY,
+  getDeletedSessionsKeys().DELETED_SESSIONS_KEY,
+  getCalendarStorageKeys().CALENDAR_PREFERENCES_KEY,
+  getOvertimeStorageKeys().OVERTIME_RULES_KEY,
+  getInvoiceStorageKeys().INVOICES_KEY,
+  getInvoiceStorageKeys().INVOICE_SEQUENCE_KEY,
+  getStaleClockInStorageKeys().STALE_CLOCK_IN_HOURS_KEY,
+  getReminderStorageKeys().REMINDER_SETTINGS_KEY,
+  getGoalStorageKeys().HOUR_GOALS_KEY,
+  getLeavePolicyStorageKeys().LEAVE_POLICY_KEY,
+];
+
+/**
+ * Every storage key the app currently uses, excluding the backup itself
+ */
+const getAppDataKeys = async (): Promise<string[]> => [
+  getStorageKeys().CLOCK_STATE_KEY,
+  ...(await getAllSessionStorageKeys()),
+  ...getSettingsKeys(),
+];
+
+/**
+ * Snapshot every app key into the backup slot, replacing any older backup
+ * @returns The backup that was written
+ */
+export const createDataBackup = async (): Promise<DataBackup> => {
+  const entries = await AsyncStorage.multiGet(await getAppDataKeys());
+  const backup: DataBackup = {
+    createdAt: new Date().toISOString(),
+    entries: entries.filter((entry): entry is [string, string] =>
+      Boolean(entry[1])
+    ),
+  };
+  await AsyncStorage.setItem(BACKUP_KEY, JSON.stringify(backup));
+  return backup;
+};
+
+/**
+ * Load the backup taken before the last "Clear All Data"
+ * @returns The backup, or null if there is none
+ */
+export const loadDataBackup = async (): Promise<DataBackup | null> =>
+  safeAsyncOperation(
+    async () => {
+      const data = await AsyncStorage.getItem(BACKUP_KEY);
+      if (!data) {
+        return null;
+      }
+      const parsed = JSON.parse(data);
+      if (
+        !parsed ||
+        typeof parsed.createdAt !== 'string' ||
+        !Array.isArray(parsed.entries)
+      ) {
+        return null;
+      }
+      return parsed as DataBackup;
+    },
+    null,
+    'load data backup'
+  );
+
+/**
+ * Back up and then clear every app key: clock state, sessions, hourly
+ * rate, overtime rules, projects and the recently deleted bin
+ * @returns The backup written before clearing
+ */
+export const clearAllAppData = async (): Promise<DataBackup> => {
+  try {
+    const backup = await createDataBackup();
+    await clearStoredData();
+    await AsyncStorage.multiRemove(getSettingsKeys());
+    return backup;
+  } catch (error) {
+    const appError = handleStorageError(error as Error, 'clear all data');
+    throw new Error(appError.message);
+  }
+};
+
+/**
+ * Replace current app data with the contents of the backup. The backup is
+ * kept so it can be restored again.
+ * @returns True if a backup was restored, false if there was none
+ */
+export const restoreDataBackup = async (): Promise<boolean> => {
+  try {
+    const backup = await loadDataBackup();
+    if (!backup) {
+      return false;
+    }
+
+    await AsyncStorage.multiRemove(await getAppDataKeys());
+    if (backup.entries.length > 0) {
+      await AsyncStorage.multiSet(backup.entries);
+    }
+    return true;
+  } catch (error) {
+    const appError = handleStorageError(error as Error, 'restore data backup');
+    throw new Error(appError.message);
+  }
+};
+
+/**
+ * Get backup storage key for testing purposes
+ */
+export const getBackupKeys = () => ({
+  BACKUP_KEY,
+  HOURLY_RATE_KEY,
+});
@@ -0,0 +1,47 @@
+// Billing status of sessions: unbilled, billed and paid work
+import { BillingStatus, CurrencyTotals, SessionObject } from '../types';
+import { priceSession, PricingOptions } from './exportData';
+import { sumByCurrency } from './currency';
+
+export const BILLING_STATUS_LABELS: Record<BillingStatus, string> = {
+  unbilled: 'Unbilled',
+  billed: 'Billed',
+  paid: 'Paid',
+};
+
+/**
+ * Where a session is in the billing cycle. Sessions put on an invoice
+ * before billing status was tracked count as billed.
+ * @param session - Session to check
+ * @returns The session's billing status
+ */
+export const getBillingStatus = (session: SessionObject): BillingStatus =>
+  session.billingStatus ?? (session.invoiceId ? 'billed' : 'unbilled');
+
+/**
+ * Split income into money still owed (unbilled or billed but unpaid) and
+ * money already paid, per currency
+ * @param sessions - Sessions to total
+ * @param pricing - How sessions are priced, as for exports
+ * @returns Outstanding and paid totals per currency
+ */
+export const sumIncomeByBillingStatus = (
+  sessions: SessionObject[],
+  pricing: PricingOptions
+): { outstanding: CurrencyTotals; paid: CurrencyTotals } => {
+  const priced = sessions.map((session) => ({
+    status: getBillingStatus(session),
+    ...priceSession(session, pricing),
+  }));
+  const toAmounts = (items: typeof priced) =>
+    items.map(({ earnings, currency }) => ({ amount: earnings, currency }));
+
+  return {
+    outstanding: sumByCurrency(
+      toAmounts(priced.filter(({ status }) => status !== 'paid'))
+    ),
+    paid: sumByCurrency(
+      toAmounts(priced.filter(({ status }) => status === 'paid'))
+    ),
+  };
+};
@@ -0,0 +1,91 @@
+// Calendar preferences: week start day, locale and 12/24-hour clock
+import { CalendarPreferences, WeekDay } from '../types';
+
+export const DEFAULT_CALENDAR_PREFERENCES: CalendarPreferences = {
+  weekStartsOn: 0,
+  locale: null,
+  use24HourClock: false,
+};
+
+/**
+ * Locales offered in Settings; null follows the device
+ */
+export const CALENDAR_LOCALES: { locale: string | null; label: string }[] = [
+  { locale: null, label: 'Device' },
+  { locale: 'en-US', label: 'English (US)' },
+  { locale: 'en-GB', label: 'English (UK)' },
+  { locale: 'de-DE', label: 'Deutsch' },
+  { locale: 'es-ES', label: 'Español' },
+  { locale: 'fr-FR', label: 'Français' },
+];
+
+// Preferences used by the formatting and week helpers. Kept at module
+// level so plain utilities don't need them threaded through every call.
+let activePreferences: CalendarPreferences = DEFAULT_CALENDAR_PREFERENCES;
+
+/**
+ * Get the calendar preferences currently in effect
+ */
+export const getCalendarPreferences = (): CalendarPreferences =>
+  activePreferences;
+
+/**
+ * Make preferences the ones used by date and time formatting
+ * @param preferences - Preferences to apply
+ */
+export const setCalendarPreferences = (
+  preferences: CalendarPreferences
+): void => {
+  activePreferences = preferences;
+};
+
+/**
+ * Locale for Intl formatting; undefined lets the runtime use the device's
+ */
+export const getActiveLocale = (): string | undefined =>
+  activePreferences.locale ?? undefined;
+
+/**
+ * Get the first day of the week containing a date
+ * @param date - Any day in the week
+ * @param weekStartsOn - First day of the week (defaults to the preference)
+ * @returns Local midnight of the week's first day
+ */
+export const getWeekStart = (
+  date: Date,
+  weekStartsOn: WeekDay = activePreferences.weekStartsOn
+): Date => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const offset = (start.getDay() - weekStartsOn + 7) % 7;
+  start.setDate(start.getDate() - offset);
+  return start;
+};
+
+/**
+ * Short weekday names in week order, e.g. ["Mon", "Tue", ...]
+ * @param weekStartsOn - First day of the week (defaults to the preference)
+ * @returns Seven localized weekday labels
+ */
+export const getWeekDayLabels = (
+  weekStartsOn: WeekDay = activePreferences.weekStartsOn
+): string[] => {
+  // 2024-01-07 was a Sunday
+  const sunday = new Date(2024, 0, 7);
+  return Array.from({ length: 7 }, (_, index) => {
+    const day = new Date(sunday);
+    day.setDate(sunday.getDate() + ((weekStartsOn + index) % 7));
+    return day.toLocaleDateString(getActiveLocale(), { weekday: 'short' });
+  });
+};
+
+/**
+ * Format the time of day using the locale and clock preferences
+ * @param date - Date to format
+ * @returns Time string (e.g., "09:30 AM" or "09:30")
+ */
+export const formatClockTime = (date: Date): string =>
+  date.toLocaleTimeString(getActiveLocale(), {
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: !activePreferences.use24HourClock,
+  });
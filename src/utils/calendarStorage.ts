@@ -0,0 +1,34 @@
+// AsyncStorage wrapper functions for calendar preferences
+import { CalendarPreferences } from '../types';
+import { validateCalendarPreferences } from './validation';
+import { DEFAULT_CALENDAR_PREFERENCES } from './calendar';
+import { createSettingsStore } from './settingsStore';
+
+// Storage key
+const CALENDAR_PREFERENCES_KEY = 'CALENDAR_PREFERENCES';
+
+const calendarPreferencesStore = createSettingsStore<CalendarPreferences>(
+  CALENDAR_PREFERENCES_KEY,
+  DEFAULT_CALENDAR_PREFERENCES,
+  validateCalendarPreferences,
+  'calendar preferences'
+);
+
+/**
+ * Load stored calendar preferences
+ * @returns Saved preferences, or the defaults if none are valid
+ */
+export const loadCalendarPreferences = calendarPreferencesStore.load;
+
+/**
+ * Save calendar preferences
+ * @param preferences - Preferences to store
+ */
+export const saveCalendarPreferences = calendarPreferencesStore.save;
+
+/**
+ * Get storage keys for testing purposes
+ */
+export const getCalendarStorageKeys = () => ({
+  CALENDAR_PREFERENCES_KEY,
+});
@@ -0,0 +1,58 @@
+// Correcting the start time of the running session
+import { BreakInterval, SessionObject } from '../types';
+import { isWorkEntry } from './leave';
+
+/**
+ * End of the last stored session before a moment, the earliest a running
+ * session may be moved back to
+ * @param sessions - Stored sessions in any order; leave entries are ignored
+ * @param before - Only sessions that started before this count
+ *   (defaults to now)
+ * @returns Latest clock-out, or null when there is no earlier session
+ */
+export const getPreviousSessionEnd = (
+  sessions: SessionObject[],
+  before: Date = new Date()
+): Date | null => {
+  const ends = sessions
+    .filter(
+      (session) =>
+        isWorkEntry(session) &&
+        new Date(session.clockIn).getTime() < before.getTime()
+    )
+    .map((session) => new Date(session.clockOut).getTime());
+  return ends.length > 0 ? new Date(Math.max(...ends)) : null;
+};
+
+/**
+ * Check a new clock-in time for the running session
+ * @param clockInTime - Picked clock-in time
+ * @param previousSessionEnd - End of the session before it, null for none
+ * @param breaks - Breaks taken so far in the running session
+ * @param now - Reference time (defaults to now)
+ * @returns A message describing the problem, or null when the time is valid
+ */
+export const getClockInTimeError = (
+  clockInTime: Date,
+  previousSessionEnd: Date | null,
+  breaks: BreakInterval[] = [],
+  now: Date = new Date()
+): string | null => {
+  if (clockInTime.getTime() > now.getTime()) {
+    return 'Clock-in cannot be in the future';
+  }
+  if (
+    previousSessionEnd &&
+    clockInTime.getTime() < previousSessionEnd.getTime()
+  ) {
+    return 'Clock-in cannot be before your previous session ended';
+  }
+  if (
+    breaks.some(
+      (interval) => new Date(interval.start).getTime() < clockInTime.getTime()
+    )
+  ) {
+    return 'Clock-in must be before your first break';
+  }
+  return null;
+};
@@ -0,0 +1,79 @@
+// Currency codes, locale-aware amount formatting and per-currency totals
+import { CurrencyTotals } from '../types';
+import { getActiveLocale } from './calendar';
+
+export const DEFAULT_CURRENCY = 'USD';
+
+/**
+ * Currencies offered in Settings and the project form
+ */
+export const CURRENCIES = ['USD', 'EUR', 'GBP', 'INR', 'NPR', 'CAD', 'AUD'];
+
+/**
+ * Check that a value is a well-formed ISO 4217 currency code
+ * @param code - Value to check
+ * @returns True for three upper-case letters Intl accepts as a currency
+ */
+export const isValidCurrencyCode = (code: any): code is string => {
+  if (typeof code !== 'string' || !/^[A-Z]{3}$/.test(code)) {
+    return false;
+  }
+  try {
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: code });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Format an amount in a currency for the active locale
+ * @param amount - Amount to format
+ * @param currency - ISO 4217 currency code
+ * @returns Formatted amount (e.g., "$1,234.50" or "1.234,50 €")
+ */
+export const formatCurrency = (
+  amount: number,
+  currency: string = DEFAULT_CURRENCY
+): string =>
+  new Intl.NumberFormat(getActiveLocale(), {
+    style: 'currency',
+    currency,
+  }).format(amount);
+
+/**
+ * Total amounts per currency without converting between them
+ * @param amounts - Amounts tagged with their currency
+ * @returns Totals keyed by currency code, rounded to 2 decimal places
+ */
+export const sumByCurrency = (
+  amounts: { amount: number; currency: string }[]
+): CurrencyTotals => {
+  const totals: CurrencyTotals = {};
+  amounts.forEach(({ amount, currency }) => {
+    totals[currency] = (totals[currency] ?? 0) + amount;
+  });
+  Object.keys(totals).forEach((currency) => {
+    totals[currency] = Math.round(totals[currency] * 100) / 100;
+  });
+  return totals;
+};
+
+/**
+ * Format per-currency totals, one entry per currency
+ * @param totals - Totals keyed by currency code
+ * @param fallbackCurrency - Currency to show a zero total in when empty
+ * @returns Formatted amounts, largest first
+ */
+export const formatCurrencyTotals = (
+  totals: CurrencyTotals,
+  fallbackCurrency: string = DEFAULT_CURRENCY
+): string[] => {
+  const entries = Object.entries(totals);
+  if (entries.length === 0) {
+    return [formatCurrency(0, fallbackCurrency)];
+  }
+  return entries
+    .sort(([, a], [, b]) => b - a)
+    .map(([currency, amount]) => formatCurrency(amount, currency));
+};
@@ -1,5 +1,10 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { loadStoredSessions, getStorageKeys } from './storage';
+import {
+  getAllSessionStorageKeys,
+  loadAllSessions,
+  prepareSessionsInsert,
+} from './sessionStore';
 import { SessionObject } from '../types';
 
 export const createTestSessions = (): SessionObject[] => {
@@ -39,11 +44,10 @@ export const createTestSessions = (): SessionObject[] => {
  */
 export const addTestSessions = async (): Promise<void> => {
   try {
-    const { WORK_SESSIONS_KEY } = getStorageKeys();
     const testSessions = createTestSessions();
 
     console.log('Adding test sessions:', testSessions);
-    await AsyncStorage.setItem(WORK_SESSIONS_KEY, JSON.stringify(testSessions));
+    await AsyncStorage.multiSet(await prepareSessionsInsert(testSessions));
     console.log('Test sessions added successfully');
   } catch (error) {
     console.error('Failed to add test sessions:', error);
@@ -56,8 +60,7 @@ export const addTestSessions = async (): Promise<void> => {
  */
 export const clearAllSessions = async (): Promise<void> => {
   try {
-    const { WORK_SESSIONS_KEY } = getStorageKeys();
-    await AsyncStorage.removeItem(WORK_SESSIONS_KEY);
+    await AsyncStorage.multiRemove(await getAllSessionStorageKeys());
     console.log('All sessions cleared');
   } catch (error) {
     console.error('Failed to clear sessions:', error);
@@ -77,22 +80,16 @@ export const inspectStorage = async (): Promise<void> => {
     console.log('All AsyncStorage keys:', allKeys);
 
     // Get storage keys
-    const { WORK_SESSIONS_KEY, CLOCK_STATE_KEY } = getStorageKeys();
-    console.log('Expected keys:', { WORK_SESSIONS_KEY, CLOCK_STATE_KEY });
+    const { WORK_SESSIONS_INDEX_KEY, CLOCK_STATE_KEY } = getStorageKeys();
+    console.log('Expected keys:', { WORK_SESSIONS_INDEX_KEY, CLOCK_STATE_KEY });
 
-    // Check sessions
-    const sessionsData = await AsyncStorage.getItem(WORK_SESSIONS_KEY);
-    console.log('Raw sessions data:', sessionsData);
+    // Check session partitions
+    const indexData = await AsyncStorage.getItem(WORK_SESSIONS_INDEX_KEY);
+    console.log('Raw session index:', indexData);
 
-    if (sessionsData) {
-      try {
-        const parsedSessions = JSON.parse(sessionsData);
-        console.log('Parsed sessions:', parsedSessions);
-        console.log('Sessions count:', parsedSessions?.length || 0);
-      } catch (parseError) {
-        console.error('Failed to parse sessions data:', parseError);
-      }
-    }
+    const parsedSessions = await loadAllSessions();
+    console.log('Parsed sessions:', parsedSessions);
+    console.log('Sessions count:', parsedSessions.length);
 
     // Check clock state
     const clockData = await AsyncStorage.getItem(CLOCK_STATE_KEY);
@@ -175,20 +172,11 @@ export const quickDebug = async (): Promise<{
   error?: string;
 }> => {
   try {
-    const { WORK_SESSIONS_KEY } = getStorageKeys();
+    const { WORK_SESSIONS_INDEX_KEY } = getStorageKeys();
     const allKeys = await AsyncStorage.getAllKeys();
-    const hasSessionsKey = allKeys.includes(WORK_SESSIONS_KEY);
-    const rawData = await AsyncStorage.getItem(WORK_SESSIONS_KEY);
-
-    let sessionsCount = 0;
-    if (rawData) {
-      try {
-        const parsed = JSON.parse(rawData);
-        sessionsCount = Array.isArray(parsed) ? parsed.length : 0;
-      } catch {
-        // Ignore parse errors for this quick check
-      }
-    }
+    const hasSessionsKey = allKeys.includes(WORK_SESSIONS_INDEX_KEY);
+    const rawData = await AsyncStorage.getItem(WORK_SESSIONS_INDEX_KEY);
+    const sessionsCount = (await loadAllSessions()).length;
 
     return {
       hasSessionsKey,
@@ -0,0 +1,155 @@
+// "Recently deleted" bin for sessions, kept under its own storage key
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DeletedSession, SessionObject } from '../types';
+import { validateSessionData } from './validation';
+import { safeAsyncOperation } from './errorHandling';
+
+// Storage key
+const DELETED_SESSIONS_KEY = 'RECENTLY_DELETED_SESSIONS';
+
+/**
+ * Number of days a deleted session can still be restored
+ */
+export const DELETED_RETENTION_DAYS = 30;
+
+const RETENTION_MS = DELETED_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+/**
+ * Drop bin entries older than the retention window
+ * @param entries - Bin entries
+ * @param now - Current time
+ * @returns Entries that can still be restored
+ */
+export const pruneDeletedSessions = (
+  entries: DeletedSession[],
+  now: Date = new Date()
+): DeletedSession[] =>
+  entries.filter(
+    (entry) =>
+      now.getTime() - new Date(entry.deletedAt).getTime() < RETENTION_MS
+  );
+
+/**
+ * Days left before a bin entry is purged
+ * @param entry - Bin entry
+ * @param now - Current time
+ * @returns Whole days remaining (at least 0)
+ */
+export const getDaysUntilPurge = (
+  entry: DeletedSession,
+  now: Date = new Date()
+): number => {
+  const remaining =
+    new Date(entry.deletedAt).getTime() + RETENTION_MS - now.getTime();
+  return Math.max(0, Math.ceil(remaining / (24 * 60 * 60 * 1000)));
+};
+
+/**
+ * Read and validate the bin, without pruning
+ */
+const readDeletedSessions = async (): Promise<DeletedSession[]> => {
+  const data = await AsyncStorage.getItem(DELETED_SESSIONS_KEY);
+  if (!data) {
+    return [];
+  }
+  const parsed = JSON.parse(data);
+  if (!Array.isArray(parsed)) {
+    return [];
+  }
+  return parsed.filter(
+    (entry) =>
+      entry &&
+      typeof entry.deletedAt === 'string' &&
+      !isNaN(new Date(entry.deletedAt).getTime()) &&
+      validateSessionData(entry.session)
+  );
+};
+
+/**
+ * Load the restorable deleted sessions, most recently deleted first.
+ * Expired entries are purged from storage as a side effect.
+ * @returns Bin entries within the retention window
+ */
+export const loadDeletedSessions = async (): Promise<DeletedSession[]> =>
+  safeAsyncOperation(
+    async () => {
+      const entries = await readDeletedSessions();
+      const kept = pruneDeletedSessions(entries);
+      if (kept.length !== entries.length) {
+        await AsyncStorage.setItem(DELETED_SESSIONS_KEY, JSON.stringify(kept));
+      }
+      return kept.sort((a, b) => (a.deletedAt < b.deletedAt ? 1 : -1));
+    },
+    [],
+    'load deleted sessions'
+  );
+
+/**
+ * Build the write that moves sessions into the bin, so callers can batch
+ * it with removing them from history
+ * @param sessions - Sessions being deleted
+ * @param deletedAt - Deletion time, defaults to now
+ * @returns Key/value pair for AsyncStorage.multiSet
+ */
+export const prepareDeletedSessionsAdd = async (
+  sessions: SessionObject[],
+  deletedAt: Date = new Date()
+): Promise<[string, string]> => {
+  const ids = new Set(sessions.map((session) => session.id));
+  const existing = pruneDeletedSessions(await readDeletedSessions(), deletedAt);
+  const added = sessions.map((session) => ({
+    session,
+    deletedAt: deletedAt.toISOString(),
+  }));
+  return [
+    DELETED_SESSIONS_KEY,
+    JSON.stringify([
+      ...added,
+      ...existing.filter((entry) => !ids.has(entry.session.id)),
+    ]),
+  ];
+};
+
+/**
+ * Move sessions into the bin
+ * @param sessions - Sessions that were just deleted
+ * @param deletedAt - Deletion time, defaults to now
+ */
+export const addDeletedSessions = async (
+  sessions: SessionObject[],
+  deletedAt: Date = new Date()
+): Promise<void> => {
+  if (sessions.length === 0) {
+    return;
+  }
+  await AsyncStorage.setItem(
+    ...(await prepareDeletedSessionsAdd(sessions, deletedAt))
+  );
+};
+
+/**
+ * Take sessions out of the bin
+ * @param sessionIds - Ids of the sessions to take out
+ * @returns The sessions that were in the bin
+ */
+export const takeDeletedSessions = async (
+  sessionIds: string[]
+): Promise<SessionObject[]> => {
+  const ids = new Set(sessionIds);
+  const existing = await readDeletedSessions();
+  const taken = existing.filter((entry) => ids.has(entry.session.id));
+  if (taken.length > 0) {
+    await AsyncStorage.setItem(
+      DELETED_SESSIONS_KEY,
+      JSON.stringify(existing.filter((entry) => !ids.has(entry.session.id)))
+    );
+  }
+  return taken.map((entry) => entry.session);
+};
+
+/**
+ * Get deleted sessions storage key for testing purposes
+ */
+export const getDeletedSessionsKeys = () => ({
+  DELETED_SESSIONS_KEY,
+});
@@ -0,0 +1,411 @@
+// Session export serializers (CSV and JSON)
+import {
+  SessionObject,
+  ExportDocument,
+  ExportFormat,
+  HourlyRate,
+  OvertimeRules,
+  OvertimeSplit,
+  Project,
+  RateHistoryEntry,
+} from '../types';
+import { toLocalDateString } from './timeUtils';
+import {
+  calculateOvertimePay,
+  getSessionBreakdown,
+  sumOvertimeBreakdowns,
+} from './overtime';
+import { DEFAULT_CURRENCY, sumByCurrency } from './currency';
+import { getRateOnDate } from './rateHistory';
+import {
+  ENTRY_TYPE_LABELS,
+  getEntryType,
+  isPaidEntry,
+  isWorkEntry,
+  sumHoursByEntryType,
+} from './leave';
+
+/**
+ * Version of the JSON export document. Bump when the shape changes so the
+ * importer can tell which layout it is reading.
+ */
+export const EXPORT_FORMAT_VERSION = 2;
+
+/**
+ * Identifier written into every JSON export document
+ */
+export const EXPORT_FORMAT_ID = 'kaamko-sessions';
+
+export interface ExportOptions {
+  /** Default hourly rate used to compute earnings (0 when no rate is set) */
+  hourlyRate: number;
+
+  /** Currency of the default hourly rate, USD when unset */
+  currency?: string;
+
+  /**
+   * Effective-dated default rates. When given, each session uses the rate
+   * in effect on its date instead of `hourlyRate` and `currency`.
+   */
+  rateHistory?: RateHistoryEntry[];
+
+  /** Projects used to resolve per-project rates and names */
+  projects?: Project[];
+
+  /** Start of the exported range, undefined for all sessions */
+  startDate?: Date;
+
+  /** End of the exported range, undefined for all sessions */
+  endDate?: Date;
+
+  /** Export timestamp, defaults to now */
+  exportedAt?: Date;
+
+  /**
+   * Overtime rules and the split to price sessions with. The split should
+   * cover all sessions, not just the exported ones, so a range that starts
+   * mid-week still sees the hours worked earlier that week.
+   */
+  overtime?: {
+    rules: OvertimeRules;
+    split: OvertimeSplit;
+  };
+}
+
+/** The export options that decide how much a session earns */
+export type PricingOptions = Pick<
+  ExportOptions,
+  'hourlyRate' | 'currency' | 'rateHistory' | 'projects' | 'overtime'
+>;
+
+const CSV_HEADERS = [
+  'Date',
+  'Type',
+  'Clock In',
+  'Clock Out',
+  'Hours',
+  'Hourly Rate',
+  'Earnings',
+  'Currency',
+  'Project',
+  'Client',
+];
+
+// Inserted after "Hours" when overtime rules are enabled
+const CSV_OVERTIME_HEADERS = [
+  'Regular Hours',
+  'Overtime Hours',
+  'Double Time Hours',
+];
+
+/**
+ * Round an amount to 2 decimal places
+ */
+const roundCurrency = (amount: number): number =>
+  Math.round(amount * 100) / 100;
+
+/**
+ * Calculate earnings for a session at the given rate
+ * @param session - Session to calculate earnings for
+ * @param hourlyRate - Hourly rate to apply
+ * @returns Earnings rounded to 2 decimal places
+ */
+export const calculateSessionEarnings = (
+  session: SessionObject,
+  hourlyRate: number
+): number => roundCurrency(session.hours * hourlyRate);
+
+/**
+ * Default rate a session is paid at: the one in effect on its date when a
+ * rate history is given, otherwise the flat default rate
+ */
+const getDefaultRate = (
+  session: SessionObject,
+  options: PricingOptions
+): HourlyRate => {
+  const fallback = {
+    amount: options.hourlyRate,
+    currency: options.currency ?? DEFAULT_CURRENCY,
+  };
+  return options.rateHistory
+    ? (getRateOnDate(options.rateHistory, session.date) ?? fallback)
+    : fallback;
+};
+
+/**
+ * Overtime settings to export with, undefined when overtime is off
+ */
+const getActiveOvertime = (options: PricingOptions) =>
+  options.overtime?.rules.enabled ? options.overtime : undefined;
+
+/**
+ * Calculate a session's earnings for export, paying overtime hours at
+ * their multiplier when overtime rules are enabled. Paid leave is paid at
+ * the base rate and unpaid leave earns nothing.
+ * @param session - Session to calculate earnings for
+ * @param hourlyRate - Session's base hourly rate
+ * @param options - Pricing options
+ * @returns Earnings rounded to 2 decimal places
+ */
+const calculateExportEarnings = (
+  session: SessionObject,
+  hourlyRate: number,
+  options: PricingOptions
+): number => {
+  if (!isPaidEntry(session)) {
+    return 0;
+  }
+  const overtime = isWorkEntry(session)
+    ? getActiveOvertime(options)
+    : undefined;
+  return overtime
+    ? calculateOvertimePay(
+        getSessionBreakdown(overtime.split, session),
+        hourlyRate,
+        overtime.rules
+      )
+    : calculateSessionEarnings(session, hourlyRate);
+};
+
+/**
+ * Find the project a session belongs to
+ * @param session - Session to look up
+ * @param projects - Known projects
+ * @returns The session's project, or undefined when unassigned or deleted
+ */
+export const findSessionProject = (
+  session: SessionObject,
+  projects: Project[] = []
+): Project | undefined =>
+  session.projectId
+    ? projects.find((project) => project.id === session.projectId)
+    : undefined;
+
+/**
+ * Resolve the hourly rate for a session: the project's own rate when it has
+ * one, otherwise the default rate
+ * @param session - Session to resolve the rate for
+ * @param defaultRate - Default hourly rate
+ * @param projects - Known projects
+ * @returns Hourly rate for the session
+ */
+export const resolveSessionRate = (
+  session: SessionObject,
+  defaultRate: number,
+  projects: Project[] = []
+): number => findSessionProject(session, projects)?.hourlyRate ?? defaultRate;
+
+/**
+ * Resolve the currency a session is paid in. A project's currency goes
+ * with its own rate; sessions on the default rate use its currency.
+ * @param session - Session to resolve the currency for
+ * @param defaultCurrency - Currency of the default hourly rate
+ * @param projects - Known projects
+ * @returns ISO 4217 currency code
+ */
+export const resolveSessionCurrency = (
+  session: SessionObject,
+  defaultCurrency: string,
+  projects: Project[] = []
+): string => {
+  const project = findSessionProject(session, projects);
+  return project?.hourlyRate !== undefined
+    ? (project.currency ?? defaultCurrency)
+    : defaultCurrency;
+};
+
+/**
+ * Price a session the way exports and invoices do: the project's rate or
+ * the default rate in effect on its date, with overtime multipliers when
+ * overtime rules are enabled
+ * @param session - Session to price
+ * @param options - Pricing options
+ * @returns Base hourly rate, earnings and the currency they're in
+ */
+export const priceSession = (
+  session: SessionObject,
+  options: PricingOptions
+): { rate: number; earnings: number; currency: string } => {
+  const defaultRate = getDefaultRate(session, options);
+  const rate = resolveSessionRate(
+    session,
+    defaultRate.amount,
+    options.projects
+  );
+  return {
+    rate,
+    earnings: calculateExportEarnings(session, rate, options),
+    currency: resolveSessionCurrency(
+      session,
+      defaultRate.currency,
+      options.projects
+    ),
+  };
+};
+
+/**
+ * Escape a single CSV field following RFC 4180: fields containing commas,
+ * quotes or line breaks are wrapped in quotes and inner quotes are doubled
+ * @param value - Raw field value
+ * @returns Escaped field
+ */
+export const escapeCsvField = (value: string | number): string => {
+  const text = String(value);
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+};
+
+/**
+ * Serialize sessions to RFC 4180 CSV (CRLF line endings, header row first)
+ * @param sessions - Sessions to export
+ * @param options - Export options
+ * @returns CSV document
+ */
+export const sessionsToCsv = (
+  sessions: SessionObject[],
+  options: ExportOptions
+): string => {
+  const overtime = getActiveOvertime(options);
+  const overtimeAt = CSV_HEADERS.indexOf('Hours') + 1;
+  const headers = overtime
+    ? [
+        ...CSV_HEADERS.slice(0, overtimeAt),
+        ...CSV_OVERTIME_HEADERS,
+        ...CSV_HEADERS.slice(overtimeAt),
+      ]
+    : CSV_HEADERS;
+
+  const rows = sessions.map((session) => {
+    const project = findSessionProject(session, options.projects);
+    const { rate, earnings, currency } = priceSession(session, options);
+    const breakdown = overtime
+      ? getSessionBreakdown(overtime.split, session)
+      : undefined;
+    return [
+      session.date,
+      ENTRY_TYPE_LABELS[getEntryType(session)],
+      session.clockIn,
+      session.clockOut,
+      session.hours.toFixed(2),
+      ...(breakdown
+        ? [
+            breakdown.regularHours.toFixed(2),
+            breakdown.overtimeHours.toFixed(2),
+            breakdown.doubleTimeHours.toFixed(2),
+          ]
+        : []),
+      rate.toFixed(2),
+      earnings.toFixed(2),
+      currency,
+      project?.name ?? '',
+      project?.client ?? '',
+    ];
+  });
+
+  return [headers, ...rows]
+    .map((row) => row.map(escapeCsvField).join(','))
+    .join('\r\n')
+    .concat('\r\n');
+};
+
+/**
+ * Build the versioned JSON export document
+ * @param sessions - Sessions to export
+ * @param options - Export options
+ * @returns Export document
+ */
+export const buildExportDocument = (
+  sessions: SessionObject[],
+  options: ExportOptions
+): ExportDocument => {
+  const overtime = getActiveOvertime(options);
+  const exportedSessions = sessions.map((session) => {
+    const { earnings, currency } = priceSession(session, options);
+    return {
+      ...session,
+      earnings,
+      currency,
+      ...(overtime
+        ? { overtime: getSessionBreakdown(overtime.split, session) }
+        : {}),
+    };
+  });
+
+  // Hours worked and leave are totalled apart, as on the history screen
+  const { work, ...leave } = sumHoursByEntryType(sessions);
+  const leaveHours = Object.fromEntries(
+    Object.entries(leave).filter(([, hours]) => hours > 0)
+  );
+
+  return {
+    format: EXPORT_FORMAT_ID,
+    version: EXPORT_FORMAT_VERSION,
+    exportedAt: (options.exportedAt ?? new Date()).toISOString(),
+    range:
+      options.startDate && options.endDate
+        ? {
+            startDate: toLocalDateString(options.startDate),
+            endDate: toLocalDateString(options.endDate),
+          }
+        : null,
+    hourlyRate: options.hourlyRate,
+    currency: options.currency ?? DEFAULT_CURRENCY,
+    totals: {
+      sessions: sessions.length,
+      hours: work,
+      ...(Object.keys(leaveHours).length > 0 ? { leaveHours } : {}),
+      earnings: sumByCurrency(
+        exportedSessions.map((s) => ({
+          amount: s.earnings,
+          currency: s.currency,
+        }))
+      ),
+      ...(overtime ? sumOvertimeBreakdowns(overtime.split, sessions) : {}),
+    },
+    ...(options.rateHistory ? { rateHistory: options.rateHistory } : {}),
+    ...(overtime ? { overtimeRules: overtime.rules } : {}),
+    sessions: exportedSessions,
+  };
+};
+
+/**
+ * Serialize sessions to the versioned JSON export document
+ * @param sessions - Sessions to export
+ * @param options - Export options
+ * @returns Pretty-printed JSON document
+ */
+export const sessionsToJson = (
+  sessions: SessionObject[],
+  options: ExportOptions
+): string => JSON.stringify(buildExportDocument(sessions, options), null, 2);
+
+/**
+ * Serialize sessions in the requested format
+ * @param format - Export format
+ * @param sessions - Sessions to export
+ * @param options - Export options
+ * @returns File content, file name and mime type
+ */
+export const serializeSessions = (
+  format: ExportFormat,
+  sessions: SessionObject[],
+  options: ExportOptions
+): { content: string; fileName: string; mimeType: string } => {
+  const stamp = toLocalDateString(options.exportedAt ?? new Date());
+
+  if (format === 'csv') {
+    return {
+      content: sessionsToCsv(sessions, options),
+      fileName: `kaamko-sessions-${stamp}.csv`,
+      mimeType: 'text/csv',
+    };
+  }
+
+  return {
+    content: sessionsToJson(sessions, options),
+    fileName: `kaamko-sessions-${stamp}.json`,
+    mimeType: 'application/json',
+  };
+};
@@ -0,0 +1,34 @@
+// AsyncStorage wrapper functions for hour goals
+import { HourGoals } from '../types';
+import { validateHourGoals } from './validation';
+import { DEFAULT_HOUR_GOALS } from './goals';
+import { createSettingsStore } from './settingsStore';
+
+// Storage key
+const HOUR_GOALS_KEY = 'HOUR_GOALS';
+
+const hourGoalsStore = createSettingsStore<HourGoals>(
+  HOUR_GOALS_KEY,
+  DEFAULT_HOUR_GOALS,
+  validateHourGoals,
+  'hour goals'
+);
+
+/**
+ * Load stored hour goals
+ * @returns Saved goals, or the defaults if none are valid
+ */
+export const loadHourGoals = hourGoalsStore.load;
+
+/**
+ * Save hour goals
+ * @param goals - Goals to store
+ */
+export const saveHourGoals = hourGoalsStore.save;
+
+/**
+ * Get storage keys for testing purposes
+ */
+export const getGoalStorageKeys = () => ({
+  HOUR_GOALS_KEY,
+});
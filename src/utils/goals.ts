@@ -0,0 +1,163 @@
+// Daily and weekly hour goals and progress towards them
+import {
+  BreakInterval,
+  GoalProgress,
+  HourGoals,
+  PlannedReminder,
+  SessionObject,
+  WeekDay,
+} from '../types';
+import { getCalendarPreferences, getWeekStart } from './calendar';
+import { isWorkEntry } from './leave';
+import { REMINDER_ID_PREFIX } from './reminders';
+import { calculateHours, toLocalDateString } from './timeUtils';
+
+export const DEFAULT_HOUR_GOALS: HourGoals = {
+  dailyHours: null,
+  weeklyHours: null,
+  notifyWhenReached: false,
+};
+
+const roundHours = (hours: number): number => Math.round(hours * 100) / 100;
+
+/**
+ * Hours worked today and this week; leave doesn't count. The running
+ * session counts towards the day it started on, like it will once it is
+ * saved.
+ * @param sessions - Stored sessions
+ * @param clockInTime - Start of the running session, null when clocked out
+ * @param breaks - Breaks taken in the running session
+ * @param now - Reference time (defaults to now)
+ * @param weekStartsOn - First day of the week (defaults to the preference)
+ * @returns Hours today and this week
+ */
+export const getGoalProgress = (
+  sessions: SessionObject[],
+  clockInTime: Date | null,
+  breaks: BreakInterval[] = [],
+  now: Date = new Date(),
+  weekStartsOn: WeekDay = getCalendarPreferences().weekStartsOn
+): GoalProgress => {
+  const today = toLocalDateString(now);
+  const weekStart = toLocalDateString(getWeekStart(now, weekStartsOn));
+
+  const logged = sessions.reduce(
+    (totals, session) => {
+      if (
+        isWorkEntry(session) &&
+        session.date >= weekStart &&
+        session.date <= today
+      ) {
+        totals.weekHours += session.hours;
+        if (session.date === today) {
+          totals.todayHours += session.hours;
+        }
+      }
+      return totals;
+    },
+    { todayHours: 0, weekHours: 0 }
+  );
+
+  if (clockInTime) {
+    const runningDate = toLocalDateString(clockInTime);
+    const runningHours = Math.max(
+      calculateHours(clockInTime.toISOString(), now.toISOString(), breaks),
+      0
+    );
+    if (runningDate >= weekStart) {
+      logged.weekHours += runningHours;
+      if (runningDate === today) {
+        logged.todayHours += runningHours;
+      }
+    }
+  }
+
+  return {
+    todayHours: roundHours(logged.todayHours),
+    weekHours: roundHours(logged.weekHours),
+  };
+};
+
+/**
+ * Share of a goal reached, for progress rings
+ * @param hours - Hours logged
+ * @param target - Goal in hours, null for no goal
+ * @returns 0 to 1, or null when there is no goal
+ */
+export const getGoalFraction = (
+  hours: number,
+  target: number | null
+): number | null => (target ? Math.min(hours / target, 1) : null);
+
+/**
+ * Short progress label, e.g. "3.5 / 8h" or "3.5h" without a goal
+ * @param hours - Hours logged
+ * @param target - Goal in hours, null for no goal
+ * @returns Label text
+ */
+export const formatGoalProgress = (
+  hours: number,
+  target: number | null
+): string =>
+  target ? `${roundHours(hours)} / ${target}h` : `${roundHours(hours)}h`;
+
+/**
+ * Notifications for when the running session will reach the daily and
+ * weekly goals. Nothing is planned while paused: the plan is rebuilt when
+ * the session resumes.
+ * @param goals - Hour goals
+ * @param progress - Hours logged so far, including the running session
+ * @param clockInTime - Start of the running session, null when clocked out
+ * @param breaks - Breaks taken in the running session
+ * @param now - Reference time (defaults to now)
+ * @param weekStartsOn - First day of the week (defaults to the preference)
+ * @returns Reminders for goals not reached yet
+ */
+export const planGoalReminders = (
+  goals: HourGoals,
+  progress: GoalProgress,
+  clockInTime: Date | null,
+  breaks: BreakInterval[] = [],
+  now: Date = new Date(),
+  weekStartsOn: WeekDay = getCalendarPreferences().weekStartsOn
+): PlannedReminder[] => {
+  const isOnBreak = breaks.length > 0 && breaks[breaks.length - 1].end === null;
+  if (!goals.notifyWhenReached || !clockInTime || isOnBreak) {
+    return [];
+  }
+
+  const today = toLocalDateString(now);
+  const weekStart = toLocalDateString(getWeekStart(now, weekStartsOn));
+  const runningDate = toLocalDateString(clockInTime);
+  const reachedAt = (hours: number, target: number): Date =>
+    new Date(now.getTime() + (target - hours) * 60 * 60 * 1000);
+
+  const reminders: PlannedReminder[] = [];
+  if (
+    goals.dailyHours &&
+    runningDate === today &&
+    progress.todayHours < goals.dailyHours
+  ) {
+    reminders.push({
+      id: `${REMINDER_ID_PREFIX}goal-daily-${today}`,
+      kind: 'goal',
+      title: 'Daily goal reached',
+      body: `You've worked ${goals.dailyHours} hours today.`,
+      date: reachedAt(progress.todayHours, goals.dailyHours),
+    });
+  }
+  if (
+    goals.weeklyHours &&
+    runningDate >= weekStart &&
+    progress.weekHours < goals.weeklyHours
+  ) {
+    reminders.push({
+      id: `${REMINDER_ID_PREFIX}goal-weekly-${weekStart}`,
+      kind: 'goal',
+      title: 'Weekly goal reached',
+      body: `You've worked ${goals.weeklyHours} hours this week.`,
+      date: reachedAt(progress.weekHours, goals.weeklyHours),
+    });
+  }
+  return reminders;
+};
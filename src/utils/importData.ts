@@ -0,0 +1,369 @@
+// Session import parsers (CSV and JSON) with conflict detection
+import {
+  SessionObject,
+  ImportRow,
+  ExportFormat,
+  BreakInterval,
+  BillingStatus,
+  EntryType,
+} from '../types';
+import {
+  validateSessionData,
+  validateBreaks,
+  validateTimeZoneStamp,
+} from './validation';
+import { calculateHours } from './timeUtils';
+import { getSessionDate } from './timeZone';
+import {
+  isDuplicateSession,
+  findOverlappingSessions,
+} from './sessionConflicts';
+import { EXPORT_FORMAT_ID, EXPORT_FORMAT_VERSION } from './exportData';
+import { BILLING_STATUS_LABELS } from './billing';
+import { buildSessionNotes } from './sessionFilters';
+import { ENTRY_TYPE_LABELS, ENTRY_TYPES } from './leave';
+
+/**
+ * Parse RFC 4180 CSV text into rows of fields. Handles quoted fields,
+ * escaped quotes and both CRLF and LF line endings.
+ * @param text - CSV text
+ * @returns Array of rows, blank lines skipped
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+};
+
+/**
+ * Normalize a CSV header so "Clock In", "clock_in" and "clockIn" match
+ */
+const normalizeHeader = (header: string): string =>
+  header.toLowerCase().replace(/[^a-z]/g, '');
+
+/**
+ * Map an exported "Type" column value back to its entry type
+ * @param label - Label such as "Vacation"
+ * @returns Matching entry type, or undefined for unknown labels
+ */
+const parseEntryTypeLabel = (label = ''): EntryType | undefined =>
+  ENTRY_TYPES.find(
+    (type) =>
+      ENTRY_TYPE_LABELS[type].toLowerCase() === label.trim().toLowerCase()
+  );
+
+/**
+ * Build an import row from raw session fields
+ */
+const buildImportRow = (
+  rowNumber: number,
+  fields: {
+    id?: unknown;
+    date?: unknown;
+    clockIn?: unknown;
+    clockOut?: unknown;
+    hours?: unknown;
+    projectId?: unknown;
+    breaks?: unknown;
+    timeZone?: unknown;
+    utcOffset?: unknown;
+    invoiceId?: unknown;
+    billingStatus?: unknown;
+    note?: unknown;
+    tags?: unknown;
+    entryType?: unknown;
+    fullDay?: unknown;
+  },
+  fallbackId: string
+): ImportRow => {
+  const invalid = (error: string): ImportRow => ({
+    rowNumber,
+    session: null,
+    status: 'invalid',
+    errors: [error],
+    conflictingSessionIds: [],
+  });
+
+  const clockIn = new Date(String(fields.clockIn ?? ''));
+  const clockOut = new Date(String(fields.clockOut ?? ''));
+  if (isNaN(clockIn.getTime()) || isNaN(clockOut.getTime())) {
+    return invalid('Clock in and clock out must be valid timestamps');
+  }
+
+  const clockInIso = clockIn.toISOString();
+  const clockOutIso = clockOut.toISOString();
+  const rawHours =
+    fields.hours === undefined || fields.hours === ''
+      ? NaN
+      : Number(fields.hours);
+  const breaks: BreakInterval[] = validateBreaks(fields.breaks)
+    ? fields.breaks
+    : [];
+  // Files exported before time zones were recorded get the device's on save
+  const clockInZone =
+    fields.timeZone !== undefined &&
+    validateTimeZoneStamp(fields.timeZone, fields.utcOffset)
+      ? {
+          timeZone: fields.timeZone as string,
+          utcOffset: fields.utcOffset as number,
+        }
+      : null;
+  // Cleaned the same way as notes typed into the session dialog
+  const notes = buildSessionNotes({
+    note: typeof fields.note === 'string' ? fields.note : undefined,
+    tags:
+      Array.isArray(fields.tags) &&
+      fields.tags.every((tag: unknown) => typeof tag === 'string')
+        ? fields.tags
+        : undefined,
+  });
+
+  const session: SessionObject = {
+    id:
+      typeof fields.id === 'string' && fields.id.trim()
+        ? fields.id
+        : fallbackId,
+    date:
+      typeof fields.date === 'string' && fields.date.trim()
+        ? fields.date.trim()
+        : getSessionDate(clockIn, clockInZone?.utcOffset),
+    clockIn: clockInIso,
+    clockOut: clockOutIso,
+    hours: isNaN(rawHours)
+      ? calculateHours(clockInIso, clockOutIso, breaks)
+      : rawHours,
+    ...(typeof fields.projectId === 'string' && fields.projectId
+      ? { projectId: fields.projectId }
+      : {}),
+    ...(breaks.length > 0 ? { breaks } : {}),
+    ...(clockInZone ?? {}),
+    // Keep billing so restored sessions can't be invoiced a second time
+    ...(typeof fields.invoiceId === 'string' && fields.invoiceId
+      ? { invoiceId: fields.invoiceId }
+      : {}),
+    ...(typeof fields.billingStatus === 'string' &&
+    fields.billingStatus in BILLING_STATUS_LABELS
+      ? { billingStatus: fields.billingStatus as BillingStatus }
+      : {}),
+    ...notes,
+    ...(ENTRY_TYPES.includes(fields.entryType as EntryType)
+      ? { entryType: fields.entryType as EntryType }
+      : {}),
+    ...(typeof fields.fullDay === 'boolean' ? { fullDay: fields.fullDay } : {}),
+  };
+
+  if (!validateSessionData(session)) {
+    return invalid(
+      'Session data is invalid (check the date format and that clock out is after clock in)'
+    );
+  }
+
+  return {
+    rowNumber,
+    session,
+    status: 'new',
+    errors: [],
+    conflictingSessionIds: [],
+  };
+};
+
+/**
+ * Parse CSV import content. Expects a header row with at least
+ * "Clock In" and "Clock Out" columns; "Date" and "Hours" are optional.
+ */
+const parseCsvImport = (content: string, idPrefix: string): ImportRow[] => {
+  const [headerRow, ...dataRows] = parseCsv(content);
+  if (!headerRow) {
+    return [];
+  }
+
+  const headers = headerRow.map(normalizeHeader);
+  const column = (name: string) => headers.indexOf(name);
+  const clockInIndex = column('clockin');
+  const clockOutIndex = column('clockout');
+  if (clockInIndex === -1 || clockOutIndex === -1) {
+    throw new Error('CSV file must have "Clock In" and "Clock Out" columns');
+  }
+  const dateIndex = column('date');
+  const hoursIndex = column('hours');
+  const typeIndex = column('type');
+
+  return dataRows.map((row, index) =>
+    buildImportRow(
+      index + 1,
+      {
+        date: dateIndex === -1 ? undefined : row[dateIndex],
+        clockIn: row[clockInIndex],
+        clockOut: row[clockOutIndex],
+        hours: hoursIndex === -1 ? undefined : row[hoursIndex],
+        entryType:
+          typeIndex === -1 ? undefined : parseEntryTypeLabel(row[typeIndex]),
+      },
+      `${idPrefix}-${index + 1}`
+    )
+  );
+};
+
+/**
+ * Parse JSON import content: either the app's own export document or a
+ * bare array of session objects
+ */
+const parseJsonImport = (content: string, idPrefix: string): ImportRow[] => {
+  const parsed = JSON.parse(content);
+  let records: unknown[];
+
+  if (Array.isArray(parsed)) {
+    records = parsed;
+  } else if (parsed && parsed.format === EXPORT_FORMAT_ID) {
+    if (typeof parsed.version !== 'number') {
+      throw new Error('Export file is missing its version');
+    }
+    if (parsed.version > EXPORT_FORMAT_VERSION) {
+      throw new Error(
+        'This export was created by a newer version of the app. Please update to import it.'
+      );
+    }
+    records = Array.isArray(parsed.sessions) ? parsed.sessions : [];
+  } else {
+    throw new Error('JSON file is not a Kaamko export');
+  }
+
+  return records.map((record, index) =>
+    buildImportRow(
+      index + 1,
+      record && typeof record === 'object' ? record : {},
+      `${idPrefix}-${index + 1}`
+    )
+  );
+};
+
+/**
+ * Detect the format of import content from the file name or its contents
+ * @param content - File content
+ * @param fileName - Optional file name
+ * @returns Detected format
+ */
+export const detectImportFormat = (
+  content: string,
+  fileName?: string
+): ExportFormat => {
+  const lowerName = fileName?.toLowerCase() ?? '';
+  if (lowerName.endsWith('.json')) return 'json';
+  if (lowerName.endsWith('.csv')) return 'csv';
+  const firstChar = content.trim().charAt(0);
+  return firstChar === '{' || firstChar === '[' ? 'json' : 'csv';
+};
+
+/**
+ * Parse import content into rows. Each row is validated but not yet checked
+ * against existing sessions.
+ * @param content - File content
+ * @param fileName - Optional file name used to detect the format
+ * @returns Parsed rows
+ */
+export const parseImportContent = (
+  content: string,
+  fileName?: string
+): ImportRow[] => {
+  const idPrefix = `import-session-${Date.now()}`;
+  const cleanContent = content.replace(/^\uFEFF/, '');
+  return detectImportFormat(cleanContent, fileName) === 'json'
+    ? parseJsonImport(cleanContent, idPrefix)
+    : parseCsvImport(cleanContent, idPrefix);
+};
+
+/**
+ * Mark rows that duplicate or overlap existing sessions, or earlier rows in
+ * the same import. Rows whose id is already taken get a new one, so an
+ * accepted duplicate is saved next to the session it matches.
+ * @param rows - Parsed import rows
+ * @param existingSessions - Sessions already stored
+ * @param idPrefix - Prefix for replacement ids
+ * @returns Rows with conflict status filled in
+ */
+export const detectImportConflicts = (
+  rows: ImportRow[],
+  existingSessions: SessionObject[],
+  idPrefix = `import-session-${Date.now()}`
+): ImportRow[] => {
+  const seen: SessionObject[] = [...existingSessions];
+  const takenIds = new Set(existingSessions.map((session) => session.id));
+
+  return rows.map((row) => {
+    if (row.status === 'invalid' || !row.session) {
+      return row;
+    }
+
+    const parsed = row.session;
+    const duplicates = seen.filter((other) =>
+      isDuplicateSession(parsed, other)
+    );
+    const session = takenIds.has(parsed.id)
+      ? { ...parsed, id: `${idPrefix}-${row.rowNumber}` }
+      : parsed;
+    takenIds.add(session.id);
+
+    if (duplicates.length > 0) {
+      return {
+        ...row,
+        session,
+        status: 'duplicate',
+        conflictingSessionIds: duplicates.map((other) => other.id),
+      };
+    }
+
+    const overlaps = findOverlappingSessions(session, seen);
+    seen.push(session);
+    if (overlaps.length > 0) {
+      return {
+        ...row,
+        session,
+        status: 'overlap',
+        conflictingSessionIds: overlaps.map((other) => other.id),
+      };
+    }
+
+    return { ...row, session };
+  });
+};
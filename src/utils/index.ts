@@ -1,6 +1,17 @@
 export * from './timeUtils';
+export * from './calendar';
+export * from './timeZone';
 export * from './sessionFilters';
 export * from './validation';
 export * from './storage';
 export * from './errorHandling';
 export * from './performance';
+export * from './sessionStore';
+export * from './exportData';
+export * from './sessionConflicts';
+export * from './importData';
+export * from './projectStorage';
+export * from './calendarStorage';
+export * from './deletedSessions';
+export * from './backup';
+export * from './analytics';
@@ -0,0 +1,108 @@
+// AsyncStorage wrapper functions for invoices
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Invoice } from '../types';
+import { validateInvoice } from './validation';
+import { formatInvoiceNumber, InvoiceDraft } from './invoices';
+import { prepareSessionsPatch } from './sessionStore';
+import {
+  handleStorageError,
+  safeAsyncOperation,
+  retryOperation,
+} from './errorHandling';
+
+// Storage keys
+const INVOICES_KEY = 'INVOICES';
+const INVOICE_SEQUENCE_KEY = 'INVOICE_SEQUENCE';
+
+/**
+ * Read and validate the stored invoices array
+ */
+const readInvoices = async (): Promise<Invoice[]> => {
+  const invoicesData = await AsyncStorage.getItem(INVOICES_KEY);
+  if (invoicesData) {
+    const parsed = JSON.parse(invoicesData);
+    return Array.isArray(parsed) ? parsed.filter(validateInvoice) : [];
+  }
+  return [];
+};
+
+/**
+ * Read the sequence number of the last invoice issued
+ */
+const readSequence = async (): Promise<number> => {
+  const sequence = parseInt(
+    (await AsyncStorage.getItem(INVOICE_SEQUENCE_KEY)) ?? '0',
+    10
+  );
+  return isNaN(sequence) ? 0 : sequence;
+};
+
+/**
+ * Load all stored invoices, newest first
+ * @returns Array of stored invoices
+ */
+export const loadInvoices = async (): Promise<Invoice[]> => {
+  const invoices = await safeAsyncOperation(readInvoices, [], 'load invoices');
+  return [...invoices].sort((a, b) => b.issuedAt.localeCompare(a.issuedAt));
+};
+
+/**
+ * Number the next invoice will get, for previews
+ * @returns Invoice number, e.g. "INV-0008"
+ */
+export const getNextInvoiceNumber = async (): Promise<string> =>
+  formatInvoiceNumber(
+    (await safeAsyncOperation(readSequence, 0, 'load invoice sequence')) + 1
+  );
+
+/**
+ * Number and store an invoice and mark its sessions as invoiced, in one
+ * write so a failed save never leaves an invoice without its sessions
+ * @param draft - Invoice built by buildInvoiceDraft
+ * @returns The saved invoice
+ */
+export const saveInvoice = async (draft: InvoiceDraft): Promise<Invoice> => {
+  if (draft.lineItems.length === 0) {
+    throw new Error('An invoice needs at least one session');
+  }
+
+  try {
+    return await retryOperation(
+      async () => {
+        const sequence = (await readSequence()) + 1;
+        const { sessionIds, ...rest } = draft;
+        const invoice: Invoice = {
+          ...rest,
+          id: `invoice-${sequence}`,
+          number: formatInvoiceNumber(sequence),
+          issuedAt: new Date().toISOString(),
+        };
+
+        const { pairs: sessionPairs } = await prepareSessionsPatch(sessionIds, {
+          invoiceId: invoice.id,
+          billingStatus: 'billed',
+        });
+
+        await AsyncStorage.multiSet([
+          [INVOICES_KEY, JSON.stringify([...(await readInvoices()), invoice])],
+          [INVOICE_SEQUENCE_KEY, String(sequence)],
+          ...sessionPairs,
+        ]);
+        return invoice;
+      },
+      2,
+      500
+    );
+  } catch (error) {
+    const appError = handleStorageError(error as Error, 'save invoice');
+    throw new Error(appError.message);
+  }
+};
+
+/**
+ * Get storage keys for testing purposes
+ */
+export const getInvoiceStorageKeys = () => ({
+  INVOICES_KEY,
+  INVOICE_SEQUENCE_KEY,
+});
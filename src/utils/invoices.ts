@@ -0,0 +1,249 @@
+// Invoice building: selecting sessions, grouping line items and rendering
+import {
+  Invoice,
+  InvoiceGrouping,
+  InvoiceLineItem,
+  SessionObject,
+} from '../types';
+import { findSessionProject, priceSession, PricingOptions } from './exportData';
+import { getActiveLocale } from './calendar';
+import { formatCurrency } from './currency';
+import { getBillingStatus } from './billing';
+import { isWorkEntry } from './leave';
+import { formatDate, parseLocalDate } from './timeUtils';
+
+export interface InvoiceSelection {
+  /** First day to include (YYYY-MM-DD), undefined for no lower bound */
+  startDate?: string;
+  /** Last day to include (YYYY-MM-DD), undefined for no upper bound */
+  endDate?: string;
+  /** Only sessions on this project, undefined for all projects */
+  projectId?: string;
+}
+
+export interface InvoiceDraftOptions extends PricingOptions {
+  grouping: InvoiceGrouping;
+  /** Tax rate as a percentage, e.g. 13 for 13% */
+  taxRate: number;
+  billTo?: string;
+  selection: InvoiceSelection;
+}
+
+/** An invoice before it is numbered and saved */
+export type InvoiceDraft = Omit<Invoice, 'id' | 'number' | 'issuedAt'> & {
+  sessionIds: string[];
+};
+
+const roundCurrency = (amount: number): number =>
+  Math.round(amount * 100) / 100;
+
+/**
+ * Format an invoice number from its place in the sequence
+ * @param sequence - 1 for the first invoice, 2 for the next, ...
+ * @returns Invoice number, e.g. "INV-0007"
+ */
+export const formatInvoiceNumber = (sequence: number): string =>
+  `INV-${String(sequence).padStart(4, '0')}`;
+
+/**
+ * Pick the sessions that can go on an invoice: worked time in the date
+ * range, on the project when one is given, and not already billed or paid
+ * @param sessions - All sessions
+ * @param selection - Range and project to select
+ * @returns Matching sessions, oldest first
+ */
+export const selectInvoiceSessions = (
+  sessions: SessionObject[],
+  selection: InvoiceSelection
+): SessionObject[] =>
+  sessions
+    .filter(
+      (session) =>
+        isWorkEntry(session) &&
+        getBillingStatus(session) === 'unbilled' &&
+        (!selection.startDate || session.date >= selection.startDate) &&
+        (!selection.endDate || session.date <= selection.endDate) &&
+        (!selection.projectId || session.projectId === selection.projectId)
+    )
+    .sort(
+      (a, b) =>
+        a.date.localeCompare(b.date) ||
+        new Date(a.clockIn).getTime() - new Date(b.clockIn).getTime()
+    );
+
+/**
+ * Build an unsaved invoice from sessions. Sessions are priced like
+ * exports, so project rates, rate history and overtime all apply.
+ * @param sessions - Sessions to bill, usually from selectInvoiceSessions
+ * @param options - Grouping, tax and pricing options
+ * @returns Draft with line items and totals
+ * @throws When the sessions are paid in more than one currency
+ */
+export const buildInvoiceDraft = (
+  sessions: SessionObject[],
+  options: InvoiceDraftOptions
+): InvoiceDraft => {
+  const priced = sessions.map((session) => ({
+    session,
+    ...priceSession(session, options),
+  }));
+
+  const currencies = new Set(priced.map(({ currency }) => currency));
+  if (currencies.size > 1) {
+    throw new Error(
+      'These sessions are paid in more than one currency. Pick a project to invoice them separately.'
+    );
+  }
+
+  const lines = new Map<string, InvoiceLineItem>();
+  priced.forEach(({ session, earnings }) => {
+    const project = findSessionProject(session, options.projects);
+    const key =
+      options.grouping === 'day' ? session.date : (project?.id ?? 'none');
+    const line = lines.get(key) ?? {
+      key,
+      description:
+        options.grouping === 'day'
+          ? formatDate(session.date)
+          : (project?.name ?? 'No project'),
+      hours: 0,
+      rate: 0,
+      amount: 0,
+      sessionIds: [],
+    };
+    line.hours += session.hours;
+    line.amount += earnings;
+    line.sessionIds.push(session.id);
+    lines.set(key, line);
+  });
+
+  const lineItems = Array.from(lines.values())
+    .map((line) => ({
+      ...line,
+      hours: Math.round(line.hours * 100) / 100,
+      amount: roundCurrency(line.amount),
+      rate: line.hours > 0 ? roundCurrency(line.amount / line.hours) : 0,
+    }))
+    .sort((a, b) =>
+      options.grouping === 'day'
+        ? a.key.localeCompare(b.key)
+        : a.description.localeCompare(b.description)
+    );
+
+  const subtotal = roundCurrency(
+    lineItems.reduce((total, line) => total + line.amount, 0)
+  );
+  const tax = roundCurrency((subtotal * options.taxRate) / 100);
+  const { startDate, endDate, projectId } = options.selection;
+
+  return {
+    range: startDate && endDate ? { startDate, endDate } : null,
+    ...(projectId ? { projectId } : {}),
+    ...(options.billTo?.trim() ? { billTo: options.billTo.trim() } : {}),
+    grouping: options.grouping,
+    currency: priced[0]?.currency ?? options.currency ?? 'USD',
+    lineItems,
+    subtotal,
+    taxRate: options.taxRate,
+    tax,
+    total: roundCurrency(subtotal + tax),
+    sessionIds: priced.map(({ session }) => session.id),
+  };
+};
+
+/**
+ * Escape text for use in HTML
+ */
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Render an invoice as a standalone, printable HTML document
+ * @param invoice - Saved invoice
+ * @returns HTML document
+ */
+export const renderInvoiceHtml = (invoice: Invoice): string => {
+  const money = (amount: number) =>
+    escapeHtml(formatCurrency(amount, invoice.currency));
+  const longDate = (date: Date) =>
+    escapeHtml(
+      date.toLocaleDateString(getActiveLocale(), {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+      })
+    );
+
+  const rows = invoice.lineItems
+    .map(
+      (line) => `
+        <tr>
+          <td>${escapeHtml(line.description)}</td>
+          <td class="num">${line.hours.toFixed(2)}</td>
+          <td class="num">${money(line.rate)}</td>
+          <td class="num">${money(line.amount)}</td>
+        </tr>`
+    )
+    .join('');
+
+  const period = invoice.range
+    ? `<p>Period: ${longDate(parseLocalDate(invoice.range.startDate))} – ${longDate(
+        parseLocalDate(invoice.range.endDate)
+      )}</p>`
+    : '';
+  const billTo = invoice.billTo
+    ? `<p><strong>Bill to:</strong> ${escapeHtml(invoice.billTo)}</p>`
+    : '';
+  const taxRow =
+    invoice.taxRate > 0
+      ? `<tr><td colspan="3">Tax (${invoice.taxRate}%)</td><td class="num">${money(
+          invoice.tax
+        )}</td></tr>`
+      : '';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>Invoice ${escapeHtml(invoice.number)}</title>
+  <style>
+    body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #0f172a; margin: 40px; }
+    h1 { margin-bottom: 4px; }
+    table { width: 100%; border-collapse: collapse; margin-top: 24px; }
+    th, td { padding: 8px; border-bottom: 1px solid #e2e8f0; text-align: left; }
+    .num { text-align: right; }
+    tfoot td { font-weight: 600; }
+    @media print { body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <h1>Invoice ${escapeHtml(invoice.number)}</h1>
+  <p>Issued ${longDate(new Date(invoice.issuedAt))}</p>
+  ${billTo}
+  ${period}
+  <table>
+    <thead>
+      <tr>
+        <th>${invoice.grouping === 'day' ? 'Date' : 'Project'}</th>
+        <th class="num">Hours</th>
+        <th class="num">Rate</th>
+        <th class="num">Amount</th>
+      </tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+    <tfoot>
+      <tr><td colspan="3">Subtotal</td><td class="num">${money(invoice.subtotal)}</td></tr>
+      ${taxRow}
+      <tr><td colspan="3">Total</td><td class="num">${money(invoice.total)}</td></tr>
+    </tfoot>
+  </table>
+</body>
+</html>
+`;
+};
@@ -0,0 +1,134 @@
+// Leave entries (vacation, sick, holidays, unpaid leave) and PTO accrual
+import { EntryType, LeavePolicy, PtoBalance, SessionObject } from '../types';
+
+export const ENTRY_TYPE_LABELS: Record<EntryType, string> = {
+  work: 'Work',
+  vacation: 'Vacation',
+  sick: 'Sick',
+  holiday: 'Holiday',
+  unpaidLeave: 'Unpaid Leave',
+};
+
+export const ENTRY_TYPES: EntryType[] = [
+  'work',
+  'vacation',
+  'sick',
+  'holiday',
+  'unpaidLeave',
+];
+
+// Leave that draws down the PTO balance
+const PTO_ENTRY_TYPES: EntryType[] = ['vacation', 'sick'];
+
+export const DEFAULT_LEAVE_POLICY: LeavePolicy = {
+  standardDayHours: 8,
+  accrualRate: 0,
+  openingBalance: 0,
+};
+
+// Hour of the day leave entries are placed at, so they sort with the day
+const LEAVE_START_HOUR = 9;
+
+const roundHours = (hours: number): number => Math.round(hours * 100) / 100;
+
+/**
+ * What a session records. Sessions saved before entry types existed are
+ * worked time.
+ * @param session - Session to check
+ * @returns The session's entry type
+ */
+export const getEntryType = (session: SessionObject): EntryType =>
+  session.entryType ?? 'work';
+
+/**
+ * Check whether a session is worked time rather than leave
+ * @param session - Session to check
+ * @returns True for work entries
+ */
+export const isWorkEntry = (session: SessionObject): boolean =>
+  getEntryType(session) === 'work';
+
+/**
+ * Check whether a session is paid: worked time and all leave but unpaid
+ * @param session - Session to check
+ * @returns False only for unpaid leave
+ */
+export const isPaidEntry = (session: SessionObject): boolean =>
+  getEntryType(session) !== 'unpaidLeave';
+
+/**
+ * Add up hours per entry type
+ * @param sessions - Sessions to total
+ * @returns Hours for every entry type, zero when there are none
+ */
+export const sumHoursByEntryType = (
+  sessions: SessionObject[]
+): Record<EntryType, number> => {
+  const totals = Object.fromEntries(
+    ENTRY_TYPES.map((type) => [type, 0])
+  ) as Record<EntryType, number>;
+
+  sessions.forEach((session) => {
+    totals[getEntryType(session)] += session.hours;
+  });
+
+  ENTRY_TYPES.forEach((type) => {
+    totals[type] = roundHours(totals[type]);
+  });
+  return totals;
+};
+
+/**
+ * Describe the leave in a set of totals, for summaries next to hours worked
+ * @param totals - Hours per entry type, from sumHoursByEntryType
+ * @returns e.g. "Vacation 8.00 hrs · Sick 4.00 hrs", or null without leave
+ */
+export const formatLeaveTotals = (
+  totals: Record<EntryType, number>
+): string | null => {
+  const parts = ENTRY_TYPES.filter(
+    (type) => type !== 'work' && totals[type] > 0
+  ).map((type) => `${ENTRY_TYPE_LABELS[type]} ${totals[type].toFixed(2)} hrs`);
+  return parts.length > 0 ? parts.join(' · ') : null;
+};
+
+/**
+ * PTO earned from worked hours and taken as vacation or sick leave.
+ * Holidays and unpaid leave don't touch the balance.
+ * @param sessions - Every stored session
+ * @param policy - Accrual rate and opening balance
+ * @returns Hours accrued, used and left
+ */
+export const getPtoBalance = (
+  sessions: SessionObject[],
+  policy: LeavePolicy
+): PtoBalance => {
+  const totals = sumHoursByEntryType(sessions);
+  const accrued = roundHours(totals.work * policy.accrualRate);
+  const used = roundHours(
+    PTO_ENTRY_TYPES.reduce((sum, type) => sum + totals[type], 0)
+  );
+
+  return {
+    accrued,
+    used,
+    balance: roundHours(policy.openingBalance + accrued - used),
+  };
+};
+
+/**
+ * Clock-in and clock-out for a leave entry. Leave has no real start time,
+ * so it is placed at the start of the work day.
+ * @param date - Day of leave
+ * @param hours - Hours of leave
+ * @returns ISO 8601 clock-in and clock-out
+ */
+export const buildLeaveTimes = (
+  date: Date,
+  hours: number
+): { clockIn: string; clockOut: string } => {
+  const start = new Date(date);
+  start.setHours(LEAVE_START_HOUR, 0, 0, 0);
+  const end = new Date(start.getTime() + hours * 60 * 60 * 1000);
+  return { clockIn: start.toISOString(), clockOut: end.toISOString() };
+};
@@ -0,0 +1,34 @@
+// AsyncStorage wrapper functions for the leave policy
+import { LeavePolicy } from '../types';
+import { validateLeavePolicy } from './validation';
+import { DEFAULT_LEAVE_POLICY } from './leave';
+import { createSettingsStore } from './settingsStore';
+
+// Storage key
+const LEAVE_POLICY_KEY = 'LEAVE_POLICY';
+
+const leavePolicyStore = createSettingsStore<LeavePolicy>(
+  LEAVE_POLICY_KEY,
+  DEFAULT_LEAVE_POLICY,
+  validateLeavePolicy,
+  'leave policy'
+);
+
+/**
+ * Load the stored leave policy
+ * @returns Saved policy, or the defaults if none is valid
+ */
+export const loadLeavePolicy = leavePolicyStore.load;
+
+/**
+ * Save the leave policy
+ * @param policy - Policy to store
+ */
+export const saveLeavePolicy = leavePolicyStore.save;
+
+/**
+ * Get storage keys for testing purposes
+ */
+export const getLeavePolicyStorageKeys = () => ({
+  LEAVE_POLICY_KEY,
+});
@@ -0,0 +1,84 @@
+// Scheduling reminders as local notifications
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { PlannedReminder } from '../types';
+import { REMINDER_ID_PREFIX } from './reminders';
+
+// Android notification channel for reminders
+const REMINDER_CHANNEL_ID = 'reminders';
+
+// Show reminders as banners even while the app is open
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: false,
+    shouldSetBadge: false,
+  }),
+});
+
+/**
+ * Ask for permission to show notifications if it hasn't been decided yet
+ * @returns True when notifications may be shown
+ */
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (Platform.OS === 'web') {
+    return false;
+  }
+
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted || !current.canAskAgain) {
+    return current.granted;
+  }
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+};
+
+/**
+ * Make the scheduled reminders match a plan: reminders missing from the
+ * plan are cancelled and planned ones are (re)scheduled. Notifications
+ * that aren't reminders are left alone.
+ * @param reminders - Reminders that should be pending, from planReminders
+ */
+export const syncScheduledReminders = async (
+  reminders: PlannedReminder[]
+): Promise<void> => {
+  if (Platform.OS === 'web') {
+    return;
+  }
+
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  const plannedIds = new Set(reminders.map((reminder) => reminder.id));
+  await Promise.all(
+    scheduled
+      .map((request) => request.identifier)
+      .filter((id) => id.startsWith(REMINDER_ID_PREFIX) && !plannedIds.has(id))
+      .map((id) => Notifications.cancelScheduledNotificationAsync(id))
+  );
+
+  if (reminders.length === 0 || !(await requestNotificationPermission())) {
+    return;
+  }
+
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(REMINDER_CHANNEL_ID, {
+      name: 'Reminders',
+      importance: Notifications.AndroidImportance.DEFAULT,
+    });
+  }
+
+  // Scheduling with an existing identifier replaces that notification
+  await Promise.all(
+    reminders.map((reminder) =>
+      Notifications.scheduleNotificationAsync({
+        identifier: reminder.id,
+        content: { title: reminder.title, body: reminder.body },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: reminder.date,
+          channelId: REMINDER_CHANNEL_ID,
+        },
+      })
+    )
+  );
+};
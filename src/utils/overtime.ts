@@ -0,0 +1,271 @@
+// Overtime rules: splitting worked hours into regular, overtime and double time
+import {
+  OvertimeBreakdown,
+  OvertimeRules,
+  OvertimeSplit,
+  SessionObject,
+  WeekDay,
+} from '../types';
+import { getCalendarPreferences, getWeekStart } from './calendar';
+import { isWorkEntry } from './leave';
+import { parseLocalDate, toLocalDateString } from './timeUtils';
+
+export const DEFAULT_OVERTIME_RULES: OvertimeRules = {
+  enabled: false,
+  dailyThreshold: 8,
+  dailyDoubleTimeThreshold: null,
+  weeklyThreshold: 40,
+  weeklyDoubleTimeThreshold: null,
+  overtimeMultiplier: 1.5,
+  doubleTimeMultiplier: 2,
+};
+
+type PayTier = keyof OvertimeBreakdown;
+
+/**
+ * Hours are split in hundredths so tier boundaries are hit exactly;
+ * session hours are already rounded to two decimals
+ */
+const toHundredths = (hours: number): number => Math.round(hours * 100);
+
+const toHundredthsOrNull = (hours: number | null): number | null =>
+  hours === null ? null : toHundredths(hours);
+
+const emptyBreakdown = (): OvertimeBreakdown => ({
+  regularHours: 0,
+  overtimeHours: 0,
+  doubleTimeHours: 0,
+});
+
+/**
+ * Pay tier for the next hour worked, given hours already worked
+ * @param worked - Hundredths of an hour already worked in the period
+ * @param overtimeAt - Overtime threshold in hundredths, null for none
+ * @param doubleTimeAt - Double time threshold in hundredths, null for none
+ * @returns The tier and how many hundredths fit before the next tier
+ */
+const getPayTier = (
+  worked: number,
+  overtimeAt: number | null,
+  doubleTimeAt: number | null
+): { tier: PayTier; room: number } => {
+  if (doubleTimeAt !== null && worked >= doubleTimeAt) {
+    return { tier: 'doubleTimeHours', room: Infinity };
+  }
+  if (overtimeAt !== null && worked >= overtimeAt) {
+    return {
+      tier: 'overtimeHours',
+      room: doubleTimeAt !== null ? doubleTimeAt - worked : Infinity,
+    };
+  }
+  const nextThreshold = Math.min(
+    overtimeAt ?? Infinity,
+    doubleTimeAt ?? Infinity
+  );
+  return { tier: 'regularHours', room: nextThreshold - worked };
+};
+
+/**
+ * Split sessions into regular, overtime and double time hours.
+ *
+ * Sessions are walked in chronological order. Daily thresholds apply
+ * first; only hours that are regular under the daily rule count towards
+ * the weekly thresholds, so no hour is paid as overtime twice. Pass every
+ * session in the weeks you care about: a session's tier depends on what
+ * was worked earlier that day and week. Leave isn't worked time, so it
+ * gets an empty breakdown and doesn't count towards any threshold.
+ * @param sessions - Sessions to split, in any order
+ * @param rules - Overtime rules; when disabled every hour is regular
+ * @param weekStartsOn - First day of the week for weekly thresholds
+ *   (defaults to the calendar preference)
+ * @returns Totals per tier plus each session's share
+ */
+export const splitOvertimeHours = (
+  sessions: SessionObject[],
+  rules: OvertimeRules,
+  weekStartsOn: WeekDay = getCalendarPreferences().weekStartsOn
+): OvertimeSplit => {
+  const dailyOvertimeAt = toHundredthsOrNull(rules.dailyThreshold);
+  const dailyDoubleTimeAt = toHundredthsOrNull(rules.dailyDoubleTimeThreshold);
+  const weeklyOvertimeAt = toHundredthsOrNull(rules.weeklyThreshold);
+  const weeklyDoubleTimeAt = toHundredthsOrNull(
+    rules.weeklyDoubleTimeThreshold
+  );
+
+  const ordered = [...sessions].sort(
+    (a, b) =>
+      a.date.localeCompare(b.date) ||
+      new Date(a.clockIn).getTime() - new Date(b.clockIn).getTime()
+  );
+
+  const totals = emptyBreakdown();
+  const bySession: Record<string, OvertimeBreakdown> = {};
+  let currentWeek = '';
+  let currentDay = '';
+  let weekWorked = 0;
+  let dayWorked = 0;
+
+  ordered.forEach((session) => {
+    if (!isWorkEntry(session)) {
+      bySession[session.id] = {
+        regularHours: 0,
+        overtimeHours: 0,
+        doubleTimeHours: 0,
+      };
+      return;
+    }
+
+    const week = toLocalDateString(
+      getWeekStart(parseLocalDate(session.date), weekStartsOn)
+    );
+    if (week !== currentWeek) {
+      currentWeek = week;
+      weekWorked = 0;
+    }
+    if (session.date !== currentDay) {
+      currentDay = session.date;
+      dayWorked = 0;
+    }
+
+    const split = emptyBreakdown();
+    let remaining = toHundredths(session.hours);
+
+    if (!rules.enabled) {
+      split.regularHours = remaining;
+      remaining = 0;
+    }
+
+    while (remaining > 0) {
+      const daily = getPayTier(dayWorked, dailyOvertimeAt, dailyDoubleTimeAt);
+      const weekly =
+        daily.tier === 'regularHours'
+          ? getPayTier(weekWorked, weeklyOvertimeAt, weeklyDoubleTimeAt)
+          : { tier: daily.tier, room: Infinity };
+      const chunk = Math.min(remaining, daily.room, weekly.room);
+
+      split[weekly.tier] += chunk;
+      dayWorked += chunk;
+      if (daily.tier === 'regularHours') {
+        weekWorked += chunk;
+      }
+      remaining -= chunk;
+    }
+
+    const breakdown: OvertimeBreakdown = {
+      regularHours: split.regularHours / 100,
+      overtimeHours: split.overtimeHours / 100,
+      doubleTimeHours: split.doubleTimeHours / 100,
+    };
+    bySession[session.id] = breakdown;
+    totals.regularHours += split.regularHours;
+    totals.overtimeHours += split.overtimeHours;
+    totals.doubleTimeHours += split.doubleTimeHours;
+  });
+
+  return {
+    regularHours: totals.regularHours / 100,
+    overtimeHours: totals.overtimeHours / 100,
+    doubleTimeHours: totals.doubleTimeHours / 100,
+    bySession,
+  };
+};
+
+/**
+ * Add up the breakdowns of some of the sessions in a split, e.g. the ones
+ * in a reporting period
+ * @param split - Split computed over all sessions
+ * @param sessions - Sessions to total
+ * @returns Hours per tier; sessions missing from the split count as regular
+ */
+export const sumOvertimeBreakdowns = (
+  split: OvertimeSplit,
+  sessions: SessionObject[]
+): OvertimeBreakdown => {
+  const totals = sessions.reduce((sum, session) => {
+    const breakdown = getSessionBreakdown(split, session);
+    return {
+      regularHours: sum.regularHours + toHundredths(breakdown.regularHours),
+      overtimeHours: sum.overtimeHours + toHundredths(breakdown.overtimeHours),
+      doubleTimeHours:
+        sum.doubleTimeHours + toHundredths(breakdown.doubleTimeHours),
+    };
+  }, emptyBreakdown());
+
+  return {
+    regularHours: totals.regularHours / 100,
+    overtimeHours: totals.overtimeHours / 100,
+    doubleTimeHours: totals.doubleTimeHours / 100,
+  };
+};
+
+/**
+ * Look up a session's share of a split
+ * @param split - Split computed over all sessions
+ * @param session - Session to look up
+ * @returns Its breakdown, or all regular hours when it wasn't in the split
+ */
+export const getSessionBreakdown = (
+  split: OvertimeSplit,
+  session: SessionObject
+): OvertimeBreakdown =>
+  split.bySession[session.id] ?? {
+    ...emptyBreakdown(),
+    regularHours: session.hours,
+  };
+
+/**
+ * Calculate pay for hours split by tier
+ * @param breakdown - Hours per tier
+ * @param hourlyRate - Base hourly rate
+ * @param rules - Rules holding the tier multipliers
+ * @returns Pay rounded to 2 decimal places
+ */
+export const calculateOvertimePay = (
+  breakdown: OvertimeBreakdown,
+  hourlyRate: number,
+  rules: OvertimeRules
+): number => {
+  const weightedHours = rules.enabled
+    ? breakdown.regularHours +
+      breakdown.overtimeHours * rules.overtimeMultiplier +
+      breakdown.doubleTimeHours * rules.doubleTimeMultiplier
+    : breakdown.regularHours +
+      breakdown.overtimeHours +
+      breakdown.doubleTimeHours;
+  return Math.round(weightedHours * hourlyRate * 100) / 100;
+};
+
+/**
+ * Short description of the rules for Settings, e.g.
+ * "1.5× after 8h/day or 40h/week"
+ * @param rules - Rules to describe
+ * @returns Summary text
+ */
+export const describeOvertimeRules = (rules: OvertimeRules): string => {
+  if (!rules.enabled) {
+    return 'Off';
+  }
+  const overtime = [
+    rules.dailyThreshold !== null ? `${rules.dailyThreshold}h/day` : null,
+    rules.weeklyThreshold !== null ? `${rules.weeklyThreshold}h/week` : null,
+  ].filter(Boolean);
+  const doubleTime = [
+    rules.dailyDoubleTimeThreshold !== null
+      ? `${rules.dailyDoubleTimeThreshold}h/day`
+      : null,
+    rules.weeklyDoubleTimeThreshold !== null
+      ? `${rules.weeklyDoubleTimeThreshold}h/week`
+      : null,
+  ].filter(Boolean);
+
+  const parts: string[] = [];
+  if (overtime.length > 0) {
+    parts.push(`${rules.overtimeMultiplier}× after ${overtime.join(' or ')}`);
+  }
+  if (doubleTime.length > 0) {
+    parts.push(
+      `${rules.doubleTimeMultiplier}× after ${doubleTime.join(' or ')}`
+    );
+  }
+  return parts.length > 0 ? parts.join(', ') : 'No thresholds set';
+};
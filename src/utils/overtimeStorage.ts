@@ -0,0 +1,34 @@
+// AsyncStorage wrapper functions for overtime rules
+import { OvertimeRules } from '../types';
+import { validateOvertimeRules } from './validation';
+import { DEFAULT_OVERTIME_RULES } from './overtime';
+import { createSettingsStore } from './settingsStore';
+
+// Storage key
+const OVERTIME_RULES_KEY = 'OVERTIME_RULES';
+
+const overtimeRulesStore = createSettingsStore<OvertimeRules>(
+  OVERTIME_RULES_KEY,
+  DEFAULT_OVERTIME_RULES,
+  validateOvertimeRules,
+  'overtime rules'
+);
+
+/**
+ * Load stored overtime rules
+ * @returns Saved rules, or the defaults (overtime off) if none are valid
+ */
+export const loadOvertimeRules = overtimeRulesStore.load;
+
+/**
+ * Save overtime rules
+ * @param rules - Rules to store
+ */
+export const saveOvertimeRules = overtimeRulesStore.save;
+
+/**
+ * Get storage keys for testing purposes
+ */
+export const getOvertimeStorageKeys = () => ({
+  OVERTIME_RULES_KEY,
+});
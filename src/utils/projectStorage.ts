@@ -0,0 +1,106 @@
+// AsyncStorage wrapper functions for projects
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Project } from '../types';
+import { validateProjectsArray } from './validation';
+import {
+  handleStorageError,
+  safeAsyncOperation,
+  retryOperation,
+} from './errorHandling';
+
+// Storage key
+const PROJECTS_KEY = 'PROJECTS';
+
+/**
+ * Colors offered when creating a project
+ */
+export const PROJECT_COLORS = [
+  '#6750A4',
+  '#22d3ee',
+  '#34d399',
+  '#fbbf24',
+  '#f87171',
+  '#f472b6',
+  '#60a5fa',
+  '#a3e635',
+];
+
+/**
+ * Read and validate the stored projects array
+ */
+const readProjects = async (): Promise<Project[]> => {
+  const projectsData = await AsyncStorage.getItem(PROJECTS_KEY);
+  if (projectsData) {
+    return validateProjectsArray(JSON.parse(projectsData));
+  }
+  return [];
+};
+
+/**
+ * Load all stored projects, sorted by name
+ * @returns Array of stored projects
+ */
+export const loadProjects = async (): Promise<Project[]> => {
+  const projects = await safeAsyncOperation(readProjects, [], 'load projects');
+  return [...projects].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Create or update a project
+ * @param project - Project to save (matched by id)
+ */
+export const saveProject = async (project: Project): Promise<void> => {
+  try {
+    await retryOperation(
+      async () => {
+        const existingProjects = await readProjects();
+        const index = existingProjects.findIndex((p) => p.id === project.id);
+        const updatedProjects =
+          index === -1
+            ? [...existingProjects, project]
+            : existingProjects.map((p) => (p.id === project.id ? project : p));
+
+        await AsyncStorage.setItem(
+          PROJECTS_KEY,
+          JSON.stringify(updatedProjects)
+        );
+      },
+      2,
+      500
+    );
+  } catch (error) {
+    const appError = handleStorageError(error as Error, 'save project');
+    throw new Error(appError.message);
+  }
+};
+
+/**
+ * Delete a project by ID. Sessions keep their projectId and show as
+ * unassigned once the project is gone.
+ * @param projectId - ID of the project to delete
+ */
+export const deleteProject = async (projectId: string): Promise<void> => {
+  try {
+    await retryOperation(
+      async () => {
+        const existingProjects = await readProjects();
+        await AsyncStorage.setItem(
+          PROJECTS_KEY,
+          JSON.stringify(existingProjects.filter((p) => p.id !== projectId))
+        );
+      },
+      2,
+      500
+    );
+  } catch (error) {
+    const appError = handleStorageError(error as Error, 'delete project');
+    throw new Error(appError.message);
+  }
+};
+
+/**
+ * Get project storage key for testing purposes
+ */
+export const getProjectStorageKeys = () => ({
+  PROJECTS_KEY,
+});
@@ -0,0 +1,73 @@
+// Effective-dated default hourly rates
+import { HourlyRate, RateHistoryEntry } from '../types';
+
+/**
+ * Sort rate entries by the day they take effect, oldest first
+ * @param history - Rate entries in any order
+ * @returns New sorted array
+ */
+export const sortRateHistory = (
+  history: RateHistoryEntry[]
+): RateHistoryEntry[] =>
+  [...history].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+
+/**
+ * Find the rate entry in effect on a day. Sessions older than the first
+ * entry use the first entry, so every session has a rate once one is set.
+ * @param history - Rate entries in any order
+ * @param date - Day to look up (YYYY-MM-DD), usually `SessionObject.date`
+ * @returns The entry in effect, or null when no rate has been set
+ */
+export const getRateEntryOnDate = (
+  history: RateHistoryEntry[],
+  date: string
+): RateHistoryEntry | null => {
+  const sorted = sortRateHistory(history);
+  const inEffect = sorted.filter((entry) => entry.effectiveFrom <= date);
+  return inEffect[inEffect.length - 1] ?? sorted[0] ?? null;
+};
+
+/**
+ * Find the default rate in effect on a day
+ * @param history - Rate entries in any order
+ * @param date - Day to look up (YYYY-MM-DD)
+ * @returns The rate and its currency, or null when no rate has been set
+ */
+export const getRateOnDate = (
+  history: RateHistoryEntry[],
+  date: string
+): HourlyRate | null => {
+  const entry = getRateEntryOnDate(history, date);
+  return entry ? { amount: entry.amount, currency: entry.currency } : null;
+};
+
+/**
+ * Add or update a rate entry. An entry with the same id, or another entry
+ * starting on the same day, is replaced.
+ * @param history - Current rate entries
+ * @param entry - Entry to add or update
+ * @returns New sorted history
+ */
+export const upsertRateEntry = (
+  history: RateHistoryEntry[],
+  entry: RateHistoryEntry
+): RateHistoryEntry[] =>
+  sortRateHistory([
+    ...history.filter(
+      (existing) =>
+        existing.id !== entry.id &&
+        existing.effectiveFrom !== entry.effectiveFrom
+    ),
+    entry,
+  ]);
+
+/**
+ * Remove a rate entry
+ * @param history - Current rate entries
+ * @param id - Id of the entry to remove
+ * @returns New history without the entry
+ */
+export const removeRateEntry = (
+  history: RateHistoryEntry[],
+  id: string
+): RateHistoryEntry[] => history.filter((entry) => entry.id !== id);
@@ -0,0 +1,95 @@
+// AsyncStorage wrapper functions for the default hourly rate history
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { RateHistoryEntry } from '../types';
+import { validateHourlyRate, validateRateHistoryEntry } from './validation';
+import { DEFAULT_CURRENCY } from './currency';
+import { sortRateHistory } from './rateHistory';
+import { toLocalDateString } from './timeUtils';
+import { HOURLY_RATE_KEY } from './backup';
+import {
+  handleStorageError,
+  safeAsyncOperation,
+  retryOperation,
+} from './errorHandling';
+
+/**
+ * Turn a rate saved before rate history into a one-entry history. As the
+ * earliest entry it also covers every older session.
+ */
+const toSingleEntryHistory = (
+  amount: number,
+  currency: string
+): RateHistoryEntry[] => [
+  {
+    id: 'rate-initial',
+    amount,
+    currency,
+    effectiveFrom: toLocalDateString(new Date()),
+  },
+];
+
+/**
+ * Parse the stored rate history. Older versions stored a bare amount such
+ * as "40", then a single `{ amount, currency }` object; both are read as a
+ * history with one entry.
+ * @param rateData - Raw stored value
+ * @returns Valid entries, oldest first
+ */
+const parseStoredRates = (rateData: string): RateHistoryEntry[] => {
+  const trimmed = rateData.trim();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+    const amount = parseFloat(trimmed);
+    return isNaN(amount) || amount < 0
+      ? []
+      : toSingleEntryHistory(amount, DEFAULT_CURRENCY);
+  }
+
+  const parsed = JSON.parse(trimmed);
+  if (Array.isArray(parsed)) {
+    return sortRateHistory(parsed.filter(validateRateHistoryEntry));
+  }
+  return validateHourlyRate(parsed)
+    ? toSingleEntryHistory(parsed.amount, parsed.currency)
+    : [];
+};
+
+/**
+ * Load the default hourly rate history
+ * @returns Rate entries oldest first, empty when no rate is set
+ */
+export const loadRateHistory = async (): Promise<RateHistoryEntry[]> =>
+  safeAsyncOperation(
+    async () => {
+      const rateData = await AsyncStorage.getItem(HOURLY_RATE_KEY);
+      return rateData ? parseStoredRates(rateData) : [];
+    },
+    [],
+    'load rate history'
+  );
+
+/**
+ * Save the default hourly rate history
+ * @param history - Rate entries to store
+ */
+export const saveRateHistory = async (
+  history: RateHistoryEntry[]
+): Promise<void> => {
+  if (!history.every(validateRateHistoryEntry)) {
+    throw new Error('Invalid hourly rate');
+  }
+
+  try {
+    await retryOperation(
+      () =>
+        AsyncStorage.setItem(
+          HOURLY_RATE_KEY,
+          JSON.stringify(sortRateHistory(history))
+        ),
+      2,
+      500
+    );
+  } catch (error) {
+    const appError = handleStorageError(error as Error, 'save rate history');
+    throw new Error(appError.message);
+  }
+};
@@ -0,0 +1,34 @@
+// AsyncStorage wrapper functions for reminder settings
+import { ReminderSettings } from '../types';
+import { validateReminderSettings } from './validation';
+import { DEFAULT_REMINDER_SETTINGS } from './reminders';
+import { createSettingsStore } from './settingsStore';
+
+// Storage key
+const REMINDER_SETTINGS_KEY = 'REMINDER_SETTINGS';
+
+const reminderSettingsStore = createSettingsStore<ReminderSettings>(
+  REMINDER_SETTINGS_KEY,
+  DEFAULT_REMINDER_SETTINGS,
+  validateReminderSettings,
+  'reminder settings'
+);
+
+/**
+ * Load stored reminder settings
+ * @returns Saved settings, or the defaults if none are valid
+ */
+export const loadReminderSettings = reminderSettingsStore.load;
+
+/**
+ * Save reminder settings
+ * @param settings - Settings to store
+ */
+export const saveReminderSettings = reminderSettingsStore.save;
+
+/**
+ * Get storage keys for testing purposes
+ */
+export const getReminderStorageKeys = () => ({
+  REMINDER_SETTINGS_KEY,
+});
@@ -0,0 +1,118 @@
+// Planning clock-in, long session and end-of-day reminders
+import {
+  PlannedReminder,
+  ReminderSettings,
+  SessionObject,
+  WeekDay,
+} from '../types';
+import { toLocalDateString } from './timeUtils';
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  workDays: [1, 2, 3, 4, 5],
+  clockInReminderEnabled: false,
+  clockInReminderTime: 9 * 60,
+  longSessionReminderEnabled: false,
+  longSessionReminderHours: 8,
+  endOfDayReminderEnabled: false,
+  endOfDayReminderTime: 18 * 60,
+};
+
+/**
+ * Days ahead daily reminders are scheduled for. Plans are rebuilt on every
+ * clock-in, clock-out and launch, so a week is plenty.
+ */
+export const REMINDER_DAYS_AHEAD = 7;
+
+/** Prefix of every reminder identifier, to tell them from other notifications */
+export const REMINDER_ID_PREFIX = 'reminder-';
+
+/**
+ * Time of day on a given day
+ * @param day - Any time on the day
+ * @param minutes - Minutes after midnight
+ * @returns Local date and time
+ */
+const atMinutes = (day: Date, minutes: number): Date => {
+  const date = new Date(day);
+  date.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+  return date;
+};
+
+/**
+ * Format minutes after midnight as HH:MM
+ * @param minutes - Minutes after midnight
+ * @returns Time like "09:05"
+ */
+export const formatReminderTime = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+/**
+ * Work out which reminders should be scheduled right now. Reminders that
+ * no longer apply are simply left out: today's clock-in and end-of-day
+ * reminders once time is being or has been logged today, and the long
+ * session nudge when clocked out.
+ * @param settings - Reminder settings
+ * @param clockInTime - Start of the running session, null when clocked out
+ * @param sessions - Stored sessions; only today's matter
+ * @param now - Reference time (defaults to now)
+ * @returns Reminders in the future, soonest first
+ */
+export const planReminders = (
+  settings: ReminderSettings,
+  clockInTime: Date | null,
+  sessions: SessionObject[],
+  now: Date = new Date()
+): PlannedReminder[] => {
+  const reminders: PlannedReminder[] = [];
+  const today = toLocalDateString(now);
+  const loggedToday =
+    clockInTime !== null || sessions.some((session) => session.date === today);
+
+  for (let offset = 0; offset < REMINDER_DAYS_AHEAD; offset++) {
+    const day = new Date(now);
+    day.setDate(now.getDate() + offset);
+    const dayKey = toLocalDateString(day);
+
+    if (
+      !settings.workDays.includes(day.getDay() as WeekDay) ||
+      (dayKey === today && loggedToday)
+    ) {
+      continue;
+    }
+
+    if (settings.clockInReminderEnabled) {
+      reminders.push({
+        id: `${REMINDER_ID_PREFIX}clockIn-${dayKey}`,
+        kind: 'clockIn',
+        title: 'Time to clock in',
+        body: "Don't forget to clock in when you start working.",
+        date: atMinutes(day, settings.clockInReminderTime),
+      });
+    }
+
+    if (settings.endOfDayReminderEnabled) {
+      reminders.push({
+        id: `${REMINDER_ID_PREFIX}endOfDay-${dayKey}`,
+        kind: 'endOfDay',
+        title: 'No time logged today',
+        body: "You haven't logged any time today. Add a session if you worked.",
+        date: atMinutes(day, settings.endOfDayReminderTime),
+      });
+    }
+  }
+
+  if (settings.longSessionReminderEnabled && clockInTime) {
+    const hours = settings.longSessionReminderHours;
+    reminders.push({
+      id: `${REMINDER_ID_PREFIX}longSession`,
+      kind: 'longSession',
+      title: 'Still working?',
+      body: `You've been clocked in for ${hours} ${hours === 1 ? 'hour' : 'hours'}.`,
+      date: new Date(clockInTime.getTime() + hours * 60 * 60 * 1000),
+    });
+  }
+
+  return reminders
+    .filter((reminder) => reminder.date.getTime() > now.getTime())
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+};
@@ -0,0 +1,225 @@
+// Session overlap and duplicate detection
+import {
+  BreakInterval,
+  ConflictResolution,
+  SessionConflict,
+  SessionObject,
+} from '../types';
+import { calculateHours, clipBreaks } from './timeUtils';
+import { isWorkEntry } from './leave';
+import { getSessionDate } from './timeZone';
+
+/**
+ * Check whether two sessions overlap in time. Sessions that only touch
+ * (one ends exactly when the other starts) do not overlap.
+ * @param a - First session
+ * @param b - Second session
+ * @returns True if the sessions share any time
+ */
+export const sessionsOverlap = (
+  a: Pick<SessionObject, 'clockIn' | 'clockOut'>,
+  b: Pick<SessionObject, 'clockIn' | 'clockOut'>
+): boolean => {
+  const aStart = new Date(a.clockIn).getTime();
+  const aEnd = new Date(a.clockOut).getTime();
+  const bStart = new Date(b.clockIn).getTime();
+  const bEnd = new Date(b.clockOut).getTime();
+  return aStart < bEnd && bStart < aEnd;
+};
+
+/**
+ * Check whether two sessions describe the same work: either the same id or
+ * identical clock-in and clock-out times
+ * @param a - First session
+ * @param b - Second session
+ * @returns True if the sessions are duplicates
+ */
+export const isDuplicateSession = (
+  a: SessionObject,
+  b: SessionObject
+): boolean =>
+  a.id === b.id ||
+  (new Date(a.clockIn).getTime() === new Date(b.clockIn).getTime() &&
+    new Date(a.clockOut).getTime() === new Date(b.clockOut).getTime());
+
+/**
+ * Find the sessions that overlap a given session, ignoring the session itself.
+ * Leave entries have nominal times, so they never overlap anything.
+ * @param session - Session to check
+ * @param sessions - Sessions to compare against
+ * @returns Overlapping sessions
+ */
+export const findOverlappingSessions = (
+  session: SessionObject,
+  sessions: SessionObject[]
+): SessionObject[] =>
+  isWorkEntry(session)
+    ? sessions.filter(
+        (other) =>
+          other.id !== session.id &&
+          isWorkEntry(other) &&
+          sessionsOverlap(session, other)
+      )
+    : [];
+
+/**
+ * Describe how a session overlaps stored sessions
+ * @param session - Session about to be saved
+ * @param sessions - Stored sessions to compare against
+ * @returns One conflict per overlapping session, earliest first
+ */
+export const detectSessionConflicts = (
+  session: SessionObject,
+  sessions: SessionObject[]
+): SessionConflict[] =>
+  findOverlappingSessions(session, sessions)
+    .map((other) => {
+      const overlapStart = Math.max(
+        new Date(session.clockIn).getTime(),
+        new Date(other.clockIn).getTime()
+      );
+      const overlapEnd = Math.min(
+        new Date(session.clockOut).getTime(),
+        new Date(other.clockOut).getTime()
+      );
+      return {
+        session: other,
+        overlapStart: new Date(overlapStart).toISOString(),
+        overlapEnd: new Date(overlapEnd).toISOString(),
+        overlapHours:
+          Math.round(((overlapEnd - overlapStart) / (1000 * 60 * 60)) * 100) /
+          100,
+      };
+    })
+    .sort((a, b) => a.overlapStart.localeCompare(b.overlapStart));
+
+/**
+ * Rebuild a session over a new time range, keeping the breaks inside it
+ */
+const withTimes = (
+  session: SessionObject,
+  clockIn: Date,
+  clockOut: Date,
+  breaks: BreakInterval[]
+): SessionObject => {
+  const kept = clipBreaks(breaks, clockIn, clockOut);
+  const updated: SessionObject = {
+    ...session,
+    date: getSessionDate(clockIn, session.utcOffset),
+    clockIn: clockIn.toISOString(),
+    clockOut: clockOut.toISOString(),
+    hours: calculateHours(clockIn.toISOString(), clockOut.toISOString(), kept),
+  };
+  if (kept.length > 0) {
+    updated.breaks = kept;
+  } else {
+    delete updated.breaks;
+  }
+  return updated;
+};
+
+/**
+ * Fold overlapping sessions into one session covering all of them. The
+ * merged session keeps the new session's id and project. Breaks that
+ * overlap an earlier break are dropped so no time is subtracted twice.
+ */
+const mergeSessions = (
+  session: SessionObject,
+  conflicts: SessionConflict[]
+): SessionObject => {
+  const all = [session, ...conflicts.map((conflict) => conflict.session)];
+  const clockIn = new Date(
+    Math.min(...all.map((s) => new Date(s.clockIn).getTime()))
+  );
+  const clockOut = new Date(
+    Math.max(...all.map((s) => new Date(s.clockOut).getTime()))
+  );
+
+  const breaks = all
+    .reduce<BreakInterval[]>((list, s) => list.concat(s.breaks ?? []), [])
+    .sort((a, b) => a.start.localeCompare(b.start))
+    .reduce<BreakInterval[]>((kept, interval) => {
+      const previous = kept[kept.length - 1];
+      return previous?.end && interval.start < previous.end
+        ? kept
+        : kept.concat(interval);
+    }, []);
+
+  return withTimes(session, clockIn, clockOut, breaks);
+};
+
+/**
+ * Cut the overlapping time out of a session. When the overlaps leave
+ * several pieces, the longest one is kept.
+ * @returns The trimmed session, or null if nothing is left
+ */
+const trimSession = (
+  session: SessionObject,
+  conflicts: SessionConflict[]
+): SessionObject | null => {
+  let pieces = [
+    {
+      start: new Date(session.clockIn).getTime(),
+      end: new Date(session.clockOut).getTime(),
+    },
+  ];
+
+  conflicts.forEach((conflict) => {
+    const cutStart = new Date(conflict.session.clockIn).getTime();
+    const cutEnd = new Date(conflict.session.clockOut).getTime();
+    pieces = pieces.reduce<{ start: number; end: number }[]>(
+      (result, piece) => {
+        if (cutEnd <= piece.start || cutStart >= piece.end) {
+          return result.concat(piece);
+        }
+        return result
+          .concat({ start: piece.start, end: cutStart })
+          .concat({ start: cutEnd, end: piece.end })
+          .filter((part) => part.end > part.start);
+      },
+      []
+    );
+  });
+
+  const longest = pieces.reduce<{ start: number; end: number } | null>(
+    (best, piece) =>
+      !best || piece.end - piece.start > best.end - best.start ? piece : best,
+    null
+  );
+  if (!longest) {
+    return null;
+  }
+
+  return withTimes(
+    session,
+    new Date(longest.start),
+    new Date(longest.end),
+    session.breaks ?? []
+  );
+};
+
+/**
+ * Apply the user's choice for a session that overlaps stored sessions
+ * @param session - Session about to be saved
+ * @param conflicts - Overlaps from detectSessionConflicts
+ * @param resolution - Merge into one session, trim the new one, or keep both
+ * @returns Session to save (null if trimmed away) and stored sessions to remove
+ */
+export const resolveSessionConflicts = (
+  session: SessionObject,
+  conflicts: SessionConflict[],
+  resolution: ConflictResolution
+): { session: SessionObject | null; removedIds: string[] } => {
+  if (conflicts.length === 0 || resolution === 'keepBoth') {
+    return { session, removedIds: [] };
+  }
+
+  if (resolution === 'merge') {
+    return {
+      session: mergeSessions(session, conflicts),
+      removedIds: conflicts.map((conflict) => conflict.session.id),
+    };
+  }
+
+  return { session: trimSession(session, conflicts), removedIds: [] };
+};
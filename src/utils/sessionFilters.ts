@@ -1,9 +1,21 @@
-import { SessionObject, FilterType, SessionFilter } from '../types';
+import {
+  SessionObject,
+  FilterType,
+  SessionFilter,
+  DateRange,
+  DateRangePreset,
+  BillingStatus,
+  SessionNotes,
+  TagTotal,
+} from '../types';
 import {
   getLastWeekDateRange,
   getLastMonthDateRange,
+  getThisWeekDateRange,
   isDateInRange,
 } from './timeUtils';
+import { getActiveLocale } from './calendar';
+import { BILLING_STATUS_LABELS, getBillingStatus } from './billing';
 
 /**
  * Available filter options for sessions
@@ -14,13 +26,145 @@ export const FILTER_OPTIONS = [
   { type: 'lastMonth' as FilterType, label: 'Last Month', days: 30 },
 ];
 
+/**
+ * Billing filters offered in session history
+ */
+export const BILLING_FILTER_OPTIONS: {
+  status: BillingStatus | 'all';
+  label: string;
+}[] = [
+  { status: 'all', label: 'Any Status' },
+  ...(['unbilled', 'billed', 'paid'] as BillingStatus[]).map((status) => ({
+    status,
+    label: BILLING_STATUS_LABELS[status],
+  })),
+];
+
+/**
+ * Presets offered by the custom date range picker
+ */
+export const DATE_RANGE_PRESETS: { preset: DateRangePreset; label: string }[] =
+  [
+    { preset: 'last7Days', label: 'Last 7 Days' },
+    { preset: 'last14Days', label: 'Last 14 Days' },
+    { preset: 'last30Days', label: 'Last 30 Days' },
+    { preset: 'last90Days', label: 'Last 90 Days' },
+    { preset: 'thisQuarter', label: 'This Quarter' },
+    { preset: 'yearToDate', label: 'Year to Date' },
+    { preset: 'previousPayPeriod', label: 'Previous Pay Period' },
+  ];
+
+/**
+ * Range covering the given number of days up to and including today
+ */
+const getLastDaysRange = (days: number, now: Date): DateRange => {
+  const startDate = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  startDate.setDate(startDate.getDate() - (days - 1));
+  return { startDate, endDate: new Date(now) };
+};
+
+/**
+ * Get the pay period before the current one. Pay periods are
+ * semi-monthly: the 1st to the 15th and the 16th to the end of the month.
+ * @param now - Reference date (defaults to today)
+ * @returns Start and end dates of the previous pay period
+ */
+export const getPreviousPayPeriodRange = (
+  now: Date = new Date()
+): DateRange => {
+  const year = now.getFullYear();
+  const month = now.getMonth();
+
+  if (now.getDate() > 15) {
+    return {
+      startDate: new Date(year, month, 1),
+      endDate: new Date(year, month, 15),
+    };
+  }
+
+  // Second half of the previous month; day 0 is its last day
+  return {
+    startDate: new Date(year, month - 1, 16),
+    endDate: new Date(year, month, 0),
+  };
+};
+
+/**
+ * Get the date range for a custom range preset
+ * @param preset - Preset to resolve
+ * @param now - Reference date (defaults to today)
+ * @returns Start and end dates for the preset
+ */
+export const getPresetDateRange = (
+  preset: DateRangePreset,
+  now: Date = new Date()
+): DateRange => {
+  switch (preset) {
+    case 'last7Days':
+      return getLastDaysRange(7, now);
+    case 'last14Days':
+      return getLastDaysRange(14, now);
+    case 'last30Days':
+      return getLastDaysRange(30, now);
+    case 'last90Days':
+      return getLastDaysRange(90, now);
+    case 'thisQuarter':
+      return {
+        startDate: new Date(
+          now.getFullYear(),
+          Math.floor(now.getMonth() / 3) * 3,
+          1
+        ),
+        endDate: new Date(now),
+      };
+    case 'yearToDate':
+      return {
+        startDate: new Date(now.getFullYear(), 0, 1),
+        endDate: new Date(now),
+      };
+    case 'previousPayPeriod':
+    default:
+      return getPreviousPayPeriodRange(now);
+  }
+};
+
+/**
+ * Format a date range for filter labels in the preferred locale
+ * (e.g., "Mar 1 – Mar 15")
+ * @param range - Range to format
+ * @returns Short human readable range
+ */
+export const formatDateRangeLabel = ({ startDate, endDate }: DateRange) => {
+  const options: Intl.DateTimeFormatOptions = {
+    month: 'short',
+    day: 'numeric',
+    ...(startDate.getFullYear() !== endDate.getFullYear()
+      ? { year: 'numeric' }
+      : {}),
+  };
+  const locale = getActiveLocale();
+  return `${startDate.toLocaleDateString(locale, options)} – ${endDate.toLocaleDateString(locale, options)}`;
+};
+
 /**
  * Create a session filter based on filter type
  * @param filterType - Type of filter to create
+ * @param customRange - Range used by the 'custom' filter
  * @returns SessionFilter object with appropriate date ranges
  */
-export const createSessionFilter = (filterType: FilterType): SessionFilter => {
+export const createSessionFilter = (
+  filterType: FilterType,
+  customRange?: DateRange | null
+): SessionFilter => {
   switch (filterType) {
+    case 'custom':
+      return customRange
+        ? { type: filterType, ...customRange }
+        : { type: 'all' };
+    case 'thisWeek': {
+      const { startDate, endDate } = getThisWeekDateRange();
+      return { type: filterType, startDate, endDate };
+    }
     case 'lastWeek': {
       const { startDate, endDate } = getLastWeekDateRange();
       return { type: filterType, startDate, endDate };
@@ -54,17 +198,101 @@ export const filterSessions = (
   );
 };
 
+/**
+ * Filter sessions by billing status
+ * @param sessions - Array of sessions to filter
+ * @param status - Status to keep, or 'all' for every session
+ * @returns Sessions with that status, in their original order
+ */
+export const filterSessionsByBillingStatus = (
+  sessions: SessionObject[],
+  status: BillingStatus | 'all'
+): SessionObject[] =>
+  status === 'all'
+    ? sessions
+    : sessions.filter((session) => getBillingStatus(session) === status);
+
+/**
+ * Normalize a tag so "#Design " and "design" are the same tag
+ * @param tag - Raw tag text
+ * @returns Lowercase tag without a leading # or extra spaces
+ */
+export const normalizeTag = (tag: string): string =>
+  tag.trim().replace(/^#+/, '').replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Parse comma-separated tag input
+ * @param text - Input such as "design, #Meetings"
+ * @returns Unique normalized tags in the order entered
+ */
+export const parseTags = (text: string): string[] =>
+  Array.from(new Set(text.split(',').map(normalizeTag).filter(Boolean)));
+
+/**
+ * Build the note and tag fields of a session, leaving out empty ones
+ * @param notes - Note and tags as entered
+ * @returns Fields to spread into a SessionObject
+ */
+export const buildSessionNotes = ({
+  note,
+  tags,
+}: SessionNotes): SessionNotes => {
+  const trimmedNote = note?.trim();
+  const cleanTags = parseTags((tags ?? []).join(','));
+  return {
+    ...(trimmedNote ? { note: trimmedNote } : {}),
+    ...(cleanTags.length > 0 ? { tags: cleanTags } : {}),
+  };
+};
+
+/**
+ * Filter sessions by tag
+ * @param sessions - Array of sessions to filter
+ * @param tag - Tag to keep, or null for every session
+ * @returns Sessions carrying the tag, in their original order
+ */
+export const filterSessionsByTag = (
+  sessions: SessionObject[],
+  tag: string | null
+): SessionObject[] =>
+  tag === null
+    ? sessions
+    : sessions.filter((session) => session.tags?.includes(tag));
+
+/**
+ * Total hours per tag. A session with several tags counts towards each
+ * of them, so tag totals can add up to more than the hours worked.
+ * @param sessions - Sessions to total
+ * @returns One entry per tag, most hours first
+ */
+export const getTagTotals = (sessions: SessionObject[]): TagTotal[] => {
+  const totals = new Map<string, TagTotal>();
+  sessions.forEach((session) => {
+    (session.tags ?? []).forEach((tag) => {
+      const total = totals.get(tag) ?? { tag, hours: 0, sessionCount: 0 };
+      total.hours += session.hours;
+      total.sessionCount += 1;
+      totals.set(tag, total);
+    });
+  });
+  return Array.from(totals.values())
+    .map((total) => ({ ...total, hours: Math.round(total.hours * 100) / 100 }))
+    .sort((a, b) => b.hours - a.hours || a.tag.localeCompare(b.tag));
+};
+
 /**
  * Filter sessions by filter type (convenience function)
  * @param sessions - Array of sessions to filter
  * @param filterType - Type of filter to apply
+ * @param customRange - Range used by the 'custom' filter
  * @returns Filtered array of sessions
  */
 export const filterSessionsByType = (
   sessions: SessionObject[],
-  filterType: FilterType
+  filterType: FilterType,
+  customRange?: DateRange | null
 ): SessionObject[] => {
-  const filter = createSessionFilter(filterType);
+  const filter = createSessionFilter(filterType, customRange);
   return filterSessions(sessions, filter);
 };
 
@@ -0,0 +1,540 @@
+// Date-partitioned session storage
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SessionObject } from '../types';
+import { validateSessionsArray } from './validation';
+import { toLocalDateString } from './timeUtils';
+import { withDeviceTimeZone } from './timeZone';
+
+// Legacy single-array key used before sessions were partitioned by month
+const LEGACY_SESSIONS_KEY = 'WORK_SESSIONS';
+
+// Raw legacy blob, kept when some of it could not be migrated
+const LEGACY_BACKUP_KEY = 'WORK_SESSIONS_LEGACY_BACKUP';
+
+// Index of every month partition that currently holds sessions
+const SESSION_INDEX_KEY = 'WORK_SESSIONS_INDEX';
+
+// Prefix for month partitions, e.g. WORK_SESSIONS_2026_10
+const PARTITION_KEY_PREFIX = 'WORK_SESSIONS_';
+
+// Version of the stored session format, raised by each data migration
+const SCHEMA_VERSION_KEY = 'WORK_SESSIONS_SCHEMA_VERSION';
+
+// Version 2: every session records the time zone it was clocked in from
+const SCHEMA_VERSION = 2;
+
+/**
+ * Get the partition id (YYYY_MM) for a session date
+ * @param date - Date string in YYYY-MM-DD format
+ * @returns Partition id such as "2026_10"
+ */
+export const getPartitionId = (date: string): string => {
+  const [year, month] = date.split('-');
+  return `${year}_${month}`;
+};
+
+/**
+ * Get the AsyncStorage key for a partition id
+ * @param partitionId - Partition id in YYYY_MM format
+ * @returns Storage key such as "WORK_SESSIONS_2026_10"
+ */
+export const getPartitionKey = (partitionId: string): string =>
+  `${PARTITION_KEY_PREFIX}${partitionId}`;
+
+/**
+ * Get the partition id for a Date object using local time
+ */
+const getPartitionIdForDate = (date: Date): string =>
+  getPartitionId(toLocalDateString(date));
+
+/**
+ * Sort sessions most recent first, using clock-in time as the tiebreaker
+ */
+const sortSessions = (sessions: SessionObject[]): SessionObject[] =>
+  [...sessions].sort((a, b) => {
+    if (a.date !== b.date) {
+      return a.date < b.date ? 1 : -1;
+    }
+    return new Date(b.clockIn).getTime() - new Date(a.clockIn).getTime();
+  });
+
+/**
+ * Parse a raw JSON value into a validated sessions array
+ */
+const parseSessions = (raw: string | null): SessionObject[] => {
+  if (!raw) {
+    return [];
+  }
+  try {
+    return validateSessionsArray(JSON.parse(raw));
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Count the entries in a raw sessions array, valid or not
+ * @returns Number of entries, or -1 when the value isn't a JSON array
+ */
+const countRawSessions = (raw: string): number => {
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.length : -1;
+  } catch {
+    return -1;
+  }
+};
+
+/**
+ * Flatten loaded partitions into a single sessions array
+ */
+const flattenPartitions = (
+  partitions: Map<string, SessionObject[]>
+): SessionObject[] =>
+  Array.from(partitions.values()).reduce<SessionObject[]>(
+    (all, sessions) => all.concat(sessions),
+    []
+  );
+
+/**
+ * Group sessions by their month partition
+ */
+const groupByPartition = (
+  sessions: SessionObject[]
+): Map<string, SessionObject[]> => {
+  const groups = new Map<string, SessionObject[]>();
+  sessions.forEach((session) => {
+    const partitionId = getPartitionId(session.date);
+    const group = groups.get(partitionId) ?? [];
+    group.push(session);
+    groups.set(partitionId, group);
+  });
+  return groups;
+};
+
+/**
+ * Load the partition index (newest partition first)
+ * @returns Array of partition ids in YYYY_MM format
+ */
+export const loadSessionIndex = async (): Promise<string[]> => {
+  const raw = await AsyncStorage.getItem(SESSION_INDEX_KEY);
+  if (!raw) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+    return parsed
+      .filter((id): id is string => typeof id === 'string')
+      .sort()
+      .reverse();
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Load the sessions stored in the given partitions
+ */
+const loadPartitions = async (
+  partitionIds: string[]
+): Promise<Map<string, SessionObject[]>> => {
+  const result = new Map<string, SessionObject[]>();
+  if (partitionIds.length === 0) {
+    return result;
+  }
+  const entries = await AsyncStorage.multiGet(
+    partitionIds.map(getPartitionKey)
+  );
+  entries.forEach(([, value], index) => {
+    result.set(partitionIds[index], parseSessions(value));
+  });
+  return result;
+};
+
+/**
+ * Load the partitions holding the given sessions. The months of the
+ * expected dates are read first; the other partitions are only read when a
+ * session isn't found there, e.g. when the caller's copy is out of date.
+ * @param index - Partition index
+ * @param sessionIds - Ids of the sessions to find
+ * @param dates - Dates (YYYY-MM-DD) the sessions are expected on
+ */
+const loadPartitionsHolding = async (
+  index: string[],
+  sessionIds: string[],
+  dates: string[]
+): Promise<Map<string, SessionObject[]>> => {
+  const expected = new Set(dates.map(getPartitionId));
+  const partitions = await loadPartitions(
+    index.filter((partitionId) => expected.has(partitionId))
+  );
+  const found = new Set(
+    flattenPartitions(partitions).map((session) => session.id)
+  );
+  if (sessionIds.every((id) => found.has(id))) {
+    return partitions;
+  }
+
+  const rest = await loadPartitions(
+    index.filter((partitionId) => !partitions.has(partitionId))
+  );
+  rest.forEach((sessions, partitionId) =>
+    partitions.set(partitionId, sessions)
+  );
+  return partitions;
+};
+
+/**
+ * Build the multiSet/multiRemove operations that persist the given partitions
+ * and keep the index in sync
+ */
+const buildPartitionWrite = (
+  index: string[],
+  partitions: Map<string, SessionObject[]>
+): { pairs: [string, string][]; removals: string[] } => {
+  const nextIndex = new Set(index);
+  const pairs: [string, string][] = [];
+  const removals: string[] = [];
+
+  partitions.forEach((sessions, partitionId) => {
+    if (sessions.length === 0) {
+      nextIndex.delete(partitionId);
+      removals.push(getPartitionKey(partitionId));
+    } else {
+      nextIndex.add(partitionId);
+      pairs.push([
+        getPartitionKey(partitionId),
+        JSON.stringify(sortSessions(sessions)),
+      ]);
+    }
+  });
+
+  pairs.push([
+    SESSION_INDEX_KEY,
+    JSON.stringify(Array.from(nextIndex).sort().reverse()),
+  ]);
+
+  return { pairs, removals };
+};
+
+/**
+ * Migrate the legacy single-array WORK_SESSIONS blob into month partitions.
+ * Safe to call repeatedly: does nothing once the legacy key is gone. When
+ * the blob is unreadable or holds invalid sessions it is kept under a
+ * backup key before the legacy key is removed.
+ * @returns Number of sessions migrated
+ */
+export const migrateLegacySessions = async (): Promise<number> => {
+  const legacyData = await AsyncStorage.getItem(LEGACY_SESSIONS_KEY);
+  if (legacyData === null) {
+    return 0;
+  }
+
+  const legacySessions = parseSessions(legacyData);
+  const index = await loadSessionIndex();
+  const groups = groupByPartition(legacySessions);
+  const existing = await loadPartitions(Array.from(groups.keys()));
+
+  // Merge with anything already partitioned, skipping duplicate ids
+  const merged = new Map<string, SessionObject[]>();
+  groups.forEach((sessions, partitionId) => {
+    const current = existing.get(partitionId) ?? [];
+    const knownIds = new Set(current.map((session) => session.id));
+    merged.set(partitionId, [
+      ...current,
+      ...sessions.filter((session) => !knownIds.has(session.id)),
+    ]);
+  });
+
+  const { pairs } = buildPartitionWrite(index, merged);
+  const backup: [string, string][] =
+    countRawSessions(legacyData) === legacySessions.length
+      ? []
+      : [[LEGACY_BACKUP_KEY, legacyData]];
+  await AsyncStorage.multiSet([...pairs, ...backup]);
+  await AsyncStorage.removeItem(LEGACY_SESSIONS_KEY);
+
+  return legacySessions.length;
+};
+
+/**
+ * Stamp sessions recorded before time zones were tracked with the device's
+ * time zone, keeping their dates as recorded. Runs once; the schema
+ * version records that it has.
+ * @returns Number of sessions stamped
+ */
+export const migrateSessionTimeZones = async (): Promise<number> => {
+  const version = Number(await AsyncStorage.getItem(SCHEMA_VERSION_KEY));
+  if (version >= SCHEMA_VERSION) {
+    return 0;
+  }
+
+  // Nothing stored yet; new sessions are stamped as they are saved
+  const index = await loadSessionIndex();
+  if (index.length === 0) {
+    return 0;
+  }
+  const partitions = await loadPartitions(index);
+
+  let stamped = 0;
+  const updated = new Map<string, SessionObject[]>();
+  partitions.forEach((sessions, partitionId) => {
+    updated.set(
+      partitionId,
+      sessions.map((session) => {
+        const migrated = withDeviceTimeZone(session);
+        if (migrated !== session) {
+          stamped++;
+        }
+        return migrated;
+      })
+    );
+  });
+
+  const { pairs } = buildPartitionWrite(index, updated);
+  await AsyncStorage.multiSet([
+    ...pairs,
+    [SCHEMA_VERSION_KEY, String(SCHEMA_VERSION)],
+  ]);
+
+  return stamped;
+};
+
+/**
+ * Bring stored sessions up to the current format before reading or writing
+ */
+const migrateSessions = async (): Promise<void> => {
+  await migrateLegacySessions();
+  await migrateSessionTimeZones();
+};
+
+/**
+ * Load every stored session, most recent first
+ * @returns Array of all sessions across all partitions
+ */
+export const loadAllSessions = async (): Promise<SessionObject[]> => {
+  await migrateSessions();
+  const index = await loadSessionIndex();
+  const partitions = await loadPartitions(index);
+  return sortSessions(flattenPartitions(partitions));
+};
+
+/**
+ * Load sessions whose date falls within a range, reading only the month
+ * partitions that overlap it
+ * @param startDate - Start of the range (inclusive)
+ * @param endDate - End of the range (inclusive)
+ * @returns Sessions within the range, most recent first
+ */
+export const loadSessionsInRange = async (
+  startDate: Date,
+  endDate: Date
+): Promise<SessionObject[]> => {
+  await migrateSessions();
+  const startId = getPartitionIdForDate(startDate);
+  const endId = getPartitionIdForDate(endDate);
+  const index = await loadSessionIndex();
+  const partitions = await loadPartitions(
+    index.filter((id) => id >= startId && id <= endId)
+  );
+
+  const start = toLocalDateString(startDate);
+  const end = toLocalDateString(endDate);
+
+  return sortSessions(
+    flattenPartitions(partitions).filter(
+      (session) => session.date >= start && session.date <= end
+    )
+  );
+};
+
+/**
+ * Build the storage operations that add sessions to their partitions.
+ * Returned as key/value pairs so callers can batch them with other writes.
+ * @param sessions - Sessions to add
+ * @returns Key/value pairs for AsyncStorage.multiSet
+ */
+export const prepareSessionsInsert = async (
+  sessions: SessionObject[]
+): Promise<[string, string][]> => {
+  await migrateSessions();
+  const index = await loadSessionIndex();
+  const groups = groupByPartition(sessions.map(withDeviceTimeZone));
+  const existing = await loadPartitions(Array.from(groups.keys()));
+
+  const updated = new Map<string, SessionObject[]>();
+  groups.forEach((added, partitionId) => {
+    const addedIds = new Set(added.map((session) => session.id));
+    const current = (existing.get(partitionId) ?? []).filter(
+      (session) => !addedIds.has(session.id)
+    );
+    updated.set(partitionId, [...added, ...current]);
+  });
+
+  return buildPartitionWrite(index, updated).pairs;
+};
+
+/**
+ * Build the storage operations that save sessions and remove others in a
+ * single write. A saved session replaces the stored one with the same id,
+ * moving partition when its date changed month. Only the months of the
+ * saved sessions and of `storedDates` are read when the sessions are there.
+ * @param saved - Sessions to add or replace
+ * @param removedIds - Ids of sessions to remove
+ * @param options - Stored dates of the removed or replaced sessions, and
+ * whether the saved sessions are edits of stored ones
+ * @returns Key/value pairs for AsyncStorage.multiSet, partition keys left
+ * empty, and the stored sessions that were removed or replaced
+ */
+export const prepareSessionsChange = async (
+  saved: SessionObject[],
+  removedIds: string[],
+  {
+    storedDates = [],
+    replacing = false,
+  }: { storedDates?: string[]; replacing?: boolean } = {}
+): Promise<{
+  pairs: [string, string][];
+  removals: string[];
+  removed: SessionObject[];
+  replaced: SessionObject[];
+}> => {
+  await migrateSessions();
+  const removeIds = new Set(removedIds);
+  const savedIds = new Set(saved.map((session) => session.id));
+  const index = await loadSessionIndex();
+  const groups = groupByPartition(saved.map(withDeviceTimeZone));
+  const partitions = await loadPartitionsHolding(
+    index,
+    replacing ? [...removedIds, ...savedIds] : removedIds,
+    [...storedDates, ...saved.map((session) => session.date)]
+  );
+
+  const removed: SessionObject[] = [];
+  const replaced: SessionObject[] = [];
+  const updated = new Map<string, SessionObject[]>();
+  partitions.forEach((sessions, partitionId) => {
+    const kept = sessions.filter(
+      (session) => !removeIds.has(session.id) && !savedIds.has(session.id)
+    );
+    if (kept.length !== sessions.length) {
+      removed.push(...sessions.filter((session) => removeIds.has(session.id)));
+      replaced.push(...sessions.filter((session) => savedIds.has(session.id)));
+      updated.set(partitionId, kept);
+    }
+  });
+
+  groups.forEach((added, partitionId) => {
+    updated.set(partitionId, [
+      ...added,
+      ...(updated.get(partitionId) ?? partitions.get(partitionId) ?? []),
+    ]);
+  });
+
+  return { ...buildPartitionWrite(index, updated), removed, replaced };
+};
+
+/**
+ * Fields that can be changed on many stored sessions at once. Times and
+ * dates are left out so no session changes partition or overlaps another.
+ */
+export type SessionPatch = Partial<
+  Omit<SessionObject, 'id' | 'date' | 'clockIn' | 'clockOut' | 'hours'>
+>;
+
+/**
+ * Build the storage operations that apply the same change to several
+ * stored sessions, so callers can batch them with other writes
+ * @param sessionIds - Ids of the sessions to change
+ * @param changes - Fields to set on each session
+ * @param dates - Stored dates of the sessions, so only their months are
+ * read (optional)
+ * @returns Key/value pairs for AsyncStorage.multiSet and the sessions as
+ * they are after the change
+ */
+export const prepareSessionsPatch = async (
+  sessionIds: string[],
+  changes: SessionPatch,
+  dates: string[] = []
+): Promise<{ pairs: [string, string][]; patched: SessionObject[] }> => {
+  await migrateSessions();
+  const ids = new Set(sessionIds);
+  const index = await loadSessionIndex();
+  const partitions = await loadPartitionsHolding(index, sessionIds, dates);
+
+  const patched: SessionObject[] = [];
+  const updated = new Map<string, SessionObject[]>();
+  partitions.forEach((sessions, partitionId) => {
+    if (!sessions.some((session) => ids.has(session.id))) {
+      return;
+    }
+    updated.set(
+      partitionId,
+      sessions.map((session) => {
+        if (!ids.has(session.id)) {
+          return session;
+        }
+        const next = { ...session, ...changes };
+        patched.push(next);
+        return next;
+      })
+    );
+  });
+
+  return {
+    pairs: updated.size > 0 ? buildPartitionWrite(index, updated).pairs : [],
+    patched,
+  };
+};
+
+/**
+ * Apply the same change to several stored sessions in a single write
+ * @param sessionIds - Ids of the sessions to change
+ * @param changes - Fields to set on each session
+ * @param dates - Stored dates of the sessions (optional)
+ * @returns The sessions as they are after the change
+ */
+export const patchSessionsInPartitions = async (
+  sessionIds: string[],
+  changes: SessionPatch,
+  dates: string[] = []
+): Promise<SessionObject[]> => {
+  const { pairs, patched } = await prepareSessionsPatch(
+    sessionIds,
+    changes,
+    dates
+  );
+  if (pairs.length > 0) {
+    await AsyncStorage.multiSet(pairs);
+  }
+  return patched;
+};
+
+/**
+ * Get every session storage key currently in use (partitions, index,
+ * schema version and the legacy keys) so callers can remove them all
+ */
+export const getAllSessionStorageKeys = async (): Promise<string[]> => {
+  const index = await loadSessionIndex();
+  return [
+    LEGACY_SESSIONS_KEY,
+    LEGACY_BACKUP_KEY,
+    SESSION_INDEX_KEY,
+    SCHEMA_VERSION_KEY,
+    ...index.map(getPartitionKey),
+  ];
+};
+
+/**
+ * Get session store keys for testing purposes
+ */
+export const getSessionStoreKeys = () => ({
+  LEGACY_SESSIONS_KEY,
+  LEGACY_BACKUP_KEY,
+  SESSION_INDEX_KEY,
+  PARTITION_KEY_PREFIX,
+  SCHEMA_VERSION_KEY,
+});
@@ -0,0 +1,63 @@
+// Load and save functions for a setting stored as JSON under one key
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  handleStorageError,
+  safeAsyncOperation,
+  retryOperation,
+} from './errorHandling';
+
+export interface SettingsStore<T> {
+  /** Load the stored value, or the defaults if none is valid */
+  load: () => Promise<T>;
+
+  /** Validate and store a value, throwing when it is invalid */
+  save: (value: T) => Promise<void>;
+}
+
+/**
+ * Create the load and save functions for a setting
+ * @param key - AsyncStorage key the setting is stored under
+ * @param defaults - Value used while nothing valid is stored
+ * @param validate - Checks stored values on load and new values on save
+ * @param label - What the setting is called in errors, e.g. "hour goals"
+ * @returns Load and save functions
+ */
+export const createSettingsStore = <T>(
+  key: string,
+  defaults: T,
+  validate: (value: unknown) => value is T,
+  label: string
+): SettingsStore<T> => ({
+  load: () =>
+    safeAsyncOperation(
+      async () => {
+        const data = await AsyncStorage.getItem(key);
+        if (data) {
+          const value = JSON.parse(data);
+          if (validate(value)) {
+            return value;
+          }
+        }
+        return defaults;
+      },
+      defaults,
+      `load ${label}`
+    ),
+
+  save: async (value: T) => {
+    if (!validate(value)) {
+      throw new Error(`Invalid ${label}`);
+    }
+
+    try {
+      await retryOperation(
+        () => AsyncStorage.setItem(key, JSON.stringify(value)),
+        2,
+        500
+      );
+    } catch (error) {
+      const appError = handleStorageError(error as Error, `save ${label}`);
+      throw new Error(appError.message);
+    }
+  },
+});
@@ -0,0 +1,128 @@
+// Platform file helpers for sharing, printing and picking files
+import { Platform } from 'react-native';
+import { File, Paths } from 'expo-file-system';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+
+/**
+ * Share a text file through the platform share sheet, or trigger a file
+ * download on web
+ * @param content - File content
+ * @param fileName - Name of the file to create
+ * @param mimeType - Mime type of the content
+ */
+export const shareTextFile = async (
+  content: string,
+  fileName: string,
+  mimeType: string
+): Promise<void> => {
+  if (Platform.OS === 'web') {
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+    return;
+  }
+
+  const isAvailable = await Sharing.isAvailableAsync();
+  if (!isAvailable) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  // Write to the cache directory so the OS can clean it up later
+  const file = new File(Paths.cache, fileName);
+  if (file.exists) {
+    file.delete();
+  }
+  file.create();
+  file.write(content);
+
+  await Sharing.shareAsync(file.uri, {
+    mimeType,
+    dialogTitle: fileName,
+    UTI:
+      mimeType === 'text/csv'
+        ? 'public.comma-separated-values-text'
+        : 'public.json',
+  });
+};
+
+/**
+ * Open the system print dialog for an HTML document
+ * @param html - Document to print
+ */
+export const printHtml = async (html: string): Promise<void> => {
+  await Print.printAsync({ html });
+};
+
+/**
+ * Render an HTML document to PDF and share it through the platform share
+ * sheet; on web, where there is no PDF file, the print dialog opens so the
+ * user can save as PDF from there
+ * @param html - Document to render
+ * @param fileName - Name shown in the share sheet
+ */
+export const shareHtmlAsPdf = async (
+  html: string,
+  fileName: string
+): Promise<void> => {
+  if (Platform.OS === 'web') {
+    await printHtml(html);
+    return;
+  }
+
+  const isAvailable = await Sharing.isAvailableAsync();
+  if (!isAvailable) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  const { uri } = await Print.printToFileAsync({ html });
+  await Sharing.shareAsync(uri, {
+    mimeType: 'application/pdf',
+    dialogTitle: fileName,
+    UTI: 'com.adobe.pdf',
+  });
+};
+
+/**
+ * Let the user pick a text file and read its contents
+ * @returns File name and content, or null if the user cancelled
+ */
+export const pickTextFile = async (): Promise<{
+  name: string;
+  content: string;
+} | null> => {
+  if (Platform.OS === 'web') {
+    return new Promise((resolve, reject) => {
+      const input = document.createElement('input');
+      input.type = 'file';
+      input.accept = '.csv,.json,text/csv,application/json';
+      input.onchange = () => {
+        const selected = input.files?.[0];
+        if (!selected) {
+          resolve(null);
+          return;
+        }
+        selected
+          .text()
+          .then((content) => resolve({ name: selected.name, content }))
+          .catch(reject);
+      };
+      input.click();
+    });
+  }
+
+  const picked = await File.pickFileAsync();
+  const pickedFile = Array.isArray(picked) ? picked[0] : picked;
+  if (!pickedFile || !pickedFile.uri) {
+    return null;
+  }
+
+  const file = new File(pickedFile.uri);
+  return { name: file.name, content: await file.text() };
+};
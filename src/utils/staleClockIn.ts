@@ -0,0 +1,92 @@
+// Detecting clock-ins that were probably left running by mistake
+import { SessionObject } from '../types';
+import { isWorkEntry } from './leave';
+
+/** Hours after which a running clock-in is treated as forgotten */
+export const DEFAULT_STALE_CLOCK_IN_HOURS = 12;
+
+/** Session length suggested when there is no history to go by */
+const FALLBACK_SESSION_HOURS = 8;
+
+/** Number of recent sessions the typical session length is taken from */
+const RECENT_SESSION_COUNT = 20;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Whether a running clock-in has gone on long enough that the user
+ * probably forgot to clock out
+ * @param clockInTime - When the running session started
+ * @param thresholdHours - Hours after which to ask
+ * @param now - Reference time (defaults to now)
+ * @returns True once the session has run for at least the threshold
+ */
+export const isClockInStale = (
+  clockInTime: Date,
+  thresholdHours: number,
+  now: Date = new Date()
+): boolean => now.getTime() - clockInTime.getTime() >= thresholdHours * HOUR_MS;
+
+/**
+ * Median length of the most recent sessions, used to suggest when a
+ * forgotten session really ended
+ * @param sessions - Stored sessions in any order; leave entries are ignored
+ * @returns Typical hours per session, or 8 when there are none
+ */
+export const getTypicalSessionHours = (sessions: SessionObject[]): number => {
+  const recent = sessions
+    .filter(isWorkEntry)
+    .sort((a, b) => b.clockIn.localeCompare(a.clockIn))
+    .slice(0, RECENT_SESSION_COUNT)
+    .map((session) => session.hours)
+    .filter((hours) => hours > 0)
+    .sort((a, b) => a - b);
+  if (recent.length === 0) {
+    return FALLBACK_SESSION_HOURS;
+  }
+  const middle = Math.floor(recent.length / 2);
+  return recent.length % 2 === 0
+    ? (recent[middle - 1] + recent[middle]) / 2
+    : recent[middle];
+};
+
+/**
+ * Suggest a clock-out time for a forgotten session: a typical session
+ * length after clock-in, but never in the future
+ * @param clockInTime - When the running session started
+ * @param typicalHours - Usual session length in hours
+ * @param now - Reference time (defaults to now)
+ * @returns Suggested clock-out time, rounded down to the minute
+ */
+export const getSuggestedClockOutTime = (
+  clockInTime: Date,
+  typicalHours: number,
+  now: Date = new Date()
+): Date => {
+  const suggested = new Date(
+    Math.min(clockInTime.getTime() + typicalHours * HOUR_MS, now.getTime())
+  );
+  suggested.setSeconds(0, 0);
+  return suggested;
+};
+
+/**
+ * Check a clock-out time picked for a forgotten session
+ * @param clockInTime - When the running session started
+ * @param clockOutTime - Picked end time
+ * @param now - Reference time (defaults to now)
+ * @returns A message describing the problem, or null when the time is valid
+ */
+export const getClockOutTimeError = (
+  clockInTime: Date,
+  clockOutTime: Date,
+  now: Date = new Date()
+): string | null => {
+  if (clockOutTime.getTime() <= clockInTime.getTime()) {
+    return 'Clock-out must be after you clocked in';
+  }
+  if (clockOutTime.getTime() > now.getTime()) {
+    return 'Clock-out cannot be in the future';
+  }
+  return null;
+};
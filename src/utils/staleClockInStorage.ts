@@ -0,0 +1,33 @@
+// AsyncStorage wrapper functions for the forgotten clock-out threshold
+import { validateStaleClockInHours } from './validation';
+import { DEFAULT_STALE_CLOCK_IN_HOURS } from './staleClockIn';
+import { createSettingsStore } from './settingsStore';
+
+// Storage key
+const STALE_CLOCK_IN_HOURS_KEY = 'STALE_CLOCK_IN_HOURS';
+
+const staleClockInHoursStore = createSettingsStore<number>(
+  STALE_CLOCK_IN_HOURS_KEY,
+  DEFAULT_STALE_CLOCK_IN_HOURS,
+  validateStaleClockInHours,
+  'forgotten clock-out threshold'
+);
+
+/**
+ * Load the hours after which a running clock-in counts as forgotten
+ * @returns Saved threshold, or the default if none is valid
+ */
+export const loadStaleClockInHours = staleClockInHoursStore.load;
+
+/**
+ * Save the forgotten clock-out threshold
+ * @param hours - Hours after which to ask about a running clock-in
+ */
+export const saveStaleClockInHours = staleClockInHoursStore.save;
+
+/**
+ * Get storage keys for testing purposes
+ */
+export const getStaleClockInStorageKeys = () => ({
+  STALE_CLOCK_IN_HOURS_KEY,
+});
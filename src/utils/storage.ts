@@ -1,17 +1,46 @@
 // AsyncStorage wrapper functions
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { ClockState, SessionObject } from '../types';
-import { validateClockState, validateSessionsArray } from './validation';
+import {
+  ClockState,
+  ConflictResolution,
+  SessionConflict,
+  SessionObject,
+  SessionSaveResult,
+} from '../types';
+import { validateClockState } from './validation';
 import {
   handleStorageError,
   safeAsyncOperation,
   retryOperation,
 } from './errorHandling';
 import { timeAsyncOperation } from './performance';
+import {
+  loadAllSessions,
+  loadSessionsInRange,
+  prepareSessionsInsert,
+  prepareSessionsChange,
+  patchSessionsInPartitions,
+  SessionPatch,
+  getAllSessionStorageKeys,
+  getSessionStoreKeys,
+} from './sessionStore';
+import {
+  loadDeletedSessions,
+  prepareDeletedSessionsAdd,
+  takeDeletedSessions,
+} from './deletedSessions';
+import {
+  detectSessionConflicts,
+  resolveSessionConflicts,
+} from './sessionConflicts';
+import { parseLocalDate } from './timeUtils';
 
 // Storage keys
 const CLOCK_STATE_KEY = 'CLOCK_STATE';
-const WORK_SESSIONS_KEY = 'WORK_SESSIONS';
+const {
+  LEGACY_SESSIONS_KEY: WORK_SESSIONS_KEY,
+  SESSION_INDEX_KEY: WORK_SESSIONS_INDEX_KEY,
+} = getSessionStoreKeys();
 
 /**
  * Save current clock state to AsyncStorage with retry logic
@@ -21,6 +50,13 @@ export const saveCurrentState = async (state: ClockState): Promise<void> => {
   const stateToSave = {
     isClocked: state.isClocked,
     clockInTime: state.clockInTime,
+    ...(state.projectId ? { projectId: state.projectId } : {}),
+    ...(state.breaks && state.breaks.length > 0
+      ? { breaks: state.breaks }
+      : {}),
+    ...(state.timeZone !== undefined
+      ? { timeZone: state.timeZone, utcOffset: state.utcOffset }
+      : {}),
   };
 
   try {
@@ -69,14 +105,7 @@ export const loadStoredData = async (): Promise<{
 
       // Load sessions with safe operation
       const sessions = await safeAsyncOperation(
-        async () => {
-          const sessionsData = await AsyncStorage.getItem(WORK_SESSIONS_KEY);
-          if (sessionsData) {
-            const parsedSessions = JSON.parse(sessionsData);
-            return validateSessionsArray(parsedSessions);
-          }
-          return [];
-        },
+        loadAllSessions,
         [],
         'load sessions'
       );
@@ -91,38 +120,136 @@ export const loadStoredData = async (): Promise<{
 };
 
 /**
- * Save a completed work session to AsyncStorage with retry logic
+ * Find stored sessions that overlap a session. Sessions from the day
+ * before are included so overnight sessions are caught.
+ * @param session - Session to check
+ * @returns Overlaps with stored sessions, earliest first
+ */
+export const findStoredConflicts = async (
+  session: SessionObject
+): Promise<SessionConflict[]> => {
+  const startDate = parseLocalDate(session.date);
+  startDate.setDate(startDate.getDate() - 1);
+  const stored = await loadSessionsInRange(
+    startDate,
+    new Date(session.clockOut)
+  );
+  return detectSessionConflicts(session, stored);
+};
+
+/**
+ * Check a session for overlaps and apply the chosen resolution. Nothing is
+ * written here; see prepareResolvedWrite.
+ * @returns What to save, or the conflicts when the caller must choose
+ */
+const prepareSessionSave = async (
+  session: SessionObject,
+  resolution?: ConflictResolution
+): Promise<SessionSaveResult & { pending: boolean }> => {
+  const conflicts = await findStoredConflicts(session);
+  if (conflicts.length > 0 && !resolution) {
+    return { saved: null, conflicts, removedIds: [], pending: true };
+  }
+
+  const resolved = resolveSessionConflicts(
+    session,
+    conflicts,
+    resolution ?? 'keepBoth'
+  );
+
+  return {
+    saved: resolved.session,
+    conflicts,
+    removedIds: resolved.removedIds,
+    pending: false,
+  };
+};
+
+/**
+ * Dates of the stored sessions a save overlaps
+ */
+const getConflictDates = (conflicts: SessionConflict[]): string[] =>
+  conflicts.map((conflict) => conflict.session.date);
+
+/**
+ * Build the writes for a resolved save. The session goes into its month
+ * partition and sessions folded into a merge move to the recently deleted
+ * bin, all in one multiSet, so a failed write never loses the originals.
+ * @param saved - Session to add, or to replace the stored one with its id
+ * @param removedIds - Ids of the sessions it was merged with
+ * @param storedDates - Dates of the stored sessions it touches, so only
+ * their months are read
+ * @param replace - Whether the session is an edit of a stored one
+ * @returns Key/value pairs, emptied partition keys and the replaced session
+ */
+const prepareResolvedWrite = async (
+  saved: SessionObject,
+  removedIds: string[],
+  storedDates: string[],
+  replace = false
+): Promise<{
+  pairs: [string, string][];
+  removals: string[];
+  replaced: SessionObject[];
+}> => {
+  // A new session with nothing merged only touches its own partition
+  if (!replace && removedIds.length === 0) {
+    return {
+      pairs: await prepareSessionsInsert([saved]),
+      removals: [],
+      replaced: [],
+    };
+  }
+
+  const { pairs, removals, removed, replaced } = await prepareSessionsChange(
+    [saved],
+    removedIds,
+    { storedDates, replacing: replace }
+  );
+  return {
+    pairs:
+      removed.length > 0
+        ? [...pairs, await prepareDeletedSessionsAdd(removed)]
+        : pairs,
+    removals,
+    replaced,
+  };
+};
+
+/**
+ * Save a completed work session to AsyncStorage with retry logic. A
+ * session that overlaps stored sessions is only saved once a resolution
+ * is given.
  * @param session - Session object to save
+ * @param resolution - How to handle overlaps (optional)
+ * @returns The saved session, or the conflicts found
  */
-export const saveSession = async (session: SessionObject): Promise<void> => {
+export const saveSession = async (
+  session: SessionObject,
+  resolution?: ConflictResolution
+): Promise<SessionSaveResult> => {
   try {
-    await retryOperation(
+    return await retryOperation(
       async () => {
-        // Load existing sessions safely
-        const existingSessions = await safeAsyncOperation(
-          async () => {
-            const sessionsData = await AsyncStorage.getItem(WORK_SESSIONS_KEY);
-            if (sessionsData) {
-              const parsedSessions = JSON.parse(sessionsData);
-              return validateSessionsArray(parsedSessions);
-            }
-            return [];
-          },
-          [],
-          'load existing sessions for save'
+        const { pending, ...result } = await prepareSessionSave(
+          session,
+          resolution
         );
+        if (pending || !result.saved) {
+          return result;
+        }
 
-        // Add new session to the beginning of the array (most recent first)
-        const updatedSessions = [session, ...existingSessions];
-
-        // Limit to last 50 sessions for better performance (reduced from 100)
-        // This prevents excessive memory usage and improves app performance
-        const sessionsToSave = updatedSessions.slice(0, 50);
-
-        await AsyncStorage.setItem(
-          WORK_SESSIONS_KEY,
-          JSON.stringify(sessionsToSave)
+        // Add the session to its month partition and update the index
+        const { pairs, removals } = await prepareResolvedWrite(
+          result.saved,
+          result.removedIds,
+          getConflictDates(result.conflicts)
         );
+        await AsyncStorage.multiSet(pairs);
+        if (removals.length > 0) {
+          await AsyncStorage.multiRemove(removals);
+        }
+        return result;
       },
       2,
       500
@@ -133,36 +260,65 @@ export const saveSession = async (session: SessionObject): Promise<void> => {
   }
 };
 
+/**
+ * Save several sessions at once (used by import)
+ * @param sessions - Sessions to add to history
+ */
+export const saveSessions = async (
+  sessions: SessionObject[]
+): Promise<void> => {
+  if (sessions.length === 0) {
+    return;
+  }
+
+  try {
+    await retryOperation(
+      async () => {
+        const sessionPairs = await prepareSessionsInsert(sessions);
+        await AsyncStorage.multiSet(sessionPairs);
+      },
+      2,
+      500
+    );
+  } catch (error) {
+    const appError = handleStorageError(error as Error, 'save work sessions');
+    throw new Error(appError.message);
+  }
+};
+
 /**
  * Batch save clock state and session data for better performance
- * Used when clocking out to save both operations atomically
+ * Used when clocking out to save both operations atomically. Nothing is
+ * saved while the session has unresolved overlaps.
  * @param clockState - New clock state to save
  * @param session - Session to add to history
+ * @param resolution - How to handle overlaps (optional)
+ * @returns The saved session, or the conflicts found
  */
 export const batchSaveClockOutData = async (
   clockState: ClockState,
-  session: SessionObject
-): Promise<void> => {
+  session: SessionObject,
+  resolution?: ConflictResolution
+): Promise<SessionSaveResult> => {
   try {
-    await retryOperation(
+    return await retryOperation(
       async () => {
-        // Load existing sessions safely
-        const existingSessions = await safeAsyncOperation(
-          async () => {
-            const sessionsData = await AsyncStorage.getItem(WORK_SESSIONS_KEY);
-            if (sessionsData) {
-              const parsedSessions = JSON.parse(sessionsData);
-              return validateSessionsArray(parsedSessions);
-            }
-            return [];
-          },
-          [],
-          'load existing sessions for batch save'
+        const { pending, ...result } = await prepareSessionSave(
+          session,
+          resolution
         );
+        if (pending) {
+          return result;
+        }
 
-        // Prepare data for batch operation
-        const updatedSessions = [session, ...existingSessions];
-        const sessionsToSave = updatedSessions.slice(0, 50);
+        // Prepare the partition writes for the new session
+        const { pairs: sessionPairs, removals } = result.saved
+          ? await prepareResolvedWrite(
+              result.saved,
+              result.removedIds,
+              getConflictDates(result.conflicts)
+            )
+          : { pairs: [], removals: [] };
 
         const stateToSave = {
           isClocked: clockState.isClocked,
@@ -172,8 +328,12 @@ export const batchSaveClockOutData = async (
         // Use multiSet for atomic batch operation
         await AsyncStorage.multiSet([
           [CLOCK_STATE_KEY, JSON.stringify(stateToSave)],
-          [WORK_SESSIONS_KEY, JSON.stringify(sessionsToSave)],
+          ...sessionPairs,
         ]);
+        if (removals.length > 0) {
+          await AsyncStorage.multiRemove(removals);
+        }
+        return result;
       },
       2,
       500
@@ -192,7 +352,8 @@ export const batchSaveClockOutData = async (
  */
 export const clearStoredData = async (): Promise<void> => {
   try {
-    await AsyncStorage.multiRemove([CLOCK_STATE_KEY, WORK_SESSIONS_KEY]);
+    const sessionKeys = await getAllSessionStorageKeys();
+    await AsyncStorage.multiRemove([CLOCK_STATE_KEY, ...sessionKeys]);
   } catch (error) {
     console.error('Failed to clear stored data:', error);
     throw new Error('Failed to clear stored data');
@@ -208,14 +369,7 @@ export const loadStoredSessions = async (): Promise<SessionObject[]> => {
   try {
     return await timeAsyncOperation('load_stored_sessions', async () => {
       return await safeAsyncOperation(
-        async () => {
-          const sessionsData = await AsyncStorage.getItem(WORK_SESSIONS_KEY);
-          if (sessionsData) {
-            const parsedSessions = JSON.parse(sessionsData);
-            return validateSessionsArray(parsedSessions);
-          }
-          return [];
-        },
+        loadAllSessions,
         [],
         'load sessions only'
       );
@@ -227,43 +381,160 @@ export const loadStoredSessions = async (): Promise<SessionObject[]> => {
 };
 
 /**
- * Delete a specific session by ID
+ * Delete a specific session by ID. The session is moved to the recently
+ * deleted bin so it can be restored later.
  * @param sessionId - ID of the session to delete
+ * @param date - Stored date of the session, so only its month is read
+ * (optional)
+ * @returns The deleted session, or null if it was not found
  */
-export const deleteSession = async (sessionId: string): Promise<void> => {
+export const deleteSession = async (
+  sessionId: string,
+  date?: string
+): Promise<SessionObject | null> => {
   try {
-    await retryOperation(
+    return await retryOperation(
       async () => {
-        // Load existing sessions safely
-        const existingSessions = await safeAsyncOperation(
-          async () => {
-            const sessionsData = await AsyncStorage.getItem(WORK_SESSIONS_KEY);
-            if (sessionsData) {
-              const parsedSessions = JSON.parse(sessionsData);
-              return validateSessionsArray(parsedSessions);
-            }
-            return [];
-          },
+        // Remove the session from whichever partition holds it and add it
+        // to the bin in the same write
+        const { pairs, removals, removed } = await prepareSessionsChange(
           [],
-          'load existing sessions for delete'
+          [sessionId],
+          { storedDates: date ? [date] : [] }
+        );
+        if (removed.length === 0) {
+          return null;
+        }
+
+        await AsyncStorage.multiSet([
+          ...pairs,
+          await prepareDeletedSessionsAdd(removed),
+        ]);
+        if (removals.length > 0) {
+          await AsyncStorage.multiRemove(removals);
+        }
+        return removed[0];
+      },
+      2,
+      500
+    );
+  } catch (error) {
+    const appError = handleStorageError(error as Error, 'delete session');
+    throw new Error(appError.message);
+  }
+};
+
+/**
+ * Restore a session from the recently deleted bin. The session goes back
+ * into its month partition, which keeps sessions in date order.
+ * @param sessionId - ID of the deleted session
+ * @returns The restored session, or null if it is no longer in the bin
+ */
+export const restoreDeletedSession = async (
+  sessionId: string
+): Promise<SessionObject | null> => {
+  try {
+    return await retryOperation(
+      async () => {
+        const entry = (await loadDeletedSessions()).find(
+          (deleted) => deleted.session.id === sessionId
         );
+        if (!entry) {
+          return null;
+        }
 
-        // Filter out the session to delete
-        const updatedSessions = existingSessions.filter(
-          (session) => session.id !== sessionId
+        const sessionPairs = await prepareSessionsInsert([entry.session]);
+        await AsyncStorage.multiSet(sessionPairs);
+        await takeDeletedSessions([sessionId]);
+        return entry.session;
+      },
+      2,
+      500
+    );
+  } catch (error) {
+    const appError = handleStorageError(error as Error, 'restore session');
+    throw new Error(appError.message);
+  }
+};
+
+/**
+ * Update an existing session in place. An edit that makes the session
+ * overlap others is only saved once a resolution is given.
+ * @param session - Updated session object (matched by id)
+ * @param resolution - How to handle overlaps (optional)
+ * @param previousDate - Stored date of the session before the edit, so
+ * only the old and new months are read (optional)
+ * @returns The saved session, or the conflicts found
+ */
+export const updateSession = async (
+  session: SessionObject,
+  resolution?: ConflictResolution,
+  previousDate?: string
+): Promise<SessionSaveResult> => {
+  try {
+    let found = true;
+    const result = await retryOperation(
+      async () => {
+        const { pending, ...prepared } = await prepareSessionSave(
+          session,
+          resolution
         );
+        if (pending || !prepared.saved) {
+          return prepared;
+        }
 
-        // Save the updated sessions array
-        await AsyncStorage.setItem(
-          WORK_SESSIONS_KEY,
-          JSON.stringify(updatedSessions)
+        const { pairs, removals, replaced } = await prepareResolvedWrite(
+          prepared.saved,
+          prepared.removedIds,
+          [
+            ...getConflictDates(prepared.conflicts),
+            ...(previousDate ? [previousDate] : []),
+          ],
+          true
         );
+        found = replaced.length > 0;
+        if (found) {
+          await AsyncStorage.multiSet(pairs);
+          if (removals.length > 0) {
+            await AsyncStorage.multiRemove(removals);
+          }
+        }
+        return prepared;
       },
       2,
       500
     );
+    if (!found) {
+      throw new Error(`Session ${session.id} not found`);
+    }
+    return result;
   } catch (error) {
-    const appError = handleStorageError(error as Error, 'delete session');
+    const appError = handleStorageError(error as Error, 'update session');
+    throw new Error(appError.message);
+  }
+};
+
+/**
+ * Apply the same change to several sessions, e.g. marking them invoiced
+ * @param sessionIds - Ids of the sessions to change
+ * @param changes - Fields to set on each session
+ * @param dates - Stored dates of the sessions, so only their months are
+ * read (optional)
+ * @returns The updated sessions
+ */
+export const patchSessions = async (
+  sessionIds: string[],
+  changes: SessionPatch,
+  dates?: string[]
+): Promise<SessionObject[]> => {
+  try {
+    return await retryOperation(
+      () => patchSessionsInPartitions(sessionIds, changes, dates),
+      2,
+      500
+    );
+  } catch (error) {
+    const appError = handleStorageError(error as Error, 'update sessions');
     throw new Error(appError.message);
   }
 };
@@ -274,4 +545,5 @@ export const deleteSession = async (sessionId: string): Promise<void> => {
 export const getStorageKeys = () => ({
   CLOCK_STATE_KEY,
   WORK_SESSIONS_KEY,
+  WORK_SESSIONS_INDEX_KEY,
 });
@@ -1,74 +1,202 @@
+import { BreakInterval, WeekDay } from '../types';
+import {
+  formatClockTime,
+  getActiveLocale,
+  getCalendarPreferences,
+  getWeekStart,
+} from './calendar';
+
 /**
- * Get date range for this week (Monday to today)
+ * Get date range for this week, from the configured first day of the week
+ * @param weekStartsOn - First day of the week (defaults to the preference)
  * @returns Object with start and end dates for this week
  */
-export const getThisWeekDateRange = (): { startDate: Date; endDate: Date } => {
-  const today = new Date();
-  const firstDayOfWeek = new Date(
-    today.setDate(today.getDate() - today.getDay())
-  ); // Sunday
+export const getThisWeekDateRange = (
+  weekStartsOn: WeekDay = getCalendarPreferences().weekStartsOn
+): { startDate: Date; endDate: Date } => {
+  const firstDayOfWeek = getWeekStart(new Date(), weekStartsOn);
   const lastDayOfWeek = new Date(firstDayOfWeek);
-  lastDayOfWeek.setDate(firstDayOfWeek.getDate() + 6); // Saturday
+  lastDayOfWeek.setDate(firstDayOfWeek.getDate() + 6);
   return { startDate: firstDayOfWeek, endDate: lastDayOfWeek };
 };
 
 /**
- * Calculate hours between two timestamps
+ * Total milliseconds of break time that falls between two timestamps.
+ * Breaks still running (null end) count up to the end time.
+ */
+const getBreakMs = (
+  breaks: BreakInterval[],
+  startMs: number,
+  endMs: number
+): number =>
+  breaks.reduce((total, interval) => {
+    const breakStart = Math.max(new Date(interval.start).getTime(), startMs);
+    const breakEnd = Math.min(
+      interval.end ? new Date(interval.end).getTime() : endMs,
+      endMs
+    );
+    return breakEnd > breakStart ? total + (breakEnd - breakStart) : total;
+  }, 0);
+
+/**
+ * Calculate hours between two timestamps, excluding any breaks
  * @param startTime - ISO 8601 timestamp string
  * @param endTime - ISO 8601 timestamp string
+ * @param breaks - Breaks taken in between (optional)
  * @returns Number of hours worked (rounded to 2 decimal places)
  */
-export const calculateHours = (startTime: string, endTime: string): number => {
+export const calculateHours = (
+  startTime: string,
+  endTime: string,
+  breaks: BreakInterval[] = []
+): number => {
   const start = new Date(startTime);
   const end = new Date(endTime);
-  const diffMs = end.getTime() - start.getTime();
+  const diffMs =
+    end.getTime() -
+    start.getTime() -
+    getBreakMs(breaks, start.getTime(), end.getTime());
   const hours = diffMs / (1000 * 60 * 60);
   return Math.round(hours * 100) / 100;
 };
 
 /**
- * Format timestamp for display
- * @param timestamp - ISO 8601 timestamp string
- * @returns Formatted time string (e.g., "09:30 AM")
+ * Keep only the parts of breaks that fall inside a session
+ * @param breaks - Breaks to clip
+ * @param clockIn - Session start
+ * @param clockOut - Session end
+ * @returns Closed breaks within the session, dropping any left empty
  */
-export const formatTime = (timestamp: string): string => {
-  return new Date(timestamp).toLocaleTimeString('en-US', {
-    hour: '2-digit',
-    minute: '2-digit',
-  });
+export const clipBreaks = (
+  breaks: BreakInterval[],
+  clockIn: Date,
+  clockOut: Date
+): BreakInterval[] =>
+  breaks
+    .map((interval) => {
+      const start = Math.max(
+        new Date(interval.start).getTime(),
+        clockIn.getTime()
+      );
+      const end = Math.min(
+        new Date(interval.end ?? interval.start).getTime(),
+        clockOut.getTime()
+      );
+      return { start, end };
+    })
+    .filter(({ start, end }) => end > start)
+    .map(({ start, end }) => ({
+      start: new Date(start).toISOString(),
+      end: new Date(end).toISOString(),
+    }));
+
+/**
+ * Calculate hours spent on breaks between two timestamps
+ * @param breaks - Breaks taken
+ * @param startTime - ISO 8601 timestamp string
+ * @param endTime - ISO 8601 timestamp string
+ * @returns Break hours (rounded to 2 decimal places)
+ */
+export const calculateBreakHours = (
+  breaks: BreakInterval[],
+  startTime: string,
+  endTime: string
+): number => {
+  const breakMs = getBreakMs(
+    breaks,
+    new Date(startTime).getTime(),
+    new Date(endTime).getTime()
+  );
+  return Math.round((breakMs / (1000 * 60 * 60)) * 100) / 100;
 };
 
 /**
- * Format date for display
+ * Convert a Date to a YYYY-MM-DD string using local time
+ * @param date - Date to convert
+ * @returns Date string in YYYY-MM-DD format
+ */
+export const toLocalDateString = (date: Date): string =>
+  date.getFullYear() +
+  '-' +
+  String(date.getMonth() + 1).padStart(2, '0') +
+  '-' +
+  String(date.getDate()).padStart(2, '0');
+
+/**
+ * Parse a YYYY-MM-DD date string as a local calendar day
+ * (`new Date('YYYY-MM-DD')` would parse it as UTC midnight)
+ * @param dateString - Date string in YYYY-MM-DD format
+ * @returns Date at local midnight of that day
+ */
+export const parseLocalDate = (dateString: string): Date => {
+  const [year, month, day] = dateString.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * Combine a session date with clock in/out times of day. A clock out
+ * earlier in the day than the clock in rolls over to the next day, so
+ * overnight shifts (e.g. 22:00–06:00) belong to the day they started.
+ * @param date - Day the session started
+ * @param clockInTime - Clock in time (only hours and minutes are used)
+ * @param clockOutTime - Clock out time (only hours and minutes are used)
+ * @returns Full clock in/out timestamps and whether the session ends next day
+ */
+export const buildSessionTimes = (
+  date: Date,
+  clockInTime: Date,
+  clockOutTime: Date
+): { clockIn: Date; clockOut: Date; endsNextDay: boolean } => {
+  const clockIn = new Date(date);
+  clockIn.setHours(clockInTime.getHours(), clockInTime.getMinutes(), 0, 0);
+
+  const clockOut = new Date(date);
+  clockOut.setHours(clockOutTime.getHours(), clockOutTime.getMinutes(), 0, 0);
+
+  const endsNextDay = clockOut < clockIn;
+  if (endsNextDay) {
+    clockOut.setDate(clockOut.getDate() + 1);
+  }
+
+  return { clockIn, clockOut, endsNextDay };
+};
+
+/**
+ * Format timestamp for display using the calendar preferences
+ * @param timestamp - ISO 8601 timestamp string
+ * @returns Formatted time string (e.g., "09:30 AM" or "09:30")
+ */
+export const formatTime = (timestamp: string): string =>
+  formatClockTime(new Date(timestamp));
+
+/**
+ * Format date for display in the preferred locale
  * @param dateString - Date string in YYYY-MM-DD format
  * @returns Formatted date string (e.g., "Mon, Jan 1")
  */
-export const formatDate = (dateString: string): string => {
-  return new Date(dateString).toLocaleDateString('en-US', {
+export const formatDate = (dateString: string): string =>
+  parseLocalDate(dateString).toLocaleDateString(getActiveLocale(), {
     weekday: 'short',
     month: 'short',
     day: 'numeric',
-    timeZone: 'UTC',
   });
-};
 
 /**
- * Get date range for last week filter (previous calendar week Monday to Sunday)
+ * Get date range for last week filter (the full calendar week before this
+ * one, starting on the configured first day of the week)
+ * @param weekStartsOn - First day of the week (defaults to the preference)
  * @returns Object with start and end dates for the previous calendar week
  */
-export const getLastWeekDateRange = (): { startDate: Date; endDate: Date } => {
-  const now = new Date();
-  const dayOfWeek = now.getDay(); // 0 (Sun) - 6 (Sat)
+export const getLastWeekDateRange = (
+  weekStartsOn: WeekDay = getCalendarPreferences().weekStartsOn
+): { startDate: Date; endDate: Date } => {
+  const startDate = getWeekStart(new Date(), weekStartsOn);
+  startDate.setDate(startDate.getDate() - 7);
 
-  // Calculate the previous week's Sunday (start of the range)
-  const lastSunday = new Date(now);
-  lastSunday.setDate(now.getDate() - dayOfWeek - 7);
+  const endDate = new Date(startDate);
+  endDate.setDate(startDate.getDate() + 6);
 
-  // Calculate the previous week's Monday (end of the range)
-  const lastMonday = new Date(lastSunday);
-  lastMonday.setDate(lastSunday.getDate() + 6);
-
-  return { startDate: lastSunday, endDate: lastMonday };
+  return { startDate, endDate };
 };
 
 /**
@@ -90,7 +218,9 @@ export const getLastMonthDateRange = (): { startDate: Date; endDate: Date } => {
 };
 
 /**
- * Check if a date string falls within a date range
+ * Check if a date string falls within a date range. Sessions are
+ * attributed to the day they started, so an overnight session is
+ * matched by its start date only.
  * @param dateString - Date string in YYYY-MM-DD format
  * @param startDate - Start date of the range
  * @param endDate - End date of the range
@@ -101,14 +231,8 @@ export const isDateInRange = (
   startDate: Date,
   endDate: Date
 ): boolean => {
-  const date = new Date(dateString);
-
   // Set time to start of day for consistent comparison
-  const dateOnly = new Date(
-    date.getFullYear(),
-    date.getMonth(),
-    date.getDate()
-  );
+  const dateOnly = parseLocalDate(dateString);
   const startOnly = new Date(
     startDate.getFullYear(),
     startDate.getMonth(),
@@ -0,0 +1,72 @@
+// Time zone stamps and day attribution for sessions
+import { ClockState, SessionObject, TimeZoneStamp } from '../types';
+import { toLocalDateString } from './timeUtils';
+
+/**
+ * IANA time zone the device is set to, e.g. "Europe/Berlin"
+ * @returns Time zone name, or "UTC" when the runtime can't tell
+ */
+export const getDeviceTimeZone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+/**
+ * Offset of the device's local time from UTC at a given moment
+ * @param date - Moment to get the offset for (DST aware)
+ * @returns Minutes east of UTC, e.g. -300 for New York in winter
+ */
+export const getUtcOffset = (date: Date): number =>
+  -date.getTimezoneOffset() || 0;
+
+/**
+ * Record where the device was at a given moment
+ * @param date - Moment to stamp, usually the clock-in time
+ * @returns Time zone name and UTC offset at that moment
+ */
+export const getTimeZoneStamp = (date: Date): TimeZoneStamp => ({
+  timeZone: getDeviceTimeZone(),
+  utcOffset: getUtcOffset(date),
+});
+
+/**
+ * Day a session is attributed to: the wall-clock date at clock-in in the
+ * time zone the session started in. Every place that assigns
+ * `SessionObject.date` goes through here so sessions near midnight don't
+ * move to another day after travelling.
+ * @param clockIn - Clock-in time, ISO 8601 timestamp or Date
+ * @param utcOffset - Minutes east of UTC at clock-in; the device's local
+ *   time is used when unknown
+ * @returns Date string in YYYY-MM-DD format
+ */
+export const getSessionDate = (
+  clockIn: string | Date,
+  utcOffset?: number
+): string => {
+  const instant = new Date(clockIn);
+  if (utcOffset === undefined) {
+    return toLocalDateString(instant);
+  }
+  return new Date(instant.getTime() + utcOffset * 60 * 1000)
+    .toISOString()
+    .slice(0, 10);
+};
+
+/**
+ * Add the device's time zone to a session that was recorded without one.
+ * The stored date is kept: it was already the local day at the time.
+ * @param session - Session to stamp
+ * @returns The session with timeZone and utcOffset set
+ */
+export const withDeviceTimeZone = (session: SessionObject): SessionObject =>
+  session.timeZone !== undefined && session.utcOffset !== undefined
+    ? session
+    : { ...session, ...getTimeZoneStamp(new Date(session.clockIn)) };
+
+/**
+ * Time zone a stored clock-in was made from
+ * @param clockState - Stored clock state
+ * @returns The stamp, or null when the clock-in predates time zone tracking
+ */
+export const getClockInZone = (clockState: ClockState): TimeZoneStamp | null =>
+  clockState.timeZone !== undefined && clockState.utcOffset !== undefined
+    ? { timeZone: clockState.timeZone, utcOffset: clockState.utcOffset }
+    : null;
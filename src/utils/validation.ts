@@ -1,5 +1,75 @@
 // Data validation utilities
-import { ClockState, SessionObject } from '../types';
+import {
+  BreakInterval,
+  CalendarPreferences,
+  ClockState,
+  HourGoals,
+  HourlyRate,
+  Invoice,
+  LeavePolicy,
+  OvertimeRules,
+  Project,
+  RateHistoryEntry,
+  ReminderSettings,
+  SessionObject,
+} from '../types';
+import { isValidCurrencyCode } from './currency';
+
+/**
+ * Validate a list of break intervals
+ * @param breaks - Raw breaks array
+ * @param allowOpenBreak - Whether the last break may still be running
+ * @returns True if every break has a valid start and an end after it
+ */
+export const validateBreaks = (
+  breaks: any,
+  allowOpenBreak = false
+): breaks is BreakInterval[] => {
+  if (!Array.isArray(breaks)) {
+    return false;
+  }
+
+  return breaks.every((interval, index) => {
+    if (!interval || typeof interval.start !== 'string') {
+      return false;
+    }
+    const start = new Date(interval.start);
+    if (isNaN(start.getTime())) {
+      return false;
+    }
+
+    if (interval.end === null) {
+      return allowOpenBreak && index === breaks.length - 1;
+    }
+    if (typeof interval.end !== 'string') {
+      return false;
+    }
+    const end = new Date(interval.end);
+    return !isNaN(end.getTime()) && end >= start;
+  });
+};
+
+/**
+ * Validate an optional time zone stamp (IANA name plus UTC offset)
+ * @param timeZone - Raw time zone name
+ * @param utcOffset - Raw offset in minutes east of UTC
+ * @returns True if both are absent, or both are present and well formed
+ */
+export const validateTimeZoneStamp = (
+  timeZone: any,
+  utcOffset: any
+): boolean => {
+  if (timeZone === undefined && utcOffset === undefined) {
+    return true;
+  }
+
+  return (
+    typeof timeZone === 'string' &&
+    timeZone.trim() !== '' &&
+    Number.isInteger(utcOffset) &&
+    Math.abs(utcOffset) <= 14 * 60
+  );
+};
 
 /**
  * Validate and sanitize clock state data
@@ -38,10 +108,31 @@ export const validateClockState = (state: any): ClockState => {
     }
   }
 
-  return {
+  const validState: ClockState = {
     isClocked: state.isClocked,
     clockInTime: state.clockInTime,
   };
+
+  // Project is optional; drop it if it is malformed
+  if (typeof state.projectId === 'string' && state.projectId.trim()) {
+    validState.projectId = state.projectId;
+  }
+
+  // Breaks are optional; drop the list if it is malformed
+  if (state.breaks !== undefined && validateBreaks(state.breaks, true)) {
+    validState.breaks = state.breaks;
+  }
+
+  // Time zone is optional for clock-ins saved before it was recorded
+  if (
+    state.timeZone !== undefined &&
+    validateTimeZoneStamp(state.timeZone, state.utcOffset)
+  ) {
+    validState.timeZone = state.timeZone;
+    validState.utcOffset = state.utcOffset;
+  }
+
+  return validState;
 };
 
 /**
@@ -76,6 +167,66 @@ export const validateSessionData = (session: any): boolean => {
     return false;
   }
 
+  // Project is optional so sessions saved before projects existed still load
+  if (
+    session.projectId !== undefined &&
+    session.projectId !== null &&
+    typeof session.projectId !== 'string'
+  ) {
+    return false;
+  }
+
+  // Breaks are optional; saved sessions must not contain a running break
+  if (session.breaks !== undefined && !validateBreaks(session.breaks)) {
+    return false;
+  }
+
+  // Time zone is optional until older sessions are migrated
+  if (!validateTimeZoneStamp(session.timeZone, session.utcOffset)) {
+    return false;
+  }
+
+  // Set once the session has been billed on an invoice
+  if (
+    session.invoiceId !== undefined &&
+    typeof session.invoiceId !== 'string'
+  ) {
+    return false;
+  }
+
+  if (
+    session.billingStatus !== undefined &&
+    !['unbilled', 'billed', 'paid'].includes(session.billingStatus)
+  ) {
+    return false;
+  }
+
+  if (session.note !== undefined && typeof session.note !== 'string') {
+    return false;
+  }
+
+  if (
+    session.tags !== undefined &&
+    (!Array.isArray(session.tags) ||
+      !session.tags.every((tag: unknown) => typeof tag === 'string'))
+  ) {
+    return false;
+  }
+
+  // Unset for worked time and sessions saved before leave was tracked
+  if (
+    session.entryType !== undefined &&
+    !['work', 'vacation', 'sick', 'holiday', 'unpaidLeave'].includes(
+      session.entryType
+    )
+  ) {
+    return false;
+  }
+
+  if (session.fullDay !== undefined && typeof session.fullDay !== 'boolean') {
+    return false;
+  }
+
   // Validate date format (YYYY-MM-DD)
   const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
   if (!dateRegex.test(session.date)) {
@@ -108,5 +259,312 @@ export const validateSessionsArray = (sessions: any): SessionObject[] => {
     return [];
   }
 
-  return sessions.filter(validateSessionData);
+  return sessions
+    .filter(validateSessionData)
+    .map((session: SessionObject & { projectId?: string | null }) => {
+      if (session.projectId === null || session.projectId === '') {
+        const { projectId: _, ...rest } = session;
+        return rest;
+      }
+      return session;
+    });
+};
+
+/**
+ * Validate project data object
+ * @param project - Project object to validate
+ * @returns True if project is valid, false otherwise
+ */
+export const validateProject = (project: any): boolean => {
+  if (!project || typeof project !== 'object') {
+    return false;
+  }
+
+  if (typeof project.id !== 'string' || !project.id.trim()) {
+    return false;
+  }
+
+  if (typeof project.name !== 'string' || !project.name.trim()) {
+    return false;
+  }
+
+  if (
+    typeof project.color !== 'string' ||
+    !/^#[0-9a-fA-F]{6}$/.test(project.color)
+  ) {
+    return false;
+  }
+
+  if (project.client !== undefined && typeof project.client !== 'string') {
+    return false;
+  }
+
+  if (
+    project.hourlyRate !== undefined &&
+    (typeof project.hourlyRate !== 'number' ||
+      isNaN(project.hourlyRate) ||
+      project.hourlyRate < 0)
+  ) {
+    return false;
+  }
+
+  if (
+    project.currency !== undefined &&
+    !isValidCurrencyCode(project.currency)
+  ) {
+    return false;
+  }
+
+  return typeof project.createdAt === 'string';
+};
+
+/**
+ * Validate array of projects
+ * @param projects - Array of project objects
+ * @returns Array of valid projects (filters out invalid ones)
+ */
+export const validateProjectsArray = (projects: any): Project[] => {
+  if (!Array.isArray(projects)) {
+    return [];
+  }
+
+  return projects.filter(validateProject);
+};
+
+/**
+ * Validate stored calendar preferences
+ * @param preferences - Preferences object to validate
+ * @returns True if week start, locale and clock format are all usable
+ */
+export const validateCalendarPreferences = (
+  preferences: any
+): preferences is CalendarPreferences => {
+  if (!preferences || typeof preferences !== 'object') {
+    return false;
+  }
+
+  if (
+    !Number.isInteger(preferences.weekStartsOn) ||
+    preferences.weekStartsOn < 0 ||
+    preferences.weekStartsOn > 6
+  ) {
+    return false;
+  }
+
+  if (preferences.locale !== null) {
+    if (typeof preferences.locale !== 'string') {
+      return false;
+    }
+    try {
+      // Throws a RangeError for malformed language tags
+      Intl.getCanonicalLocales(preferences.locale);
+    } catch {
+      return false;
+    }
+  }
+
+  return typeof preferences.use24HourClock === 'boolean';
+};
+
+/**
+ * Validate overtime rules
+ * @param rules - Rules object to validate
+ * @returns True if thresholds are positive (or null), double time starts
+ *   after overtime, and multipliers are at least 1
+ */
+export const validateOvertimeRules = (rules: any): rules is OvertimeRules => {
+  if (!rules || typeof rules !== 'object') {
+    return false;
+  }
+
+  if (typeof rules.enabled !== 'boolean') {
+    return false;
+  }
+
+  const isThreshold = (value: any) =>
+    value === null ||
+    (typeof value === 'number' && isFinite(value) && value > 0);
+
+  const thresholdPairs = [
+    [rules.dailyThreshold, rules.dailyDoubleTimeThreshold],
+    [rules.weeklyThreshold, rules.weeklyDoubleTimeThreshold],
+  ];
+  for (const [overtime, doubleTime] of thresholdPairs) {
+    if (!isThreshold(overtime) || !isThreshold(doubleTime)) {
+      return false;
+    }
+    if (overtime !== null && doubleTime !== null && doubleTime <= overtime) {
+      return false;
+    }
+  }
+
+  const isMultiplier = (value: any) =>
+    typeof value === 'number' && isFinite(value) && value >= 1;
+
+  return (
+    isMultiplier(rules.overtimeMultiplier) &&
+    isMultiplier(rules.doubleTimeMultiplier) &&
+    rules.doubleTimeMultiplier >= rules.overtimeMultiplier
+  );
+};
+
+/**
+ * Validate the default hourly rate
+ * @param rate - Rate object to validate
+ * @returns True if the amount is a non-negative number in a known currency
+ */
+export const validateHourlyRate = (rate: any): rate is HourlyRate =>
+  !!rate &&
+  typeof rate === 'object' &&
+  typeof rate.amount === 'number' &&
+  isFinite(rate.amount) &&
+  rate.amount >= 0 &&
+  isValidCurrencyCode(rate.currency);
+
+/**
+ * Validate an effective-dated rate entry
+ * @param entry - Entry to validate
+ * @returns True if it is a valid rate with an id and a YYYY-MM-DD start day
+ */
+export const validateRateHistoryEntry = (
+  entry: any
+): entry is RateHistoryEntry => {
+  if (!validateHourlyRate(entry)) {
+    return false;
+  }
+
+  const { id, effectiveFrom } = entry as any;
+  return (
+    typeof id === 'string' &&
+    !!id.trim() &&
+    typeof effectiveFrom === 'string' &&
+    /^\d{4}-\d{2}-\d{2}$/.test(effectiveFrom)
+  );
+};
+
+/**
+ * Validate a stored invoice
+ * @param invoice - Invoice to validate
+ * @returns True if it has a number, a known currency, line items and totals
+ */
+export const validateInvoice = (invoice: any): invoice is Invoice => {
+  if (!invoice || typeof invoice !== 'object') {
+    return false;
+  }
+
+  const amounts = [
+    invoice.subtotal,
+    invoice.taxRate,
+    invoice.tax,
+    invoice.total,
+  ];
+  return (
+    typeof invoice.id === 'string' &&
+    typeof invoice.number === 'string' &&
+    typeof invoice.issuedAt === 'string' &&
+    !isNaN(new Date(invoice.issuedAt).getTime()) &&
+    (invoice.grouping === 'day' || invoice.grouping === 'project') &&
+    isValidCurrencyCode(invoice.currency) &&
+    Array.isArray(invoice.lineItems) &&
+    invoice.lineItems.every(
+      (line: any) =>
+        line &&
+        typeof line.description === 'string' &&
+        typeof line.amount === 'number' &&
+        Array.isArray(line.sessionIds)
+    ) &&
+    amounts.every((amount) => typeof amount === 'number' && isFinite(amount))
+  );
+};
+
+/**
+ * Validate the hours after which a running clock-in counts as forgotten
+ * @param hours - Threshold to validate
+ * @returns True for a whole or fractional number of hours from 1 to 72
+ */
+export const validateStaleClockInHours = (hours: any): hours is number =>
+  typeof hours === 'number' && isFinite(hours) && hours >= 1 && hours <= 72;
+
+// Minutes after midnight
+const isTimeOfDay = (minutes: any): boolean =>
+  Number.isInteger(minutes) && minutes >= 0 && minutes < 24 * 60;
+
+/**
+ * Validate reminder settings
+ * @param settings - Raw settings object
+ * @returns True if the days, times and nudge hours are in range
+ */
+export const validateReminderSettings = (
+  settings: any
+): settings is ReminderSettings => {
+  if (!settings || typeof settings !== 'object') {
+    return false;
+  }
+
+  if (
+    !Array.isArray(settings.workDays) ||
+    !settings.workDays.every(
+      (day: any) => Number.isInteger(day) && day >= 0 && day <= 6
+    )
+  ) {
+    return false;
+  }
+
+  if (
+    typeof settings.clockInReminderEnabled !== 'boolean' ||
+    typeof settings.longSessionReminderEnabled !== 'boolean' ||
+    typeof settings.endOfDayReminderEnabled !== 'boolean'
+  ) {
+    return false;
+  }
+
+  if (
+    !isTimeOfDay(settings.clockInReminderTime) ||
+    !isTimeOfDay(settings.endOfDayReminderTime)
+  ) {
+    return false;
+  }
+
+  return (
+    typeof settings.longSessionReminderHours === 'number' &&
+    isFinite(settings.longSessionReminderHours) &&
+    settings.longSessionReminderHours >= 1 &&
+    settings.longSessionReminderHours <= 24
+  );
 };
+
+// Positive hours up to a maximum, or null for no goal
+const isGoalHours = (hours: any, max: number): boolean =>
+  hours === null ||
+  (typeof hours === 'number' && isFinite(hours) && hours > 0 && hours <= max);
+
+/**
+ * Validate hour goals
+ * @param goals - Raw goals object
+ * @returns True if each goal is off or fits in a day or week
+ */
+export const validateHourGoals = (goals: any): goals is HourGoals =>
+  !!goals &&
+  typeof goals === 'object' &&
+  isGoalHours(goals.dailyHours, 24) &&
+  isGoalHours(goals.weeklyHours, 24 * 7) &&
+  typeof goals.notifyWhenReached === 'boolean';
+
+/**
+ * Validate a leave policy
+ * @param policy - Raw policy object
+ * @returns True if a day is up to 24 hours and accrual is 0 to 1 hour per hour worked
+ */
+export const validateLeavePolicy = (policy: any): policy is LeavePolicy =>
+  !!policy &&
+  typeof policy === 'object' &&
+  typeof policy.standardDayHours === 'number' &&
+  isFinite(policy.standardDayHours) &&
+  policy.standardDayHours > 0 &&
+  policy.standardDayHours <= 24 &&
+  typeof policy.accrualRate === 'number' &&
+  isFinite(policy.accrualRate) &&
+  policy.accrualRate >= 0 &&
+  policy.accrualRate <= 1 &&
+  typeof policy.openingBalance === 'number' &&
+  isFinite(policy.openingBalance);